@@ -1,5 +1,6 @@
+import { Gradient, GradientUtil } from 'app/modules/editor/model/gradients';
 import { Command } from 'app/modules/editor/model/paths';
-import { MathUtil, Matrix, Point } from 'app/modules/editor/scripts/common';
+import { ColorUtil, MathUtil, Matrix, Point } from 'app/modules/editor/scripts/common';
 
 type Context = CanvasRenderingContext2D;
 
@@ -55,3 +56,18 @@ export function executeCommands(ctx: Context, commands: ReadonlyArray<Command>,
   });
   ctx.restore();
 }
+
+/**
+ * Creates a canvas gradient for a gradient defined in a layer's coordinate space.
+ */
+export function createGradient(ctx: Context, gradient: Gradient, transform: Matrix, alpha = 1) {
+  const g = GradientUtil.toClampedGradient(GradientUtil.transform(gradient, transform));
+  const canvasGradient =
+    g.type === 'radial'
+      ? ctx.createRadialGradient(g.centerX, g.centerY, 0, g.centerX, g.centerY, g.radius)
+      : ctx.createLinearGradient(g.startX, g.startY, g.endX, g.endY);
+  g.stops.forEach(({ offset, color }) => {
+    canvasGradient.addColorStop(offset, ColorUtil.androidToCssRgbaColor(color, alpha));
+  });
+  return canvasGradient;
+}
@@ -182,9 +182,13 @@ export class CanvasLayersDirective extends CanvasLayoutMixin(DestroyableMixin())
     CanvasUtil.executeCommands(ctx, layer.pathData.getCommands(), layerToCanvasMatrix);
 
     const strokeWidthMultiplier = canvasToLayerMatrix.getScaleFactor();
-    ctx.strokeStyle = ColorUtil.androidToCssRgbaColor(layer.strokeColor, layer.strokeAlpha);
+    ctx.strokeStyle = layer.strokeGradient
+      ? CanvasUtil.createGradient(ctx, layer.strokeGradient, layerToCanvasMatrix, layer.strokeAlpha)
+      : ColorUtil.androidToCssRgbaColor(layer.strokeColor, layer.strokeAlpha);
     ctx.lineWidth = layer.strokeWidth * strokeWidthMultiplier;
-    ctx.fillStyle = ColorUtil.androidToCssRgbaColor(layer.fillColor, layer.fillAlpha);
+    ctx.fillStyle = layer.fillGradient
+      ? CanvasUtil.createGradient(ctx, layer.fillGradient, layerToCanvasMatrix, layer.fillAlpha)
+      : ColorUtil.androidToCssRgbaColor(layer.fillColor, layer.fillAlpha);
     ctx.lineCap = layer.strokeLinecap;
     ctx.lineJoin = layer.strokeLinejoin;
     ctx.miterLimit = layer.strokeMiterLimit;
@@ -220,6 +224,10 @@ export class CanvasLayersDirective extends CanvasLayoutMixin(DestroyableMixin())
       );
       ctx.setLineDash(strokeDashArray);
       ctx.lineDashOffset = strokeDashOffset;
+    } else if (layer.strokeDashArray) {
+      // Dash lengths are specified in path coordinates, just like the stroke width.
+      ctx.setLineDash(layer.strokeDashArray.map(d => d * strokeWidthMultiplier));
+      ctx.lineDashOffset = layer.strokeDashOffset * strokeWidthMultiplier;
     } else {
       ctx.setLineDash([]);
     }
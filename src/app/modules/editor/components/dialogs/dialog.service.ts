@@ -6,7 +6,20 @@ import {
   DropFilesAction,
   DropFilesDialogComponent,
 } from 'app/modules/editor/components/dialogs/dropfilesdialog.component';
+import { RasterExportDialogComponent } from 'app/modules/editor/components/dialogs/rasterexportdialog.component';
+import {
+  SimplifyPathDialogComponent,
+  SimplifyPathDialogData,
+} from 'app/modules/editor/components/dialogs/simplifypathdialog.component';
+import {
+  StateListDialogComponent,
+  StateListDialogData,
+} from 'app/modules/editor/components/dialogs/statelistdialog.component';
+import { VideoExportDialogComponent } from 'app/modules/editor/components/dialogs/videoexportdialog.component';
+import { StateList } from 'app/modules/editor/model/statelist';
+import { PathSimplifier } from 'app/modules/editor/scripts/algorithms';
 import { DemoInfo } from 'app/modules/editor/scripts/demos';
+import { RasterSerializer, VideoSerializer } from 'app/modules/editor/scripts/export';
 import { Observable } from 'rxjs';
 
 @Injectable({ providedIn: 'root' })
@@ -26,4 +39,32 @@ export class DialogService {
   dropFiles(): Observable<DropFilesAction> {
     return this.dialog.open(DropFilesDialogComponent, new MatDialogConfig()).afterClosed();
   }
+
+  exportRaster(
+    defaultOptions: RasterSerializer.RasterOptions,
+  ): Observable<RasterSerializer.RasterOptions> {
+    const config = new MatDialogConfig();
+    config.data = defaultOptions;
+    return this.dialog.open(RasterExportDialogComponent, config).afterClosed();
+  }
+
+  editStateList(data: StateListDialogData): Observable<StateList> {
+    const config = new MatDialogConfig();
+    config.data = data;
+    return this.dialog.open(StateListDialogComponent, config).afterClosed();
+  }
+
+  simplifyPath(data: SimplifyPathDialogData): Observable<PathSimplifier.SimplifyOptions> {
+    const config = new MatDialogConfig();
+    config.data = data;
+    return this.dialog.open(SimplifyPathDialogComponent, config).afterClosed();
+  }
+
+  exportVideo(
+    defaultOptions: VideoSerializer.VideoOptions,
+  ): Observable<VideoSerializer.VideoOptions> {
+    const config = new MatDialogConfig();
+    config.data = defaultOptions;
+    return this.dialog.open(VideoExportDialogComponent, config).afterClosed();
+  }
 }
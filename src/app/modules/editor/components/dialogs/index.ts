@@ -1,4 +1,11 @@
 export { ConfirmDialogComponent } from './confirmdialog.component';
 export { DemoDialogComponent } from './demodialog.component';
 export { DropFilesDialogComponent, DropFilesAction } from './dropfilesdialog.component';
+export { RasterExportDialogComponent } from './rasterexportdialog.component';
+export {
+  SimplifyPathDialogComponent,
+  SimplifyPathDialogData,
+} from './simplifypathdialog.component';
+export { StateListDialogComponent, StateListDialogData } from './statelistdialog.component';
+export { VideoExportDialogComponent } from './videoexportdialog.component';
 export { DialogService } from './dialog.service';
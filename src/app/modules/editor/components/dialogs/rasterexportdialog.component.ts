@@ -0,0 +1,69 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material';
+import { ColorUtil } from 'app/modules/editor/scripts/common';
+import { RasterSerializer } from 'app/modules/editor/scripts/export';
+
+@Component({
+  selector: 'app-rasterexportdialog',
+  template: `
+  <span matDialogTitle>Export animated image</span>
+  <mat-dialog-content>
+    <mat-radio-group class="dialog-radio-group" [(ngModel)]="this.options.format">
+      <mat-radio-button class="dialog-radio-button"
+        *ngFor="let format of this.formats" [value]="format.format">
+        {{ format.label }}
+      </mat-radio-button>
+    </mat-radio-group>
+    <div class="dialog-input-row">
+      <mat-form-field>
+        <input matInput type="number" min="1" placeholder="Width" [(ngModel)]="this.options.width">
+      </mat-form-field>
+      <mat-form-field>
+        <input matInput type="number" min="1" placeholder="Height" [(ngModel)]="this.options.height">
+      </mat-form-field>
+    </div>
+    <div class="dialog-input-row">
+      <mat-form-field>
+        <input matInput type="number" min="1" max="60" placeholder="Frames per second" [(ngModel)]="this.options.fps">
+      </mat-form-field>
+      <mat-form-field>
+        <input matInput type="number" min="0" placeholder="Loop count (0 = forever)" [(ngModel)]="this.options.loopCount">
+      </mat-form-field>
+    </div>
+    <mat-form-field class="dialog-input-full">
+      <input matInput placeholder="Background color (empty = transparent)" [(ngModel)]="this.options.backgroundColor">
+    </mat-form-field>
+  </mat-dialog-content>
+  <mat-dialog-actions fxLayout="row">
+    <!-- The ordering here matters (it ensures that 'OK' gets focus first). -->
+    <span fxFlex></span>
+    <button fxFlexOrder="2" mat-button [disabled]="!this.isValid()" (click)="this.dialogRef.close(this.options)">Export</button>
+    <button fxFlexOrder="1" mat-button matDialogClose>Cancel</button>
+  </mat-dialog-actions>`,
+  styleUrls: ['./rasterexportdialog.component.scss'],
+})
+export class RasterExportDialogComponent {
+  readonly formats = RasterSerializer.RASTER_FORMATS;
+  readonly options: {
+    -readonly [K in keyof RasterSerializer.RasterOptions]: RasterSerializer.RasterOptions[K]
+  };
+
+  constructor(
+    readonly dialogRef: MatDialogRef<RasterExportDialogComponent>,
+    @Inject(MAT_DIALOG_DATA) data: RasterSerializer.RasterOptions,
+  ) {
+    this.options = { ...data };
+  }
+
+  isValid() {
+    const { width, height, fps, loopCount, backgroundColor } = this.options;
+    return (
+      width >= 1 &&
+      height >= 1 &&
+      fps >= 1 &&
+      fps <= 60 &&
+      loopCount >= 0 &&
+      (!backgroundColor || !!ColorUtil.parseAndroidColor(backgroundColor))
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material';
+import { Path } from 'app/modules/editor/model/paths';
+import { PathSimplifier } from 'app/modules/editor/scripts/algorithms';
+
+export interface SimplifyPathDialogData {
+  readonly pathData: Path;
+  readonly options: PathSimplifier.SimplifyOptions;
+}
+
+@Component({
+  selector: 'app-simplifypathdialog',
+  template: `
+  <span matDialogTitle>Simplify path</span>
+  <mat-dialog-content>
+    <mat-form-field class="dialog-input-full">
+      <input matInput type="number" min="0" step="0.1" placeholder="Tolerance"
+        [ngModel]="this.options.tolerance"
+        (ngModelChange)="this.onOptionsChange({ tolerance: $event })">
+    </mat-form-field>
+    <mat-slide-toggle
+      [ngModel]="this.options.preserveCorners"
+      (ngModelChange)="this.onOptionsChange({ preserveCorners: $event })">
+      Preserve corners
+    </mat-slide-toggle>
+    <div class="dialog-preview">
+      {{ this.originalCommandCount }} commands &rarr; {{ this.simplifiedCommandCount }} commands
+    </div>
+  </mat-dialog-content>
+  <mat-dialog-actions fxLayout="row">
+    <!-- The ordering here matters (it ensures that 'OK' gets focus first). -->
+    <span fxFlex></span>
+    <button fxFlexOrder="2" mat-button [disabled]="!this.isValid()" (click)="this.dialogRef.close(this.options)">Simplify</button>
+    <button fxFlexOrder="1" mat-button matDialogClose>Cancel</button>
+  </mat-dialog-actions>`,
+  styleUrls: ['./simplifypathdialog.component.scss'],
+})
+export class SimplifyPathDialogComponent {
+  private readonly pathData: Path;
+  readonly originalCommandCount: number;
+  options: PathSimplifier.SimplifyOptions;
+  simplifiedCommandCount: number;
+
+  constructor(
+    readonly dialogRef: MatDialogRef<SimplifyPathDialogComponent>,
+    @Inject(MAT_DIALOG_DATA) data: SimplifyPathDialogData,
+  ) {
+    this.pathData = data.pathData;
+    this.originalCommandCount = this.pathData.getCommands().length;
+    this.onOptionsChange(data.options);
+  }
+
+  onOptionsChange(options: Partial<PathSimplifier.SimplifyOptions>) {
+    this.options = { ...this.options, ...options };
+    this.simplifiedCommandCount = this.isValid()
+      ? PathSimplifier.simplify(this.pathData, this.options).getCommands().length
+      : this.originalCommandCount;
+  }
+
+  isValid() {
+    return this.options.tolerance > 0;
+  }
+}
@@ -0,0 +1,172 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material';
+import { VectorLayer } from 'app/modules/editor/model/layers';
+import { StateList, StateListUtil, StateTransition } from 'app/modules/editor/model/statelist';
+import { Animation } from 'app/modules/editor/model/timeline';
+import * as _ from 'lodash';
+
+export interface StateListDialogData {
+  readonly stateList: StateList;
+  readonly animations: ReadonlyArray<Animation>;
+  // The vector layer at the current time in the timeline, used to snapshot new states.
+  readonly currentVectorLayer: VectorLayer;
+}
+
+// A state whose attributes are being edited as a string.
+interface EditableState {
+  readonly id: string;
+  name: string;
+  attributes: string;
+  vectorLayer: VectorLayer;
+}
+
+type EditableTransition = { -readonly [K in keyof StateTransition]: StateTransition[K] };
+
+@Component({
+  selector: 'app-statelistdialog',
+  template: `
+  <span matDialogTitle>Animated selector states</span>
+  <mat-dialog-content>
+    <div class="dialog-section-title">States</div>
+    <div class="dialog-empty" *ngIf="!this.states.length">
+      Scrub the timeline to a frame and add it as a state
+    </div>
+    <div class="dialog-input-row" *ngFor="let state of this.states; trackBy: trackByIdFn">
+      <mat-form-field>
+        <input matInput placeholder="Name" [(ngModel)]="state.name">
+      </mat-form-field>
+      <mat-form-field>
+        <input matInput placeholder="Attributes (e.g. checked, !enabled)" [(ngModel)]="state.attributes">
+      </mat-form-field>
+      <button mat-icon-button
+        matTooltip="Snapshot current frame"
+        (click)="this.onSnapshotStateClick(state)">
+        <mat-icon>photo_camera</mat-icon>
+      </button>
+      <button mat-icon-button
+        matTooltip="Remove state"
+        (click)="this.onRemoveStateClick(state)">
+        <mat-icon>delete</mat-icon>
+      </button>
+    </div>
+    <button mat-button (click)="this.onAddStateClick()">Add current frame</button>
+    <div class="dialog-section-title">Transitions</div>
+    <div class="dialog-input-row" *ngFor="let transition of this.transitions; trackBy: trackByIdFn">
+      <mat-form-field>
+        <mat-select placeholder="From" [(ngModel)]="transition.fromStateId">
+          <mat-option *ngFor="let state of this.states" [value]="state.id">{{ state.name }}</mat-option>
+        </mat-select>
+      </mat-form-field>
+      <mat-form-field>
+        <mat-select placeholder="To" [(ngModel)]="transition.toStateId">
+          <mat-option *ngFor="let state of this.states" [value]="state.id">{{ state.name }}</mat-option>
+        </mat-select>
+      </mat-form-field>
+      <mat-form-field>
+        <mat-select placeholder="Animation" [(ngModel)]="transition.animationId">
+          <mat-option *ngFor="let anim of this.animations" [value]="anim.id">{{ anim.name }}</mat-option>
+        </mat-select>
+      </mat-form-field>
+      <mat-slide-toggle [(ngModel)]="transition.reversible">Reversible</mat-slide-toggle>
+      <button mat-icon-button
+        matTooltip="Remove transition"
+        (click)="this.onRemoveTransitionClick(transition)">
+        <mat-icon>delete</mat-icon>
+      </button>
+    </div>
+    <button mat-button
+      [disabled]="this.states.length < 2"
+      (click)="this.onAddTransitionClick()">
+      Add transition
+    </button>
+  </mat-dialog-content>
+  <mat-dialog-actions fxLayout="row">
+    <!-- The ordering here matters (it ensures that 'OK' gets focus first). -->
+    <span fxFlex></span>
+    <button fxFlexOrder="2" mat-button [disabled]="!this.isValid()" (click)="this.onSaveClick()">Save</button>
+    <button fxFlexOrder="1" mat-button matDialogClose>Cancel</button>
+  </mat-dialog-actions>`,
+  styleUrls: ['./statelistdialog.component.scss'],
+})
+export class StateListDialogComponent {
+  readonly animations: ReadonlyArray<Animation>;
+  states: EditableState[];
+  transitions: EditableTransition[];
+
+  constructor(
+    readonly dialogRef: MatDialogRef<StateListDialogComponent>,
+    @Inject(MAT_DIALOG_DATA) private readonly data: StateListDialogData,
+  ) {
+    const { stateList, animations } = data;
+    this.animations = animations;
+    this.states = stateList.states.map(({ id, name, attributes, vectorLayer }) => {
+      return { id, name, attributes: StateListUtil.formatAttributes(attributes), vectorLayer };
+    });
+    this.transitions = StateListUtil.removeInvalidTransitions(
+      stateList,
+      animations.map(a => a.id),
+    ).transitions.map(t => ({ ...t }));
+  }
+
+  onAddStateClick() {
+    const name = `state${this.states.length + 1}`;
+    const vectorLayer = this.data.currentVectorLayer;
+    this.states = [...this.states, { id: _.uniqueId(), name, attributes: '', vectorLayer }];
+  }
+
+  onSnapshotStateClick(state: EditableState) {
+    state.vectorLayer = this.data.currentVectorLayer;
+  }
+
+  onRemoveStateClick(state: EditableState) {
+    this.states = this.states.filter(s => s !== state);
+    this.transitions = this.transitions.filter(
+      t => t.fromStateId !== state.id && t.toStateId !== state.id,
+    );
+  }
+
+  onAddTransitionClick() {
+    const [fromState, toState] = this.states;
+    const transition: EditableTransition = {
+      id: _.uniqueId(),
+      fromStateId: fromState.id,
+      toStateId: toState.id,
+      animationId: this.animations[0].id,
+      reversible: false,
+    };
+    this.transitions = [...this.transitions, transition];
+  }
+
+  onRemoveTransitionClick(transition: EditableTransition) {
+    this.transitions = this.transitions.filter(t => t !== transition);
+  }
+
+  isValid() {
+    const names = this.states.map(s => StateListUtil.toResourceName(s.name));
+    return (
+      this.states.every(s => !!s.name.trim() && !!StateListUtil.parseAttributes(s.attributes)) &&
+      _.uniq(names).length === names.length &&
+      this.transitions.every(t => t.fromStateId !== t.toStateId)
+    );
+  }
+
+  onSaveClick() {
+    const stateList = new StateList({
+      states: this.states.map(({ id, name, attributes, vectorLayer }) => {
+        return {
+          id,
+          name: name.trim(),
+          attributes: StateListUtil.parseAttributes(attributes),
+          vectorLayer,
+        };
+      }),
+      transitions: this.transitions,
+    });
+    this.dialogRef.close(stateList);
+  }
+
+  // Used by *ngFor loop.
+  trackByIdFn(index: number, obj: { id: string }) {
+    return obj.id;
+  }
+}
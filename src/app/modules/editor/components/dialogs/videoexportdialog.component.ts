@@ -0,0 +1,53 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material';
+import { ColorUtil } from 'app/modules/editor/scripts/common';
+import { VideoSerializer } from 'app/modules/editor/scripts/export';
+
+@Component({
+  selector: 'app-videoexportdialog',
+  template: `
+  <span matDialogTitle>Export video</span>
+  <mat-dialog-content>
+    <div class="dialog-input-row">
+      <mat-form-field>
+        <input matInput type="number" min="0.25" max="8" step="0.25" placeholder="Resolution multiplier" [(ngModel)]="this.options.scale">
+      </mat-form-field>
+      <mat-form-field>
+        <input matInput type="number" min="1" max="60" placeholder="Frames per second" [(ngModel)]="this.options.fps">
+      </mat-form-field>
+    </div>
+    <mat-form-field class="dialog-input-full">
+      <input matInput placeholder="Background color (empty = white)" [(ngModel)]="this.options.backgroundColor">
+    </mat-form-field>
+  </mat-dialog-content>
+  <mat-dialog-actions fxLayout="row">
+    <!-- The ordering here matters (it ensures that 'OK' gets focus first). -->
+    <span fxFlex></span>
+    <button fxFlexOrder="2" mat-button [disabled]="!this.isValid()" (click)="this.dialogRef.close(this.options)">Export</button>
+    <button fxFlexOrder="1" mat-button matDialogClose>Cancel</button>
+  </mat-dialog-actions>`,
+  styleUrls: ['./videoexportdialog.component.scss'],
+})
+export class VideoExportDialogComponent {
+  readonly options: {
+    -readonly [K in keyof VideoSerializer.VideoOptions]: VideoSerializer.VideoOptions[K]
+  };
+
+  constructor(
+    readonly dialogRef: MatDialogRef<VideoExportDialogComponent>,
+    @Inject(MAT_DIALOG_DATA) data: VideoSerializer.VideoOptions,
+  ) {
+    this.options = { ...data };
+  }
+
+  isValid() {
+    const { scale, fps, backgroundColor } = this.options;
+    return (
+      scale > 0 &&
+      scale <= 8 &&
+      fps >= 1 &&
+      fps <= 60 &&
+      (!backgroundColor || !!ColorUtil.parseAndroidColor(backgroundColor))
+    );
+  }
+}
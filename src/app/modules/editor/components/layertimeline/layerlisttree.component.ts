@@ -6,8 +6,16 @@ import {
   OnInit,
   Output,
 } from '@angular/core';
-import { ClipPathLayer, GroupLayer, Layer, PathLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import {
+  ClipPathLayer,
+  GroupLayer,
+  InstanceLayer,
+  Layer,
+  PathLayer,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
 import { Animation, PathAnimationBlock } from 'app/modules/editor/model/timeline';
+import { BooleanOperation, BooleanOperations } from 'app/modules/editor/scripts/algorithms';
 import { ModelUtil } from 'app/modules/editor/scripts/common';
 import { ActionModeService } from 'app/modules/editor/services';
 import { State, Store } from 'app/modules/editor/store';
@@ -23,6 +31,8 @@ import { map } from 'rxjs/operators';
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class LayerListTreeComponent implements OnInit, Callbacks {
+  readonly BOOLEAN_OPERATIONS = BooleanOperations.OPERATIONS;
+
   layerModel$: Observable<LayerModel>;
 
   @Input() layer: Layer;
@@ -39,6 +49,10 @@ export class LayerListTreeComponent implements OnInit, Callbacks {
   @Output() convertToClipPathClick = new EventEmitter<LayerEvent>();
   @Output() convertToPathClick = new EventEmitter<LayerEvent>();
   @Output() flattenGroupClick = new EventEmitter<LayerEvent>();
+  @Output() convertToSymbolClick = new EventEmitter<LayerEvent>();
+  @Output() outlineStrokeClick = new EventEmitter<LayerEvent>();
+  @Output() simplifyPathClick = new EventEmitter<LayerEvent>();
+  @Output() booleanOperationClick = new EventEmitter<BooleanOperationEvent>();
 
   constructor(
     private readonly store: Store<State>,
@@ -50,10 +64,12 @@ export class LayerListTreeComponent implements OnInit, Callbacks {
       map(
         ({
           animation,
+          animations,
           selectedLayerIds,
           collapsedLayerIds,
           hiddenLayerIds,
           hoveredLayerId,
+          booleanOperationLayers,
           isActionMode,
         }) => {
           const isExpandable = this.isLayerExpandable();
@@ -64,23 +80,55 @@ export class LayerListTreeComponent implements OnInit, Callbacks {
             return _.keys(ModelUtil.getOrderedBlocksByPropertyByLayer(animation)[layerId]);
           };
           const existingPropertyNames = getExistingPropertyNamesFn(this.layer.id);
+          // The names of the layer's properties that are animated in any animation.
+          const animatedPropertyNames = _.uniq(
+            _.flatMap(animations, a => {
+              return _.keys(ModelUtil.getOrderedBlocksByPropertyByLayer(a)[this.layer.id]);
+            }),
+          );
           const canBeConvertedToPath = this.layer instanceof ClipPathLayer;
           // We can't convert a path into a clip path if it has incompatible animation blocks.
           const canBeConvertedToClipPath =
             this.layer instanceof PathLayer &&
             // TODO: comparing the sets of all animatable properties for each layer type would be more robust
             !animation.blocks.some(b => !(b instanceof PathAnimationBlock));
+          const canBeConvertedToSymbol = this.layer instanceof GroupLayer && !this.layer.isSymbol;
+          const canOutlineStroke =
+            this.layer instanceof PathLayer &&
+            !!this.layer.pathData &&
+            !!this.layer.pathData.getPathString() &&
+            !!this.layer.strokeWidth &&
+            !!(this.layer.strokeColor || this.layer.strokeGradient) &&
+            // Dashed and trimmed strokes can't be outlined, and the outline can't be
+            // animated to follow the path or stroke.
+            !this.layer.strokeDashArray &&
+            this.layer.trimPathStart === 0 &&
+            this.layer.trimPathEnd === 1 &&
+            !animatedPropertyNames.some(p => {
+              return p === 'pathData' || p.startsWith('stroke') || p.startsWith('trimPath');
+            });
+          const canSimplifyPath =
+            (this.layer instanceof PathLayer || this.layer instanceof ClipPathLayer) &&
+            !!this.layer.pathData &&
+            !!this.layer.pathData.getPathString() &&
+            // Simplifying an animated path would break its morphs.
+            !animatedPropertyNames.includes('pathData');
+          const canApplyBooleanOperation =
+            selectedLayerIds.has(this.layer.id) && !!booleanOperationLayers;
           const canBeFlattened =
             this.layer instanceof GroupLayer &&
+            // Flattening a symbol would break its instances.
+            !this.layer.isSymbol &&
             this.layer.children.length > 0 &&
             // TODO: allow merging groups w/ existing blocks in some cases?
             existingPropertyNames.length === 0 &&
             this.layer.children.every(l => {
               return (
-                l instanceof PathLayer ||
-                l instanceof ClipPathLayer ||
-                // TODO: allow merging groups into groups w/ existing blocks in some cases?
-                getExistingPropertyNamesFn(l.id).length === 0
+                !(l instanceof InstanceLayer) &&
+                (l instanceof PathLayer ||
+                  l instanceof ClipPathLayer ||
+                  // TODO: allow merging groups into groups w/ existing blocks in some cases?
+                  getExistingPropertyNamesFn(l.id).length === 0)
               );
             });
           return {
@@ -96,6 +144,10 @@ export class LayerListTreeComponent implements OnInit, Callbacks {
             canBeConvertedToClipPath,
             canBeConvertedToPath,
             canBeFlattened,
+            canBeConvertedToSymbol,
+            canOutlineStroke,
+            canSimplifyPath,
+            canApplyBooleanOperation,
           };
         },
       ),
@@ -161,6 +213,34 @@ export class LayerListTreeComponent implements OnInit, Callbacks {
     }
   }
 
+  // @Override
+  onConvertToSymbolClick(event: MouseEvent, layer: Layer) {
+    if (!this.actionModeService.isActionMode()) {
+      this.convertToSymbolClick.emit({ event, layer });
+    }
+  }
+
+  // @Override
+  onOutlineStrokeClick(event: MouseEvent, layer: Layer) {
+    if (!this.actionModeService.isActionMode()) {
+      this.outlineStrokeClick.emit({ event, layer });
+    }
+  }
+
+  // @Override
+  onSimplifyPathClick(event: MouseEvent, layer: Layer) {
+    if (!this.actionModeService.isActionMode()) {
+      this.simplifyPathClick.emit({ event, layer });
+    }
+  }
+
+  // @Override
+  onBooleanOperationClick(event: MouseEvent, operation: BooleanOperation) {
+    if (!this.actionModeService.isActionMode()) {
+      this.booleanOperationClick.emit({ event, operation });
+    }
+  }
+
   // Used by *ngFor loop.
   trackLayerFn(index: number, layer: Layer) {
     return layer.id;
@@ -180,6 +260,10 @@ export interface Callbacks {
   onConvertToClipPathClick(event: MouseEvent, layer: Layer): void;
   onConvertToPathClick(event: MouseEvent, layer: Layer): void;
   onFlattenGroupClick(event: MouseEvent, layer: Layer): void;
+  onConvertToSymbolClick(event: MouseEvent, layer: Layer): void;
+  onOutlineStrokeClick(event: MouseEvent, layer: Layer): void;
+  onSimplifyPathClick(event: MouseEvent, layer: Layer): void;
+  onBooleanOperationClick(event: MouseEvent, operation: BooleanOperation): void;
 }
 
 interface LayerEvent {
@@ -187,6 +271,11 @@ interface LayerEvent {
   readonly layer: Layer;
 }
 
+interface BooleanOperationEvent {
+  readonly event: MouseEvent;
+  readonly operation: BooleanOperation;
+}
+
 interface TimelineBlockEvent {
   readonly event: MouseEvent;
   readonly layer: Layer;
@@ -206,4 +295,8 @@ interface LayerModel {
   readonly canBeConvertedToPath: boolean;
   readonly canBeConvertedToClipPath: boolean;
   readonly canBeFlattened: boolean;
+  readonly canBeConvertedToSymbol: boolean;
+  readonly canOutlineStroke: boolean;
+  readonly canSimplifyPath: boolean;
+  readonly canApplyBooleanOperation: boolean;
 }
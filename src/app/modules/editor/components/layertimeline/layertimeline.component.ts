@@ -14,14 +14,17 @@ import { ActionMode } from 'app/modules/editor/model/actionmode';
 import {
   ClipPathLayer,
   GroupLayer,
+  InstanceLayer,
   Layer,
   LayerUtil,
   PathLayer,
   VectorLayer,
 } from 'app/modules/editor/model/layers';
 import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { BooleanOperation } from 'app/modules/editor/scripts/algorithms';
 import { ModelUtil } from 'app/modules/editor/scripts/common';
 import { Dragger } from 'app/modules/editor/scripts/dragger';
+import { AvdSerializer } from 'app/modules/editor/scripts/export';
 import { IntervalTree } from 'app/modules/editor/scripts/intervals';
 import { DestroyableMixin } from 'app/modules/editor/scripts/mixins';
 import {
@@ -36,16 +39,22 @@ import { Shortcut, ShortcutService } from 'app/modules/editor/services/shortcut.
 import { Duration, SnackBarService } from 'app/modules/editor/services/snackbar.service';
 import { State, Store } from 'app/modules/editor/store';
 import { BatchAction } from 'app/modules/editor/store/batch/actions';
-import { getLayerTimelineState, isWorkspaceDirty } from 'app/modules/editor/store/common/selectors';
+import {
+  getEditStateListState,
+  getLayerTimelineState,
+  isWorkspaceDirty,
+} from 'app/modules/editor/store/common/selectors';
 import { SetSelectedLayers, SetVectorLayer } from 'app/modules/editor/store/layers/actions';
 import { getVectorLayer } from 'app/modules/editor/store/layers/selectors';
 import { ResetWorkspace } from 'app/modules/editor/store/reset/actions';
+import { SetStateList } from 'app/modules/editor/store/statelist/actions';
+import { getStateList } from 'app/modules/editor/store/statelist/selectors';
 import { getAnimation } from 'app/modules/editor/store/timeline/selectors';
 import { environment } from 'environments/environment';
 import * as $ from 'jquery';
 import * as _ from 'lodash';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { filter, first, map } from 'rxjs/operators';
+import { filter, first, map, switchMap } from 'rxjs/operators';
 
 import * as TimelineConsts from './constants';
 import { Callbacks as LayerListTreeCallbacks } from './layerlisttree.component';
@@ -140,6 +149,7 @@ export class LayerTimelineComponent extends DestroyableMixin()
       map(
         ({
           animation,
+          animations,
           vectorLayer,
           isAnimationSelected,
           selectedBlockIds,
@@ -148,11 +158,12 @@ export class LayerTimelineComponent extends DestroyableMixin()
           actionMode,
           singleSelectedPathBlock,
         }) => {
+          const isAnimationSwitched = !!this.animation && this.animation.id !== animation.id;
           this.animation = animation;
           this.rebuildSnapTimes();
           this.vectorLayer = vectorLayer;
           this.selectedBlockIds = selectedBlockIds;
-          if (isBeingReset) {
+          if (isBeingReset || isAnimationSwitched) {
             // TODO: store the 'zoom' info in the store to avoid using this isBeingReset flag
             this.autoZoomToAnimation();
           }
@@ -162,9 +173,17 @@ export class LayerTimelineComponent extends DestroyableMixin()
             this.playbackService.setCurrentTime(singleSelectedPathBlock.startTime);
           }
           currActionMode = actionMode;
+          const symbols: GroupLayer[] = [];
+          vectorLayer.walk(l => {
+            if (l instanceof GroupLayer && l.isSymbol) {
+              symbols.push(l);
+            }
+          });
           return {
             animation,
+            animations,
             vectorLayer,
+            symbols,
             isAnimationSelected,
             isActionMode,
           };
@@ -246,8 +265,10 @@ export class LayerTimelineComponent extends DestroyableMixin()
 
         this.projectService
           .getProject(`demos/${selectedDemoInfo.id}.shapeshifter`)
-          .then(({ vectorLayer, animation, hiddenLayerIds }) => {
-            this.store.dispatch(new ResetWorkspace(vectorLayer, animation, hiddenLayerIds));
+          .then(({ vectorLayer, animations, hiddenLayerIds, stateList }) => {
+            this.store.dispatch(
+              new ResetWorkspace(vectorLayer, animations, hiddenLayerIds, stateList),
+            );
           })
           .catch(error => {
             const msg =
@@ -270,12 +291,151 @@ export class LayerTimelineComponent extends DestroyableMixin()
   onExportVectorDrawableClick() {
     ga('send', 'event', 'Export', 'Vector Drawable');
     this.fileExportService.exportVectorDrawable();
+    this.maybeShowUnsupportedStrokeDashesMsg();
   }
 
   // Called from the LayerTimelineComponent template.
   onExportAnimatedVectorDrawableClick() {
     ga('send', 'event', 'Export', 'Animated Vector Drawable');
     this.fileExportService.exportAnimatedVectorDrawable();
+    this.maybeShowUnsupportedStrokeDashesMsg();
+    this.maybeShowUnsupportedMotionPathTranslationsMsg();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportAnimatedSelectorClick() {
+    this.store
+      .select(getStateList)
+      .pipe(first())
+      .subscribe(stateList => {
+        if (!stateList.states.length) {
+          this.snackBarService.show(
+            'Add at least one selector state before exporting an animated selector',
+            'Dismiss',
+            Duration.Long,
+          );
+          return;
+        }
+        ga('send', 'event', 'Export', 'Animated Selector');
+        this.fileExportService.exportAnimatedSelector();
+        this.maybeShowUnsupportedStrokeDashesMsg();
+        this.maybeShowUnsupportedMotionPathTranslationsMsg();
+      });
+  }
+
+  /**
+   * Warns the user that their stroke dashes were ignored, since Android
+   * vector drawables don't support dashed strokes.
+   */
+  private maybeShowUnsupportedStrokeDashesMsg() {
+    this.store
+      .select(getVectorLayer)
+      .pipe(first())
+      .subscribe(vl => {
+        let hasStrokeDashes = false;
+        vl.walk(layer => {
+          hasStrokeDashes =
+            hasStrokeDashes || (layer instanceof PathLayer && !!layer.strokeDashArray);
+        });
+        if (hasStrokeDashes) {
+          this.snackBarService.show(
+            'Stroke dashes are not supported by vector drawables and were ignored',
+            'Dismiss',
+            Duration.Long,
+          );
+        }
+      });
+  }
+
+  /**
+   * Warns the user that translation animations were ignored because they overlap
+   * a motion path animation, which animated vector drawables can't play at once.
+   */
+  private maybeShowUnsupportedMotionPathTranslationsMsg() {
+    const vl = this.layerTimelineService.getVectorLayer();
+    const hasOverlappingBlocks = this.layerTimelineService
+      .getAnimations()
+      .some(a => AvdSerializer.getOverlappingTranslationBlocks(vl, a).length > 0);
+    if (hasOverlappingBlocks) {
+      this.snackBarService.show(
+        'Translation animations that overlap a motion path animation are not supported by ' +
+          'animated vector drawables and were ignored',
+        'Dismiss',
+        Duration.Long,
+      );
+    }
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportLottieClick() {
+    ga('send', 'event', 'Export', 'Lottie');
+    this.fileExportService.exportLottie();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportComposeClick() {
+    ga('send', 'event', 'Export', 'Jetpack Compose');
+    this.fileExportService.exportCompose();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportCoreAnimationClick() {
+    ga('send', 'event', 'Export', 'Core Animation');
+    this.fileExportService.exportCoreAnimation();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportFlutterClick() {
+    ga('send', 'event', 'Export', 'Flutter');
+    this.fileExportService.exportFlutter();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportRasterClick() {
+    this.store
+      .select(getVectorLayer)
+      .pipe(first())
+      .subscribe(vl => {
+        this.dialogService
+          .exportRaster({
+            format: 'gif',
+            width: vl.width,
+            height: vl.height,
+            fps: 30,
+            backgroundColor: vl.canvasColor,
+            loopCount: 0,
+          })
+          .pipe(filter(options => !!options))
+          .subscribe(options => {
+            ga('send', 'event', 'Export', 'Raster', options.format);
+            this.fileExportService.exportRaster(options).catch(error => {
+              this.snackBarService.show(`Couldn't export animation`, 'Dismiss', Duration.Long);
+              return Promise.reject(error.message || error);
+            });
+          });
+      });
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onExportVideoClick() {
+    this.store
+      .select(getVectorLayer)
+      .pipe(first())
+      .subscribe(vl => {
+        this.dialogService
+          .exportVideo({ scale: 1, fps: 30, backgroundColor: vl.canvasColor })
+          .pipe(filter(options => !!options))
+          .subscribe(options => {
+            ga('send', 'event', 'Export', 'WebM');
+            // Frames are rendered independently of the playback state, so there
+            // is no reason to keep the preview running in the meantime.
+            this.playbackService.pause();
+            this.fileExportService.exportVideo(options).catch(error => {
+              this.snackBarService.show(`Couldn't export video`, 'Dismiss', Duration.Long);
+              return Promise.reject(error.message || error);
+            });
+          });
+      });
   }
 
   // Called from the LayerTimelineComponent template.
@@ -286,11 +446,16 @@ export class LayerTimelineComponent extends DestroyableMixin()
 
   // Called from the LayerTimelineComponent template.
   onExportCssKeyframesClick() {
-    // TODO: implement this feature
     ga('send', 'event', 'Export', 'CSS Keyframes');
     this.fileExportService.exportCssKeyframes();
   }
 
+  // Called from the LayerTimelineComponent template.
+  onExportWebAnimationsClick() {
+    ga('send', 'event', 'Export', 'Web Animations');
+    this.fileExportService.exportWebAnimations();
+  }
+
   // Called from the LayerTimelineComponent template.
   onAnimationHeaderTextClick(event: MouseEvent) {
     // Stop propagation to ensure that animationTimelineClick() isn't called.
@@ -301,6 +466,48 @@ export class LayerTimelineComponent extends DestroyableMixin()
     }
   }
 
+  // Called from the LayerTimelineComponent template.
+  onAnimationMenuItemClick(animation: Animation) {
+    this.layerTimelineService.activateAnimation(animation.id);
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onAddAnimationClick() {
+    ga('send', 'event', 'Animations', 'New');
+    this.layerTimelineService.addAnimation();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onDuplicateAnimationClick() {
+    ga('send', 'event', 'Animations', 'Duplicate');
+    this.layerTimelineService.duplicateAnimation();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onDeleteAnimationClick() {
+    ga('send', 'event', 'Animations', 'Delete');
+    this.layerTimelineService.deleteAnimation();
+  }
+
+  // Called from the LayerTimelineComponent template.
+  onEditStatesClick() {
+    ga('send', 'event', 'Animations', 'Edit selector states');
+    this.store
+      .select(getEditStateListState)
+      .pipe(
+        first(),
+        switchMap(({ stateList, animations, animatedVectorLayer }) =>
+          this.dialogService.editStateList({
+            stateList,
+            animations,
+            currentVectorLayer: animatedVectorLayer.vl,
+          }),
+        ),
+        filter(stateList => !!stateList),
+      )
+      .subscribe(stateList => this.store.dispatch(new SetStateList(stateList)));
+  }
+
   // Called from the LayerTimelineComponent template.
   onTimelineHeaderScrub(event: ScrubEvent) {
     let time = event.time;
@@ -353,6 +560,30 @@ export class LayerTimelineComponent extends DestroyableMixin()
       });
   }
 
+  // Called from the LayerTimelineComponent template.
+  onAddInstanceLayerClick(symbol: GroupLayer) {
+    this.store
+      .select(getVectorLayer)
+      .pipe(first())
+      .subscribe(vl => {
+        // Place the instance directly on top of its symbol.
+        const { rotation, scaleX, scaleY, pivotX, pivotY, translateX, translateY } = symbol;
+        const layer = new InstanceLayer({
+          name: LayerUtil.getUniqueLayerName([vl], symbol.name),
+          children: [],
+          symbolId: symbol.id,
+          rotation,
+          scaleX,
+          scaleY,
+          pivotX,
+          pivotY,
+          translateX,
+          translateY,
+        });
+        this.layerTimelineService.addLayer(layer);
+      });
+  }
+
   // @Override TimelineAnimationRowCallbacks
   onTimelineBlockMouseDown(mouseDownEvent: MouseEvent, dragBlock: AnimationBlock) {
     const animation = this.animation;
@@ -754,6 +985,16 @@ export class LayerTimelineComponent extends DestroyableMixin()
     this.playbackService.setCurrentTime(block.startTime);
   }
 
+  // @Override TimelineAnimationRowCallbacks
+  onTimelineKeyframeClick(event: MouseEvent, block: AnimationBlock, keyframeIndex: number) {
+    if (event.altKey) {
+      this.layerTimelineService.removeKeyframe(block.id, keyframeIndex);
+      return;
+    }
+    this.layerTimelineService.selectBlock(block.id, true);
+    this.playbackService.setCurrentTime(block.getStops()[keyframeIndex + 1].time);
+  }
+
   // @Override LayerListTreeComponentCallbacks
   onAddTimelineBlockClick(event: MouseEvent, layer: Layer, propertyName: string) {
     const clonedValue = layer.inspectableProperties
@@ -789,6 +1030,34 @@ export class LayerTimelineComponent extends DestroyableMixin()
     this.layerTimelineService.flattenGroupLayer(layer.id);
   }
 
+  // @Override LayerListTreeComponentCallbacks
+  onConvertToSymbolClick(event: MouseEvent, layer: Layer) {
+    const symbol = layer.clone() as GroupLayer;
+    symbol.isSymbol = true;
+    this.layerTimelineService.updateLayer(symbol);
+  }
+
+  // @Override LayerListTreeComponentCallbacks
+  onOutlineStrokeClick(event: MouseEvent, layer: Layer) {
+    this.layerTimelineService.outlineStroke(layer.id);
+  }
+
+  // @Override LayerListTreeComponentCallbacks
+  onSimplifyPathClick(event: MouseEvent, layer: Layer) {
+    this.dialogService
+      .simplifyPath({
+        pathData: (layer as PathLayer | ClipPathLayer).pathData,
+        options: { tolerance: 1, preserveCorners: true },
+      })
+      .pipe(filter(options => !!options))
+      .subscribe(options => this.layerTimelineService.simplifyPath(layer.id, options));
+  }
+
+  // @Override LayerListTreeComponentCallbacks
+  onBooleanOperationClick(event: MouseEvent, operation: BooleanOperation) {
+    this.layerTimelineService.applyBooleanOperation(operation);
+  }
+
   // @Override LayerListTreeComponentCallbacks
   onLayerClick(event: MouseEvent, clickedLayer: Layer) {
     const isMeta = ShortcutService.isOsDependentModifierKey(event);
@@ -1120,7 +1389,7 @@ export class LayerTimelineComponent extends DestroyableMixin()
   }
 
   /**
-   * Zooms the timeline to fit the first animation.
+   * Zooms the timeline to fit the active animation.
    */
   private autoZoomToAnimation() {
     // Shave off 48 pixels for safety.
@@ -1153,11 +1422,18 @@ export class LayerTimelineComponent extends DestroyableMixin()
   trackLayerFn(index: number, layer: Layer) {
     return layer.id;
   }
+
+  // Used by *ngFor loop.
+  trackAnimationFn(index: number, animation: Animation) {
+    return animation.id;
+  }
 }
 
 interface LayerTimelineModel {
   readonly animation: Animation;
+  readonly animations: ReadonlyArray<Animation>;
   readonly vectorLayer: VectorLayer;
+  readonly symbols: ReadonlyArray<GroupLayer>;
   readonly isAnimationSelected: boolean;
   readonly isActionMode: boolean;
 }
@@ -33,6 +33,7 @@ export class TimelineAnimationRowComponent implements OnInit, Callbacks {
   @Output() timelineBlockClick = new EventEmitter<AnimationRowEvent>();
   @Output() timelineBlockMouseDown = new EventEmitter<AnimationRowEvent>();
   @Output() timelineBlockDoubleClick = new EventEmitter<AnimationRowEvent>();
+  @Output() timelineKeyframeClick = new EventEmitter<KeyframeEvent>();
 
   constructor(
     private readonly store: Store<State>,
@@ -81,6 +82,38 @@ export class TimelineAnimationRowComponent implements OnInit, Callbacks {
     }
   }
 
+  // @Override Callbacks
+  onTimelineKeyframeClick(event: MouseEvent, block: AnimationBlock, keyframeIndex: number) {
+    event.stopPropagation();
+    if (!this.actionModeService.isActionMode()) {
+      this.timelineKeyframeClick.emit({ event, block, keyframeIndex });
+    }
+  }
+
+  // Called from the TimelineAnimationRowComponent template.
+  getRepeatStyle(blocks: ReadonlyArray<AnimationBlock>, index: number, duration: number) {
+    const block = blocks[index];
+    const nextBlock = blocks[index + 1];
+    const blockDuration = block.endTime - block.startTime;
+    // Repeats are cut short by the next block or the end of the animation.
+    const repeatEndTime = Math.min(
+      block.getActiveEndTime(),
+      nextBlock ? nextBlock.startTime : duration,
+      duration,
+    );
+    if (!blockDuration || repeatEndTime <= block.endTime) {
+      return undefined;
+    }
+    // The repeats are drawn to the right of the block, so their width is
+    // relative to the block's width.
+    const repeatDuration = repeatEndTime - block.endTime;
+    return {
+      width: `${(100 * repeatDuration) / blockDuration}%`,
+      // Draws a divider at the end of each repeated iteration.
+      'background-size': `${(100 * blockDuration) / repeatDuration}% 100%`,
+    };
+  }
+
   // Used by *ngFor loop.
   trackLayerFn(index: number, layer: Layer) {
     return layer.id;
@@ -91,6 +124,7 @@ export interface Callbacks {
   onTimelineBlockMouseDown(event: MouseEvent, block: AnimationBlock): void;
   onTimelineBlockClick(event: MouseEvent, block: AnimationBlock): void;
   onTimelineBlockDoubleClick(event: MouseEvent, block: AnimationBlock): void;
+  onTimelineKeyframeClick(event: MouseEvent, block: AnimationBlock, keyframeIndex: number): void;
 }
 
 interface AnimationRowEvent {
@@ -98,6 +132,10 @@ interface AnimationRowEvent {
   readonly block: AnimationBlock;
 }
 
+interface KeyframeEvent extends AnimationRowEvent {
+  readonly keyframeIndex: number;
+}
+
 interface AnimationRowModel {
   readonly animation: Animation;
   readonly blocksByPropertyNameValues: ReadonlyTable<AnimationBlock>;
@@ -1,15 +1,16 @@
 import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
 import { VectorLayer } from 'app/modules/editor/model/layers';
+import { StateList } from 'app/modules/editor/model/statelist';
 import { Animation } from 'app/modules/editor/model/timeline';
 import { ModelUtil } from 'app/modules/editor/scripts/common';
 import { FileExportService } from 'app/modules/editor/services/fileexport.service';
 
-// TODO: store hidden layer IDs and vector layer inside the animations?
 interface Project {
   readonly vectorLayer: VectorLayer;
-  readonly animation: Animation;
+  readonly animations: ReadonlyArray<Animation>;
   readonly hiddenLayerIds: ReadonlySet<string>;
+  readonly stateList: StateList;
 }
 
 @Injectable({ providedIn: 'root' })
@@ -26,8 +27,15 @@ export class ProjectService {
       .toPromise()
       .then(response => {
         const jsonObj = response;
-        const { vectorLayer, animation, hiddenLayerIds } = FileExportService.fromJSON(jsonObj);
-        return ModelUtil.regenerateModelIds(vectorLayer, animation, hiddenLayerIds) as Project;
+        const { vectorLayer, animations, hiddenLayerIds, stateList } = FileExportService.fromJSON(
+          jsonObj,
+        );
+        return ModelUtil.regenerateModelIds(
+          vectorLayer,
+          animations,
+          hiddenLayerIds,
+          stateList,
+        ) as Project;
       });
   }
 }
@@ -0,0 +1,114 @@
+import { ChangeDetectionStrategy, Component, EventEmitter, Input, Output } from '@angular/core';
+import { Gradient, GradientStop, GradientUtil, TileMode } from 'app/modules/editor/model/gradients';
+import { ColorProperty } from 'app/modules/editor/model/properties';
+import { ColorUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+type GradientParam = 'startX' | 'startY' | 'endX' | 'endY' | 'centerX' | 'centerY' | 'radius';
+
+const LINEAR_PARAMS: ReadonlyArray<GradientParam> = ['startX', 'startY', 'endX', 'endY'];
+const RADIAL_PARAMS: ReadonlyArray<GradientParam> = ['centerX', 'centerY', 'radius'];
+
+// Used to pick the color of newly added stops.
+const STOP_COLOR_PROPERTY = new ColorProperty('color');
+
+/**
+ * Edits the geometry, tile mode, and color stops of a gradient.
+ */
+@Component({
+  selector: 'app-gradienteditor',
+  templateUrl: './gradienteditor.component.html',
+  styleUrls: ['./gradienteditor.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GradientEditorComponent {
+  readonly tileModes: ReadonlyArray<TileMode> = ['clamp', 'repeat', 'mirror'];
+
+  @Input()
+  value: Gradient;
+  @Output()
+  valueChange = new EventEmitter<Gradient>();
+
+  get params() {
+    return this.value.type === 'radial' ? RADIAL_PARAMS : LINEAR_PARAMS;
+  }
+
+  get previewBackground() {
+    const stops = this.value.stops.map(({ offset, color }) => {
+      return `${ColorUtil.androidToCssRgbaColor(color)} ${_.round(offset * 100, 2)}%`;
+    });
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+  }
+
+  onParamChange(param: GradientParam, value: string) {
+    const num = Number(value);
+    if (value === '' || !isFinite(num)) {
+      return;
+    }
+    this.emit({ ...this.value, [param]: num });
+  }
+
+  onTileModeClick(tileMode: TileMode) {
+    this.emit({ ...this.value, tileMode });
+  }
+
+  onStopColorChange(index: number, value: string) {
+    let color = ColorUtil.parseAndroidColor(value);
+    if (!color) {
+      color = ColorUtil.parseAndroidColor(ColorUtil.svgToAndroidColor(value) || '');
+    }
+    if (!color) {
+      return;
+    }
+    this.updateStop(index, { ...this.value.stops[index], color: ColorUtil.toAndroidString(color) });
+  }
+
+  onStopOffsetChange(index: number, value: string) {
+    const offset = Number(value);
+    if (value === '' || !isFinite(offset)) {
+      return;
+    }
+    this.updateStop(index, { ...this.value.stops[index], offset });
+  }
+
+  onAddStopClick() {
+    const { stops } = this.value;
+    if (stops.length < 2) {
+      const color = stops.length ? stops[0].color : '#000000';
+      this.emit({ ...this.value, stops: [...stops, { offset: 1, color }] });
+      return;
+    }
+    // Split the largest gap between two consecutive stops.
+    const index = _.maxBy(_.range(1, stops.length), i => stops[i].offset - stops[i - 1].offset);
+    const prev = stops[index - 1];
+    const next = stops[index];
+    const stop = {
+      offset: (prev.offset + next.offset) / 2,
+      color: STOP_COLOR_PROPERTY.interpolateValue(prev.color, next.color, 0.5),
+    };
+    this.emit({ ...this.value, stops: [...stops.slice(0, index), stop, ...stops.slice(index)] });
+  }
+
+  onRemoveStopClick(index: number) {
+    this.emit({ ...this.value, stops: this.value.stops.filter((s, i) => i !== index) });
+  }
+
+  // Called from the HTML template.
+  androidToCssColor(color: string) {
+    return ColorUtil.androidToCssHexColor(color);
+  }
+
+  private updateStop(index: number, stop: GradientStop) {
+    this.emit({ ...this.value, stops: this.value.stops.map((s, i) => (i === index ? stop : s)) });
+  }
+
+  private emit(gradient: Gradient) {
+    // Normalizing the gradient keeps its stops sorted by offset.
+    this.valueChange.emit(GradientUtil.normalize(gradient));
+  }
+
+  // Used by *ngFor loop.
+  trackStopFn(index: number) {
+    return index;
+  }
+}
@@ -1 +1,3 @@
+export { GradientEditorComponent } from './gradienteditor.component';
+export { InterpolatorEditorComponent } from './interpolatoreditor.component';
 export { PropertyInputComponent } from './propertyinput.component';
@@ -0,0 +1,162 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnChanges,
+  Output,
+  ViewChild,
+} from '@angular/core';
+import { CustomInterpolator, getInterpolator } from 'app/modules/editor/model/interpolators';
+import * as _ from 'lodash';
+
+// The size of the curve graph in pixels.
+const GRAPH_SIZE = 160;
+const GRAPH_PADDING = 8;
+// The range of y values displayed in the graph (leaving room for overshoot).
+const MIN_Y = -0.25;
+const MAX_Y = 1.25;
+const NUM_CURVE_SAMPLES = 100;
+
+/**
+ * Edits the parameters of a custom interpolator. Cubic bezier curves can be
+ * edited by dragging their control points in the curve graph.
+ */
+@Component({
+  selector: 'app-interpolatoreditor',
+  templateUrl: './interpolatoreditor.component.html',
+  styleUrls: ['./interpolatoreditor.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class InterpolatorEditorComponent implements OnChanges {
+  readonly graphSize = GRAPH_SIZE;
+
+  @Input()
+  value: string;
+  @Output()
+  valueChange = new EventEmitter<string>();
+
+  @ViewChild('graph')
+  graphElementRef: ElementRef;
+
+  type: CustomInterpolator.CustomInterpolatorType;
+  params: ReadonlyArray<CustomInterpolator.CustomInterpolatorParam> = [];
+  args: number[] = [];
+  pathData = '';
+  isPathDataValid = true;
+  curvePoints = '';
+
+  // The index of the control point currently being dragged (0 or 1).
+  private draggedControlPointIndex: number;
+
+  ngOnChanges() {
+    const parsed = CustomInterpolator.parse(this.value);
+    if (!parsed) {
+      return;
+    }
+    this.type = parsed.type;
+    this.params = _.find(
+      CustomInterpolator.CUSTOM_INTERPOLATORS,
+      i => i.type === parsed.type,
+    ).params;
+    this.args = parsed.args.slice();
+    this.pathData = parsed.pathData || '';
+    this.isPathDataValid = true;
+    this.updateCurve(this.value);
+  }
+
+  get controlPoints() {
+    const [x1, y1, x2, y2] = this.args;
+    return [
+      { x: this.toGraphX(x1), y: this.toGraphY(y1) },
+      { x: this.toGraphX(x2), y: this.toGraphY(y2) },
+    ];
+  }
+
+  get origin() {
+    return { x: this.toGraphX(0), y: this.toGraphY(0) };
+  }
+
+  get destination() {
+    return { x: this.toGraphX(1), y: this.toGraphY(1) };
+  }
+
+  onArgChange(index: number, value: string) {
+    const arg = Number(value);
+    if (value === '' || !isFinite(arg)) {
+      return;
+    }
+    this.args[index] = arg;
+    this.valueChange.emit(CustomInterpolator.format(this.type, this.args));
+  }
+
+  onPathDataChange(pathData: string) {
+    const value = CustomInterpolator.format('path', [], pathData);
+    this.isPathDataValid = !!CustomInterpolator.create(value);
+    if (this.isPathDataValid) {
+      this.valueChange.emit(value);
+    }
+  }
+
+  onControlPointMouseDown(event: MouseEvent, index: number) {
+    event.preventDefault();
+    this.draggedControlPointIndex = index;
+  }
+
+  @HostListener('document:mousemove', ['$event'])
+  onDocumentMouseMove(event: MouseEvent) {
+    if (this.draggedControlPointIndex === undefined) {
+      return;
+    }
+    const { left, top } = this.graphElementRef.nativeElement.getBoundingClientRect();
+    const { min, max } = this.params[2 * this.draggedControlPointIndex + 1];
+    const x = _.clamp(this.fromGraphX(event.clientX - left), 0, 1);
+    const y = _.clamp(this.fromGraphY(event.clientY - top), min, max);
+    this.args[2 * this.draggedControlPointIndex] = _.round(x, 3);
+    this.args[2 * this.draggedControlPointIndex + 1] = _.round(y, 3);
+    this.updateCurve(CustomInterpolator.format(this.type, this.args));
+  }
+
+  @HostListener('document:mouseup')
+  onDocumentMouseUp() {
+    if (this.draggedControlPointIndex === undefined) {
+      return;
+    }
+    this.draggedControlPointIndex = undefined;
+    // Only commit the value once the drag ends to avoid flooding the undo history.
+    this.valueChange.emit(CustomInterpolator.format(this.type, this.args));
+  }
+
+  private updateCurve(value: string) {
+    const { interpolateFn } = getInterpolator(value);
+    this.curvePoints = _.range(NUM_CURVE_SAMPLES + 1)
+      .map(i => {
+        const f = i / NUM_CURVE_SAMPLES;
+        return `${this.toGraphX(f)},${this.toGraphY(interpolateFn(f))}`;
+      })
+      .join(' ');
+  }
+
+  private toGraphX(x: number) {
+    return GRAPH_PADDING + x * (GRAPH_SIZE - 2 * GRAPH_PADDING);
+  }
+
+  private toGraphY(y: number) {
+    return GRAPH_PADDING + ((MAX_Y - y) / (MAX_Y - MIN_Y)) * (GRAPH_SIZE - 2 * GRAPH_PADDING);
+  }
+
+  private fromGraphX(x: number) {
+    return (x - GRAPH_PADDING) / (GRAPH_SIZE - 2 * GRAPH_PADDING);
+  }
+
+  private fromGraphY(y: number) {
+    return MAX_Y - ((y - GRAPH_PADDING) / (GRAPH_SIZE - 2 * GRAPH_PADDING)) * (MAX_Y - MIN_Y);
+  }
+
+  // Used by *ngFor loop.
+  trackParamFn(index: number) {
+    return index;
+  }
+}
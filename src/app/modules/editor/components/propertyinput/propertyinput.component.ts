@@ -1,5 +1,7 @@
 import { ChangeDetectionStrategy, Component, OnInit } from '@angular/core';
 import { ActionMode } from 'app/modules/editor/model/actionmode';
+import { Gradient, GradientType, GradientUtil } from 'app/modules/editor/model/gradients';
+import { CustomInterpolator } from 'app/modules/editor/model/interpolators';
 import {
   ClipPathLayer,
   GroupLayer,
@@ -8,8 +10,18 @@ import {
   PathLayer,
   VectorLayer,
 } from 'app/modules/editor/model/layers';
-import { FractionProperty, NameProperty, Option } from 'app/modules/editor/model/properties';
-import { Animation, PathAnimationBlock } from 'app/modules/editor/model/timeline';
+import {
+  FractionProperty,
+  NameProperty,
+  NumberProperty,
+  Option,
+} from 'app/modules/editor/model/properties';
+import {
+  Animation,
+  AnimationBlock,
+  Keyframe,
+  PathAnimationBlock,
+} from 'app/modules/editor/model/timeline';
 import { ColorUtil, ModelUtil } from 'app/modules/editor/scripts/common';
 import {
   ActionModeService,
@@ -39,6 +51,12 @@ declare const ga: Function;
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class PropertyInputComponent implements OnInit {
+  readonly customInterpolators = CustomInterpolator.CUSTOM_INTERPOLATORS;
+  readonly gradientTypeOptions: ReadonlyArray<{ value: GradientType; label: string }> = [
+    { value: 'linear', label: 'Linear gradient' },
+    { value: 'radial', label: 'Radial gradient' },
+  ];
+
   propertyInputModel$: Observable<PropertyInputModel>;
 
   // Map used to track user state that has been entered into textfields
@@ -136,6 +154,37 @@ export class PropertyInputComponent implements OnInit {
     ]);
   }
 
+  shouldShowAddKeyframeButton(pim: PropertyInputModel) {
+    return pim.numSelections === 1 && pim.model instanceof AnimationBlock;
+  }
+
+  onAddKeyframeClick(block: AnimationBlock) {
+    const currentTime = this.playbackService.getCurrentTime();
+    this.layerTimelineService.addKeyframe(block.id, currentTime);
+  }
+
+  isCustomInterpolator(value: string) {
+    return !!CustomInterpolator.parse(value);
+  }
+
+  getCustomInterpolatorValue(
+    currentValue: string,
+    type: CustomInterpolator.CustomInterpolatorType,
+  ) {
+    const parsed = CustomInterpolator.parse(currentValue);
+    // Keep the current parameters if the interpolator's type didn't change.
+    return parsed && parsed.type === type ? currentValue : CustomInterpolator.getDefaultValue(type);
+  }
+
+  getGradientValue(model: any, currentValue: Gradient, type: GradientType) {
+    if (currentValue) {
+      // Keep the current stops and geometry when switching between gradient types.
+      return { ...currentValue, type };
+    }
+    const bounds = model instanceof PathLayer && model.pathData ? model.bounds : undefined;
+    return GradientUtil.create(type, bounds);
+  }
+
   shouldShowInvalidPathAnimationBlockMsg(pim: PropertyInputModel) {
     return (
       pim.numSelections === 1 &&
@@ -282,6 +331,50 @@ export class PropertyInputComponent implements OnInit {
         }),
       );
     });
+    const setKeyframeFn = (index: number, keyframe: Keyframe) => {
+      const clonedBlock = block.clone();
+      clonedBlock.keyframes = block.keyframes.map((k, i) => (i === index ? keyframe : k));
+      // Recreate the block so that the keyframes are sorted by fraction.
+      this.layerTimelineService.updateBlocks([AnimationBlock.from(clonedBlock)]);
+    };
+    const duration = block.endTime - block.startTime;
+    const timeProperty = new NumberProperty('time', {
+      min: block.startTime,
+      max: block.endTime,
+      isInteger: true,
+    });
+    block.keyframes.forEach((keyframe, index) => {
+      const name = `keyframe${index + 1}`;
+      inspectedProperties.push(
+        new InspectedProperty<number>(
+          block,
+          timeProperty,
+          `${name}Time`,
+          enteredValueMap,
+          value => {
+            const fraction = _.clamp((value - block.startTime) / duration, 0, 1);
+            setKeyframeFn(index, { ...keyframe, fraction });
+          },
+          () => Math.round(block.startTime + keyframe.fraction * duration),
+        ),
+        new InspectedProperty<any>(
+          block,
+          block.inspectableProperties.get('fromValue'),
+          `${name}Value`,
+          enteredValueMap,
+          value => setKeyframeFn(index, { ...keyframe, value }),
+          () => keyframe.value,
+        ),
+        new InspectedProperty<string>(
+          block,
+          block.inspectableProperties.get('interpolator'),
+          `${name}Interpolator`,
+          enteredValueMap,
+          interpolator => setKeyframeFn(index, { ...keyframe, interpolator }),
+          () => keyframe.interpolator,
+        ),
+      );
+    });
     return {
       model: block,
       numSelections,
@@ -163,8 +163,10 @@ export class RootComponent extends DestroyableMixin() implements OnInit, AfterVi
     if (projectUrl) {
       this.demoService
         .getProject(projectUrl)
-        .then(({ vectorLayer, animation, hiddenLayerIds }) => {
-          this.store.dispatch(new ResetWorkspace(vectorLayer, animation, hiddenLayerIds));
+        .then(({ vectorLayer, animations, hiddenLayerIds, stateList }) => {
+          this.store.dispatch(
+            new ResetWorkspace(vectorLayer, animations, hiddenLayerIds, stateList),
+          );
         })
         .catch(e => {
           this.snackBarService.show(
@@ -1,6 +1,15 @@
 import { Component, OnInit } from '@angular/core';
 import { ToolMode } from 'app/modules/editor/model/paper';
-import { PaperService, ShortcutService } from 'app/modules/editor/services';
+import { BooleanOperation, BooleanOperations } from 'app/modules/editor/scripts/algorithms';
+import {
+  MAX_STAR_INNER_RADIUS,
+  MIN_POLYGON_SIDES,
+  MIN_STAR_INNER_RADIUS,
+  MIN_STAR_POINTS,
+} from 'app/modules/editor/scripts/paper/gesture/create';
+import { LayerTimelineService, PaperService, ShortcutService } from 'app/modules/editor/services';
+import { ShapeToolOptions } from 'app/modules/editor/store/paper/actions';
+import * as _ from 'lodash';
 import { Observable } from 'rxjs';
 
 @Component({
@@ -10,14 +19,27 @@ import { Observable } from 'rxjs';
 })
 export class ToolPanelComponent implements OnInit {
   readonly TOOL_MODE_PENCIL = ToolMode.Pencil;
+  readonly TOOL_MODE_PEN = ToolMode.Pen;
   readonly TOOL_MODE_ELLIPSE = ToolMode.Ellipse;
   readonly TOOL_MODE_RECTANGLE = ToolMode.Rectangle;
+  readonly TOOL_MODE_ROUNDED_RECTANGLE = ToolMode.RoundedRectangle;
+  readonly TOOL_MODE_POLYGON = ToolMode.Polygon;
+  readonly TOOL_MODE_STAR = ToolMode.Star;
+  readonly TOOL_MODE_LINE = ToolMode.Line;
+  readonly MIN_POLYGON_SIDES = MIN_POLYGON_SIDES;
+  readonly MIN_STAR_POINTS = MIN_STAR_POINTS;
+  readonly MIN_STAR_INNER_RADIUS = MIN_STAR_INNER_RADIUS;
+  readonly MAX_STAR_INNER_RADIUS = MAX_STAR_INNER_RADIUS;
   readonly TOOL_MODE_ZOOMPAN = ToolMode.ZoomPan;
+  readonly BOOLEAN_OPERATIONS = BooleanOperations.OPERATIONS;
 
   // TODO: only enable edit path/rotate/transform in default mode?
   model$: Observable<ToolPanelModel>;
 
-  constructor(private readonly ps: PaperService) {}
+  constructor(
+    private readonly ps: PaperService,
+    private readonly layerTimelineService: LayerTimelineService,
+  ) {}
 
   ngOnInit() {
     this.model$ = this.ps.observeToolPanelState();
@@ -38,11 +60,20 @@ export class ToolPanelComponent implements OnInit {
     event.stopPropagation();
   }
 
+  onBooleanOperationClick(operation: BooleanOperation) {
+    this.layerTimelineService.applyBooleanOperation(operation);
+  }
+
   onPencilClick(event: Event) {
     this.ps.enterPencilMode();
     event.stopPropagation();
   }
 
+  onPenClick(event: Event) {
+    this.ps.enterPenMode();
+    event.stopPropagation();
+  }
+
   onEditPathClick(event: Event) {
     this.ps.enterEditPathMode();
     event.stopPropagation();
@@ -58,6 +89,49 @@ export class ToolPanelComponent implements OnInit {
     event.stopPropagation();
   }
 
+  onRoundedRectangleClick(event: Event) {
+    this.ps.enterCreateRoundedRectangleMode();
+    event.stopPropagation();
+  }
+
+  onPolygonClick(event: Event) {
+    this.ps.enterCreatePolygonMode();
+    event.stopPropagation();
+  }
+
+  onStarClick(event: Event) {
+    this.ps.enterCreateStarMode();
+    event.stopPropagation();
+  }
+
+  onLineClick(event: Event) {
+    this.ps.enterCreateLineMode();
+    event.stopPropagation();
+  }
+
+  onShapeToolOptionChange(name: NumericShapeToolOption, value: string) {
+    let n = parseFloat(value);
+    if (isNaN(n)) {
+      return;
+    }
+    if (name === 'polygonSides') {
+      n = Math.max(MIN_POLYGON_SIDES, Math.round(n));
+    } else if (name === 'starPoints') {
+      n = Math.max(MIN_STAR_POINTS, Math.round(n));
+    } else if (name === 'starInnerRadius') {
+      n = _.clamp(n, MIN_STAR_INNER_RADIUS, MAX_STAR_INNER_RADIUS);
+    } else {
+      n = Math.max(0, n);
+    }
+    this.ps.setShapeToolOptions({ ...this.ps.getShapeToolOptions(), [name]: n });
+  }
+
+  onArrowHeadClick(event: Event) {
+    const options = this.ps.getShapeToolOptions();
+    this.ps.setShapeToolOptions({ ...options, hasArrowHead: !options.hasArrowHead });
+    event.stopPropagation();
+  }
+
   onZoomPanClick(event: Event) {
     this.ps.setToolMode(ToolMode.ZoomPan);
     event.stopPropagation();
@@ -76,4 +150,8 @@ interface ToolPanelModel {
   readonly isRotateItemsChecked: boolean;
   readonly isTransformPathsEnabled: boolean;
   readonly isTransformPathsChecked: boolean;
+  readonly isBooleanOperationEnabled: boolean;
+  readonly shapeToolOptions: ShapeToolOptions;
 }
+
+type NumericShapeToolOption = 'cornerRadius' | 'polygonSides' | 'starPoints' | 'starInnerRadius';
@@ -11,6 +11,7 @@ import {
   MatMenuModule,
   MatOptionModule,
   MatRadioModule,
+  MatSelectModule,
   MatSlideToggleModule,
   MatSnackBarModule,
   MatToolbarModule,
@@ -31,6 +32,10 @@ import {
   ConfirmDialogComponent,
   DemoDialogComponent,
   DropFilesDialogComponent,
+  RasterExportDialogComponent,
+  SimplifyPathDialogComponent,
+  StateListDialogComponent,
+  VideoExportDialogComponent,
 } from 'app/modules/editor/components/dialogs';
 import {
   LayerListTreeComponent,
@@ -39,7 +44,11 @@ import {
   TimelineAnimationRowComponent,
 } from 'app/modules/editor/components/layertimeline';
 import { PlaybackComponent } from 'app/modules/editor/components/playback';
-import { PropertyInputComponent } from 'app/modules/editor/components/propertyinput';
+import {
+  GradientEditorComponent,
+  InterpolatorEditorComponent,
+  PropertyInputComponent,
+} from 'app/modules/editor/components/propertyinput';
 import { DropTargetDirective } from 'app/modules/editor/components/root/droptarget.directive';
 import { RootComponent } from 'app/modules/editor/components/root/root.component';
 import { ScrollGroupDirective } from 'app/modules/editor/components/scrollgroup/scrollgroup.directive';
@@ -63,18 +72,24 @@ import { environment } from 'environments/environment';
     DemoDialogComponent,
     DropFilesDialogComponent,
     DropTargetDirective,
+    GradientEditorComponent,
+    InterpolatorEditorComponent,
     LayerListTreeComponent,
     LayerTimelineComponent,
     LayerTimelineGridDirective,
     PlaybackComponent,
     PropertyInputComponent,
+    RasterExportDialogComponent,
     RootComponent,
     ScrollGroupDirective,
+    SimplifyPathDialogComponent,
     SplashScreenComponent,
     SplitterComponent,
+    StateListDialogComponent,
     TimelineAnimationRowComponent,
     ToolbarComponent,
     ToolPanelComponent,
+    VideoExportDialogComponent,
   ],
   imports: [
     BrowserModule,
@@ -92,13 +107,22 @@ import { environment } from 'environments/environment';
     MatMenuModule,
     MatOptionModule,
     MatRadioModule,
+    MatSelectModule,
     MatSlideToggleModule,
     MatSnackBarModule,
     MatToolbarModule,
     MatTooltipModule,
   ],
   providers: [{ provide: ErrorHandler, useFactory: errorHandlerFactory }],
-  entryComponents: [ConfirmDialogComponent, DemoDialogComponent, DropFilesDialogComponent],
+  entryComponents: [
+    ConfirmDialogComponent,
+    DemoDialogComponent,
+    DropFilesDialogComponent,
+    RasterExportDialogComponent,
+    SimplifyPathDialogComponent,
+    StateListDialogComponent,
+    VideoExportDialogComponent,
+  ],
   bootstrap: [RootComponent],
 })
 export class EditorModule {
@@ -116,6 +140,7 @@ export class EditorModule {
       .addSvgIcon('animationblock', this.trustUrl('assets/icons/animationblock.svg'))
       .addSvgIcon('mask', this.trustUrl('assets/icons/clippathlayer.svg'))
       .addSvgIcon('group', this.trustUrl('assets/icons/grouplayer.svg'))
+      .addSvgIcon('instance', this.trustUrl('assets/icons/instancelayer.svg'))
       .addSvgIcon('path', this.trustUrl('assets/icons/pathlayer.svg'))
       .addSvgIcon('vector', this.trustUrl('assets/icons/vectorlayer.svg'))
       // Tools.
@@ -0,0 +1,63 @@
+import { Expression } from '.';
+
+describe('Expression', () => {
+  const VARIABLES: Dictionary<number> = { t: 250, scaleX: 2, fillAlpha: 0.25, 'circle.alpha': 0.5 };
+  const lookupFn = (name: string) => VARIABLES[name];
+
+  const TESTS_EVALUATE: Array<[string, number]> = [
+    ['1', 1],
+    ['.5 + 1.5e1', 15.5],
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['7 % 4 - 10 / 4', 0.5],
+    ['-scaleX', -2],
+    ['- -scaleX', 2],
+    ['scaleX', 2],
+    ['1 - fillAlpha', 0.75],
+    ['circle.alpha * 2', 1],
+    ['max(1, t / 100, scaleX)', 2.5],
+    ['round(sin(PI / 2) * 10)', 10],
+    ['1 / 0', NaN],
+  ];
+
+  describe('#evaluate', () => {
+    TESTS_EVALUATE.forEach(([source, expected]) => {
+      it(`evaluating '${source}' yields ${expected}`, () => {
+        const expression = Expression.parse(source);
+        expect(expression).toBeDefined();
+        const actual = expression.evaluate(lookupFn);
+        if (isNaN(expected)) {
+          expect(actual).toBeNaN();
+        } else {
+          expect(actual).toBeCloseTo(expected, 9);
+        }
+      });
+    });
+  });
+
+  const TESTS_PARSE_INVALID = [
+    '',
+    '   ',
+    '1 +',
+    '(1',
+    '1)',
+    '2 scaleX',
+    'foo(1)',
+    'min(1,)',
+    '1 $ 2',
+  ];
+
+  describe('#parse', () => {
+    TESTS_PARSE_INVALID.forEach(source => {
+      it(`parsing '${source}' yields undefined`, () => {
+        expect(Expression.parse(source)).toBeUndefined();
+      });
+    });
+
+    it(`collects the referenced variables`, () => {
+      const expression = Expression.parse(' 1 - fillAlpha * fillAlpha + circle.alpha + PI + t ');
+      expect(expression.source).toEqual('1 - fillAlpha * fillAlpha + circle.alpha + PI + t');
+      expect(expression.references).toEqual(['fillAlpha', 'circle.alpha', 't']);
+    });
+  });
+});
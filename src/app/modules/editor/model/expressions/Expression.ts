@@ -0,0 +1,219 @@
+import * as _ from 'lodash';
+
+const FUNCTIONS: Dictionary<(...args: number[]) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  cos: Math.cos,
+  floor: Math.floor,
+  max: Math.max,
+  min: Math.min,
+  pow: Math.pow,
+  round: Math.round,
+  sin: Math.sin,
+  sqrt: Math.sqrt,
+  tan: Math.tan,
+};
+
+const CONSTANTS: Dictionary<number> = {
+  PI: Math.PI,
+};
+
+const TOKEN_REGEX = /^\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*(?:\.[a-z_]\w*)?)|([-+*/%(),]))/i;
+
+/**
+ * A simple arithmetic expression (i.e. '1 - fillAlpha' or 'sin(t / 100)').
+ * Expressions support numbers, the +, -, *, / and % operators, parentheses,
+ * a small set of math functions, and variable references. Variables are
+ * either plain identifiers (i.e. 'scaleX') or identifiers qualified by a
+ * layer name (i.e. 'circle.fillAlpha') and are looked up during evaluation.
+ */
+export class Expression {
+  /**
+   * Parses the given source string, returning undefined if it isn't a valid expression.
+   */
+  static parse(source = ''): Expression | undefined {
+    const tokens = tokenize(source);
+    if (!tokens || !tokens.length) {
+      return undefined;
+    }
+    const parser = new Parser(tokens);
+    const evaluateFn = parser.parseExpression();
+    if (!evaluateFn || !parser.isDone()) {
+      return undefined;
+    }
+    return new Expression(source.trim(), evaluateFn, _.uniq(parser.references));
+  }
+
+  private constructor(
+    // The trimmed source string used to create the expression.
+    readonly source: string,
+    private readonly evaluateFn: EvaluateFn,
+    // The variable names referenced by the expression.
+    readonly references: ReadonlyArray<string>,
+  ) {}
+
+  /**
+   * Evaluates the expression using the given function to look up variable values.
+   * Returns NaN if the result isn't a finite number.
+   */
+  evaluate(lookupFn: (name: string) => number) {
+    const value = this.evaluateFn(lookupFn);
+    return isFinite(value) ? value : NaN;
+  }
+}
+
+type EvaluateFn = (lookupFn: (name: string) => number) => number;
+
+interface Token {
+  readonly type: 'number' | 'identifier' | 'symbol';
+  readonly value: string;
+}
+
+function tokenize(source: string): Token[] | undefined {
+  const tokens: Token[] = [];
+  let str = source;
+  while (str.trim()) {
+    const match = TOKEN_REGEX.exec(str);
+    if (!match) {
+      return undefined;
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'identifier', value: match[2] });
+    } else {
+      tokens.push({ type: 'symbol', value: match[3] });
+    }
+    str = str.slice(match[0].length);
+  }
+  return tokens;
+}
+
+/**
+ * A recursive descent parser that compiles a list of tokens into a function.
+ * Each parse method returns undefined if the tokens are invalid.
+ */
+class Parser {
+  readonly references: string[] = [];
+  private index = 0;
+
+  constructor(private readonly tokens: ReadonlyArray<Token>) {}
+
+  isDone() {
+    return this.index === this.tokens.length;
+  }
+
+  // expression := term (('+' | '-') term)*
+  parseExpression(): EvaluateFn | undefined {
+    let left = this.parseTerm();
+    while (left && (this.peekSymbol('+') || this.peekSymbol('-'))) {
+      const op = this.tokens[this.index++].value;
+      const l = left;
+      const r = this.parseTerm();
+      if (!r) {
+        return undefined;
+      }
+      left = op === '+' ? fn => l(fn) + r(fn) : fn => l(fn) - r(fn);
+    }
+    return left;
+  }
+
+  // term := unary (('*' | '/' | '%') unary)*
+  private parseTerm(): EvaluateFn | undefined {
+    let left = this.parseUnary();
+    while (left && (this.peekSymbol('*') || this.peekSymbol('/') || this.peekSymbol('%'))) {
+      const op = this.tokens[this.index++].value;
+      const l = left;
+      const r = this.parseUnary();
+      if (!r) {
+        return undefined;
+      }
+      if (op === '*') {
+        left = fn => l(fn) * r(fn);
+      } else if (op === '/') {
+        left = fn => l(fn) / r(fn);
+      } else {
+        left = fn => l(fn) % r(fn);
+      }
+    }
+    return left;
+  }
+
+  // unary := ('-' | '+') unary | primary
+  private parseUnary(): EvaluateFn | undefined {
+    if (this.peekSymbol('-') || this.peekSymbol('+')) {
+      const op = this.tokens[this.index++].value;
+      const operand = this.parseUnary();
+      if (!operand) {
+        return undefined;
+      }
+      return op === '-' ? fn => -operand(fn) : operand;
+    }
+    return this.parsePrimary();
+  }
+
+  // primary := number | '(' expression ')' | function '(' arguments ')' | constant | variable
+  private parsePrimary(): EvaluateFn | undefined {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      return undefined;
+    }
+    if (token.type === 'number') {
+      const value = Number(token.value);
+      return () => value;
+    }
+    if (token.type === 'symbol') {
+      if (token.value !== '(') {
+        return undefined;
+      }
+      const inner = this.parseExpression();
+      return inner && this.consumeSymbol(')') ? inner : undefined;
+    }
+    const name = token.value;
+    if (this.peekSymbol('(')) {
+      return this.parseFunctionCall(name);
+    }
+    if (_.has(CONSTANTS, name)) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    this.references.push(name);
+    return fn => fn(name);
+  }
+
+  // arguments := expression (',' expression)*
+  private parseFunctionCall(name: string): EvaluateFn | undefined {
+    if (!_.has(FUNCTIONS, name)) {
+      return undefined;
+    }
+    const func = FUNCTIONS[name];
+    this.consumeSymbol('(');
+    const args: EvaluateFn[] = [];
+    if (!this.consumeSymbol(')')) {
+      do {
+        const arg = this.parseExpression();
+        if (!arg) {
+          return undefined;
+        }
+        args.push(arg);
+      } while (this.consumeSymbol(','));
+      if (!this.consumeSymbol(')')) {
+        return undefined;
+      }
+    }
+    return fn => func(...args.map(a => a(fn)));
+  }
+
+  private peekSymbol(value: string) {
+    const token = this.tokens[this.index];
+    return !!token && token.type === 'symbol' && token.value === value;
+  }
+
+  private consumeSymbol(value: string) {
+    if (this.peekSymbol(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1 @@
+export { Expression } from './Expression';
@@ -0,0 +1,32 @@
+export type GradientType = 'linear' | 'radial';
+export type TileMode = 'clamp' | 'repeat' | 'mirror';
+
+/**
+ * A color stop in a gradient. The offset is a fraction in the interval [0,1].
+ */
+export interface GradientStop {
+  readonly offset: number;
+  // An ARGB hex string (i.e. '#FF0000' or '#80FF0000').
+  readonly color: string;
+}
+
+/**
+ * An immutable gradient that mirrors the VectorDrawable's '<gradient>' element.
+ * All coordinates are defined in the viewport space of the path that uses the
+ * gradient. Linear gradients only use the start/end coordinates and radial
+ * gradients only use the center/radius values, but both are always stored so
+ * that switching between the two types doesn't lose any information.
+ */
+export interface Gradient {
+  readonly type: GradientType;
+  readonly startX: number;
+  readonly startY: number;
+  readonly endX: number;
+  readonly endY: number;
+  readonly centerX: number;
+  readonly centerY: number;
+  readonly radius: number;
+  readonly tileMode: TileMode;
+  // The gradient's color stops, ordered by offset.
+  readonly stops: ReadonlyArray<GradientStop>;
+}
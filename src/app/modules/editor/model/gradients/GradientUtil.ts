@@ -0,0 +1,146 @@
+import { MathUtil, Matrix, Rect } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+import { Gradient, GradientStop, GradientType, TileMode } from './Gradient';
+
+const DEFAULT_BOUNDS: Rect = { l: 0, t: 0, r: 24, b: 24 };
+
+/**
+ * Creates a new gradient that spans the specified bounds. Linear gradients
+ * run horizontally across the bounds and radial gradients are centered
+ * inside of them.
+ */
+export function create(
+  type: GradientType,
+  bounds = DEFAULT_BOUNDS,
+  stops: ReadonlyArray<GradientStop> = [
+    { offset: 0, color: '#000000' },
+    { offset: 1, color: '#ffffff' },
+  ],
+): Gradient {
+  const { l, t, r, b } = bounds;
+  const centerY = MathUtil.round((t + b) / 2);
+  return {
+    type,
+    startX: l,
+    startY: centerY,
+    endX: r,
+    endY: centerY,
+    centerX: MathUtil.round((l + r) / 2),
+    centerY,
+    radius: MathUtil.round(Math.max(r - l, b - t) / 2),
+    tileMode: 'clamp',
+    stops,
+  };
+}
+
+/**
+ * Returns a copy of the given gradient-like object (i.e. as read from a JSON file)
+ * with missing values filled in and its stops sorted by offset.
+ */
+export function normalize(obj: Partial<Gradient>): Gradient {
+  const defaults = create(obj.type === 'radial' ? 'radial' : 'linear');
+  const numberOrDefault = (key: keyof Gradient) => {
+    const value = obj[key] as number;
+    return _.isFinite(value) ? value : (defaults[key] as number);
+  };
+  const tileModes: ReadonlyArray<TileMode> = ['clamp', 'repeat', 'mirror'];
+  return {
+    type: defaults.type,
+    startX: numberOrDefault('startX'),
+    startY: numberOrDefault('startY'),
+    endX: numberOrDefault('endX'),
+    endY: numberOrDefault('endY'),
+    centerX: numberOrDefault('centerX'),
+    centerY: numberOrDefault('centerY'),
+    radius: Math.max(0, numberOrDefault('radius')),
+    tileMode: tileModes.includes(obj.tileMode) ? obj.tileMode : 'clamp',
+    stops: _.sortBy(
+      (obj.stops || defaults.stops).map(({ offset, color }) => {
+        return { offset: _.clamp(Number(offset) || 0, 0, 1), color };
+      }),
+      s => s.offset,
+    ),
+  };
+}
+
+/**
+ * Returns true iff the two gradients can be smoothly animated into each other
+ * (i.e. they have the same type, tile mode, and number of stops).
+ */
+export function isMorphable(start: Gradient, end: Gradient) {
+  return (
+    !!start &&
+    !!end &&
+    start.type === end.type &&
+    start.tileMode === end.tileMode &&
+    start.stops.length === end.stops.length
+  );
+}
+
+/**
+ * Applies the transformation matrix to the gradient's coordinates. Radial
+ * gradients can't be skewed or scaled non-uniformly, so their radius is scaled
+ * by the matrix's average scale factor.
+ */
+export function transform(gradient: Gradient, matrix: Matrix): Gradient {
+  const start = MathUtil.transformPoint({ x: gradient.startX, y: gradient.startY }, matrix);
+  const end = MathUtil.transformPoint({ x: gradient.endX, y: gradient.endY }, matrix);
+  const center = MathUtil.transformPoint({ x: gradient.centerX, y: gradient.centerY }, matrix);
+  const scale = Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+  return {
+    ...gradient,
+    startX: start.x,
+    startY: start.y,
+    endX: end.x,
+    endY: end.y,
+    centerX: center.x,
+    centerY: center.y,
+    radius: MathUtil.round(gradient.radius * scale),
+  };
+}
+
+/**
+ * The canvas (and paper.js) only support clamped gradients, so repeated and
+ * mirrored gradients are emulated by extending the gradient's geometry and
+ * repeating its stops the specified number of times in each direction.
+ */
+export function toClampedGradient(gradient: Gradient, numRepeats = 8): Gradient {
+  if (gradient.tileMode === 'clamp' || !gradient.stops.length) {
+    return gradient;
+  }
+  const periodStopsFn = (period: number) => {
+    const isMirrored = gradient.tileMode === 'mirror' && MathUtil.floorMod(period, 2) === 1;
+    const stops = isMirrored
+      ? gradient.stops.map(({ offset, color }) => ({ offset: 1 - offset, color })).reverse()
+      : gradient.stops;
+    return stops.map(({ offset, color }) => ({ offset: period + offset, color }));
+  };
+  if (gradient.type === 'radial') {
+    // Radial gradients can only be extended outwards.
+    const numRings = numRepeats + 1;
+    return {
+      ...gradient,
+      radius: gradient.radius * numRings,
+      tileMode: 'clamp',
+      stops: _.flatMap(_.range(numRings), periodStopsFn).map(({ offset, color }) => {
+        return { offset: offset / numRings, color };
+      }),
+    };
+  }
+  const { startX, startY, endX, endY } = gradient;
+  const dx = endX - startX;
+  const dy = endY - startY;
+  const numPeriods = 2 * numRepeats + 1;
+  return {
+    ...gradient,
+    startX: startX - numRepeats * dx,
+    startY: startY - numRepeats * dy,
+    endX: endX + numRepeats * dx,
+    endY: endY + numRepeats * dy,
+    tileMode: 'clamp',
+    stops: _.flatMap(_.range(-numRepeats, numRepeats + 1), periodStopsFn).map(
+      ({ offset, color }) => ({ offset: (offset + numRepeats) / numPeriods, color }),
+    ),
+  };
+}
@@ -0,0 +1,4 @@
+import * as GradientUtil from './GradientUtil';
+export { GradientUtil };
+
+export { Gradient, GradientStop, GradientType, TileMode } from './Gradient';
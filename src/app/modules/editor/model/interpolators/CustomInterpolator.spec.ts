@@ -0,0 +1,102 @@
+import * as CustomInterpolator from './CustomInterpolator';
+
+describe('CustomInterpolator', () => {
+  describe('#parse', () => {
+    const TESTS: Array<{ value: string; expected: CustomInterpolator.ParsedCustomInterpolator }> = [
+      {
+        value: 'cubic-bezier(0.4, 0, 0.2, 1)',
+        expected: { type: 'cubic-bezier', args: [0.4, 0, 0.2, 1] },
+      },
+      { value: ' spring(0.5,-2) ', expected: { type: 'spring', args: [0.5, -2] } },
+      { value: 'overshoot(2)', expected: { type: 'overshoot', args: [2] } },
+      { value: 'anticipate(1.5)', expected: { type: 'anticipate', args: [1.5] } },
+      { value: 'anticipate-overshoot(3)', expected: { type: 'anticipate-overshoot', args: [3] } },
+      { value: 'bounce(0.5)', expected: { type: 'bounce', args: [0.5] } },
+      {
+        value: 'path( M 0 0 L 1 1 )',
+        expected: { type: 'path', args: [], pathData: 'M 0 0 L 1 1' },
+      },
+      { value: '', expected: undefined },
+      { value: 'LINEAR', expected: undefined },
+      { value: 'cubic-bezier(0.4, 0, 0.2)', expected: undefined },
+      { value: 'cubic-bezier(0.4, 0, 0.2, 1, 1)', expected: undefined },
+      { value: 'cubic-bezier(0.4, a, 0.2, 1)', expected: undefined },
+      { value: 'cubic-bezier(0.4, 0, 0.2, Infinity)', expected: undefined },
+      { value: 'steps(4)', expected: undefined },
+      { value: 'spring(0.5, 0', expected: undefined },
+    ];
+
+    TESTS.forEach(({ value, expected }) => {
+      it(`parsing '${value}' yields ${JSON.stringify(expected)}`, () => {
+        expect(CustomInterpolator.parse(value)).toEqual(expected);
+      });
+    });
+  });
+
+  describe('#format', () => {
+    const TESTS: Array<{ value: string; expected: string }> = [
+      { value: 'cubic-bezier(0.4,0,0.2,1)', expected: 'cubic-bezier(0.4, 0, 0.2, 1)' },
+      { value: 'cubic-bezier(-1, 5, 2, 1)', expected: 'cubic-bezier(0, 3, 1, 1)' },
+      { value: 'spring(0.123456, 0)', expected: 'spring(0.1235, 0)' },
+      { value: 'bounce(1)', expected: 'bounce(0.9)' },
+      { value: 'path(M 0 0 L 1 1)', expected: 'path(M 0 0 L 1 1)' },
+    ];
+
+    TESTS.forEach(({ value, expected }) => {
+      it(`formatting '${value}' yields '${expected}'`, () => {
+        const { type, args, pathData } = CustomInterpolator.parse(value);
+        const actual = CustomInterpolator.format(type, args, pathData);
+        expect(actual).toEqual(expected);
+        const { type: newType, args: newArgs } = CustomInterpolator.parse(actual);
+        expect(CustomInterpolator.format(newType, newArgs, pathData)).toEqual(actual);
+      });
+    });
+
+    CustomInterpolator.CUSTOM_INTERPOLATORS.forEach(({ type }) => {
+      it(`default '${type}' value can be parsed`, () => {
+        const value = CustomInterpolator.getDefaultValue(type);
+        expect(CustomInterpolator.parse(value).type).toEqual(type);
+      });
+    });
+  });
+
+  describe('#create', () => {
+    CustomInterpolator.CUSTOM_INTERPOLATORS.forEach(({ type }) => {
+      it(`default '${type}' interpolator starts at 0 and ends at 1`, () => {
+        const { interpolateFn } = CustomInterpolator.create(
+          CustomInterpolator.getDefaultValue(type),
+        );
+        expect(interpolateFn(0)).toBeCloseTo(0, 6);
+        expect(interpolateFn(1)).toBeCloseTo(1, 6);
+      });
+    });
+
+    it('creating a cubic bezier interpolator normalizes its value', () => {
+      const interpolator = CustomInterpolator.create('cubic-bezier(0.4,0,0.2,1)');
+      expect(interpolator.value).toEqual('cubic-bezier(0.4, 0, 0.2, 1)');
+      expect(interpolator.webRef).toEqual('cubic-bezier(0.4, 0, 0.2, 1)');
+      expect(interpolator.androidResource).toEqual({
+        tagName: 'pathInterpolator',
+        attrs: { controlX1: 0.4, controlY1: 0, controlX2: 0.2, controlY2: 1 },
+      });
+    });
+
+    it('creating an overshoot interpolator overshoots its end value', () => {
+      const { interpolateFn, webRef } = CustomInterpolator.create('overshoot(2)');
+      expect(interpolateFn(0.75)).toBeGreaterThan(1);
+      expect(webRef).toMatch(/^linear\(/);
+    });
+
+    it('creating a spring interpolator approximates it with an android path', () => {
+      const { androidResource } = CustomInterpolator.create('spring(0.5, 0)');
+      expect(androidResource.tagName).toEqual('pathInterpolator');
+      expect(androidResource.attrs.pathData).toMatch(/^M 0,0 L /);
+    });
+
+    ['', 'foo(1)', 'path(M 0 0 L 2 2)', 'path(M 0 0 L 1)'].forEach(value => {
+      it(`creating '${value}' yields undefined`, () => {
+        expect(CustomInterpolator.create(value)).toBeUndefined();
+      });
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import * as _ from 'lodash';
+
+import * as BezierEasing from './BezierEasing';
+import * as EasingUtil from './EasingUtil';
+import { AndroidResource, Interpolator } from './Interpolator';
+import * as PathEasing from './PathEasing';
+
+/**
+ * Custom interpolators are stored using a function-like notation that
+ * contains the interpolator's type and parameters, i.e.
+ * 'cubic-bezier(0.4, 0, 0.2, 1)', 'spring(0.5, 0)' or 'path(M 0 0 L 1 1)'.
+ */
+const VALUE_REGEX = /^([a-z-]+)\((.*)\)$/;
+const LN_1000 = Math.log(1000);
+
+export type CustomInterpolatorType =
+  | 'cubic-bezier'
+  | 'spring'
+  | 'overshoot'
+  | 'anticipate'
+  | 'anticipate-overshoot'
+  | 'bounce'
+  | 'path';
+
+export interface CustomInterpolatorParam {
+  readonly label: string;
+  readonly defaultValue: number;
+  readonly min: number;
+  readonly max: number;
+}
+
+export interface CustomInterpolatorInfo {
+  readonly type: CustomInterpolatorType;
+  readonly label: string;
+  // The interpolator's numeric parameters (path interpolators have none).
+  readonly params: ReadonlyArray<CustomInterpolatorParam>;
+}
+
+export const CUSTOM_INTERPOLATORS: ReadonlyArray<CustomInterpolatorInfo> = [
+  {
+    type: 'cubic-bezier',
+    label: 'Cubic bezier',
+    params: [
+      { label: 'x1', defaultValue: 0.4, min: 0, max: 1 },
+      { label: 'y1', defaultValue: 0, min: -2, max: 3 },
+      { label: 'x2', defaultValue: 0.2, min: 0, max: 1 },
+      { label: 'y2', defaultValue: 1, min: -2, max: 3 },
+    ],
+  },
+  {
+    type: 'spring',
+    label: 'Spring',
+    params: [
+      { label: 'Damping ratio', defaultValue: 0.5, min: 0.05, max: 10 },
+      { label: 'Initial velocity', defaultValue: 0, min: -20, max: 20 },
+    ],
+  },
+  {
+    type: 'overshoot',
+    label: 'Overshoot',
+    params: [{ label: 'Tension', defaultValue: 2, min: 0, max: 10 }],
+  },
+  {
+    type: 'anticipate',
+    label: 'Anticipate',
+    params: [{ label: 'Tension', defaultValue: 2, min: 0, max: 10 }],
+  },
+  {
+    type: 'anticipate-overshoot',
+    label: 'Anticipate overshoot',
+    params: [{ label: 'Tension', defaultValue: 2, min: 0, max: 10 }],
+  },
+  {
+    type: 'bounce',
+    label: 'Bounce',
+    params: [{ label: 'Restitution', defaultValue: 0.5, min: 0.05, max: 0.9 }],
+  },
+  {
+    type: 'path',
+    label: 'Path',
+    params: [],
+  },
+];
+
+export interface ParsedCustomInterpolator {
+  readonly type: CustomInterpolatorType;
+  readonly args: ReadonlyArray<number>;
+  // Only set for path interpolators.
+  readonly pathData?: string;
+}
+
+/**
+ * Parses a custom interpolator value. Returns undefined if the value
+ * isn't a valid custom interpolator.
+ */
+export function parse(value: string): ParsedCustomInterpolator | undefined {
+  const match = VALUE_REGEX.exec((value || '').trim());
+  if (!match) {
+    return undefined;
+  }
+  const info = _.find(CUSTOM_INTERPOLATORS, i => i.type === match[1]);
+  if (!info) {
+    return undefined;
+  }
+  if (info.type === 'path') {
+    return { type: info.type, args: [], pathData: match[2].trim() };
+  }
+  const args = match[2].split(',').map(s => Number(s.trim()));
+  if (args.length !== info.params.length || args.some(a => !isFinite(a))) {
+    return undefined;
+  }
+  return { type: info.type, args };
+}
+
+/**
+ * Builds a custom interpolator value from its type and parameters. The
+ * parameters are clamped to their valid ranges.
+ */
+export function format(type: CustomInterpolatorType, args: ReadonlyArray<number>, pathData = '') {
+  if (type === 'path') {
+    return `path(${pathData.trim()})`;
+  }
+  const { params } = _.find(CUSTOM_INTERPOLATORS, i => i.type === type);
+  const clampedArgs = params.map(({ min, max, defaultValue }, i) => {
+    const arg = args[i];
+    return _.round(_.clamp(isFinite(arg) ? arg : defaultValue, min, max), 4);
+  });
+  return `${type}(${clampedArgs.join(', ')})`;
+}
+
+/**
+ * Returns the default value for the given custom interpolator type.
+ */
+export function getDefaultValue(type: CustomInterpolatorType) {
+  if (type === 'path') {
+    return format(type, [], 'M 0 0 C 0.4 0 0.2 1 1 1');
+  }
+  const { params } = _.find(CUSTOM_INTERPOLATORS, i => i.type === type);
+  return format(type, params.map(p => p.defaultValue));
+}
+
+/**
+ * Creates an interpolator from a custom interpolator value. Returns
+ * undefined if the value isn't a valid custom interpolator.
+ */
+export function create(value: string): Interpolator | undefined {
+  const parsed = parse(value);
+  if (!parsed) {
+    return undefined;
+  }
+  // Normalize the value so that equivalent interpolators are stored identically.
+  value = format(parsed.type, parsed.args, parsed.pathData);
+  const { type, args, pathData } = parse(value);
+  const [x1, y1, x2, y2] = args;
+  const [tension] = args;
+  let interpolateFn: (fraction: number) => number;
+  let androidResource: AndroidResource;
+  try {
+    switch (type) {
+      case 'cubic-bezier':
+        interpolateFn = BezierEasing.create(x1, y1, x2, y2);
+        androidResource = {
+          tagName: 'pathInterpolator',
+          attrs: { controlX1: x1, controlY1: y1, controlX2: x2, controlY2: y2 },
+        };
+        break;
+      case 'spring':
+        interpolateFn = createSpringEasing(args[0], args[1]);
+        break;
+      case 'overshoot':
+        interpolateFn = f => (f - 1) * (f - 1) * ((tension + 1) * (f - 1) + tension) + 1;
+        androidResource = { tagName: 'overshootInterpolator', attrs: { tension } };
+        break;
+      case 'anticipate':
+        interpolateFn = f => f * f * ((tension + 1) * f - tension);
+        androidResource = { tagName: 'anticipateInterpolator', attrs: { tension } };
+        break;
+      case 'anticipate-overshoot':
+        interpolateFn = createAnticipateOvershootEasing(tension);
+        androidResource = {
+          tagName: 'anticipateOvershootInterpolator',
+          attrs: { tension, extraTension: 1.5 },
+        };
+        break;
+      case 'bounce':
+        interpolateFn = createBounceEasing(args[0]);
+        break;
+      case 'path':
+        interpolateFn = PathEasing.create(pathData);
+        androidResource = { tagName: 'pathInterpolator', attrs: { pathData } };
+        break;
+    }
+  } catch (e) {
+    return undefined;
+  }
+  if (!androidResource) {
+    // Android doesn't have built-in equivalents, so approximate the curve with a path.
+    androidResource = {
+      tagName: 'pathInterpolator',
+      attrs: { pathData: EasingUtil.toPathData(interpolateFn) },
+    };
+  }
+  const info = _.find(CUSTOM_INTERPOLATORS, i => i.type === type);
+  return {
+    value,
+    label: type === 'path' ? info.label : `${info.label} (${args.join(', ')})`,
+    interpolateFn,
+    androidRef: '',
+    androidResource,
+    webRef: type === 'cubic-bezier' ? value : EasingUtil.toCssLinear(interpolateFn),
+  };
+}
+
+/**
+ * Creates an easing function that simulates a damped spring with unit mass
+ * and stiffness. Time is scaled so that the spring has settled by the end of
+ * the animation.
+ */
+function createSpringEasing(dampingRatio: number, velocity: number) {
+  let positionFn: (t: number) => number;
+  let decayRate: number;
+  if (dampingRatio < 1) {
+    const wd = Math.sqrt(1 - dampingRatio * dampingRatio);
+    const b = (dampingRatio - velocity) / wd;
+    positionFn = t => 1 - Math.exp(-dampingRatio * t) * (Math.cos(wd * t) + b * Math.sin(wd * t));
+    decayRate = dampingRatio;
+  } else if (dampingRatio === 1) {
+    positionFn = t => 1 - Math.exp(-t) * (1 + (1 - velocity) * t);
+    // Account for the linear term slowing down the decay.
+    decayRate = 2 / 3;
+  } else {
+    const root = Math.sqrt(dampingRatio * dampingRatio - 1);
+    const r1 = -dampingRatio + root;
+    const r2 = -dampingRatio - root;
+    const a = (-velocity - r2) / (r1 - r2);
+    positionFn = t => 1 - (a * Math.exp(r1 * t) + (1 - a) * Math.exp(r2 * t));
+    decayRate = -r1;
+  }
+  const duration = LN_1000 / decayRate;
+  return (fraction: number) => (fraction >= 1 ? 1 : positionFn(fraction * duration));
+}
+
+function createAnticipateOvershootEasing(tension: number) {
+  const t = tension * 1.5;
+  const a = (f: number) => f * f * ((t + 1) * f - t);
+  const o = (f: number) => f * f * ((t + 1) * f + t);
+  return (f: number) => (f < 0.5 ? 0.5 * a(f * 2) : 0.5 * (o(f * 2 - 2) + 2));
+}
+
+/**
+ * Creates an easing function that simulates a ball falling onto the floor
+ * (reached at fraction 1) and bouncing until it comes to rest. Each bounce
+ * keeps the given fraction of the ball's speed.
+ */
+function createBounceEasing(restitution: number) {
+  // Each bounce takes 'restitution' times as long as the previous one and reaches
+  // 'restitution^2' times the height. Bounces become invisible below 0.1% height.
+  const numBounces = Math.ceil(Math.log(1e-3) / (2 * Math.log(restitution)));
+  const bounceDurations = _.range(1, numBounces + 1).map(k => 2 * Math.pow(restitution, k));
+  const duration = 1 + _.sum(bounceDurations);
+  return (fraction: number) => {
+    let t = fraction * duration;
+    if (t < 1) {
+      return t * t;
+    }
+    t -= 1;
+    for (let k = 0; k < bounceDurations.length; k++) {
+      const d = bounceDurations[k];
+      if (t < d) {
+        const u = (t - d / 2) / (d / 2);
+        return 1 - Math.pow(restitution, 2 * (k + 1)) * (1 - u * u);
+      }
+      t -= d;
+    }
+    return 1;
+  };
+}
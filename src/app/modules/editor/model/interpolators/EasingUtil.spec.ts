@@ -0,0 +1,58 @@
+import * as BezierEasing from './BezierEasing';
+import * as EasingUtil from './EasingUtil';
+
+describe('EasingUtil', () => {
+  describe('#toCssLinear', () => {
+    it('samples the easing function at evenly spaced fractions', () => {
+      expect(EasingUtil.toCssLinear(f => f * f, 4)).toEqual('linear(0, 0.0625, 0.25, 0.5625, 1)');
+    });
+  });
+
+  describe('#toPathData', () => {
+    it('converts the easing function into a polyline', () => {
+      expect(EasingUtil.toPathData(f => f * f, 2)).toEqual('M 0,0 L 0.5,0.25 1,1');
+    });
+  });
+
+  describe('#fitCubicBezier', () => {
+    const TESTS: Array<{
+      description: string;
+      easingFn: (f: number) => number;
+      maxError: number;
+    }> = [
+      { description: 'linear', easingFn: f => f, maxError: 1e-3 },
+      {
+        description: 'cubic-bezier(1/3, 0.2, 2/3, 0.9)',
+        easingFn: BezierEasing.create(1 / 3, 0.2, 2 / 3, 0.9),
+        maxError: 1e-3,
+      },
+      {
+        description: 'cubic-bezier(0.4, 0, 0.2, 1)',
+        easingFn: BezierEasing.create(0.4, 0, 0.2, 1),
+        maxError: 0.1,
+      },
+      { description: 'accelerate', easingFn: f => f * f, maxError: 1e-3 },
+      { description: 'anticipate', easingFn: f => f * f * (3 * f - 2), maxError: 1e-3 },
+      {
+        description: 'overshoot',
+        easingFn: f => (f - 1) * (f - 1) * (3 * (f - 1) + 2) + 1,
+        maxError: 1e-3,
+      },
+    ];
+
+    TESTS.forEach(({ description, easingFn, maxError }) => {
+      it(`fitting '${description}' is within ${maxError}`, () => {
+        const [x1, y1, x2, y2] = EasingUtil.fitCubicBezier(easingFn);
+        expect(x1).toBeCloseTo(1 / 3, 4);
+        expect(x2).toBeCloseTo(2 / 3, 4);
+        // The x control points are at 1/3 and 2/3, so x(t) = t.
+        const fitFn = (t: number) =>
+          3 * (1 - t) * (1 - t) * t * y1 + 3 * (1 - t) * t * t * y2 + t * t * t;
+        for (let i = 0; i <= 100; i++) {
+          const t = i / 100;
+          expect(Math.abs(fitFn(t) - easingFn(t))).toBeLessThanOrEqual(maxError);
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import * as _ from 'lodash';
+
+type EasingFn = (fraction: number) => number;
+
+/**
+ * Samples the easing function at evenly spaced fractions (including 0 and 1).
+ */
+function sample(easingFn: EasingFn, numSegments: number) {
+  return _.range(numSegments + 1).map(i => {
+    const x = i / numSegments;
+    return { x, y: easingFn(x) };
+  });
+}
+
+/**
+ * Converts an easing function into a CSS linear() easing function. The
+ * function's values are sampled at evenly spaced fractions, so no explicit
+ * stop positions are needed.
+ */
+export function toCssLinear(easingFn: EasingFn, numSegments = 40) {
+  const values = sample(easingFn, numSegments).map(({ y }) => _.round(y, 4));
+  return `linear(${values.join(', ')})`;
+}
+
+/**
+ * Converts an easing function into polyline path data that can be used by an
+ * android <pathInterpolator> resource.
+ */
+export function toPathData(easingFn: EasingFn, numSegments = 64) {
+  const points = sample(easingFn, numSegments).map(({ x, y }) => {
+    return `${_.round(x, 4)},${_.round(y, 4)}`;
+  });
+  return `M ${points[0]} L ${points.slice(1).join(' ')}`;
+}
+
+/**
+ * Returns the cubic bezier control points (x1, y1, x2, y2) that best fit the
+ * easing function. The x control points are fixed at 1/3 and 2/3 (so that x
+ * grows linearly with t), which reduces the fit to a linear least squares
+ * problem in y1 and y2.
+ */
+export function fitCubicBezier(easingFn: EasingFn, numSegments = 100) {
+  let a11 = 0;
+  let a12 = 0;
+  let a22 = 0;
+  let b1 = 0;
+  let b2 = 0;
+  sample(easingFn, numSegments).forEach(({ x: t, y }) => {
+    const c1 = 3 * (1 - t) * (1 - t) * t;
+    const c2 = 3 * (1 - t) * t * t;
+    const r = y - t * t * t;
+    a11 += c1 * c1;
+    a12 += c1 * c2;
+    a22 += c2 * c2;
+    b1 += c1 * r;
+    b2 += c2 * r;
+  });
+  const det = a11 * a22 - a12 * a12;
+  const y1 = (b1 * a22 - b2 * a12) / det;
+  const y2 = (a11 * b2 - a12 * b1) / det;
+  return [_.round(1 / 3, 4), _.round(y1, 4), _.round(2 / 3, 4), _.round(y2, 4)];
+}
@@ -0,0 +1,15 @@
+import { getInterpolator, getReversedInterpolatorValue, INTERPOLATORS } from './Interpolator';
+
+describe('Interpolator', () => {
+  describe('#getReversedInterpolatorValue', () => {
+    INTERPOLATORS.forEach(({ value, interpolateFn }) => {
+      it(`reversing '${value}' plays its easing curve backwards in time`, () => {
+        const reversedFn = getInterpolator(getReversedInterpolatorValue(value)).interpolateFn;
+        for (let i = 0; i <= 20; i++) {
+          const t = i / 20;
+          expect(reversedFn(t)).toBeCloseTo(1 - interpolateFn(1 - t), 2);
+        }
+      });
+    });
+  });
+});
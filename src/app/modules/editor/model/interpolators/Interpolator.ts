@@ -1,16 +1,61 @@
+import * as _ from 'lodash';
+
 import * as BezierEasing from './BezierEasing';
+import * as CustomInterpolator from './CustomInterpolator';
+import * as EasingUtil from './EasingUtil';
 
 export interface Interpolator {
   readonly value: string;
   readonly label: string;
   readonly interpolateFn: (fraction: number) => number;
+  // A reference to a built-in android interpolator (empty for custom interpolators).
   readonly androidRef: string;
+  // An inline android interpolator resource, used when there is no built-in reference.
+  readonly androidResource?: AndroidResource;
+  // A CSS easing function (either a keyword, cubic-bezier(), or linear()).
   readonly webRef: string;
 }
 
+/**
+ * Describes an android interpolator XML resource (i.e. <pathInterpolator>).
+ */
+export interface AndroidResource {
+  readonly tagName: string;
+  // Maps android attribute names (without the namespace) to their values.
+  readonly attrs: Dictionary<string | number>;
+}
+
 const FAST_OUT_SLOW_IN_EASING = BezierEasing.create(0.4, 0, 0.2, 1);
 const FAST_OUT_LINEAR_IN_EASING = BezierEasing.create(0.4, 0, 1, 1);
 const LINEAR_OUT_SLOW_IN_EASING = BezierEasing.create(0, 0, 0.2, 1);
+const ANTICIPATE_EASING = (f: number) => f * f * ((2 + 1) * f - 2);
+const OVERSHOOT_EASING = (f: number) => (f - 1) * (f - 1) * ((2 + 1) * (f - 1) + 2) + 1;
+const BOUNCE_EASING = (f: number) => {
+  const bounceFn = (t: number) => t * t * 8;
+  f *= 1.1226;
+  if (f < 0.3535) {
+    return bounceFn(f);
+  } else if (f < 0.7408) {
+    return bounceFn(f - 0.54719) + 0.7;
+  } else if (f < 0.9644) {
+    return bounceFn(f - 0.8526) + 0.9;
+  } else {
+    return bounceFn(f - 1.0435) + 0.95;
+  }
+};
+const ANTICIPATE_OVERSHOOT_EASING = (f: number) => {
+  const a = (t: number, s: number) => {
+    return t * t * ((s + 1) * t - s);
+  };
+  const o = (t: number, s: number) => {
+    return t * t * ((s + 1) * t + s);
+  };
+  if (f < 0.5) {
+    return 0.5 * a(f * 2, 2 * 1.5);
+  } else {
+    return 0.5 * (o(f * 2 - 2, 2 * 1.5) + 2);
+  }
+};
 
 export const INTERPOLATORS: ReadonlyArray<Interpolator> = [
   {
@@ -66,53 +111,114 @@ export const INTERPOLATORS: ReadonlyArray<Interpolator> = [
     value: 'ANTICIPATE',
     label: 'Anticipate',
     androidRef: '@android:anim/anticipate_interpolator',
-    interpolateFn: f => f * f * ((2 + 1) * f - 2),
-    webRef: 'cubic-bezier(0.4, 0, 0.2, 1)', // TODO: support exporting this interpolator!
+    interpolateFn: f => ANTICIPATE_EASING(f),
+    webRef: EasingUtil.toCssLinear(ANTICIPATE_EASING),
   },
   {
     value: 'OVERSHOOT',
     label: 'Overshoot',
     androidRef: '@android:anim/overshoot_interpolator',
-    interpolateFn: f => (f - 1) * (f - 1) * ((2 + 1) * (f - 1) + 2) + 1,
-    webRef: 'cubic-bezier(0.4, 0, 0.2, 1)', // TODO: support exporting this interpolator!
+    interpolateFn: f => OVERSHOOT_EASING(f),
+    webRef: EasingUtil.toCssLinear(OVERSHOOT_EASING),
   },
   {
     value: 'BOUNCE',
     label: 'Bounce',
     androidRef: '@android:anim/bounce_interpolator',
-    interpolateFn: f => {
-      const bounceFn = (t: number) => t * t * 8;
-      f *= 1.1226;
-      if (f < 0.3535) {
-        return bounceFn(f);
-      } else if (f < 0.7408) {
-        return bounceFn(f - 0.54719) + 0.7;
-      } else if (f < 0.9644) {
-        return bounceFn(f - 0.8526) + 0.9;
-      } else {
-        return bounceFn(f - 1.0435) + 0.95;
-      }
-    },
-    webRef: 'cubic-bezier(0.4, 0, 0.2, 1)', // TODO: support exporting this interpolator!
+    interpolateFn: f => BOUNCE_EASING(f),
+    webRef: EasingUtil.toCssLinear(BOUNCE_EASING),
   },
   {
     value: 'ANTICIPATE_OVERSHOOT',
     label: 'Anticipate overshoot',
     androidRef: '@android:anim/anticipate_overshoot_interpolator',
-    interpolateFn: f => {
-      const a = (t: number, s: number) => {
-        return t * t * ((s + 1) * t - s);
-      };
-      const o = (t: number, s: number) => {
-        return t * t * ((s + 1) * t + s);
-      };
-      if (f < 0.5) {
-        return 0.5 * a(f * 2, 2 * 1.5);
-      } else {
-        return 0.5 * (o(f * 2 - 2, 2 * 1.5) + 2);
-      }
-    },
-    webRef: 'cubic-bezier(0.4, 0, 0.2, 1)', // TODO: support exporting this interpolator!
+    interpolateFn: f => ANTICIPATE_OVERSHOOT_EASING(f),
+    webRef: EasingUtil.toCssLinear(ANTICIPATE_OVERSHOOT_EASING),
   },
-  // TODO: add support for custom path interpolators
 ];
+
+// Maps the built-in interpolators to the interpolators that play their easing
+// curves backwards in time.
+const REVERSED_INTERPOLATORS: Dictionary<string> = {
+  FAST_OUT_SLOW_IN: 'cubic-bezier(0.8, 0, 0.6, 1)',
+  FAST_OUT_LINEAR_IN: 'cubic-bezier(0, 0, 0.6, 1)',
+  LINEAR_OUT_SLOW_IN: 'cubic-bezier(0.8, 0, 1, 1)',
+  ACCELERATE_DECELERATE: 'ACCELERATE_DECELERATE',
+  ACCELERATE: 'DECELERATE',
+  DECELERATE: 'ACCELERATE',
+  LINEAR: 'LINEAR',
+  ANTICIPATE: 'OVERSHOOT',
+  OVERSHOOT: 'ANTICIPATE',
+  ANTICIPATE_OVERSHOOT: 'ANTICIPATE_OVERSHOOT',
+};
+
+// Caches the custom interpolators that have been created so far.
+const customInterpolators = new Map<string, Interpolator>();
+
+/**
+ * Returns the interpolator for the given value, which is either the value of
+ * one of the built-in INTERPOLATORS or a custom interpolator value (i.e.
+ * 'cubic-bezier(0.4, 0, 0.2, 1)'). Invalid values fall back to the default
+ * interpolator.
+ */
+export function getInterpolator(value: string) {
+  const interpolator = _.find(INTERPOLATORS, i => i.value === value);
+  if (interpolator) {
+    return interpolator;
+  }
+  if (!customInterpolators.has(value)) {
+    const custom = CustomInterpolator.create(value);
+    if (!custom) {
+      return INTERPOLATORS[0];
+    }
+    customInterpolators.set(value, custom);
+  }
+  return customInterpolators.get(value);
+}
+
+/**
+ * Returns the cubic bezier control points (x1, y1, x2, y2) that approximate
+ * the interpolator's easing curve, as described by its web reference. Curves
+ * that can't be described by a single cubic bezier are approximated by a
+ * least squares fit.
+ */
+export function getCubicBezierControlPoints(interpolator: Interpolator) {
+  if (interpolator.webRef === 'linear') {
+    return [0, 0, 1, 1];
+  }
+  const match = /^cubic-bezier\((.*)\)$/.exec(interpolator.webRef);
+  if (!match) {
+    return EasingUtil.fitCubicBezier(interpolator.interpolateFn);
+  }
+  return match[1].split(',').map(n => parseFloat(n));
+}
+
+/**
+ * Returns the value of an interpolator that plays the given interpolator's
+ * easing curve backwards in time (i.e. f'(t) = 1 - f(1 - t)). Curves without
+ * an exact equivalent are approximated by a path interpolator.
+ */
+export function getReversedInterpolatorValue(value: string): string {
+  if (_.has(REVERSED_INTERPOLATORS, value)) {
+    return REVERSED_INTERPOLATORS[value];
+  }
+  const parsed = CustomInterpolator.parse(value);
+  if (parsed) {
+    const { type, args } = parsed;
+    switch (type) {
+      case 'cubic-bezier': {
+        const [x1, y1, x2, y2] = args;
+        return CustomInterpolator.format(type, [1 - x2, 1 - y2, 1 - x1, 1 - y1]);
+      }
+      case 'overshoot':
+        return CustomInterpolator.format('anticipate', args);
+      case 'anticipate':
+        return CustomInterpolator.format('overshoot', args);
+      case 'anticipate-overshoot':
+        return CustomInterpolator.format(type, args);
+    }
+  }
+  const { interpolateFn } = getInterpolator(value);
+  const pathData = EasingUtil.toPathData(f => 1 - interpolateFn(1 - f));
+  return CustomInterpolator.format('path', [], pathData);
+}
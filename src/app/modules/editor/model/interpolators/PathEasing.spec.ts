@@ -0,0 +1,44 @@
+import * as PathEasing from './PathEasing';
+
+describe('PathEasing', () => {
+  describe('#create', () => {
+    const TESTS: Array<{ pathData: string; fractions: number[]; expected: number[] }> = [
+      { pathData: 'M 0 0 L 1 1', fractions: [0, 0.25, 1], expected: [0, 0.25, 1] },
+      { pathData: 'm 0 0 l 0.5 0 l 0.5 1', fractions: [0.25, 0.75], expected: [0, 0.5] },
+      { pathData: 'M 0 0 H 0.5 V 1 H 1', fractions: [0.25, 0.75], expected: [0, 1] },
+      { pathData: 'M 0 0 0.5 0.25 1 1', fractions: [0.5, 0.75], expected: [0.25, 0.625] },
+      { pathData: 'M 0 0 C 0 0.5 0.5 1 1 1', fractions: [0.5], expected: [0.84] },
+      { pathData: 'M 0 0 Q 0.5 0 1 1', fractions: [0.5], expected: [0.25] },
+      { pathData: 'M 0 0 L 1 1', fractions: [-1, 2], expected: [0, 1] },
+      { pathData: 'M 0 0 A 1 1 0 0 0 1 1', fractions: [0.5], expected: [0.87] },
+      {
+        pathData: 'M 0 0 C 0 0.25 0.25 0.5 0.5 0.5 S 1 0.75 1 1',
+        fractions: [0.5],
+        expected: [0.5],
+      },
+      { pathData: 'M 0 0 Q 0 0.5 0.5 0.5 T 1 1', fractions: [0.25, 0.75], expected: [0.46, 0.54] },
+    ];
+
+    TESTS.forEach(({ pathData, fractions, expected }) => {
+      it(`evaluating '${pathData}' at ${fractions.join(', ')}`, () => {
+        const easingFn = PathEasing.create(pathData);
+        fractions.forEach((f, i) => expect(easingFn(f)).toBeCloseTo(expected[i], 2));
+      });
+    });
+
+    const INVALID_TESTS = [
+      '',
+      '0 0 L 1 1',
+      'M 0 0 L 1',
+      'M 0.1 0 L 1 1',
+      'M 0 0 L 1 0.5',
+      'M 0 0 L 0.6 0.5 L 0.4 0.6 L 1 1',
+    ];
+
+    INVALID_TESTS.forEach(pathData => {
+      it(`creating '${pathData}' throws an error`, () => {
+        expect(() => PathEasing.create(pathData)).toThrow();
+      });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { Path } from 'app/modules/editor/model/paths';
+import { Point } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+const CURVE_SEGMENTS = 32;
+const EPSILON = 1e-3;
+
+/**
+ * Creates an easing function from SVG path data, using the same rules as
+ * android's PathInterpolator: the path must start at (0,0), end at (1,1), and
+ * its x coordinates must never decrease. Throws an error if the path data is
+ * invalid.
+ */
+export function create(pathData: string) {
+  const points = flatten(pathData);
+  const first = points[0];
+  const last = _.last(points);
+  if (!first || Math.abs(first.x) > EPSILON || Math.abs(first.y) > EPSILON) {
+    throw new Error('path interpolators must start at (0,0)');
+  }
+  if (Math.abs(last.x - 1) > EPSILON || Math.abs(last.y - 1) > EPSILON) {
+    throw new Error('path interpolators must end at (1,1)');
+  }
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].x < points[i - 1].x - EPSILON) {
+      throw new Error('path interpolators must have monotonically increasing x values');
+    }
+  }
+  return (fraction: number) => {
+    if (fraction <= 0) {
+      return 0;
+    }
+    if (fraction >= 1) {
+      return 1;
+    }
+    const index = _.clamp(
+      _.sortedIndexBy(points, { x: fraction, y: 0 }, p => p.x),
+      1,
+      points.length - 1,
+    );
+    const start = points[index - 1];
+    const end = points[index];
+    const dx = end.x - start.x;
+    return dx ? start.y + ((end.y - start.y) * (fraction - start.x)) / dx : end.y;
+  };
+}
+
+/**
+ * Parses the path data and flattens its segments into a polyline.
+ */
+function flatten(pathData: string) {
+  const points: Point[] = [];
+  new Path(pathData).getCommands().forEach(({ type, points: ps }) => {
+    // The first point of each command is the end point of the previous command.
+    if (ps.slice(1).some(p => !_.isFinite(p.x) || !_.isFinite(p.y))) {
+      throw new Error('invalid path interpolator data: ' + pathData);
+    }
+    if (type === 'Q' || type === 'C') {
+      for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+        points.push(evaluateBezier(ps, i / CURVE_SEGMENTS));
+      }
+    } else {
+      points.push(_.last(ps));
+    }
+  });
+  return points;
+}
+
+/**
+ * Evaluates a quadratic or cubic bezier curve at the given t value using
+ * de Casteljau's algorithm.
+ */
+function evaluateBezier(ps: ReadonlyArray<Point>, t: number): Point {
+  if (ps.length === 1) {
+    return ps[0];
+  }
+  const next: Point[] = [];
+  for (let i = 1; i < ps.length; i++) {
+    next.push({
+      x: ps[i - 1].x + (ps[i].x - ps[i - 1].x) * t,
+      y: ps[i - 1].y + (ps[i].y - ps[i - 1].y) * t,
+    });
+  }
+  return evaluateBezier(next, t);
+}
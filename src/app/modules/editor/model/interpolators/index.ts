@@ -1 +1,11 @@
-export { Interpolator, INTERPOLATORS } from './Interpolator';
+import * as CustomInterpolator from './CustomInterpolator';
+
+export {
+  AndroidResource,
+  Interpolator,
+  INTERPOLATORS,
+  getCubicBezierControlPoints,
+  getInterpolator,
+  getReversedInterpolatorValue,
+} from './Interpolator';
+export { CustomInterpolator };
@@ -0,0 +1,59 @@
+import { Path } from 'app/modules/editor/model/paths';
+
+import { GroupLayer } from '.';
+
+describe('GroupLayer', () => {
+  describe('#getMotionPathTransform', () => {
+    const TESTS: Array<{
+      motionPath?: string;
+      progress: number;
+      rotate?: 'none' | 'auto';
+      expected: { translateX: number; translateY: number; rotation: number };
+    }> = [
+      {
+        progress: 0.5,
+        expected: { translateX: 1, translateY: 2, rotation: 30 },
+      },
+      {
+        motionPath: 'M 0 0 L 10 0 L 10 10',
+        progress: 0.25,
+        expected: { translateX: 6, translateY: 2, rotation: 30 },
+      },
+      {
+        motionPath: 'M 0 0 L 10 0 L 10 10',
+        progress: 0.75,
+        expected: { translateX: 11, translateY: 7, rotation: 30 },
+      },
+      {
+        motionPath: 'M 0 0 L 10 0 L 10 10',
+        progress: 0.75,
+        rotate: 'auto',
+        expected: { translateX: 11, translateY: 7, rotation: 120 },
+      },
+      {
+        motionPath: 'M 0 0 L 10 0 L 10 10',
+        progress: 1,
+        expected: { translateX: 11, translateY: 12, rotation: 30 },
+      },
+    ];
+
+    TESTS.forEach(({ motionPath, progress, rotate = 'none', expected }) => {
+      it(`transform at ${progress} along '${motionPath}' with rotation '${rotate}'`, () => {
+        const layer = new GroupLayer({
+          name: 'group',
+          translateX: 1,
+          translateY: 2,
+          rotation: 30,
+          motionPath: motionPath ? new Path(motionPath) : undefined,
+          motionPathProgress: progress,
+          motionPathRotate: rotate,
+          children: [],
+        });
+        const actual = layer.getMotionPathTransform();
+        expect(actual.translateX).toBeCloseTo(expected.translateX, 4);
+        expect(actual.translateY).toBeCloseTo(expected.translateY, 4);
+        expect(actual.rotation).toBeCloseTo(expected.rotation, 4);
+      });
+    });
+  });
+});
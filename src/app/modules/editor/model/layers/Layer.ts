@@ -1,9 +1,13 @@
+import { Gradient } from 'app/modules/editor/model/gradients';
 import { Path } from 'app/modules/editor/model/paths';
 import {
   Animatable,
   ColorProperty,
+  DashArrayProperty,
+  DriverProperty,
   EnumProperty,
   FractionProperty,
+  GradientProperty,
   Inspectable,
   NameProperty,
   NumberProperty,
@@ -13,7 +17,7 @@ import {
 import { MathUtil, Matrix, Rect } from 'app/modules/editor/scripts/common';
 import * as _ from 'lodash';
 
-type Type = 'vector' | 'group' | 'mask' | 'path';
+type Type = 'vector' | 'group' | 'mask' | 'path' | 'instance';
 
 /**
  * Interface that is shared by all vector drawable layer models below.
@@ -126,7 +130,11 @@ interface LayerArgs {
   children: ReadonlyArray<Layer>;
 }
 
-export interface Layer extends LayerArgs, Inspectable, Animatable {}
+export interface Layer extends LayerArgs, Inspectable, Animatable {
+  // Maps driven property names to the expressions that drive them. Undefined
+  // for layers that don't support drivers (i.e. clip paths).
+  drivers?: Dictionary<string>;
+}
 export interface LayerConstructorArgs extends LayerArgs {}
 
 function load(obj: Layer | any): Layer {
@@ -145,6 +153,9 @@ function load(obj: Layer | any): Layer {
   if (obj.type === 'mask') {
     return new ClipPathLayer(obj);
   }
+  if (obj.type === 'instance') {
+    return new InstanceLayer(obj);
+  }
   console.error('Attempt to load layer with invalid object: ', obj);
   throw new Error('Attempt to load layer with invalid object');
 }
@@ -152,6 +163,7 @@ function load(obj: Layer | any): Layer {
 const VECTOR_DEFAULTS = {
   canvasColor: '',
   alpha: 1,
+  drivers: undefined as Dictionary<string>,
 };
 
 /**
@@ -162,6 +174,7 @@ const VECTOR_DEFAULTS = {
   new NumberProperty('width', { isAnimatable: false, min: 1, isInteger: true }),
   new NumberProperty('height', { isAnimatable: false, min: 1, isInteger: true }),
   new FractionProperty('alpha', { isAnimatable: true }),
+  new DriverProperty('drivers'),
 )
 export class VectorLayer extends Layer {
   // @Override
@@ -174,6 +187,7 @@ export class VectorLayer extends Layer {
     this.width = setterFn(obj.width, 24);
     this.height = setterFn(obj.height, 24);
     this.alpha = setterFn(obj.alpha, VECTOR_DEFAULTS.alpha);
+    this.drivers = obj.drivers;
   }
 
   // @Override
@@ -202,6 +216,7 @@ export class VectorLayer extends Layer {
       width: this.width,
       height: this.height,
       alpha: this.alpha,
+      drivers: this.drivers,
       children: this.children.map(child => child.toJSON()),
     });
     Object.entries(VECTOR_DEFAULTS).forEach(([key, value]) => {
@@ -218,6 +233,8 @@ interface VectorLayerArgs {
   width?: number;
   height?: number;
   alpha?: number;
+  // Maps driven property names to the expressions that drive them.
+  drivers?: Dictionary<string>;
 }
 
 export interface VectorLayer extends Layer, VectorLayerArgs {}
@@ -231,8 +248,18 @@ const GROUP_DEFAULTS = {
   pivotY: 0,
   translateX: 0,
   translateY: 0,
+  motionPath: '',
+  motionPathProgress: 0,
+  motionPathRotate: 'none' as MotionPathRotate,
+  drivers: undefined as Dictionary<string>,
+  isSymbol: false,
 };
 
+const ENUM_MOTION_PATH_ROTATE_OPTIONS = [
+  { value: 'none', label: 'None' },
+  { value: 'auto', label: 'Auto' },
+];
+
 /**
  * Model object that mirrors the VectorDrawable's '<group>' element.
  */
@@ -244,6 +271,10 @@ const GROUP_DEFAULTS = {
   new NumberProperty('pivotY', { isAnimatable: true }),
   new NumberProperty('translateX', { isAnimatable: true }),
   new NumberProperty('translateY', { isAnimatable: true }),
+  new PathProperty('motionPath'),
+  new FractionProperty('motionPathProgress', { isAnimatable: true }),
+  new EnumProperty('motionPathRotate', ENUM_MOTION_PATH_ROTATE_OPTIONS),
+  new DriverProperty('drivers'),
 )
 export class GroupLayer extends Layer {
   // @Override
@@ -259,6 +290,48 @@ export class GroupLayer extends Layer {
     this.scaleY = setterFn(obj.scaleY, GROUP_DEFAULTS.scaleY);
     this.translateX = setterFn(obj.translateX, GROUP_DEFAULTS.translateX);
     this.translateY = setterFn(obj.translateY, GROUP_DEFAULTS.translateY);
+    this.motionPath = obj.motionPath;
+    this.motionPathProgress = setterFn(obj.motionPathProgress, GROUP_DEFAULTS.motionPathProgress);
+    this.motionPathRotate = obj.motionPathRotate || GROUP_DEFAULTS.motionPathRotate;
+    this.drivers = obj.drivers;
+    this.isSymbol = !!obj.isSymbol;
+  }
+
+  /**
+   * Returns the group's translation and rotation after its motion path has been
+   * applied. The point at the current progress along the motion path is added to
+   * the group's translation and, if auto-rotation is enabled, the angle of the
+   * path's tangent is added to the group's rotation.
+   */
+  getMotionPathTransform() {
+    let { translateX, translateY, rotation } = this;
+    const progress = this.motionPathProgress;
+    const point = this.getMotionPathPoint(progress);
+    if (point) {
+      translateX += point.x;
+      translateY += point.y;
+      if (this.motionPathRotate === 'auto') {
+        const before = this.getMotionPathPoint(progress - 0.001);
+        const after = this.getMotionPathPoint(progress + 0.001);
+        rotation += (Math.atan2(after.y - before.y, after.x - before.x) * 180) / Math.PI;
+      }
+    }
+    return { translateX, translateY, rotation };
+  }
+
+  /**
+   * Returns the point at the given progress along the group's motion path, or
+   * undefined if the group doesn't have a motion path.
+   */
+  getMotionPathPoint(progress: number) {
+    const path = this.motionPath;
+    const length = path ? path.getPathLength() : 0;
+    if (!length) {
+      return undefined;
+    }
+    // The path's end point isn't contained in any of its commands, so points
+    // are always sampled slightly before the end of the path.
+    return path.getPointAtLength(_.clamp(progress, 0, 1 - 1e-6) * length);
   }
 
   // @Override
@@ -285,10 +358,11 @@ export class GroupLayer extends Layer {
     bounds.t -= this.pivotY;
     bounds.r -= this.pivotX;
     bounds.b -= this.pivotY;
+    const { translateX, translateY, rotation } = this.getMotionPathTransform();
     const transforms = [
       Matrix.scaling(this.scaleX, this.scaleY),
-      Matrix.rotation(this.rotation),
-      Matrix.translation(this.translateX, this.translateY),
+      Matrix.rotation(rotation),
+      Matrix.translation(translateX, translateY),
     ];
     const topLeft = MathUtil.transformPoint({ x: bounds.l, y: bounds.t }, ...transforms);
     const bottomRight = MathUtil.transformPoint({ x: bounds.r, y: bounds.b }, ...transforms);
@@ -324,6 +398,11 @@ export class GroupLayer extends Layer {
       pivotY: this.pivotY,
       translateX: this.translateX,
       translateY: this.translateY,
+      motionPath: this.motionPath ? this.motionPath.getPathString() : '',
+      motionPathProgress: this.motionPathProgress,
+      motionPathRotate: this.motionPathRotate,
+      drivers: this.drivers,
+      isSymbol: this.isSymbol,
       children: this.children.map(child => child.toJSON()),
     });
     Object.entries(GROUP_DEFAULTS).forEach(([key, value]) => {
@@ -343,11 +422,120 @@ interface GroupLayerArgs {
   scaleY?: number;
   translateX?: number;
   translateY?: number;
+  // Describes the path (relative to the group's pivot) that the group moves along.
+  motionPath?: Path;
+  motionPathProgress?: number;
+  motionPathRotate?: MotionPathRotate;
+  // Maps driven property names to the expressions that drive them.
+  drivers?: Dictionary<string>;
+  // True if the group is a symbol master that can be referenced by instance layers.
+  isSymbol?: boolean;
 }
 
 export interface GroupLayer extends Layer, GroupLayerArgs {}
 export interface GroupConstructorArgs extends LayerConstructorArgs, GroupLayerArgs {}
 
+const INSTANCE_DEFAULTS = {
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  pivotX: 0,
+  pivotY: 0,
+  translateX: 0,
+  translateY: 0,
+  drivers: undefined as Dictionary<string>,
+};
+
+/**
+ * Model object that references a symbol master (i.e. a group layer whose
+ * isSymbol flag is set). The instance renders a live copy of the master's
+ * children using its own transform, so edits to the master are reflected by
+ * all of its instances. Instances don't have children of their own and are
+ * replaced with regular group layers on export.
+ */
+@Property.register(
+  new NumberProperty('rotation', { isAnimatable: true }),
+  new NumberProperty('scaleX', { isAnimatable: true }),
+  new NumberProperty('scaleY', { isAnimatable: true }),
+  new NumberProperty('pivotX', { isAnimatable: true }),
+  new NumberProperty('pivotY', { isAnimatable: true }),
+  new NumberProperty('translateX', { isAnimatable: true }),
+  new NumberProperty('translateY', { isAnimatable: true }),
+  new DriverProperty('drivers'),
+)
+export class InstanceLayer extends Layer {
+  // @Override
+  readonly type = 'instance';
+
+  constructor(obj: InstanceConstructorArgs) {
+    super({ id: obj.id, name: obj.name, children: [] });
+    const setterFn = (num: number, def: number) => (_.isNil(num) ? def : num);
+    this.symbolId = obj.symbolId;
+    this.pivotX = setterFn(obj.pivotX, INSTANCE_DEFAULTS.pivotX);
+    this.pivotY = setterFn(obj.pivotY, INSTANCE_DEFAULTS.pivotY);
+    this.rotation = setterFn(obj.rotation, INSTANCE_DEFAULTS.rotation);
+    this.scaleX = setterFn(obj.scaleX, INSTANCE_DEFAULTS.scaleX);
+    this.scaleY = setterFn(obj.scaleY, INSTANCE_DEFAULTS.scaleY);
+    this.translateX = setterFn(obj.translateX, INSTANCE_DEFAULTS.translateX);
+    this.translateY = setterFn(obj.translateY, INSTANCE_DEFAULTS.translateY);
+    this.drivers = obj.drivers;
+  }
+
+  // @Override
+  get bounds() {
+    // The symbol master isn't accessible from the instance.
+    return undefined as Rect;
+  }
+
+  // @Override
+  clone() {
+    return new InstanceLayer(this);
+  }
+
+  // @Override
+  deepClone() {
+    return this.clone();
+  }
+
+  // @Override
+  toJSON() {
+    const obj = Object.assign(super.toJSON(), {
+      symbolId: this.symbolId,
+      rotation: this.rotation,
+      scaleX: this.scaleX,
+      scaleY: this.scaleY,
+      pivotX: this.pivotX,
+      pivotY: this.pivotY,
+      translateX: this.translateX,
+      translateY: this.translateY,
+      drivers: this.drivers,
+    });
+    Object.entries(INSTANCE_DEFAULTS).forEach(([key, value]) => {
+      if ((obj as any)[key] === value) {
+        delete (obj as any)[key];
+      }
+    });
+    return obj;
+  }
+}
+
+interface InstanceLayerArgs {
+  // The ID of the symbol master group layer.
+  symbolId: string;
+  pivotX?: number;
+  pivotY?: number;
+  rotation?: number;
+  scaleX?: number;
+  scaleY?: number;
+  translateX?: number;
+  translateY?: number;
+  // Maps driven property names to the expressions that drive them.
+  drivers?: Dictionary<string>;
+}
+
+export interface InstanceLayer extends Layer, InstanceLayerArgs {}
+export interface InstanceConstructorArgs extends LayerConstructorArgs, InstanceLayerArgs {}
+
 /**
  * Model object that mirrors the VectorDrawable's '<clip-path>' element.
  */
@@ -419,17 +607,22 @@ const ENUM_FILLTYPE_OPTIONS = [
 
 const PATH_DEFAULTS = {
   fillColor: '',
+  fillGradient: undefined as Gradient,
   fillAlpha: 1,
   strokeColor: '',
+  strokeGradient: undefined as Gradient,
   strokeAlpha: 1,
   strokeWidth: 0,
   strokeLinecap: 'butt' as StrokeLineCap,
   strokeLinejoin: 'miter' as StrokeLineJoin,
   strokeMiterLimit: 4,
+  strokeDashArray: undefined as ReadonlyArray<number>,
+  strokeDashOffset: 0,
   trimPathStart: 0,
   trimPathEnd: 1,
   trimPathOffset: 0,
   fillType: 'nonZero' as FillType,
+  drivers: undefined as Dictionary<string>,
 };
 
 /**
@@ -438,17 +631,22 @@ const PATH_DEFAULTS = {
 @Property.register(
   new PathProperty('pathData', { isAnimatable: true }),
   new ColorProperty('fillColor', { isAnimatable: true }),
+  new GradientProperty('fillGradient', { isAnimatable: true }),
   new FractionProperty('fillAlpha', { isAnimatable: true }),
   new ColorProperty('strokeColor', { isAnimatable: true }),
+  new GradientProperty('strokeGradient', { isAnimatable: true }),
   new FractionProperty('strokeAlpha', { isAnimatable: true }),
   new NumberProperty('strokeWidth', { min: 0, isAnimatable: true }),
   new EnumProperty('strokeLinecap', ENUM_LINECAP_OPTIONS),
   new EnumProperty('strokeLinejoin', ENUM_LINEJOIN_OPTIONS),
   new NumberProperty('strokeMiterLimit', { min: 1 }),
+  new DashArrayProperty('strokeDashArray'),
+  new NumberProperty('strokeDashOffset', { isAnimatable: true }),
   new FractionProperty('trimPathStart', { isAnimatable: true }),
   new FractionProperty('trimPathEnd', { isAnimatable: true }),
   new FractionProperty('trimPathOffset', { isAnimatable: true }),
   new EnumProperty('fillType', ENUM_FILLTYPE_OPTIONS),
+  new DriverProperty('drivers'),
 ) // TODO: need to fix enum properties so they store/return strings instead of options?
 export class PathLayer extends Layer implements MorphableLayer {
   // @Override
@@ -459,17 +657,22 @@ export class PathLayer extends Layer implements MorphableLayer {
     const setterFn = (num: number, def: number) => (_.isNil(num) ? def : num);
     this.pathData = obj.pathData;
     this.fillColor = obj.fillColor || PATH_DEFAULTS.fillColor;
+    this.fillGradient = obj.fillGradient || PATH_DEFAULTS.fillGradient;
     this.fillAlpha = setterFn(obj.fillAlpha, PATH_DEFAULTS.fillAlpha);
     this.strokeColor = obj.strokeColor || PATH_DEFAULTS.strokeColor;
+    this.strokeGradient = obj.strokeGradient || PATH_DEFAULTS.strokeGradient;
     this.strokeAlpha = setterFn(obj.strokeAlpha, PATH_DEFAULTS.strokeAlpha);
     this.strokeWidth = setterFn(obj.strokeWidth, PATH_DEFAULTS.strokeWidth);
     this.strokeLinecap = obj.strokeLinecap || PATH_DEFAULTS.strokeLinecap;
     this.strokeLinejoin = obj.strokeLinejoin || PATH_DEFAULTS.strokeLinejoin;
     this.strokeMiterLimit = setterFn(obj.strokeMiterLimit, PATH_DEFAULTS.strokeMiterLimit);
+    this.strokeDashArray = obj.strokeDashArray || PATH_DEFAULTS.strokeDashArray;
+    this.strokeDashOffset = setterFn(obj.strokeDashOffset, PATH_DEFAULTS.strokeDashOffset);
     this.trimPathStart = setterFn(obj.trimPathStart, PATH_DEFAULTS.trimPathStart);
     this.trimPathEnd = setterFn(obj.trimPathEnd, PATH_DEFAULTS.trimPathEnd);
     this.trimPathOffset = setterFn(obj.trimPathOffset, PATH_DEFAULTS.trimPathOffset);
     this.fillType = obj.fillType || PATH_DEFAULTS.fillType;
+    this.drivers = obj.drivers;
   }
 
   // @Override
@@ -492,17 +695,22 @@ export class PathLayer extends Layer implements MorphableLayer {
     const obj = Object.assign(super.toJSON(), {
       pathData: this.pathData ? this.pathData.getPathString() : '',
       fillColor: this.fillColor,
+      fillGradient: this.fillGradient,
       fillAlpha: this.fillAlpha,
       strokeColor: this.strokeColor,
+      strokeGradient: this.strokeGradient,
       strokeAlpha: this.strokeAlpha,
       strokeWidth: this.strokeWidth,
       strokeLinecap: this.strokeLinecap,
       strokeLinejoin: this.strokeLinejoin,
       strokeMiterLimit: this.strokeMiterLimit,
+      strokeDashArray: this.strokeDashArray,
+      strokeDashOffset: this.strokeDashOffset,
       trimPathStart: this.trimPathStart,
       trimPathEnd: this.trimPathEnd,
       trimPathOffset: this.trimPathOffset,
       fillType: this.fillType,
+      drivers: this.drivers,
     });
     Object.entries(PATH_DEFAULTS).forEach(([key, value]) => {
       if ((obj as any)[key] === value) {
@@ -513,28 +721,37 @@ export class PathLayer extends Layer implements MorphableLayer {
   }
 
   isStroked() {
-    return !!this.strokeColor;
+    return !!this.strokeColor || !!this.strokeGradient;
   }
 
   isFilled() {
-    return !!this.fillColor;
+    return !!this.fillColor || !!this.fillGradient;
   }
 }
 
 interface PathLayerArgs {
   pathData: Path;
   fillColor?: string;
+  // Takes precedence over the fill color if set.
+  fillGradient?: Gradient;
   fillAlpha?: number;
   strokeColor?: string;
+  // Takes precedence over the stroke color if set.
+  strokeGradient?: Gradient;
   strokeAlpha?: number;
   strokeWidth?: number;
   strokeLinecap?: StrokeLineCap;
   strokeLinejoin?: StrokeLineJoin;
   strokeMiterLimit?: number;
+  // Ignored if the path is trimmed.
+  strokeDashArray?: ReadonlyArray<number>;
+  strokeDashOffset?: number;
   trimPathStart?: number;
   trimPathEnd?: number;
   trimPathOffset?: number;
   fillType?: FillType;
+  // Maps driven property names to the expressions that drive them.
+  drivers?: Dictionary<string>;
 }
 
 export interface PathLayer extends Layer, PathLayerArgs {}
@@ -543,6 +760,7 @@ export interface PathConstructorArgs extends LayerConstructorArgs, PathLayerArgs
 export type StrokeLineCap = 'butt' | 'square' | 'round';
 export type StrokeLineJoin = 'miter' | 'round' | 'bevel';
 export type FillType = 'nonZero' | 'evenOdd';
+export type MotionPathRotate = 'none' | 'auto';
 
 /** Common interface for Layers with pathData properties. */
 export interface MorphableLayer extends Layer {
@@ -3,7 +3,7 @@ import { MathUtil, Matrix } from 'app/modules/editor/scripts/common';
 import { environment } from 'environments/environment';
 import * as _ from 'lodash';
 
-import { ClipPathLayer, GroupLayer, Layer, PathLayer, VectorLayer } from './Layer';
+import { ClipPathLayer, GroupLayer, InstanceLayer, Layer, PathLayer, VectorLayer } from './Layer';
 
 const IS_DEV_BUILD = !environment.production;
 
@@ -43,6 +43,28 @@ function getCanvasTransformsForLayer(root: Layer, layerId: string) {
  * Returns a list of matrix transforms for a given group layer.
  */
 export function getCanvasTransformsForGroupLayer(l: GroupLayer) {
+  const { translateX, translateY, rotation } = l.getMotionPathTransform();
+  const { pivotX, pivotY, scaleX, scaleY } = l;
+  return getCanvasTransforms({ pivotX, pivotY, translateX, translateY, rotation, scaleX, scaleY });
+}
+
+/**
+ * Returns a list of matrix transforms for a given instance layer.
+ */
+export function getCanvasTransformsForInstanceLayer(l: InstanceLayer) {
+  const { pivotX, pivotY, translateX, translateY, rotation, scaleX, scaleY } = l;
+  return getCanvasTransforms({ pivotX, pivotY, translateX, translateY, rotation, scaleX, scaleY });
+}
+
+function getCanvasTransforms(l: {
+  pivotX: number;
+  pivotY: number;
+  translateX: number;
+  translateY: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+}) {
   // First negative pivot, then scale, then rotation, then translation, then pivot.
   // When drawing a path, the transforms are applied at the bottom up, which
   // is why the order appears to be reversed below.
@@ -133,6 +155,15 @@ export function adjustViewports(vl1: VectorLayer, vl2: VectorLayer) {
         l.translateY *= scale;
         l.pivotX *= scale;
         l.pivotY *= scale;
+        if (l.motionPath) {
+          l.motionPath = l.motionPath.transform(Matrix.scaling(scale, scale));
+        }
+      }
+      if (layer instanceof InstanceLayer) {
+        layer.translateX *= scale;
+        layer.translateY *= scale;
+        layer.pivotX *= scale;
+        layer.pivotY *= scale;
       }
       layer.children.forEach(l => recurseFn(l));
     })(vl);
@@ -282,6 +313,30 @@ function findSibling(layerId: string, parent: Layer, offset: number) {
   return parent.children[index];
 }
 
+/**
+ * Returns the specified path layers in the order they appear in the tree, or undefined
+ * if they can't be combined using a boolean operation. Boolean operations can be applied
+ * to two or more path layers, or to the subpaths of a single path layer.
+ */
+export function getBooleanOperationLayers(vl: VectorLayer, layerIds: ReadonlySet<string>) {
+  const layers: Layer[] = [];
+  vl.walk(layer => {
+    if (layerIds.has(layer.id)) {
+      layers.push(layer);
+    }
+  });
+  const pathLayers = layers.filter(
+    l => l instanceof PathLayer && l.pathData && l.pathData.getPathString(),
+  ) as PathLayer[];
+  if (!pathLayers.length || pathLayers.length !== layers.length) {
+    return undefined;
+  }
+  if (pathLayers.length === 1 && pathLayers[0].pathData.getSubPaths().length < 2) {
+    return undefined;
+  }
+  return pathLayers;
+}
+
 export function getUniqueLayerName(layers: ReadonlyArray<Layer>, prefix: string) {
   return getUniqueName(prefix, name => findLayerByName(layers, name));
 }
@@ -7,8 +7,10 @@ export {
   VectorLayer,
   GroupLayer,
   PathLayer,
+  InstanceLayer,
   StrokeLineCap,
   StrokeLineJoin,
   FillType,
+  MotionPathRotate,
   MorphableLayer,
 } from './Layer';
@@ -1,7 +1,12 @@
 export enum ToolMode {
   Default = 'Default',
   Pencil = 'Pencil',
+  Pen = 'Pen',
   Ellipse = 'Ellipse',
   Rectangle = 'Rectangle',
+  RoundedRectangle = 'RoundedRectangle',
+  Polygon = 'Polygon',
+  Star = 'Star',
+  Line = 'Line',
   ZoomPan = 'ZoomPan',
 }
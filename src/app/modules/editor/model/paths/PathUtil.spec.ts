@@ -0,0 +1,100 @@
+import { Path } from './Path';
+import * as PathUtil from './PathUtil';
+
+describe('PathUtil', () => {
+  describe('#outlineStroke', () => {
+    const LINE = 'M 0 0 L 10 0';
+    const CORNER = 'M 0 0 L 10 0 L 10 10';
+    const TESTS: Array<{
+      path: string;
+      style: Partial<PathUtil.StrokeStyle>;
+      expected: string;
+    }> = [
+      {
+        path: LINE,
+        style: { strokeLinecap: 'butt' },
+        expected: 'M 0 1 L 10 1 L 10 -1 L 0 -1 L 0 1 Z',
+      },
+      {
+        path: LINE,
+        style: { strokeLinecap: 'square' },
+        expected: 'M 0 1 L 10 1 L 11 1 L 11 -1 L 10 -1 L 0 -1 L -1 -1 L -1 1 L 0 1 Z',
+      },
+      {
+        path: LINE,
+        style: { strokeLinecap: 'round' },
+        expected:
+          'M 0 1 L 10 1 C 10.552 1 11 0.552 11 0 C 11 -0.552 10.552 -1 10 -1 ' +
+          'L 0 -1 C -0.552 -1 -1 -0.552 -1 0 C -1 0.552 -0.552 1 0 1 Z',
+      },
+      {
+        path: CORNER,
+        style: { strokeLinejoin: 'miter' },
+        expected: 'M 0 1 L 10 1 L 10 0 L 9 0 L 9 10 L 11 10 L 11 0 L 11 -1 L 10 -1 L 0 -1 L 0 1 Z',
+      },
+      {
+        path: CORNER,
+        style: { strokeLinejoin: 'miter', strokeMiterLimit: 1 },
+        expected: 'M 0 1 L 10 1 L 10 0 L 9 0 L 9 10 L 11 10 L 11 0 L 10 -1 L 0 -1 L 0 1 Z',
+      },
+      {
+        path: CORNER,
+        style: { strokeLinejoin: 'bevel' },
+        expected: 'M 0 1 L 10 1 L 10 0 L 9 0 L 9 10 L 11 10 L 11 0 L 10 -1 L 0 -1 L 0 1 Z',
+      },
+      {
+        path: CORNER,
+        style: { strokeLinejoin: 'round' },
+        expected:
+          'M 0 1 L 10 1 L 10 0 L 9 0 L 9 10 L 11 10 L 11 0 ' +
+          'C 11 -0.552 10.552 -1 10 -1 L 0 -1 L 0 1 Z',
+      },
+      {
+        path: 'M 0 0 L 10 0 L 10 10 L 0 10 Z',
+        style: {},
+        expected:
+          'M 0 1 L 10 1 L 10 0 L 9 0 L 9 10 L 10 10 L 10 9 L 0 9 L 0 10 L 1 10 L 1 0 L 0 0 ' +
+          'L 0 1 Z M -1 0 L -1 10 L -1 11 L 0 11 L 10 11 L 11 11 L 11 10 L 11 0 L 11 -1 ' +
+          'L 10 -1 L 0 -1 L -1 -1 L -1 0 Z',
+      },
+      {
+        path: 'M 5 5 Z',
+        style: { strokeLinecap: 'round' },
+        expected:
+          'M 5 6 C 5.552 6 6 5.552 6 5 C 6 4.448 5.552 4 5 4 ' +
+          'C 4.448 4 4 4.448 4 5 C 4 5.552 4.448 6 5 6 Z',
+      },
+      {
+        path: 'M 5 5 Z',
+        style: { strokeLinecap: 'butt' },
+        expected: '',
+      },
+    ];
+
+    TESTS.forEach(({ path, style, expected }) => {
+      it(`outlining '${path}' with style ${JSON.stringify(style)}`, () => {
+        const actual = PathUtil.outlineStroke(new Path(path), {
+          strokeWidth: 2,
+          strokeLinecap: 'butt',
+          strokeLinejoin: 'miter',
+          strokeMiterLimit: 4,
+          ...style,
+        });
+        expect(actual.getPathString()).toEqual(expected);
+      });
+    });
+
+    it('outlining a curve follows the curve on both sides', () => {
+      const path = new Path('M 0 0 Q 10 10 20 0');
+      const outline = PathUtil.outlineStroke(path, {
+        strokeWidth: 2,
+        strokeLinecap: 'butt',
+        strokeLinejoin: 'miter',
+        strokeMiterLimit: 4,
+      });
+      const apex = path.getPointAtLength(path.getPathLength() / 2);
+      const hits = [-1, 1].map(dy => outline.project({ x: apex.x, y: apex.y + dy }).projection);
+      hits.forEach(hit => expect(hit.d).toBeCloseTo(0, 1));
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { MathUtil, Point } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
 
+import { Calculator, newCalculator } from './calculators';
 import { Command } from './Command';
 import { Path } from './Path';
+import { SubPath } from './SubPath';
 
 /**
  * Interpolates between a start and end path using the specified fraction.
@@ -45,3 +48,258 @@ export function sortPathOps(ops: Array<{ subIdx: number; cmdIdx: number }>) {
     return s1 !== s2 ? s2 - s1 : c2 - c1;
   });
 }
+
+/** Describes how a path is stroked. */
+export interface StrokeStyle {
+  readonly strokeWidth: number;
+  readonly strokeLinecap: 'butt' | 'square' | 'round';
+  readonly strokeLinejoin: 'miter' | 'round' | 'bevel';
+  readonly strokeMiterLimit: number;
+}
+
+/**
+ * Returns a path that, when filled using the non-zero fill rule, covers the same
+ * area as the given path stroked using the given stroke style. Each segment is
+ * offset by half the stroke width on either side, and the offset curves are then
+ * connected using the stroke's joins and caps. Closed subpaths are outlined by
+ * two contours (one for each side of the stroke) and open subpaths are outlined
+ * by a single contour.
+ */
+export function outlineStroke(path: Path, style: StrokeStyle) {
+  const halfWidth = style.strokeWidth / 2;
+  const commands: Command[] = [];
+  path.getSubPaths().forEach(subPath => {
+    outlineSubPath(subPath, halfWidth, style).forEach(contour => {
+      const start = _.first(_.first(contour));
+      const end = _.last(_.last(contour));
+      commands.push(new Command('M', [commands.length ? _.last(commands).end : undefined, start]));
+      contour.forEach(points => {
+        commands.push(
+          new Command(points.length === 2 ? 'L' : points.length === 3 ? 'Q' : 'C', points),
+        );
+      });
+      commands.push(new Command('Z', [end, start]));
+    });
+  });
+  return new Path(commands);
+}
+
+/** A segment of a subpath along with its unit start and end tangents. */
+interface Segment {
+  readonly calculator: Calculator;
+  readonly start: Point;
+  readonly end: Point;
+  readonly startTangent: Point;
+  readonly endTangent: Point;
+}
+
+/**
+ * Returns the outline contours for the given subpath. Each contour is a list of
+ * the points of its line, quadratic, and cubic bezier curve commands.
+ */
+function outlineSubPath(subPath: SubPath, halfWidth: number, style: StrokeStyle) {
+  const cmds = subPath.getCommands().slice(1);
+  if (!cmds.length || halfWidth <= 0) {
+    return [];
+  }
+  const segments = toSegments(cmds);
+  if (!segments.length) {
+    // Zero-length subpaths are only painted when they have round or square caps.
+    if (style.strokeLinecap === 'butt') {
+      return [];
+    }
+    const point = _.first(cmds).end;
+    const tangent = { x: 1, y: 0 };
+    const contour = new ContourBuilder(add(point, scale(normal(tangent), halfWidth)));
+    contour.addCap(point, tangent, halfWidth, style);
+    contour.addCap(point, scale(tangent, -1), halfWidth, style);
+    return [contour.build()];
+  }
+  const reversedSegments = toSegments(
+    [...cmds].reverse().map(cmd => new Command(cmd.type, [...cmd.points].reverse())),
+  );
+  const isClosed = _.last(cmds).type === 'Z';
+  const left = outlineSide(segments, isClosed, halfWidth, style);
+  const right = outlineSide(reversedSegments, isClosed, halfWidth, style);
+  if (isClosed) {
+    return [left.build(), right.build()];
+  }
+  const { end, endTangent } = _.last(segments);
+  const { end: start, endTangent: startTangent } = _.last(reversedSegments);
+  left.addCap(end, endTangent, halfWidth, style);
+  left.addContour(right);
+  left.addCap(start, startTangent, halfWidth, style);
+  return [left.build()];
+}
+
+/** Converts the commands into segments, skipping those that have zero length. */
+function toSegments(cmds: ReadonlyArray<Command>): Segment[] {
+  return cmds
+    .map(cmd => ({ cmd, calculator: newCalculator(cmd) }))
+    .filter(({ calculator }) => !MathUtil.isNearZero(calculator.getPathLength()))
+    .map(({ cmd, calculator }) => {
+      const points = cmd.points;
+      const start = _.first(points);
+      const end = _.last(points);
+      const next = points.find(p => !MathUtil.arePointsEqual(p, start));
+      const prev = _.findLast(points, p => !MathUtil.arePointsEqual(p, end));
+      const startTangent = unit(subtract(next, start));
+      const endTangent = unit(subtract(end, prev));
+      return { calculator, start, end, startTangent, endTangent };
+    });
+}
+
+/**
+ * Outlines the side of the stroke that lies along the normals of the segments,
+ * joining each pair of consecutive segments (and the last and first segments
+ * if the subpath is closed).
+ */
+function outlineSide(
+  segments: ReadonlyArray<Segment>,
+  isClosed: boolean,
+  halfWidth: number,
+  style: StrokeStyle,
+) {
+  const first = _.first(segments);
+  const contour = new ContourBuilder(
+    add(first.start, scale(normal(first.startTangent), halfWidth)),
+  );
+  segments.forEach((segment, i) => {
+    if (i > 0) {
+      const prevTangent = segments[i - 1].endTangent;
+      contour.addJoin(segment.start, prevTangent, segment.startTangent, halfWidth, style);
+    }
+    segment.calculator.offset(halfWidth).forEach(c => contour.addCurve(c.toCommand().points));
+  });
+  if (isClosed) {
+    const last = _.last(segments);
+    contour.addJoin(first.start, last.endTangent, first.startTangent, halfWidth, style);
+  }
+  return contour;
+}
+
+/** Builds a contour out of a connected list of lines and curves. */
+class ContourBuilder {
+  private readonly commands: Point[][] = [];
+  private current: Point;
+
+  constructor(private readonly start: Point) {
+    this.current = start;
+  }
+
+  lineTo(point: Point) {
+    if (!MathUtil.arePointsEqual(this.current, point)) {
+      this.commands.push([this.current, point]);
+      this.current = point;
+    }
+  }
+
+  addCurve(points: ReadonlyArray<Point>) {
+    this.lineTo(_.first(points));
+    this.commands.push([this.current, ...points.slice(1)]);
+    this.current = _.last(points);
+  }
+
+  /** Adds an arc around the center that starts in the given unit direction. */
+  addArc(center: Point, radius: number, direction: Point, sweepAngle: number) {
+    // Approximate the arc using cubic beziers that each span at most 90 degrees.
+    const numCurves = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9));
+    const delta = sweepAngle / numCurves;
+    const k = (4 / 3) * Math.tan(delta / 4) * radius;
+    const startAngle = Math.atan2(direction.y, direction.x);
+    for (let i = 0; i < numCurves; i++) {
+      const a1 = startAngle + i * delta;
+      const a2 = a1 + delta;
+      const p1 = add(center, { x: Math.cos(a1) * radius, y: Math.sin(a1) * radius });
+      const p2 = add(center, { x: Math.cos(a2) * radius, y: Math.sin(a2) * radius });
+      const cp1 = add(p1, { x: -Math.sin(a1) * k, y: Math.cos(a1) * k });
+      const cp2 = subtract(p2, { x: -Math.sin(a2) * k, y: Math.cos(a2) * k });
+      this.addCurve([p1, cp1, cp2, p2]);
+    }
+  }
+
+  /**
+   * Joins the end of the current segment to the start of the next segment
+   * at the given pivot point, using the segments' unit tangents at the pivot.
+   */
+  addJoin(pivot: Point, tangent1: Point, tangent2: Point, halfWidth: number, style: StrokeStyle) {
+    const crossProduct = cross(tangent1, tangent2);
+    const dotProduct = dot(tangent1, tangent2);
+    if (MathUtil.isNearZero(crossProduct) && dotProduct > 0) {
+      // The segments are smoothly connected.
+      return;
+    }
+    const normal1 = normal(tangent1);
+    const normal2 = normal(tangent2);
+    if (crossProduct > 0 && !MathUtil.isNearZero(crossProduct)) {
+      // This is the inside of the turn. Routing the contour through the pivot
+      // ensures that the overlapping area is filled using the non-zero rule.
+      this.lineTo(pivot);
+    } else if (style.strokeLinejoin === 'round') {
+      this.addArc(pivot, halfWidth, normal1, -Math.abs(Math.atan2(crossProduct, dotProduct)));
+    } else if (style.strokeLinejoin === 'miter') {
+      const sum = add(normal1, normal2);
+      const sumSq = dot(sum, sum);
+      // The ratio of the miter length to the stroke width is 1 / sin(theta / 2),
+      // where theta is the angle between the segments.
+      if (sumSq > 0 && 2 / Math.sqrt(sumSq) <= style.strokeMiterLimit) {
+        this.lineTo(add(pivot, scale(sum, (2 * halfWidth) / sumSq)));
+      }
+    }
+    this.lineTo(add(pivot, scale(normal2, halfWidth)));
+  }
+
+  /** Caps the end of a segment with the given unit tangent at the given point. */
+  addCap(point: Point, tangent: Point, halfWidth: number, style: StrokeStyle) {
+    const offset = scale(normal(tangent), halfWidth);
+    if (style.strokeLinecap === 'round') {
+      this.addArc(point, halfWidth, normal(tangent), -Math.PI);
+    } else if (style.strokeLinecap === 'square') {
+      const extension = scale(tangent, halfWidth);
+      this.lineTo(add(add(point, offset), extension));
+      this.lineTo(add(subtract(point, offset), extension));
+    }
+    this.lineTo(subtract(point, offset));
+  }
+
+  /** Connects the end of this contour to the start of the given contour. */
+  addContour(contour: ContourBuilder) {
+    this.lineTo(contour.start);
+    this.commands.push(...contour.commands);
+    this.current = contour.current;
+  }
+
+  build(): ReadonlyArray<ReadonlyArray<Point>> {
+    this.lineTo(this.start);
+    return this.commands;
+  }
+}
+
+function add(p1: Point, p2: Point) {
+  return { x: p1.x + p2.x, y: p1.y + p2.y };
+}
+
+function subtract(p1: Point, p2: Point) {
+  return { x: p1.x - p2.x, y: p1.y - p2.y };
+}
+
+function scale(p: Point, factor: number) {
+  return { x: p.x * factor, y: p.y * factor };
+}
+
+function dot(p1: Point, p2: Point) {
+  return p1.x * p2.x + p1.y * p2.y;
+}
+
+function cross(p1: Point, p2: Point) {
+  return p1.x * p2.y - p1.y * p2.x;
+}
+
+function unit(p: Point) {
+  return scale(p, 1 / Math.hypot(p.x, p.y));
+}
+
+/** Rotates the unit vector by 90 degrees, matching the calculators' offset direction. */
+function normal(p: Point) {
+  return { x: -p.y, y: p.x };
+}
@@ -9,6 +9,9 @@ import { BBox, Calculator, Line } from '.';
 import { LineCalculator } from './LineCalculator';
 import { PointCalculator } from './PointCalculator';
 
+// The fraction by which degenerate control points are moved before offsetting.
+const DEGENERATE_CONTROL_POINT_NUDGE = 0.001;
+
 /**
  * A simple typed wrapper class around the amazing bezier-js library.
  */
@@ -150,4 +153,25 @@ export class BezierCalculator implements Calculator {
     }
     return this.bezierJs.intersects(line);
   }
+
+  offset(distance: number): Calculator[] {
+    // bezier-js can't compute the normal at an end point that coincides with its
+    // adjacent control point, so nudge the control point along the curve first.
+    const points = [...this.points];
+    const n = points.length - 1;
+    if (MathUtil.arePointsEqual(points[0], points[1])) {
+      points[1] = lerpPoints(points[0], points[2], DEGENERATE_CONTROL_POINT_NUDGE);
+    }
+    if (MathUtil.arePointsEqual(points[n], points[n - 1])) {
+      points[n - 1] = lerpPoints(points[n], points[n - 2], DEGENERATE_CONTROL_POINT_NUDGE);
+    }
+    const curves: Array<{ points: Point[] }> = new BezierJs(points).offset(distance);
+    return curves
+      .filter(c => c.points.every(p => isFinite(p.x) && isFinite(p.y)))
+      .map(c => new BezierCalculator(this.id, this.svgChar, ...c.points));
+  }
+}
+
+function lerpPoints(p1: Point, p2: Point, t: number) {
+  return { x: MathUtil.lerp(p1.x, p2.x, t), y: MathUtil.lerp(p1.y, p2.y, t) };
 }
@@ -21,6 +21,12 @@ export interface Calculator {
   toCommand(): Command;
   getBoundingBox(): BBox;
   intersects(line: Line): number[];
+  /**
+   * Returns a list of calculators that approximate the curve offset by the given
+   * distance along its normals. A positive distance offsets a curve that travels
+   * along the positive x-axis towards the positive y-axis.
+   */
+  offset(distance: number): Calculator[];
 }
 
 export function newCalculator(cmd: Command): Calculator {
@@ -152,6 +152,17 @@ export class LineCalculator implements Calculator {
       return 0 <= t && t <= 1 && (0 <= u && u <= 1) ? [t] : [];
     }
   }
+
+  offset(distance: number): Calculator[] {
+    const { x: x1, y: y1 } = this.p1;
+    const { x: x2, y: y2 } = this.p2;
+    const length = this.getPathLength();
+    const dx = (-(y2 - y1) / length) * distance;
+    const dy = ((x2 - x1) / length) * distance;
+    const p1 = { x: x1 + dx, y: y1 + dy };
+    const p2 = { x: x2 + dx, y: y2 + dy };
+    return [new LineCalculator(this.id, this.svgChar, p1, p2)];
+  }
 }
 
 function round(num: number) {
@@ -48,4 +48,8 @@ export class MoveCalculator implements Calculator {
   intersects(line: Line): number[] {
     return [];
   }
+
+  offset(distance: number): Calculator[] {
+    return [];
+  }
 }
@@ -69,4 +69,8 @@ export class PointCalculator implements Calculator {
   intersects(line: Line): number[] {
     return [];
   }
+
+  offset(distance: number): Calculator[] {
+    return [];
+  }
 }
@@ -0,0 +1,60 @@
+import { Property } from './Property';
+
+export class DashArrayProperty extends Property<ReadonlyArray<number>> {
+  /**
+   * Parses a list of comma and/or whitespace separated dash lengths (i.e. the
+   * value of an SVG 'stroke-dasharray' attribute). Lengths may be given in
+   * pixels ('px'), but other units can't be converted and are invalid. Returns
+   * undefined if the list is empty or invalid, or if the lengths describe a
+   * solid stroke.
+   */
+  static parse(value = ''): ReadonlyArray<number> | undefined {
+    const str = value.trim();
+    if (!str || str === 'none') {
+      return undefined;
+    }
+    const dashes = str.split(/[\s,]+/).map(d => Number(d.replace(/(\d)px$/, '$1')));
+    if (dashes.some(d => !isFinite(d) || d < 0) || dashes.every(d => !d)) {
+      return undefined;
+    }
+    return dashes;
+  }
+
+  // @Override
+  setEditableValue(model: any, propertyName: string, value: string) {
+    const str = (value || '').trim();
+    const dashes = DashArrayProperty.parse(str);
+    if (str && !dashes) {
+      // Ignore invalid values, which will occur frequently if the user is
+      // typing out the list by hand.
+      return;
+    }
+    model[propertyName] = dashes;
+  }
+
+  // @Override
+  getEditableValue(model: any, propertyName: string) {
+    return this.displayValueForValue(model[propertyName]);
+  }
+
+  // @Override
+  protected setter(model: any, propertyName: string, value: ReadonlyArray<number> | string) {
+    const dashes = typeof value === 'string' ? DashArrayProperty.parse(value) : value;
+    model[`${propertyName}_`] = dashes && dashes.length ? dashes : undefined;
+  }
+
+  // @Override
+  displayValueForValue(value: ReadonlyArray<number>) {
+    return value ? value.join(', ') : '';
+  }
+
+  // @Override
+  cloneValue(value: ReadonlyArray<number>) {
+    return value ? [...value] : undefined;
+  }
+
+  // @Override
+  getTypeName() {
+    return 'DashArrayProperty';
+  }
+}
@@ -0,0 +1,99 @@
+import { Expression } from 'app/modules/editor/model/expressions';
+import * as _ from 'lodash';
+
+import { NumberProperty } from './NumberProperty';
+import { Property } from './Property';
+
+/**
+ * Maps the names of a layer's driven properties to the source strings of the
+ * expressions that drive them (i.e. { scaleY: 'scaleX' }). Driven properties
+ * are recomputed from their expressions each time the layer is rendered.
+ */
+export class DriverProperty extends Property<Dictionary<string>> {
+  // The variable that evaluates to the current time in milliseconds.
+  static readonly TIME_VARIABLE = 't';
+
+  /**
+   * Parses a list of semicolon and/or newline separated driver assignments
+   * (i.e. 'scaleY = scaleX; strokeAlpha = 1 - fillAlpha'). Returns undefined if
+   * any of the assignments are invalid.
+   */
+  static parse(value = ''): Dictionary<string> | undefined {
+    const drivers: Dictionary<string> = {};
+    const assignments = value
+      .split(/[;\n]+/)
+      .map(a => a.trim())
+      .filter(a => !!a);
+    for (const assignment of assignments) {
+      const match = /^([a-z_]\w*)\s*=(.*)$/i.exec(assignment);
+      const expression = match ? Expression.parse(match[2]) : undefined;
+      if (!expression || _.has(drivers, match[1])) {
+        return undefined;
+      }
+      drivers[match[1]] = expression.source;
+    }
+    return drivers;
+  }
+
+  /**
+   * Returns true if the model's property can be driven by an expression. Only
+   * animatable number properties can be driven.
+   */
+  static isDrivable(model: any, propertyName: string) {
+    return model.animatableProperties.get(propertyName) instanceof NumberProperty;
+  }
+
+  // @Override
+  setEditableValue(model: any, propertyName: string, value: string) {
+    const drivers = DriverProperty.parse(value);
+    if (!drivers) {
+      // Ignore invalid values, which will occur frequently if the user is
+      // typing out the expressions by hand.
+      return;
+    }
+    model[propertyName] = drivers;
+  }
+
+  // @Override
+  getEditableValue(model: any, propertyName: string) {
+    return this.displayValueForValue(model[propertyName]);
+  }
+
+  // @Override
+  protected setter(model: any, propertyName: string, value: Dictionary<string> | string) {
+    const drivers = typeof value === 'string' ? DriverProperty.parse(value) : value;
+    // Drop any drivers that target properties that can't be driven or that
+    // reference unknown properties of the same layer. References to other
+    // layers (i.e. 'circle.fillAlpha') are resolved when the layer is rendered.
+    const validDrivers = _.pickBy(drivers, (source, name) => {
+      const expression = Expression.parse(source);
+      return (
+        DriverProperty.isDrivable(model, name) &&
+        !!expression &&
+        expression.references.every(ref => {
+          return (
+            ref === DriverProperty.TIME_VARIABLE ||
+            ref.includes('.') ||
+            model.inspectableProperties.get(ref) instanceof NumberProperty
+          );
+        })
+      );
+    });
+    model[`${propertyName}_`] = _.isEmpty(validDrivers) ? undefined : validDrivers;
+  }
+
+  // @Override
+  displayValueForValue(value: Dictionary<string>) {
+    return _.map(value, (source, name) => `${name} = ${source}`).join('; ');
+  }
+
+  // @Override
+  cloneValue(value: Dictionary<string>) {
+    return value ? { ...value } : undefined;
+  }
+
+  // @Override
+  getTypeName() {
+    return 'DriverProperty';
+  }
+}
@@ -0,0 +1,59 @@
+import { Gradient, GradientUtil } from 'app/modules/editor/model/gradients';
+import { MathUtil } from 'app/modules/editor/scripts/common';
+
+import { ColorProperty } from './ColorProperty';
+import { Property } from './Property';
+
+// Used to interpolate the colors of each gradient stop.
+const STOP_COLOR_PROPERTY = new ColorProperty('color');
+
+export class GradientProperty extends Property<Gradient> {
+  // @Override
+  protected setter(model: any, propertyName: string, value: Gradient | undefined) {
+    // Gradients read from JSON files may be missing values.
+    model[`${propertyName}_`] = value ? GradientUtil.normalize(value) : undefined;
+  }
+
+  // @Override
+  displayValueForValue(value: Gradient) {
+    if (!value) {
+      return 'None';
+    }
+    return `${value.type === 'linear' ? 'Linear' : 'Radial'} gradient`;
+  }
+
+  // @Override
+  interpolateValue(start: Gradient, end: Gradient, fraction: number) {
+    if (!GradientUtil.isMorphable(start, end) || !fraction) {
+      return start;
+    }
+    if (fraction === 1) {
+      return end;
+    }
+    const lerpFn = (key: keyof Gradient) => {
+      return MathUtil.lerp(start[key] as number, end[key] as number, fraction);
+    };
+    return {
+      ...start,
+      startX: lerpFn('startX'),
+      startY: lerpFn('startY'),
+      endX: lerpFn('endX'),
+      endY: lerpFn('endY'),
+      centerX: lerpFn('centerX'),
+      centerY: lerpFn('centerY'),
+      radius: lerpFn('radius'),
+      stops: start.stops.map((s, i) => {
+        const e = end.stops[i];
+        return {
+          offset: MathUtil.lerp(s.offset, e.offset, fraction),
+          color: STOP_COLOR_PROPERTY.interpolateValue(s.color, e.color, fraction),
+        };
+      }),
+    };
+  }
+
+  // @Override
+  getTypeName() {
+    return 'GradientProperty';
+  }
+}
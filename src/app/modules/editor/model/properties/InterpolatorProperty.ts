@@ -0,0 +1,23 @@
+import { getInterpolator, INTERPOLATORS } from 'app/modules/editor/model/interpolators';
+
+import { EnumProperty } from './EnumProperty';
+
+/**
+ * An enum property whose value is either one of the built-in interpolators
+ * or a custom interpolator value (i.e. 'cubic-bezier(0.4, 0, 0.2, 1)').
+ */
+export class InterpolatorProperty extends EnumProperty {
+  constructor(name: string) {
+    super(name, INTERPOLATORS);
+  }
+
+  // @Override
+  displayValueForValue(value: string) {
+    return getInterpolator(value).label;
+  }
+
+  // @Override
+  getTypeName() {
+    return 'InterpolatorProperty';
+  }
+}
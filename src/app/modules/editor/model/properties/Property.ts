@@ -68,6 +68,20 @@ export abstract class Property<T> {
     model[propertyName] = value;
   }
 
+  /**
+   * Returns the model's value for this property.
+   */
+  getValue(model: any): T {
+    return this.getter(model, this.propertyName);
+  }
+
+  /**
+   * Sets the model's value for this property.
+   */
+  setValue(model: any, value: T) {
+    this.setter(model, this.propertyName, value);
+  }
+
   protected getter(model: any, propertyName: string) {
     return model[`${propertyName}_`];
   }
@@ -0,0 +1,37 @@
+import { NumberConfig, NumberProperty } from './NumberProperty';
+
+// Mirrors the value of android's ValueAnimator.INFINITE constant.
+const INFINITE = -1;
+
+/**
+ * An integer property that counts the number of times an animation repeats.
+ * Infinite repeats are stored as -1 and displayed as 'infinite'.
+ */
+export class RepeatCountProperty extends NumberProperty {
+  constructor(name: string, config: NumberConfig = {}) {
+    super(name, { isAnimatable: config.isAnimatable, min: INFINITE, isInteger: true });
+  }
+
+  // @Override
+  setEditableValue(model: any, propertyName: string, value: string | number | undefined) {
+    if (typeof value === 'string' && /^\s*(infinite|∞)\s*$/i.test(value)) {
+      value = INFINITE;
+    }
+    super.setEditableValue(model, propertyName, value);
+  }
+
+  // @Override
+  getEditableValue(model: any, propertyName: string) {
+    return this.displayValueForValue(model[propertyName]);
+  }
+
+  // @Override
+  displayValueForValue(value: any) {
+    return value === INFINITE ? 'infinite' : super.displayValueForValue(value);
+  }
+
+  // @Override
+  getTypeName() {
+    return 'RepeatCountProperty';
+  }
+}
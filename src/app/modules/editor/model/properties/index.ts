@@ -1,8 +1,13 @@
 export { ColorProperty } from './ColorProperty';
+export { DashArrayProperty } from './DashArrayProperty';
+export { DriverProperty } from './DriverProperty';
 export { FractionProperty } from './FractionProperty';
+export { GradientProperty } from './GradientProperty';
+export { InterpolatorProperty } from './InterpolatorProperty';
 export { NameProperty } from './NameProperty';
 export { NumberProperty } from './NumberProperty';
 export { PathProperty } from './PathProperty';
 export { Property } from './Property';
+export { RepeatCountProperty } from './RepeatCountProperty';
 export { Animatable, Inspectable } from './PropertyMaps';
 export { EnumProperty, Option } from './EnumProperty';
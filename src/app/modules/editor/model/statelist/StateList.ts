@@ -0,0 +1,76 @@
+import { VectorLayer } from 'app/modules/editor/model/layers';
+import * as _ from 'lodash';
+
+/**
+ * A named visual state of an animated selector (i.e. 'checked' or 'unchecked').
+ * Each state displays a snapshot of the vector layer and is matched against
+ * the view's current state using its android state attributes.
+ */
+export interface DrawableState {
+  readonly id: string;
+  readonly name: string;
+  // Maps android state attributes (i.e. 'state_checked') to their required values.
+  readonly attributes: Readonly<Dictionary<boolean>>;
+  readonly vectorLayer: VectorLayer;
+}
+
+/**
+ * An animated transition between two states. Transitions are played using one
+ * of the project's animations. Reversible transitions are also played backwards
+ * when moving from the 'to' state back to the 'from' state.
+ */
+export interface StateTransition {
+  readonly id: string;
+  readonly fromStateId: string;
+  readonly toStateId: string;
+  readonly animationId: string;
+  readonly reversible: boolean;
+}
+
+/**
+ * A state list describes a set of states and the transitions between them,
+ * and is structured as an android animated-selector (i.e. an
+ * AnimatedStateListDrawable).
+ */
+export class StateList {
+  constructor(obj = {} as ConstructorArgs) {
+    this.states = (obj.states || []).map(state => {
+      return {
+        id: state.id || _.uniqueId(),
+        name: state.name || 'state',
+        attributes: { ...state.attributes },
+        vectorLayer: new VectorLayer(state.vectorLayer),
+      };
+    });
+    this.transitions = (obj.transitions || []).map(transition => {
+      return {
+        id: transition.id || _.uniqueId(),
+        fromStateId: transition.fromStateId,
+        toStateId: transition.toStateId,
+        animationId: transition.animationId,
+        reversible: !!transition.reversible,
+      };
+    });
+  }
+
+  clone() {
+    return new StateList(this);
+  }
+
+  toJSON() {
+    return {
+      states: this.states.map(({ id, name, attributes, vectorLayer }) => {
+        return { id, name, attributes, vectorLayer: vectorLayer.toJSON() };
+      }),
+      transitions: this.transitions,
+    };
+  }
+}
+
+interface StateListArgs {
+  states?: ReadonlyArray<DrawableState>;
+  transitions?: ReadonlyArray<StateTransition>;
+}
+
+export interface StateList extends StateListArgs {}
+export interface ConstructorArgs extends StateListArgs {}
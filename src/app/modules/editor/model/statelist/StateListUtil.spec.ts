@@ -0,0 +1,63 @@
+import { VectorLayer } from 'app/modules/editor/model/layers';
+
+import { StateList, StateListUtil } from '.';
+
+describe('StateListUtil', () => {
+  const TESTS_PARSE_ATTRIBUTES = [
+    ['', {}],
+    ['checked', { state_checked: true }],
+    ['state_checked, !enabled', { state_checked: true, state_enabled: false }],
+    ['checked checked', { state_checked: true }],
+    ['checked, !checked', undefined],
+    ['an invalid attribute', undefined],
+  ];
+
+  describe('#parseAttributes', () => {
+    TESTS_PARSE_ATTRIBUTES.forEach(a => {
+      it(`parsing '${a[0]}' yields ${JSON.stringify(a[1])}`, () => {
+        expect(StateListUtil.parseAttributes(a[0] as string)).toEqual(a[1] as Dictionary<boolean>);
+      });
+    });
+  });
+
+  describe('#formatAttributes', () => {
+    it(`formatted attributes can be parsed`, () => {
+      const attributes = { state_enabled: false, state_checked: true };
+      const str = StateListUtil.formatAttributes(attributes);
+      expect(str).toEqual('checked, !enabled');
+      expect(StateListUtil.parseAttributes(str)).toEqual(attributes);
+    });
+  });
+
+  describe('#getOrderedStates', () => {
+    it(`moves general states behind more specific states`, () => {
+      const vectorLayer = new VectorLayer();
+      const stateList = new StateList({
+        states: [
+          { id: '1', name: 'default', attributes: {}, vectorLayer },
+          { id: '2', name: 'checked', attributes: { state_checked: true }, vectorLayer },
+        ],
+      });
+      expect(StateListUtil.getOrderedStates(stateList).map(s => s.id)).toEqual(['2', '1']);
+    });
+  });
+
+  describe('#removeInvalidTransitions', () => {
+    it(`removes transitions that reference deleted states or animations`, () => {
+      const vectorLayer = new VectorLayer();
+      const stateList = new StateList({
+        states: [
+          { id: '1', name: 'unchecked', attributes: {}, vectorLayer },
+          { id: '2', name: 'checked', attributes: { state_checked: true }, vectorLayer },
+        ],
+        transitions: [
+          { id: '3', fromStateId: '1', toStateId: '2', animationId: 'a', reversible: false },
+          { id: '4', fromStateId: '2', toStateId: '1', animationId: 'b', reversible: false },
+          { id: '5', fromStateId: '1', toStateId: '6', animationId: 'a', reversible: false },
+        ],
+      });
+      const { transitions } = StateListUtil.removeInvalidTransitions(stateList, ['a']);
+      expect(transitions.map(t => t.id)).toEqual(['3']);
+    });
+  });
+});
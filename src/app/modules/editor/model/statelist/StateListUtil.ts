@@ -0,0 +1,86 @@
+import * as _ from 'lodash';
+
+import { DrawableState, StateList } from './StateList';
+
+/**
+ * The android state attributes that can be used to match a state.
+ */
+export const STATE_ATTRIBUTES: ReadonlyArray<string> = [
+  'state_checked',
+  'state_checkable',
+  'state_selected',
+  'state_activated',
+  'state_pressed',
+  'state_focused',
+  'state_hovered',
+  'state_enabled',
+];
+
+/**
+ * Parses a list of comma and/or whitespace separated state attributes
+ * (i.e. 'checked, !enabled'). Attributes prefixed with a '!' must be false.
+ * Returns undefined if the list is invalid or contradicts itself.
+ */
+export function parseAttributes(value = ''): Dictionary<boolean> | undefined {
+  const attributes: Dictionary<boolean> = {};
+  const tokens = value.split(/[\s,]+/).filter(t => !!t);
+  for (const token of tokens) {
+    const isNegated = token.startsWith('!');
+    let name = isNegated ? token.slice(1) : token;
+    name = name.startsWith('state_') ? name : `state_${name}`;
+    if (!STATE_ATTRIBUTES.includes(name)) {
+      return undefined;
+    }
+    if (_.has(attributes, name) && attributes[name] === isNegated) {
+      return undefined;
+    }
+    attributes[name] = !isNegated;
+  }
+  return attributes;
+}
+
+/**
+ * Formats a state's attributes so that they can be parsed by parseAttributes().
+ */
+export function formatAttributes(attributes: Readonly<Dictionary<boolean>>) {
+  return STATE_ATTRIBUTES.filter(name => _.has(attributes, name))
+    .map(name => `${attributes[name] ? '' : '!'}${name.replace(/^state_/, '')}`)
+    .join(', ');
+}
+
+/**
+ * Returns the states in the order they should be matched. Android picks the
+ * first state whose attributes match, so states with more attributes are
+ * moved in front of the more general states.
+ */
+export function getOrderedStates(stateList: StateList): ReadonlyArray<DrawableState> {
+  return _.sortBy(stateList.states, s => -Object.keys(s.attributes).length);
+}
+
+/**
+ * Converts a user-visible name into a valid android resource name.
+ */
+export function toResourceName(name: string) {
+  return _.snakeCase(name) || 'unnamed';
+}
+
+/**
+ * Returns a copy of the state list without any transitions that reference
+ * states or animations that no longer exist.
+ */
+export function removeInvalidTransitions(
+  stateList: StateList,
+  animationIds: ReadonlyArray<string>,
+) {
+  const stateIds = stateList.states.map(s => s.id);
+  const clone = stateList.clone();
+  clone.transitions = stateList.transitions.filter(t => {
+    return (
+      stateIds.includes(t.fromStateId) &&
+      stateIds.includes(t.toStateId) &&
+      t.fromStateId !== t.toStateId &&
+      animationIds.includes(t.animationId)
+    );
+  });
+  return clone;
+}
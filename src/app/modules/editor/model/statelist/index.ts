@@ -0,0 +1,4 @@
+import * as StateListUtil from './StateListUtil';
+export { StateListUtil };
+
+export { DrawableState, StateList, StateTransition } from './StateList';
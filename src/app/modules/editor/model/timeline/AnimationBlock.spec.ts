@@ -0,0 +1,133 @@
+import * as _ from 'lodash';
+
+import { AnimationBlock, PlaybackDirection, RepeatMode } from '.';
+
+describe('AnimationBlock', () => {
+  // Stops: 0 at t=100, 2 at t=150 (accelerate), and 10 at t=200 (linear).
+  const createBlockFn = (obj: {
+    repeatCount?: number;
+    repeatMode?: RepeatMode;
+    direction?: PlaybackDirection;
+    interpolator?: string;
+  }) => {
+    return AnimationBlock.from({
+      layerId: 'layer',
+      propertyName: 'rotation',
+      startTime: 100,
+      endTime: 200,
+      interpolator: 'LINEAR',
+      type: 'number',
+      fromValue: 0,
+      toValue: 10,
+      keyframes: [{ fraction: 0.5, value: 2, interpolator: 'ACCELERATE' }],
+      ...obj,
+    });
+  };
+
+  describe('#getValueAtTime', () => {
+    const TESTS: Array<{
+      desc: string;
+      block: AnimationBlock;
+      times: number[];
+      expected: number[];
+    }> = [
+      {
+        desc: 'interpolates each segment using the interpolator of the stop that ends it',
+        block: createBlockFn({}),
+        times: [100, 125, 150, 175, 200],
+        expected: [0, 0.5, 2, 6, 10],
+      },
+      {
+        desc: 'returns the first and last stop values before and after the block',
+        block: createBlockFn({}),
+        times: [0, 99, 201, 1000],
+        expected: [0, 0, 10, 10],
+      },
+      {
+        desc: 'plays reversed blocks backwards',
+        block: createBlockFn({ direction: 'reverse' }),
+        times: [0, 125, 175, 1000],
+        expected: [10, 6, 0.5, 0],
+      },
+      {
+        desc: 'restarts each repeated iteration',
+        block: createBlockFn({ repeatCount: 2 }),
+        times: [175, 225, 275, 375, 1000],
+        expected: [6, 0.5, 6, 6, 10],
+      },
+      {
+        desc: 'alternates the direction of each repeated iteration',
+        block: createBlockFn({ repeatCount: 2, repeatMode: 'reverse' }),
+        times: [175, 225, 275, 375, 1000],
+        expected: [6, 6, 0.5, 6, 10],
+      },
+      {
+        desc: 'alternates the direction of each repeated iteration of reversed blocks',
+        block: createBlockFn({ repeatCount: 1, repeatMode: 'reverse', direction: 'reverse' }),
+        times: [125, 225, 1000],
+        expected: [6, 0.5, 10],
+      },
+      {
+        desc: 'repeats infinitely',
+        block: createBlockFn({ repeatCount: -1 }),
+        times: [10075, 10125],
+        expected: [6, 0.5],
+      },
+    ];
+
+    TESTS.forEach(({ desc, block, times, expected }) => {
+      it(desc, () => {
+        times.forEach((t, i) => expect(block.getValueAtTime(t)).toBeCloseTo(expected[i], 4));
+      });
+    });
+  });
+
+  describe('#toNormalDirection', () => {
+    ['LINEAR', 'FAST_OUT_SLOW_IN', 'FAST_OUT_LINEAR_IN', 'LINEAR_OUT_SLOW_IN', 'BOUNCE'].forEach(
+      interpolator => {
+        it(`plays the same values as a reversed '${interpolator}' block`, () => {
+          const block = createBlockFn({ direction: 'reverse', interpolator });
+          const normal = block.toNormalDirection();
+          expect(normal.direction).toBe('normal');
+          expect(normal.fromValue).toBe(10);
+          expect(normal.toValue).toBe(0);
+          expect(normal.keyframes.map(k => k.fraction)).toEqual([0.5]);
+          _.range(100, 201, 5).forEach(t => {
+            expect(normal.getValueAtTime(t)).toBeCloseTo(block.getValueAtTime(t), 2);
+          });
+        });
+      },
+    );
+  });
+
+  describe('#getIterations', () => {
+    it('splits the block into iterations that are each played once', () => {
+      const block = createBlockFn({ repeatCount: -1, repeatMode: 'reverse' });
+      const iterations = block.getIterations(350);
+      expect(iterations.map(b => [b.startTime, b.endTime, b.fromValue, b.toValue])).toEqual([
+        [100, 200, 0, 10],
+        [200, 300, 10, 0],
+      ]);
+      iterations.forEach(b => {
+        expect(b.repeatCount).toBe(0);
+        expect(b.direction).toBe('normal');
+      });
+      expect(iterations[1].interpolator).toBe('DECELERATE');
+      expect(iterations[1].keyframes).toEqual([
+        { fraction: 0.5, value: 2, interpolator: 'LINEAR' },
+      ]);
+      _.range(100, 301, 5).forEach(t => {
+        const iteration = iterations[t < 200 ? 0 : 1];
+        expect(iteration.getValueAtTime(t)).toBeCloseTo(block.getValueAtTime(t), 4);
+      });
+    });
+
+    it('stops at the last repeat', () => {
+      expect(createBlockFn({ repeatCount: 1 }).getIterations(1000).length).toBe(2);
+    });
+
+    it('always includes the first iteration', () => {
+      expect(createBlockFn({ repeatCount: 1 }).getIterations(150).length).toBe(1);
+    });
+  });
+});
@@ -1,24 +1,54 @@
-import { INTERPOLATORS } from 'app/modules/editor/model/interpolators';
+import { Gradient, GradientUtil } from 'app/modules/editor/model/gradients';
+import {
+  getInterpolator,
+  getReversedInterpolatorValue,
+  INTERPOLATORS,
+} from 'app/modules/editor/model/interpolators';
 import { Path } from 'app/modules/editor/model/paths';
 import {
   ColorProperty,
   EnumProperty,
+  GradientProperty,
   Inspectable,
+  InterpolatorProperty,
   NumberProperty,
   PathProperty,
   Property,
+  RepeatCountProperty,
 } from 'app/modules/editor/model/properties';
 import * as _ from 'lodash';
 
-type AnimationBlockType = 'path' | 'color' | 'number';
+type AnimationBlockType = 'path' | 'color' | 'number' | 'gradient';
+export type RepeatMode = 'restart' | 'reverse';
+export type PlaybackDirection = 'normal' | 'reverse';
+
+const ENUM_REPEATMODE_OPTIONS = [
+  { value: 'restart', label: 'Restart' },
+  { value: 'reverse', label: 'Reverse' },
+];
+
+const ENUM_DIRECTION_OPTIONS = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'reverse', label: 'Reverse' },
+];
 
 /**
  * An animation block is an individual layer property tween (property animation).
+ * In addition to its from/to values, a block may contain an ordered list of
+ * intermediate keyframes, in which case the block animates through each of its
+ * keyframe values in turn.
+ *
+ * The block's start and end times describe its first iteration. Repeated
+ * iterations follow each other immediately and last until the next block
+ * animating the same property begins.
  */
 @Property.register(
   new NumberProperty('startTime', { min: 0, isInteger: true }),
   new NumberProperty('endTime', { min: 0, isInteger: true }),
-  new EnumProperty('interpolator', INTERPOLATORS),
+  new InterpolatorProperty('interpolator'),
+  new RepeatCountProperty('repeatCount'),
+  new EnumProperty('repeatMode', ENUM_REPEATMODE_OPTIONS),
+  new EnumProperty('direction', ENUM_DIRECTION_OPTIONS),
 )
 export abstract class AnimationBlock {
   static from(obj: ConstructorArgs) {
@@ -29,6 +59,8 @@ export abstract class AnimationBlock {
         return new ColorAnimationBlock(obj);
       case 'number':
         return new NumberAnimationBlock(obj);
+      case 'gradient':
+        return new GradientAnimationBlock(obj);
       default:
         throw new Error('invalid block type: ' + obj.type);
     }
@@ -48,9 +80,30 @@ export abstract class AnimationBlock {
     }
     // TODO: use the correct default interpolator for import svg/avd/property input
     this.interpolator = obj.interpolator || INTERPOLATORS[0].value;
+    this.repeatCount = obj.repeatCount || 0;
+    this.repeatMode = obj.repeatMode || 'restart';
+    this.direction = obj.direction || 'normal';
     this.fromValue = obj.fromValue;
     this.toValue = obj.toValue;
     this.type = obj.type;
+    this.keyframes = _.sortBy(
+      (obj.keyframes || []).map(({ fraction, value, interpolator }) => {
+        return {
+          fraction: _.clamp(fraction, 0, 1),
+          value: this.parseKeyframeValue(value),
+          interpolator: interpolator || INTERPOLATORS[0].value,
+        };
+      }),
+      k => k.fraction,
+    );
+  }
+
+  /**
+   * Converts a keyframe value (i.e. as read from a JSON file) into the value
+   * type stored by this block.
+   */
+  protected parseKeyframeValue(value: any) {
+    return value;
   }
 
   toJSON() {
@@ -61,9 +114,15 @@ export abstract class AnimationBlock {
       startTime: this.startTime,
       endTime: this.endTime,
       interpolator: this.interpolator,
+      // Default playback options are omitted to keep the JSON output concise.
+      repeatCount: this.repeatCount || undefined,
+      repeatMode: this.repeatMode === 'restart' ? undefined : this.repeatMode,
+      direction: this.direction === 'normal' ? undefined : this.direction,
       type: this.type,
       fromValue: this.fromValue,
       toValue: this.toValue,
+      // Blocks without keyframes are written without a 'keyframes' key.
+      keyframes: this.keyframes.length ? this.keyframes : undefined,
     };
   }
 
@@ -71,6 +130,184 @@ export abstract class AnimationBlock {
     return AnimationBlock.from(this);
   }
 
+  /**
+   * Returns the block's ordered list of animation stops, including the
+   * block's start and end values. Each stop's interpolator is used to
+   * animate the segment that ends at that stop (the start stop's
+   * interpolator is unused).
+   */
+  getStops(): ReadonlyArray<Stop> {
+    const { startTime, endTime } = this;
+    const middle = this.keyframes.map(({ fraction, value, interpolator }) => {
+      return {
+        time: Math.round(startTime + fraction * (endTime - startTime)),
+        value,
+        interpolator,
+      };
+    });
+    // Android applies a keyframe's interpolator to the interval that precedes it,
+    // so the block's interpolator is used to animate the final segment.
+    return [
+      { time: startTime, value: this.fromValue, interpolator: this.interpolator },
+      ...middle,
+      { time: endTime, value: this.toValue, interpolator: this.interpolator },
+    ];
+  }
+
+  /**
+   * Splits the block into a list of simple from/to blocks, one for each
+   * segment between two consecutive stops. The segments share the block's ID.
+   * Blocks without keyframes are returned as is.
+   */
+  getSegments(): ReadonlyArray<AnimationBlock> {
+    if (!this.keyframes.length) {
+      return [this];
+    }
+    const stops = this.getStops();
+    return _.range(1, stops.length).map(i => {
+      const clone = this.clone();
+      clone.startTime = stops[i - 1].time;
+      clone.endTime = stops[i].time;
+      clone.fromValue = stops[i - 1].value;
+      clone.toValue = stops[i].value;
+      clone.interpolator = stops[i].interpolator;
+      clone.keyframes = [];
+      return clone;
+    });
+  }
+
+  /**
+   * Returns the time at which the block's final iteration ends, or Infinity if
+   * the block repeats infinitely.
+   */
+  getActiveEndTime() {
+    const { startTime, endTime, repeatCount } = this;
+    if (startTime === endTime) {
+      return endTime;
+    }
+    return repeatCount < 0 ? Infinity : startTime + (repeatCount + 1) * (endTime - startTime);
+  }
+
+  /**
+   * Returns true iff the block's stops are played in reverse order during the
+   * given (zero-based) iteration.
+   */
+  isIterationReversed(iteration: number) {
+    const isAlternate = this.repeatMode === 'reverse' && iteration % 2 === 1;
+    return (this.direction === 'reverse') !== isAlternate;
+  }
+
+  /**
+   * Returns the block's interpolated value at the given time, taking the block's
+   * repeats and playback direction into account. Times before the block's start
+   * time return the value of its first frame and times after its final iteration
+   * return the value of its last frame.
+   */
+  getValueAtTime(time: number) {
+    const { startTime, endTime } = this;
+    const duration = endTime - startTime;
+    if (!duration) {
+      return this.isIterationReversed(0) ? this.fromValue : this.toValue;
+    }
+    const lastIteration = this.repeatCount < 0 ? Infinity : this.repeatCount;
+    const iteration = _.clamp(Math.floor((time - startTime) / duration), 0, lastIteration);
+    const elapsed = _.clamp(time - startTime - iteration * duration, 0, duration);
+    const isReversed = this.isIterationReversed(iteration);
+    return this.getIterationValueAtTime(startTime + (isReversed ? duration - elapsed : elapsed));
+  }
+
+  /**
+   * Returns the block's interpolated value at the given time during a single
+   * forward iteration (i.e. ignoring the block's repeats and playback direction).
+   * The time must lie within the block's start and end times.
+   */
+  getIterationValueAtTime(time: number) {
+    const stops = this.getStops();
+    const end = _.findIndex(stops, s => time < s.time, 1);
+    if (end < 0) {
+      return this.toValue;
+    }
+    const start = stops[end - 1];
+    const { interpolator, value, time: endTime } = stops[end];
+    const f = endTime === start.time ? 1 : (time - start.time) / (endTime - start.time);
+    const interpolatorFn = getInterpolator(interpolator).interpolateFn;
+    const property = this.inspectableProperties.get('fromValue');
+    return property.interpolateValue(start.value, value, interpolatorFn(f));
+  }
+
+  /**
+   * Returns an equivalent clone of the block that is played in the normal
+   * direction. Reversed blocks are converted by reversing the order of their
+   * stops (and their interpolators).
+   */
+  toNormalDirection() {
+    if (this.direction === 'normal') {
+      return this.clone();
+    }
+    const clone = this.reverseStops();
+    clone.direction = 'normal';
+    return clone;
+  }
+
+  /**
+   * Unrolls the block's repeats into a list of blocks that are each played once in
+   * the normal direction. Only iterations that end before the given (finite) time
+   * are included, except for the first iteration which is always included.
+   */
+  getIterations(maxEndTime: number): ReadonlyArray<AnimationBlock> {
+    const { startTime, endTime } = this;
+    const duration = endTime - startTime;
+    const numIterations = duration
+      ? _.clamp(Math.floor((maxEndTime - startTime) / duration), 1, this.getNumIterations())
+      : 1;
+    const playOnceFn = (block: AnimationBlock) => {
+      block.repeatCount = 0;
+      block.repeatMode = 'restart';
+      block.direction = 'normal';
+      return block;
+    };
+    const forwardBlock = playOnceFn(this.clone());
+    const backwardBlock = playOnceFn(this.reverseStops());
+    return _.range(numIterations).map(i => {
+      const clone = (this.isIterationReversed(i) ? backwardBlock : forwardBlock).clone();
+      clone.startTime = startTime + i * duration;
+      clone.endTime = clone.startTime + duration;
+      return clone;
+    });
+  }
+
+  private getNumIterations() {
+    return this.repeatCount < 0 ? Infinity : this.repeatCount + 1;
+  }
+
+  /**
+   * Returns a clone of the block whose stops are animated in reverse order. Each
+   * segment is animated using a time-reversed interpolator, so that the clone
+   * plays this block's forward iteration backwards.
+   */
+  private reverseStops() {
+    const clone = this.clone();
+    const stops = this.getStops();
+    const numSegments = stops.length - 1;
+    // Each stop's interpolator animates the segment that precedes it, so after
+    // reversing the stops, each segment uses the reversed interpolator of the
+    // stop that follows it in the original order.
+    const reversedInterpolatorFn = (i: number) => {
+      return getReversedInterpolatorValue(stops[i].interpolator);
+    };
+    clone.fromValue = this.toValue;
+    clone.toValue = this.fromValue;
+    clone.interpolator = reversedInterpolatorFn(1);
+    clone.keyframes = _.range(numSegments - 1, 0, -1).map(i => {
+      return {
+        fraction: 1 - this.keyframes[i - 1].fraction,
+        value: stops[i].value,
+        interpolator: reversedInterpolatorFn(i + 1),
+      };
+    });
+    return clone;
+  }
+
   abstract isAnimatable(): boolean;
 }
 
@@ -79,17 +316,28 @@ export abstract class AnimationBlock {
  */
 @Property.register(new PathProperty('fromValue'), new PathProperty('toValue'))
 export class PathAnimationBlock extends AnimationBlock {
+  // @Override
+  protected parseKeyframeValue(value: any) {
+    return typeof value === 'string' ? new Path(value) : value;
+  }
+
   // @Override
   toJSON() {
-    return Object.assign(super.toJSON(), {
+    const json = super.toJSON();
+    return {
+      ...json,
       fromValue: this.fromValue ? this.fromValue.getPathString() : '',
       toValue: this.toValue ? this.toValue.getPathString() : '',
-    });
+      keyframes: json.keyframes
+        ? json.keyframes.map(k => ({ ...k, value: k.value ? k.value.getPathString() : '' }))
+        : undefined,
+    };
   }
 
   // @Override
   isAnimatable() {
-    return !!this.fromValue && !!this.toValue && this.fromValue.isMorphableWith(this.toValue);
+    const values = this.getStops().map(s => s.value);
+    return values.every((v, i) => !!v && (i === 0 || values[0].isMorphableWith(v)));
   }
 }
 
@@ -101,7 +349,7 @@ export class ColorAnimationBlock extends AnimationBlock {
   // @Override
   isAnimatable() {
     // TODO should this be more specific (i.e. check if valid color values?)
-    return !!this.fromValue && !!this.toValue;
+    return this.getStops().every(s => !!s.value);
   }
 }
 
@@ -112,7 +360,20 @@ export class ColorAnimationBlock extends AnimationBlock {
 export class NumberAnimationBlock extends AnimationBlock {
   // @Override
   isAnimatable() {
-    return _.isFinite(this.fromValue) && _.isFinite(this.toValue);
+    return this.getStops().every(s => _.isFinite(s.value));
+  }
+}
+
+/**
+ * An animation block that animates a gradient property. Each of the gradient's
+ * stop colors and offsets are animated individually.
+ */
+@Property.register(new GradientProperty('fromValue'), new GradientProperty('toValue'))
+export class GradientAnimationBlock extends AnimationBlock {
+  // @Override
+  isAnimatable() {
+    const values = this.getStops().map(s => s.value);
+    return values.every(v => GradientUtil.isMorphable(values[0], v));
   }
 }
 
@@ -123,12 +384,38 @@ interface AnimationBlockArgs {
   startTime?: number;
   endTime?: number;
   interpolator?: string; // Stores the 'value' key of the Interpolator object.
+  // The number of times the block is repeated after its first iteration (-1 repeats infinitely).
+  repeatCount?: number;
+  repeatMode?: RepeatMode;
+  direction?: PlaybackDirection;
   fromValue: any;
   toValue: any;
   type: AnimationBlockType;
+  // Intermediate keyframes, ordered by fraction.
+  keyframes?: ReadonlyArray<Keyframe>;
+}
+
+/**
+ * An intermediate keyframe inside an animation block. The keyframe's position
+ * is stored as a fraction of the block's duration so that keyframes move and
+ * scale along with the block.
+ */
+export interface Keyframe {
+  readonly fraction: number;
+  readonly value: any;
+  // Stores the 'value' key of the Interpolator object used to animate into this keyframe.
+  readonly interpolator: string;
+}
+
+interface Stop {
+  readonly time: number;
+  readonly value: any;
+  readonly interpolator: string;
 }
 
-export interface AnimationBlock extends AnimationBlockArgs, Inspectable {}
+export interface AnimationBlock extends AnimationBlockArgs, Inspectable {
+  keyframes: ReadonlyArray<Keyframe>;
+}
 export interface ConstructorArgs extends AnimationBlockArgs {}
 
 export interface PathAnimationBlock {
@@ -148,3 +435,9 @@ export interface NumberAnimationBlock {
   toValue: number;
   clone(): NumberAnimationBlock;
 }
+
+export interface GradientAnimationBlock {
+  fromValue: Gradient;
+  toValue: Gradient;
+  clone(): GradientAnimationBlock;
+}
@@ -4,4 +4,8 @@ export {
   PathAnimationBlock,
   ColorAnimationBlock,
   NumberAnimationBlock,
+  GradientAnimationBlock,
+  Keyframe,
+  PlaybackDirection,
+  RepeatMode,
 } from './AnimationBlock';
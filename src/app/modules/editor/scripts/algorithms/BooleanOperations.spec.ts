@@ -0,0 +1,63 @@
+import { Path } from 'app/modules/editor/model/paths';
+
+import { BooleanOperation, BooleanOperations } from '.';
+
+describe('BooleanOperations', () => {
+  describe('#apply', () => {
+    const SQUARE1 = 'M 0 0 L 10 0 L 10 10 L 0 10 Z';
+    const SQUARE2 = 'M 5 5 L 15 5 L 15 15 L 5 15 Z';
+    const TRIANGLE = 'M 20 20 L 30 20 L 30 30 Z';
+    const TESTS: Array<{ operation: BooleanOperation; paths: string[]; expected: string[] }> = [
+      {
+        operation: 'union',
+        paths: [SQUARE1, SQUARE2],
+        expected: ['M 0 0 L 10 0 L 10 5 L 15 5 L 15 15 L 5 15 L 5 10 L 0 10 Z'],
+      },
+      {
+        operation: 'subtract',
+        paths: [SQUARE1, SQUARE2],
+        expected: ['M 0 0 L 10 0 L 10 5 L 5 5 L 5 10 L 0 10 Z'],
+      },
+      {
+        operation: 'intersect',
+        paths: [SQUARE1, SQUARE2],
+        expected: ['M 10 10 L 5 10 L 5 5 L 10 5 Z'],
+      },
+      {
+        operation: 'intersect',
+        paths: [SQUARE1, TRIANGLE],
+        expected: [],
+      },
+      {
+        operation: 'exclude',
+        paths: [SQUARE1, SQUARE2],
+        expected: [
+          'M 0 0 L 10 0 L 10 5 L 5 5 L 5 10 L 0 10 Z M 10 10 L 5 10 L 5 15 L 15 15 L 15 5 L 10 5 Z',
+        ],
+      },
+      {
+        operation: 'divide',
+        paths: [SQUARE1, SQUARE2],
+        expected: [
+          'M 0 0 L 10 0 L 10 5 L 5 5 L 5 10 L 0 10 Z',
+          'M 10 10 L 5 10 L 5 5 L 10 5 Z',
+          'M 15 5 L 15 15 L 5 15 L 5 10 L 10 10 L 10 5 Z',
+        ],
+      },
+    ];
+
+    TESTS.forEach(({ operation, paths, expected }) => {
+      it(`${operation} of ${paths.length} paths yields ${expected.length} paths`, () => {
+        const actual = BooleanOperations.apply(operation, paths.map(p => new Path(p)));
+        expect(actual.map(p => p.getPathString())).toEqual(expected);
+      });
+    });
+
+    it('respects the fill type of each path', () => {
+      const ring = new Path('M 0 0 L 10 0 L 10 10 L 0 10 Z M 2 2 L 8 2 L 8 8 L 2 8 Z');
+      const hole = new Path('M 4 4 L 6 4 L 6 6 L 4 6 Z');
+      expect(BooleanOperations.apply('intersect', [ring, hole], ['nonZero']).length).toBe(1);
+      expect(BooleanOperations.apply('intersect', [ring, hole], ['evenOdd']).length).toBe(0);
+    });
+  });
+});
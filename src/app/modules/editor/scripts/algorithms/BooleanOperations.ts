@@ -0,0 +1,72 @@
+import { FillType } from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import * as paper from 'paper';
+
+import { runInTemporaryProject } from './TemporaryProject';
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude' | 'divide';
+
+export const OPERATIONS: ReadonlyArray<BooleanOperation> = [
+  'union',
+  'subtract',
+  'intersect',
+  'exclude',
+  'divide',
+];
+
+/**
+ * Combines the given paths using the specified boolean operation. The paths
+ * should be given in bottom-to-top order (i.e. a subtract operation will
+ * subtract all other paths from the first path). Returns a single path for
+ * all operations except divide, which returns one path for each of the
+ * resulting pieces. Empty results are omitted from the returned list. The
+ * fill type of each path determines which of its areas are considered to be
+ * inside of it (paths without a fill type are treated as non-zero).
+ */
+export function apply(
+  operation: BooleanOperation,
+  paths: ReadonlyArray<Path>,
+  fillTypes: ReadonlyArray<FillType> = [],
+): Path[] {
+  return runInTemporaryProject(() => {
+    const [first, ...rest] = paths.map((p, i) => {
+      const item = new paper.CompoundPath(p.getPathString());
+      item.fillRule = fillTypes[i] === 'evenOdd' ? 'evenodd' : 'nonzero';
+      return item;
+    });
+    let results: paper.PathItem[];
+    if (operation === 'divide') {
+      results = rest.reduce((pieces, item) => divide(pieces, item), [first] as paper.PathItem[]);
+    } else {
+      results = [
+        rest.reduce((result: paper.PathItem, item) => {
+          if (operation === 'union') {
+            return result.unite(item);
+          } else if (operation === 'subtract') {
+            return result.subtract(item);
+          } else if (operation === 'intersect') {
+            return result.intersect(item);
+          }
+          return result.exclude(item);
+        }, first),
+      ];
+    }
+    return results.filter(r => !r.isEmpty() && r.pathData).map(r => new Path(r.pathData));
+  });
+}
+
+/**
+ * Divides each of the existing pieces using the given item. Each piece is split into
+ * the area that overlaps with the item and the area that doesn't. The area of the item
+ * that doesn't overlap with any of the existing pieces becomes a new piece.
+ */
+function divide(pieces: ReadonlyArray<paper.PathItem>, item: paper.PathItem) {
+  let remainder = item;
+  const newPieces: paper.PathItem[] = [];
+  pieces.forEach(piece => {
+    newPieces.push(piece.subtract(item), piece.intersect(item));
+    remainder = remainder.subtract(piece);
+  });
+  newPieces.push(remainder);
+  return newPieces.filter(p => !p.isEmpty() && p.pathData);
+}
@@ -0,0 +1,72 @@
+import { Path } from 'app/modules/editor/model/paths';
+
+import { PathSimplifier } from '.';
+
+describe('PathSimplifier', () => {
+  describe('#simplify', () => {
+    const TESTS: Array<{ path: string; tolerance: number; expected: string }> = [
+      {
+        path: 'M 0 0 L 5 0 L 10 0 L 10 10 L 0 10 Z',
+        tolerance: 0.5,
+        expected: 'M 0 0 L 10 0 L 10 10 L 0 10 Z',
+      },
+      {
+        path: 'M 0 0 L 5 0.2 L 10 0 L 15 -0.2 L 20 0 L 20 20',
+        tolerance: 0.5,
+        expected: 'M 0 0 L 20 0 L 20 20',
+      },
+      {
+        path: 'M 0 0 L 5 0 M 10 10 L 15 10 L 20 10',
+        tolerance: 0.5,
+        expected: 'M 0 0 L 5 0 M 10 10 L 20 10',
+      },
+      {
+        path: 'M 0 0 L 10 0 L 10 10',
+        tolerance: 0.5,
+        expected: 'M 0 0 L 10 0 L 10 10',
+      },
+    ];
+
+    TESTS.forEach(({ path, tolerance, expected }) => {
+      it(`simplifying '${path}' with tolerance ${tolerance}`, () => {
+        const actual = PathSimplifier.simplify(new Path(path), {
+          tolerance,
+          preserveCorners: true,
+        });
+        expect(actual.getPathString()).toEqual(expected);
+      });
+    });
+
+    it('fits curves to within the tolerance of the original points', () => {
+      const points = [];
+      for (let i = 0; i <= 100; i++) {
+        points.push({ x: i, y: 20 * Math.sin((i / 100) * Math.PI) + (i % 2 ? 0.2 : -0.2) });
+      }
+      const path = new Path(points.map(({ x, y }, i) => `${i ? 'L' : 'M'} ${x} ${y}`).join(' '));
+      const tolerance = 1;
+      const actual = PathSimplifier.simplify(path, { tolerance, preserveCorners: false });
+      expect(actual.getCommands().length).toBeLessThan(10);
+      points.forEach(p => expect(actual.project(p).projection.d).toBeLessThanOrEqual(tolerance));
+    });
+
+    it('keeps the start point of closed paths', () => {
+      const points = [];
+      for (let i = 0; i < 60; i++) {
+        const angle = (i / 60) * 2 * Math.PI;
+        points.push({ x: 10 * Math.cos(angle), y: 10 * Math.sin(angle) });
+      }
+      const path = new Path(
+        points.map(({ x, y }, i) => `${i ? 'L' : 'M'} ${x} ${y}`).join(' ') + ' Z',
+      );
+      const actual = PathSimplifier.simplify(path, { tolerance: 0.25, preserveCorners: false });
+      expect(actual.getCommands().length).toBeLessThan(10);
+      expect(actual.getCommands()[0].end).toEqual(path.getCommands()[0].end);
+      expect(actual.isClosed()).toBe(true);
+    });
+
+    it('returns the original path if it cannot be simplified', () => {
+      const path = new Path('M 0 0 C 0 10 10 10 10 0');
+      expect(PathSimplifier.simplify(path, { tolerance: 0.5, preserveCorners: true })).toBe(path);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { Path } from 'app/modules/editor/model/paths';
+import * as paper from 'paper';
+
+import { runInTemporaryProject } from './TemporaryProject';
+
+// Segments whose incoming and outgoing tangents differ by more than this
+// many degrees are treated as corners when corners are preserved.
+const CORNER_ANGLE = 30;
+
+export interface SimplifyOptions {
+  // The maximum distance the simplified path may deviate from the original path.
+  readonly tolerance: number;
+  // True if sharp corners should be kept instead of being smoothed over.
+  readonly preserveCorners: boolean;
+}
+
+/**
+ * Reduces the number of commands in the given path. Each run of points is replaced
+ * by a sequence of cubic beziers fitted to within the given tolerance, curves that
+ * are close enough to a straight line are converted into lines, and consecutive
+ * near-collinear lines are merged. The original path is returned if simplifying
+ * it would not reduce its command count.
+ */
+export function simplify(path: Path, options: SimplifyOptions) {
+  const { tolerance, preserveCorners } = options;
+  if (!(tolerance > 0)) {
+    return path;
+  }
+  const pathData = runInTemporaryProject(() => {
+    const compoundPath = new paper.CompoundPath(path.getPathString());
+    return (compoundPath.children as paper.Path[])
+      .map(subPath => simplifySubPath(subPath, tolerance, preserveCorners).pathData)
+      .filter(d => !!d)
+      .join(' ');
+  });
+  if (!pathData) {
+    return path;
+  }
+  const simplifiedPath = new Path(pathData);
+  return simplifiedPath.getCommands().length < path.getCommands().length ? simplifiedPath : path;
+}
+
+function simplifySubPath(subPath: paper.Path, tolerance: number, preserveCorners: boolean) {
+  if (subPath.segments.length < 2) {
+    return subPath;
+  }
+  const segments = subPath.segments;
+  const cornerIndices = preserveCorners
+    ? segments.map((s, i) => (isCorner(s) ? i : -1)).filter(i => i >= 0)
+    : [];
+  let result: paper.Path;
+  if (subPath.closed) {
+    // Rotate the closed path so that it begins and ends at its first corner. The
+    // start point is kept in place if there are no corners, since the start point
+    // of a path affects how it morphs.
+    const start = cornerIndices.length ? cornerIndices[0] : 0;
+    const rotated = [...segments.slice(start), ...segments.slice(0, start), segments[start]];
+    const runIndices = [0, ...cornerIndices.map(i => i - start), rotated.length - 1];
+    result = fitRuns(rotated, runIndices, tolerance);
+    const { firstSegment, lastSegment } = result;
+    firstSegment.handleIn = lastSegment.handleIn;
+    lastSegment.remove();
+    result.closed = true;
+    if (!cornerIndices.length) {
+      smoothSegment(firstSegment);
+    }
+  } else {
+    const runIndices = [0, ...cornerIndices, segments.length - 1];
+    result = fitRuns(segments, runIndices, tolerance);
+  }
+  straightenCurves(result, tolerance);
+  mergeCollinearLines(result, tolerance);
+  return result;
+}
+
+/**
+ * Fits curves to each run of segments between the given (sorted) indices
+ * and joins the runs back together into a single open path.
+ */
+function fitRuns(segments: ReadonlyArray<paper.Segment>, indices: number[], tolerance: number) {
+  const result = new paper.Path();
+  indices = indices.filter((index, i) => i === 0 || index !== indices[i - 1]);
+  for (let i = 1; i < indices.length; i++) {
+    const run = fitRun(segments.slice(indices[i - 1], indices[i] + 1), tolerance);
+    const runSegments = run.removeSegments();
+    if (result.segments.length) {
+      // The first segment of the run is the last segment of the previous run.
+      result.lastSegment.handleOut = runSegments.shift().handleOut;
+    }
+    result.addSegments(runSegments);
+  }
+  return result;
+}
+
+/** Fits a sequence of cubic beziers to the flattened points of the given segments. */
+function fitRun(segments: ReadonlyArray<paper.Segment>, tolerance: number) {
+  const run = new paper.Path(
+    segments.map(s => new paper.Segment(s.point, s.handleIn, s.handleOut)),
+  );
+  run.flatten(tolerance / 2);
+  // Paper.js compares the fitting error against squared distances.
+  run.simplify(tolerance * tolerance);
+  return run;
+}
+
+/** Makes the segment's handles collinear without changing their lengths. */
+function smoothSegment(segment: paper.Segment) {
+  const { handleIn, handleOut } = segment;
+  if (handleIn.isZero() || handleOut.isZero()) {
+    return;
+  }
+  const direction = handleOut.subtract(handleIn);
+  segment.handleIn = direction.normalize(-handleIn.length);
+  segment.handleOut = direction.normalize(handleOut.length);
+}
+
+/** Converts curves whose handles lie within the tolerance of their chord into lines. */
+function straightenCurves(path: paper.Path, tolerance: number) {
+  path.curves.forEach(curve => {
+    const { point1, point2 } = curve;
+    const controlPoint1 = point1.add(curve.handle1);
+    const controlPoint2 = point2.add(curve.handle2);
+    if (
+      distanceToLineSegment(controlPoint1, point1, point2) <= tolerance &&
+      distanceToLineSegment(controlPoint2, point1, point2) <= tolerance
+    ) {
+      curve.segment1.handleOut = new paper.Point(0, 0);
+      curve.segment2.handleIn = new paper.Point(0, 0);
+    }
+  });
+}
+
+/**
+ * Removes segments that join two lines when every point removed since the
+ * last remaining segment lies within the tolerance of the merged line.
+ */
+function mergeCollinearLines(path: paper.Path, tolerance: number) {
+  let removedPoints: paper.Point[] = [];
+  for (let i = 1; i < path.segments.length - (path.closed ? 0 : 1); i++) {
+    const segment = path.segments[i];
+    const prev = segment.previous;
+    const next = segment.next;
+    const canRemove =
+      !segment.hasHandles() &&
+      prev.handleOut.isZero() &&
+      next.handleIn.isZero() &&
+      [...removedPoints, segment.point].every(
+        p => distanceToLineSegment(p, prev.point, next.point) <= tolerance,
+      );
+    if (canRemove) {
+      removedPoints.push(segment.point);
+      segment.remove();
+      i--;
+    } else {
+      removedPoints = [];
+    }
+  }
+}
+
+/** Returns true if the segment's incoming and outgoing tangents form a sharp angle. */
+function isCorner(segment: paper.Segment) {
+  const { previous, next } = segment;
+  if (!previous || !next) {
+    return false;
+  }
+  const inVector = segment.handleIn.isZero()
+    ? segment.point.subtract(previous.point.add(previous.handleOut))
+    : segment.handleIn.multiply(-1);
+  const outVector = segment.handleOut.isZero()
+    ? next.point.add(next.handleIn).subtract(segment.point)
+    : segment.handleOut;
+  if (inVector.isZero() || outVector.isZero()) {
+    return false;
+  }
+  return inVector.getAngle(outVector) > CORNER_ANGLE;
+}
+
+function distanceToLineSegment(point: paper.Point, start: paper.Point, end: paper.Point) {
+  const vector = end.subtract(start);
+  const lengthSquared = vector.dot(vector);
+  if (!lengthSquared) {
+    return point.getDistance(start);
+  }
+  const t = Math.min(1, Math.max(0, point.subtract(start).dot(vector) / lengthSquared));
+  return point.getDistance(start.add(vector.multiply(t)));
+}
@@ -0,0 +1,19 @@
+import * as paper from 'paper';
+
+/**
+ * Runs the function in a temporary paper.js project. This prevents the paper.js items
+ * created by the function from being inserted into the canvas, and also allows the
+ * function to be run when there is no canvas.
+ */
+export function runInTemporaryProject<T>(fn: () => T) {
+  const prevProject = paper.project;
+  const project = new paper.Project(document.createElement('canvas'));
+  try {
+    return fn();
+  } finally {
+    project.remove();
+    if (prevProject) {
+      prevProject.activate();
+    }
+  }
+}
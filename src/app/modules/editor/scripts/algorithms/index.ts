@@ -1,2 +1,5 @@
 import * as AutoAwesome from './AutoAwesome';
-export { AutoAwesome };
+import * as BooleanOperations from './BooleanOperations';
+import * as PathSimplifier from './PathSimplifier';
+export { AutoAwesome, BooleanOperations, PathSimplifier };
+export { BooleanOperation } from './BooleanOperations';
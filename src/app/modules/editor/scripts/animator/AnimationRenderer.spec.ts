@@ -0,0 +1,92 @@
+import { GroupLayer, PathLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+
+import { AnimationRenderer } from '.';
+
+describe('AnimationRenderer', () => {
+  describe('#resolveDrivers', () => {
+    const createVectorLayerFn = (
+      groupDrivers: Dictionary<string>,
+      pathDrivers: Dictionary<string> = {},
+    ) => {
+      const path = new PathLayer({
+        id: 'path',
+        name: 'circle',
+        pathData: new Path('M 0 0 L 10 10'),
+        fillAlpha: 0.25,
+        strokeWidth: 5,
+        drivers: pathDrivers,
+        children: [],
+      });
+      const group = new GroupLayer({
+        id: 'group',
+        name: 'group',
+        scaleX: 2,
+        scaleY: 3,
+        drivers: groupDrivers,
+        children: [path],
+      });
+      return new VectorLayer({ id: 'vector', name: 'vector', children: [group] });
+    };
+    const scaleXBlock = AnimationBlock.from({
+      layerId: 'group',
+      propertyName: 'scaleX',
+      startTime: 0,
+      endTime: 100,
+      interpolator: 'LINEAR',
+      type: 'number',
+      fromValue: 1,
+      toValue: 3,
+    });
+    const renderFn = (vl: VectorLayer, time = 0, blocks: AnimationBlock[] = []) => {
+      const animation = new Animation({ id: 'anim', name: 'anim', duration: 100, blocks });
+      return new AnimationRenderer(vl, animation).setCurrentTime(time);
+    };
+
+    it('resolves references to properties of the same layer', () => {
+      const vl = renderFn(createVectorLayerFn({ scaleY: 'scaleX * 2' }));
+      expect((vl.findLayerById('group') as GroupLayer).scaleY).toBe(4);
+    });
+
+    it('resolves references to animated properties', () => {
+      const vl = renderFn(createVectorLayerFn({ scaleY: 'scaleX' }), 50, [scaleXBlock]);
+      expect((vl.findLayerById('group') as GroupLayer).scaleY).toBeCloseTo(2, 9);
+    });
+
+    it('resolves references to the current time', () => {
+      const vl = renderFn(createVectorLayerFn({ rotation: 't / 10' }), 50);
+      expect((vl.findLayerById('group') as GroupLayer).rotation).toBe(5);
+    });
+
+    it('resolves references to properties of other layers', () => {
+      const vl = renderFn(createVectorLayerFn({ rotation: 'circle.fillAlpha * 360' }));
+      expect((vl.findLayerById('group') as GroupLayer).rotation).toBe(90);
+    });
+
+    it('resolves drivers that depend on other drivers', () => {
+      const vl = renderFn(
+        createVectorLayerFn({ rotation: 'circle.strokeWidth' }, { strokeWidth: 'fillAlpha * 4' }),
+      );
+      expect((vl.findLayerById('group') as GroupLayer).rotation).toBe(1);
+      expect((vl.findLayerById('path') as PathLayer).strokeWidth).toBe(1);
+    });
+
+    it('leaves properties that are part of a cycle untouched', () => {
+      const vl = renderFn(createVectorLayerFn({ scaleX: 'scaleY', scaleY: 'scaleX + 1' }));
+      const group = vl.findLayerById('group') as GroupLayer;
+      expect(group.scaleX).toBe(2);
+      expect(group.scaleY).toBe(3);
+    });
+
+    it('leaves properties that reference missing layers untouched', () => {
+      const vl = renderFn(createVectorLayerFn({ rotation: 'square.fillAlpha' }));
+      expect((vl.findLayerById('group') as GroupLayer).rotation).toBe(0);
+    });
+
+    it('clamps driven values to the valid range of the property', () => {
+      const vl = renderFn(createVectorLayerFn({}, { fillAlpha: 'strokeWidth' }));
+      expect((vl.findLayerById('path') as PathLayer).fillAlpha).toBe(1);
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { INTERPOLATORS } from 'app/modules/editor/model/interpolators';
+import { Expression } from 'app/modules/editor/model/expressions';
 import { Layer, VectorLayer } from 'app/modules/editor/model/layers';
+import { DriverProperty, NumberProperty } from 'app/modules/editor/model/properties';
 import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
 import { ModelUtil } from 'app/modules/editor/scripts/common';
 import * as _ from 'lodash';
@@ -19,6 +20,9 @@ export class AnimationRenderer {
   // Keys are layerIds and values are RenderedData objects.
   private readonly animDataByLayer: Dictionary<RendererData> = {};
 
+  // Keys are '<layerId>.<propertyName>' strings and values are the property's driver.
+  private readonly driversByKey: Dictionary<Driver> = {};
+
   constructor(originalVectorLayer: VectorLayer, activeAnimation: Animation) {
     // TODO: technically this could be more performant if we only cloned the affected layers
     this.renderedVectorLayer = originalVectorLayer.deepClone();
@@ -30,6 +34,20 @@ export class AnimationRenderer {
         orderedBlocks: animDataByLayer[layerId],
       };
     });
+    this.renderedVectorLayer.walk(layer => {
+      _.forEach(layer.drivers, (source, propertyName) => {
+        const expression = Expression.parse(source);
+        const property = layer.animatableProperties.get(propertyName);
+        if (expression && property instanceof NumberProperty) {
+          this.driversByKey[`${layer.id}.${propertyName}`] = {
+            layer,
+            propertyName,
+            property,
+            expression,
+          };
+        }
+      });
+    });
     this.setCurrentTime(0);
   }
 
@@ -49,24 +67,15 @@ export class AnimationRenderer {
         const _ar = { ...DEFAULT_LAYER_PROPERTY_STATE };
 
         // Compute the rendered value at the given time.
-        const property = animData.originalLayer.animatableProperties.get(propertyName);
         let value = (animData.originalLayer as any)[propertyName];
         for (const block of blocks) {
           if (timeMillis < block.startTime) {
             break;
           }
-          if (timeMillis < block.endTime) {
-            const f = (timeMillis - block.startTime) / (block.endTime - block.startTime);
-            // TODO: this is a bit hacky... no need to perform a search every time.
-            const interpolatorFn = _.find(INTERPOLATORS, i => i.value === block.interpolator)
-              .interpolateFn;
-            value = property.interpolateValue(block.fromValue, block.toValue, interpolatorFn(f));
-            _ar.activeBlock = block;
-            _ar.interpolatedValue = true;
-            break;
-          }
-          value = block.toValue;
+          // Repeating blocks are cut short once the next block begins.
+          value = block.getValueAtTime(timeMillis);
           _ar.activeBlock = block;
+          _ar.interpolatedValue = timeMillis < block.getActiveEndTime();
         }
 
         (animData.renderedLayer as any)[propertyName] = value;
@@ -77,8 +86,58 @@ export class AnimationRenderer {
         (animData.cachedState as any)[propertyName] = _ar;
       });
     });
+    this.resolveDrivers(timeMillis);
     return this.renderedVectorLayer;
   }
+
+  /**
+   * Overwrites each driven property with the value of its driver's expression.
+   * Drivers are resolved after the animation blocks have been applied, so
+   * expressions see the animated values of the properties they reference.
+   * Drivers that can't be evaluated (i.e. because they reference a missing
+   * layer or are part of a cycle) leave their property's value untouched.
+   */
+  private resolveDrivers(timeMillis: number) {
+    const resolvedValues: Dictionary<number> = {};
+    const resolvingKeys = new Set<string>();
+    const resolveFn = (layer: Layer, propertyName: string): number => {
+      const key = `${layer.id}.${propertyName}`;
+      if (_.has(resolvedValues, key)) {
+        return resolvedValues[key];
+      }
+      const driver = this.driversByKey[key];
+      if (!driver) {
+        return layer.inspectableProperties.get(propertyName).getValue(layer);
+      }
+      if (resolvingKeys.has(key)) {
+        // The driver depends on itself.
+        return NaN;
+      }
+      resolvingKeys.add(key);
+      const value = driver.expression.evaluate(name => {
+        if (name === DriverProperty.TIME_VARIABLE) {
+          return timeMillis;
+        }
+        const [layerName, refName] = name.includes('.') ? name.split('.') : [layer.name, name];
+        const refLayer =
+          layerName === layer.name ? layer : this.renderedVectorLayer.findLayerByName(layerName);
+        if (!refLayer || !(refLayer.inspectableProperties.get(refName) instanceof NumberProperty)) {
+          return NaN;
+        }
+        return resolveFn(refLayer, refName);
+      });
+      resolvingKeys.delete(key);
+      if (isNaN(value)) {
+        resolvedValues[key] = NaN;
+      } else {
+        // The property's setter clamps the value to the property's valid range.
+        driver.property.setValue(layer, value);
+        resolvedValues[key] = driver.property.getValue(layer);
+      }
+      return resolvedValues[key];
+    };
+    _.forEach(this.driversByKey, ({ layer, propertyName }) => resolveFn(layer, propertyName));
+  }
 }
 
 interface RendererData {
@@ -89,6 +148,13 @@ interface RendererData {
   cachedState?: PropertyState;
 }
 
+interface Driver {
+  readonly layer: Layer;
+  readonly propertyName: string;
+  readonly property: NumberProperty;
+  readonly expression: Expression;
+}
+
 interface PropertyState {
   activeBlock: AnimationBlock;
   interpolatedValue: boolean;
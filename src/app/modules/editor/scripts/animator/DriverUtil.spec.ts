@@ -0,0 +1,97 @@
+import { GroupLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+
+import { DriverUtil } from '.';
+
+describe('DriverUtil', () => {
+  describe('#bakeDrivers', () => {
+    const createVectorLayerFn = (drivers?: Dictionary<string>) => {
+      const group = new GroupLayer({
+        id: 'group',
+        name: 'group',
+        scaleX: 2,
+        drivers,
+        children: [],
+      });
+      return new VectorLayer({ id: 'vector', name: 'vector', children: [group] });
+    };
+    const createAnimationFn = (...blocks: AnimationBlock[]) => {
+      return new Animation({ id: 'anim', name: 'anim', duration: 300, blocks });
+    };
+    const createBlockFn = (propertyName: string) => {
+      return AnimationBlock.from({
+        layerId: 'group',
+        propertyName,
+        startTime: 0,
+        endTime: 300,
+        type: 'number',
+        fromValue: 1,
+        toValue: 5,
+      });
+    };
+    const getGroupFn = (vl: VectorLayer) => vl.findLayerById('group') as GroupLayer;
+
+    it('returns the original models if there are no drivers', () => {
+      const vl = createVectorLayerFn();
+      const animation = createAnimationFn(createBlockFn('scaleY'));
+      const baked = DriverUtil.bakeDrivers(vl, animation);
+      expect(baked.vectorLayer).toBe(vl);
+      expect(baked.animation).toBe(animation);
+    });
+
+    it('bakes constant drivers into the layer', () => {
+      const baked = DriverUtil.bakeDrivers(
+        createVectorLayerFn({ scaleY: 'scaleX * 2' }),
+        createAnimationFn(),
+      );
+      const group = getGroupFn(baked.vectorLayer);
+      expect(group.scaleY).toBe(4);
+      expect(group.drivers).toBeUndefined();
+      expect(baked.animation.blocks.length).toBe(0);
+    });
+
+    it('replaces the blocks of driven properties', () => {
+      const scaleXBlock = createBlockFn('scaleX');
+      const baked = DriverUtil.bakeDrivers(
+        createVectorLayerFn({ scaleY: 'scaleX' }),
+        createAnimationFn(scaleXBlock, createBlockFn('scaleY')),
+      );
+      const group = getGroupFn(baked.vectorLayer);
+      expect(group.scaleY).toBe(1);
+      const [block1, block2] = baked.animation.blocks;
+      expect(baked.animation.blocks.length).toBe(2);
+      expect(block1.id).toBe(scaleXBlock.id);
+      expect(block2.propertyName).toBe('scaleY');
+      expect(block2.interpolator).toBe('LINEAR');
+      expect(block2.startTime).toBe(0);
+      expect(block2.endTime).toBe(300);
+      expect(block2.fromValue).toBe(1);
+      expect(block2.toValue).toBeCloseTo(5, 9);
+    });
+
+    it('drops samples that lie on a line', () => {
+      const baked = DriverUtil.bakeDrivers(
+        createVectorLayerFn({ rotation: 't / 10' }),
+        createAnimationFn(),
+      );
+      const [block] = baked.animation.blocks;
+      expect(baked.animation.blocks.length).toBe(1);
+      expect(block.fromValue).toBe(0);
+      expect(block.toValue).toBeCloseTo(30, 9);
+      expect(block.keyframes.length).toBe(0);
+    });
+
+    it('keeps samples where the driven value changes direction', () => {
+      const baked = DriverUtil.bakeDrivers(
+        createVectorLayerFn({ rotation: 'max(0, t - 150)' }),
+        createAnimationFn(),
+      );
+      const [block] = baked.animation.blocks;
+      expect(block.fromValue).toBe(0);
+      expect(block.toValue).toBeCloseTo(150, 9);
+      expect(block.keyframes.length).toBe(1);
+      expect(block.keyframes[0].fraction).toBeCloseTo(0.5, 9);
+      expect(block.keyframes[0].value).toBeCloseTo(0, 9);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { LayerUtil, VectorLayer } from 'app/modules/editor/model/layers';
+import { Property } from 'app/modules/editor/model/properties';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { MathUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+import { AnimationRenderer } from './AnimationRenderer';
+
+// The rate at which driven properties are sampled when they are baked.
+const BAKED_FRAMES_PER_SECOND = 60;
+
+// Samples that differ from the line through their neighbors by less than
+// this amount are dropped from the baked animation blocks.
+const BAKED_VALUE_TOLERANCE = 1e-6;
+
+/**
+ * Returns a copy of the vector layer and animation in which every driven
+ * property has been replaced with explicit values. Driven properties that
+ * change over the course of the animation are replaced with a linear keyframed
+ * animation block spanning the entire animation, and all driven properties are
+ * given their resolved value at the start of the animation. Useful for
+ * exporting to formats that don't support drivers.
+ */
+export function bakeDrivers(vectorLayer: VectorLayer, animation: Animation) {
+  const drivenProperties: Array<{
+    layerId: string;
+    propertyName: string;
+    property: Property<number>;
+  }> = [];
+  vectorLayer.walk(layer => {
+    _.forEach(layer.drivers, (source, propertyName) => {
+      const property = layer.animatableProperties.get(propertyName);
+      drivenProperties.push({ layerId: layer.id, propertyName, property });
+    });
+  });
+  if (!drivenProperties.length) {
+    return { vectorLayer, animation };
+  }
+
+  // Sample each of the driven properties over the course of the animation.
+  const { duration } = animation;
+  const numFrames = Math.max(1, Math.ceil((duration / 1000) * BAKED_FRAMES_PER_SECOND));
+  const times = _.range(0, numFrames + 1).map(i => (i / numFrames) * duration);
+  const renderer = new AnimationRenderer(vectorLayer, animation);
+  const samples = drivenProperties.map(() => [] as Array<{ time: number; value: number }>);
+  times.forEach(time => {
+    const renderedVectorLayer = renderer.setCurrentTime(time);
+    drivenProperties.forEach(({ layerId, property }, i) => {
+      const value = property.getValue(renderedVectorLayer.findLayerById(layerId));
+      samples[i].push({ time, value });
+    });
+  });
+
+  // Drivers take precedence over the blocks that animate the driven property.
+  const bakedAnimation = animation.clone();
+  bakedAnimation.blocks = animation.blocks.filter(b => {
+    return !drivenProperties.some(
+      p => p.layerId === b.layerId && p.propertyName === b.propertyName,
+    );
+  });
+  let bakedVectorLayer = vectorLayer;
+  drivenProperties.forEach(({ layerId, propertyName, property }, i) => {
+    const stops = simplifySamples(samples[i]);
+    if (stops.length > 1) {
+      const first = _.first(stops);
+      const last = _.last(stops);
+      bakedAnimation.blocks = [
+        ...bakedAnimation.blocks,
+        AnimationBlock.from({
+          layerId,
+          propertyName,
+          startTime: 0,
+          endTime: duration,
+          interpolator: 'LINEAR',
+          type: 'number',
+          fromValue: first.value,
+          toValue: last.value,
+          keyframes: stops.slice(1, -1).map(({ time, value }) => {
+            return { fraction: time / duration, value, interpolator: 'LINEAR' };
+          }),
+        }),
+      ];
+    }
+    const layer = bakedVectorLayer.findLayerById(layerId).clone();
+    property.setValue(layer, _.first(stops).value);
+    layer.drivers = undefined;
+    bakedVectorLayer = LayerUtil.replaceLayer(bakedVectorLayer, layerId, layer);
+  });
+  return { vectorLayer: bakedVectorLayer, animation: bakedAnimation };
+}
+
+/**
+ * Removes the samples that lie on the line between their neighbors. Returns a
+ * single sample if the value never changes.
+ */
+function simplifySamples(samples: ReadonlyArray<{ time: number; value: number }>) {
+  if (samples.every(s => Math.abs(s.value - samples[0].value) < BAKED_VALUE_TOLERANCE)) {
+    return samples.slice(0, 1);
+  }
+  return samples.filter((s, i) => {
+    if (i === 0 || i === samples.length - 1) {
+      return true;
+    }
+    const prev = samples[i - 1];
+    const next = samples[i + 1];
+    const fraction = (s.time - prev.time) / (next.time - prev.time);
+    const expectedValue = MathUtil.lerp(prev.value, next.value, fraction);
+    return Math.abs(s.value - expectedValue) >= BAKED_VALUE_TOLERANCE;
+  });
+}
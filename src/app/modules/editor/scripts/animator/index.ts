@@ -1 +1,4 @@
+import * as DriverUtil from './DriverUtil';
+export { DriverUtil };
+
 export { AnimationRenderer } from './AnimationRenderer';
@@ -0,0 +1,121 @@
+import {
+  GroupLayer,
+  InstanceLayer,
+  Layer,
+  PathLayer,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+
+import { ModelUtil } from '.';
+
+describe('ModelUtil', () => {
+  describe('#flattenInstances', () => {
+    const createVectorLayerFn = (symbolChildren: Layer[], instances: InstanceLayer[]) => {
+      const symbol = new GroupLayer({
+        id: 'symbol',
+        name: 'symbol',
+        isSymbol: true,
+        children: symbolChildren,
+      });
+      return new VectorLayer({ id: 'vector', name: 'vector', children: [symbol, ...instances] });
+    };
+    const createPathLayerFn = (id: string, name: string) => {
+      return new PathLayer({ id, name, pathData: new Path('M 0 0 L 10 10'), children: [] });
+    };
+    const createInstanceLayerFn = (id: string, name: string, translateX = 0) => {
+      return new InstanceLayer({ id, name, symbolId: 'symbol', translateX, children: [] });
+    };
+
+    it('replaces instances with groups containing copies of the symbol', () => {
+      const vl = createVectorLayerFn(
+        [createPathLayerFn('dot', 'dot')],
+        [createInstanceLayerFn('instance', 'instance', 5)],
+      );
+      const { vectorLayer } = ModelUtil.flattenInstances(vl);
+      const group = vectorLayer.findLayerById('instance');
+      expect(group instanceof GroupLayer).toBe(true);
+      expect((group as GroupLayer).translateX).toBe(5);
+      expect((group as GroupLayer).isSymbol).toBe(false);
+      expect(group.children.length).toBe(1);
+      expect(group.children[0].id).not.toBe('dot');
+      expect(group.children[0].name).toBe('instance_dot');
+      // The symbol itself is left untouched.
+      expect(vectorLayer.findLayerById('dot')).toBeDefined();
+    });
+
+    it('gives each copied layer a unique name', () => {
+      const vl = createVectorLayerFn(
+        [createPathLayerFn('dot', 'dot'), createPathLayerFn('existing', 'instance_dot')],
+        [createInstanceLayerFn('instance', 'instance')],
+      );
+      const { vectorLayer } = ModelUtil.flattenInstances(vl);
+      const names: string[] = [];
+      vectorLayer.walk(l => names.push(l.name));
+      expect(new Set(names).size).toBe(names.length);
+      expect(vectorLayer.findLayerById('instance').children.map(l => l.name)).toEqual([
+        'instance_dot_1',
+        'instance_instance_dot',
+      ]);
+    });
+
+    it('copies the animation blocks of the symbol layers', () => {
+      const vl = createVectorLayerFn(
+        [createPathLayerFn('dot', 'dot')],
+        [createInstanceLayerFn('instance1', 'instance1'), createInstanceLayerFn('instance2', 'b')],
+      );
+      const block = AnimationBlock.from({
+        id: 'block',
+        layerId: 'dot',
+        propertyName: 'strokeWidth',
+        type: 'number',
+        fromValue: 0,
+        toValue: 1,
+      });
+      const { vectorLayer, animation } = ModelUtil.flattenInstances(
+        vl,
+        new Animation({ id: 'anim', name: 'anim', duration: 300, blocks: [block] }),
+      );
+      expect(animation.blocks.length).toBe(3);
+      expect(animation.blocks[0].id).toBe('block');
+      const copyIds = ['instance1', 'instance2'].map(
+        id => vectorLayer.findLayerById(id).children[0].id,
+      );
+      expect(animation.blocks.slice(1).map(b => b.layerId)).toEqual(copyIds);
+      animation.blocks.slice(1).forEach(b => {
+        expect(b.id).not.toBe(block.id);
+        expect(b.propertyName).toBe('strokeWidth');
+        expect(b.toValue).toBe(1);
+      });
+    });
+
+    it('stops flattening when a symbol contains an instance of itself', () => {
+      const vl = createVectorLayerFn(
+        [createPathLayerFn('dot', 'dot'), createInstanceLayerFn('self', 'self')],
+        [createInstanceLayerFn('instance', 'instance')],
+      );
+      const { vectorLayer } = ModelUtil.flattenInstances(vl);
+      let numInstances = 0;
+      vectorLayer.walk(l => (numInstances += l instanceof InstanceLayer ? 1 : 0));
+      expect(numInstances).toBe(0);
+      const group = vectorLayer.findLayerById('instance');
+      expect(group.children.map(l => l.name)).toEqual(['instance_dot', 'instance_self']);
+      // The nested instance is replaced with an empty group.
+      const nestedGroup = group.children[1];
+      expect(nestedGroup instanceof GroupLayer).toBe(true);
+      expect(nestedGroup.children.length).toBe(0);
+    });
+
+    it('only flattens instances of the given symbols', () => {
+      const vl = createVectorLayerFn(
+        [createPathLayerFn('dot', 'dot')],
+        [createInstanceLayerFn('instance', 'instance')],
+      );
+      const anim = new Animation();
+      const flattened = ModelUtil.flattenInstancesOfSymbols(vl, [anim], new Set(['other']));
+      expect(flattened.vectorLayer).toBe(vl);
+      expect(flattened.animations[0]).toBe(anim);
+    });
+  });
+});
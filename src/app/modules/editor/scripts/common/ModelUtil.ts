@@ -1,4 +1,11 @@
-import { Layer, VectorLayer } from 'app/modules/editor/model/layers';
+import {
+  GroupLayer,
+  InstanceLayer,
+  Layer,
+  LayerUtil,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
+import { StateList } from 'app/modules/editor/model/statelist';
 import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
 import * as _ from 'lodash';
 
@@ -29,6 +36,26 @@ export function getOrderedBlocksByPropertyByLayer(animation: Animation) {
   return blocksByPropertyByLayer;
 }
 
+/**
+ * Same as getOrderedBlocksByPropertyByLayer(), except repeating blocks are
+ * unrolled into their individual iterations and blocks containing keyframes
+ * are split into a sequence of simple from/to blocks. Useful for exporting to
+ * formats that don't support repeating or multi-keyframe tweens.
+ */
+export function getOrderedSegmentsByPropertyByLayer(animation: Animation) {
+  const blocksByPropertyByLayer = getOrderedBlocksByPropertyByLayer(animation);
+  _.forEach(blocksByPropertyByLayer, blocksByProperty => {
+    _.forEach(blocksByProperty, (blocks, propertyName) => {
+      blocksByProperty[propertyName] = _.flatMap(blocks, (block, i) => {
+        // Repeats are cut short by the next block or the end of the animation.
+        const maxEndTime = i + 1 < blocks.length ? blocks[i + 1].startTime : animation.duration;
+        return _.flatMap(block.getIterations(maxEndTime), b => b.getSegments() as AnimationBlock[]);
+      });
+    });
+  });
+  return blocksByPropertyByLayer;
+}
+
 /**
  * Returns a set of property names that have not yet been animated.
  */
@@ -44,33 +71,156 @@ export function getAvailablePropertyNamesForLayer(layer: Layer, animation: Anima
   return availablePropertyNames;
 }
 
+/**
+ * Returns a copy of the vector layer and animation in which every symbol
+ * instance has been replaced with a group layer containing a copy of its
+ * symbol's children. The group keeps the instance's ID, name, and transform,
+ * and the copied layers are given new IDs, unique names, and copies of the
+ * animation blocks that animate the symbol's layers. Useful for exporting to
+ * formats that don't support symbols.
+ */
+export function flattenInstances(vectorLayer: VectorLayer, animation = new Animation()) {
+  const flattened = flattenInstancesOfSymbols(vectorLayer, [animation]);
+  return { vectorLayer: flattened.vectorLayer, animation: flattened.animations[0] };
+}
+
+/**
+ * Same as flattenInstances, except the blocks are copied into each of the given
+ * animations and only instances of the given symbols are flattened (or all
+ * instances if no symbol IDs are given). Useful for detaching the instances of
+ * symbols that are about to be deleted.
+ */
+export function flattenInstancesOfSymbols(
+  vectorLayer: VectorLayer,
+  animations: ReadonlyArray<Animation>,
+  symbolIds?: ReadonlySet<string>,
+) {
+  const shouldFlattenFn = (l: Layer): l is InstanceLayer => {
+    return l instanceof InstanceLayer && (!symbolIds || symbolIds.has(l.symbolId));
+  };
+  let hasInstances = false;
+  vectorLayer.walk(l => (hasInstances = hasInstances || shouldFlattenFn(l)));
+  if (!hasInstances) {
+    return { vectorLayer, animations };
+  }
+
+  const layerNames = new Set<string>();
+  vectorLayer.walk(l => layerNames.add(l.name));
+  const blocksByLayerIds = animations.map(a => _.groupBy(a.blocks, b => b.layerId));
+  const copiedBlocks = animations.map(() => [] as AnimationBlock[]);
+  const copyLayerFn = (layer: Layer, prefix: string): Layer => {
+    const copy = layer.clone();
+    copy.id = _.uniqueId();
+    copy.name = LayerUtil.getUniqueName(`${prefix}_${layer.name}`, n => layerNames.has(n));
+    layerNames.add(copy.name);
+    blocksByLayerIds.forEach((blocksByLayerId, i) => {
+      (blocksByLayerId[layer.id] || []).forEach(b => {
+        const block = b.clone();
+        block.id = _.uniqueId();
+        block.layerId = copy.id;
+        copiedBlocks[i].push(block);
+      });
+    });
+    copy.children = layer.children.map(l => copyLayerFn(l, prefix));
+    return copy;
+  };
+
+  // The symbol IDs are tracked to avoid infinite recursion when a
+  // symbol contains an instance of itself.
+  const flattenFn = (layer: Layer, visitedSymbolIds: ReadonlyArray<string>): Layer => {
+    if (!shouldFlattenFn(layer)) {
+      const clone = layer.clone();
+      clone.children = layer.children.map(l => flattenFn(l, visitedSymbolIds));
+      return clone;
+    }
+    const { id, name, rotation, scaleX, scaleY, pivotX, pivotY, translateX, translateY } = layer;
+    const group = new GroupLayer({
+      id,
+      name,
+      rotation,
+      scaleX,
+      scaleY,
+      pivotX,
+      pivotY,
+      translateX,
+      translateY,
+      drivers: layer.drivers,
+      children: [],
+    });
+    const symbol = vectorLayer.findLayerById(layer.symbolId);
+    if (symbol && !visitedSymbolIds.includes(symbol.id)) {
+      group.children = symbol.children.map(l => {
+        return flattenFn(copyLayerFn(l, name), [...visitedSymbolIds, symbol.id]);
+      });
+    }
+    return group;
+  };
+
+  const flattenedVectorLayer = flattenFn(vectorLayer, []) as VectorLayer;
+  const flattenedAnimations = animations.map((animation, i) => {
+    if (!copiedBlocks[i].length) {
+      return animation;
+    }
+    const clone = animation.clone();
+    clone.blocks = [...animation.blocks, ...copiedBlocks[i]];
+    return clone;
+  });
+  return { vectorLayer: flattenedVectorLayer, animations: flattenedAnimations };
+}
+
 export function regenerateModelIds(
   vectorLayer: VectorLayer,
-  animation: Animation,
+  animations: ReadonlyArray<Animation>,
   hiddenLayerIds: ReadonlySet<string>,
+  stateList = new StateList(),
 ) {
   // Create a map of old IDs to new IDs.
   const layerIdMap: Dictionary<string> = {};
   vectorLayer.walk(layer => (layerIdMap[layer.id] = _.uniqueId()));
 
-  vectorLayer = <VectorLayer>(function recurseFn<T extends Layer>(layer: T) {
+  const regenerateLayerIdsFn = function recurseFn<T extends Layer>(layer: T) {
     const clone = layer.clone();
-    clone.id = layerIdMap[clone.id];
+    // State snapshots may contain layers that no longer exist in the vector layer.
+    clone.id = layerIdMap[clone.id] || (layerIdMap[clone.id] = _.uniqueId());
+    if (clone instanceof InstanceLayer) {
+      clone.symbolId = layerIdMap[clone.symbolId] || clone.symbolId;
+    }
     clone.children = clone.children.map(l => recurseFn(l));
     return clone;
-  })(vectorLayer);
-
-  const clonedAnim = animation.clone();
-  clonedAnim.id = _.uniqueId();
-  clonedAnim.blocks = clonedAnim.blocks.map(block => {
-    const clonedBlock = block.clone();
-    clonedBlock.id = _.uniqueId();
-    clonedBlock.layerId = layerIdMap[clonedBlock.layerId];
-    return clonedBlock;
+  };
+  vectorLayer = <VectorLayer>regenerateLayerIdsFn(vectorLayer);
+
+  const animationIdMap: Dictionary<string> = {};
+  animations = animations.map(animation => {
+    const clonedAnim = animation.clone();
+    clonedAnim.id = animationIdMap[animation.id] = _.uniqueId();
+    clonedAnim.blocks = clonedAnim.blocks.map(block => {
+      const clonedBlock = block.clone();
+      clonedBlock.id = _.uniqueId();
+      clonedBlock.layerId = layerIdMap[clonedBlock.layerId];
+      return clonedBlock;
+    });
+    return clonedAnim;
   });
-  animation = clonedAnim;
 
   hiddenLayerIds = new Set(Array.from(hiddenLayerIds).map(id => layerIdMap[id]));
 
-  return { vectorLayer, animation, hiddenLayerIds };
+  const stateIdMap: Dictionary<string> = {};
+  stateList = new StateList({
+    states: stateList.states.map(state => {
+      const id = (stateIdMap[state.id] = _.uniqueId());
+      return { ...state, id, vectorLayer: <VectorLayer>regenerateLayerIdsFn(state.vectorLayer) };
+    }),
+    transitions: stateList.transitions.map(transition => {
+      return {
+        ...transition,
+        id: _.uniqueId(),
+        fromStateId: stateIdMap[transition.fromStateId],
+        toStateId: stateIdMap[transition.toStateId],
+        animationId: animationIdMap[transition.animationId],
+      };
+    }),
+  });
+
+  return { vectorLayer, animations, hiddenLayerIds, stateList };
 }
@@ -0,0 +1,141 @@
+/* tslint:disable:no-bitwise */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array;
+
+/**
+ * Combines a list of equally sized PNG images into an animated PNG. The PNGs
+ * are expected to have been encoded by the browser (i.e. using canvas.toBlob()),
+ * so their compressed image data can be reused as-is for each animation frame.
+ *
+ * @param delay The delay between frames in milliseconds.
+ * @param loopCount The number of times the animation is played (0 loops forever).
+ */
+export function encode(
+  pngs: ReadonlyArray<Uint8Array>,
+  delay: number,
+  loopCount: number,
+): Uint8Array {
+  const chunks: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  const frames = pngs.map(png => readChunks(png));
+  const ihdr = frames[0].find(c => c.type === 'IHDR');
+  const width = readUint32(ihdr.data, 0);
+  const height = readUint32(ihdr.data, 4);
+  chunks.push(createChunk('IHDR', ihdr.data));
+
+  const actl = new Uint8Array(8);
+  writeUint32(actl, 0, frames.length);
+  writeUint32(actl, 4, loopCount);
+  chunks.push(createChunk('acTL', actl));
+
+  let sequenceNumber = 0;
+  frames.forEach((frame, i) => {
+    const fctl = new Uint8Array(26);
+    writeUint32(fctl, 0, sequenceNumber++);
+    writeUint32(fctl, 4, width);
+    writeUint32(fctl, 8, height);
+    // The x and y offsets are left as 0.
+    writeUint16(fctl, 20, Math.round(delay));
+    writeUint16(fctl, 22, 1000);
+    // Dispose to the fully transparent background and overwrite the previous frame.
+    fctl[24] = 1;
+    fctl[25] = 0;
+    chunks.push(createChunk('fcTL', fctl));
+
+    frame.filter(c => c.type === 'IDAT').forEach(({ data }) => {
+      if (i === 0) {
+        // The first frame is also the default image.
+        chunks.push(createChunk('IDAT', data));
+        return;
+      }
+      const fdat = new Uint8Array(data.length + 4);
+      writeUint32(fdat, 0, sequenceNumber++);
+      fdat.set(data, 4);
+      chunks.push(createChunk('fdAT', fdat));
+    });
+  });
+
+  chunks.push(createChunk('IEND', new Uint8Array(0)));
+  return concat(chunks);
+}
+
+function readChunks(png: Uint8Array) {
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < png.length) {
+    const length = readUint32(png, offset);
+    const type = String.fromCharCode(...Array.from(png.subarray(offset + 4, offset + 8)));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    // Skip the length, type, data, and CRC.
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+function createChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(data.length + 12);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  writeUint32(chunk, data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+function crc32(bytes: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  // tslint:disable-next-line: prefer-for-of
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(arrays: ReadonlyArray<Uint8Array>) {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  arrays.forEach(a => {
+    result.set(a, offset);
+    offset += a.length;
+  });
+  return result;
+}
+
+function readUint32(bytes: Uint8Array, offset: number) {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+function writeUint16(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = (value >>> 8) & 0xff;
+  bytes[offset + 1] = value & 0xff;
+}
+
+interface Chunk {
+  readonly type: string;
+  readonly data: Uint8Array;
+}
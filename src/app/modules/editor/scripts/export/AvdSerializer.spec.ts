@@ -0,0 +1,123 @@
+import { GroupLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+
+import { AvdSerializer } from '.';
+
+describe('AvdSerializer', () => {
+  describe('motion paths', () => {
+    const vl = new VectorLayer({
+      id: 'vector',
+      name: 'vector',
+      children: [
+        new GroupLayer({
+          id: 'group',
+          name: 'group',
+          translateX: 1,
+          motionPath: new Path('M 0 0 L 10 0'),
+          motionPathProgress: 0.5,
+          children: [],
+        }),
+      ],
+    });
+    const createBlockFn = (propertyName: string, startTime: number, endTime: number) => {
+      return AnimationBlock.from({
+        layerId: 'group',
+        propertyName,
+        startTime,
+        endTime,
+        type: 'number',
+        fromValue: 0,
+        toValue: propertyName === 'motionPathProgress' ? 1 : 5,
+      });
+    };
+    const motionPathBlock = createBlockFn('motionPathProgress', 100, 200);
+    const translateXBlock = createBlockFn('translateX', 0, 100);
+    const translateYBlock = createBlockFn('translateY', 150, 250);
+    const animation = new Animation({
+      id: 'anim',
+      name: 'anim',
+      duration: 300,
+      blocks: [motionPathBlock, translateXBlock, translateYBlock],
+    });
+
+    it('finds the translation blocks that overlap a motion path block', () => {
+      const blocks = AvdSerializer.getOverlappingTranslationBlocks(vl, animation);
+      expect(blocks.map(b => b.propertyName)).toEqual(['translateY']);
+    });
+
+    it('exports translation blocks offset by the motion path point', () => {
+      const xml = AvdSerializer.toAnimatedVectorDrawableXmlString(vl, animation);
+      const doc = new DOMParser().parseFromString(xml, 'application/xml');
+      const animators = Array.from(doc.getElementsByTagName('objectAnimator'));
+      expect(animators.length).toBe(2);
+      const pathAnimator = animators.find(n => n.hasAttribute('android:pathData'));
+      expect(pathAnimator.getAttribute('android:startOffset')).toBe('100');
+      const translateAnimator = animators.find(
+        n => n.getAttribute('android:propertyName') === 'translateX',
+      );
+      expect(+translateAnimator.getAttribute('android:valueFrom')).toBeCloseTo(5, 4);
+      expect(+translateAnimator.getAttribute('android:valueTo')).toBeCloseTo(10, 4);
+      expect(animators.some(n => n.getAttribute('android:propertyName') === 'translateY')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('repeats', () => {
+    const vl = new VectorLayer({
+      id: 'vector',
+      name: 'vector',
+      children: [new GroupLayer({ id: 'group', name: 'group', children: [] })],
+    });
+    const createBlockFn = (
+      propertyName: string,
+      startTime: number,
+      endTime: number,
+      repeatCount = 0,
+    ) => {
+      return AnimationBlock.from({
+        layerId: 'group',
+        propertyName,
+        startTime,
+        endTime,
+        repeatCount,
+        repeatMode: 'reverse',
+        type: 'number',
+        fromValue: 0,
+        toValue: 1,
+      });
+    };
+    const getRepeatCountsFn = (...blocks: AnimationBlock[]) => {
+      const animation = new Animation({ id: 'anim', name: 'anim', duration: 300, blocks });
+      const xml = AvdSerializer.toAnimatedVectorDrawableXmlString(vl, animation);
+      const doc = new DOMParser().parseFromString(xml, 'application/xml');
+      return Array.from(doc.getElementsByTagName('objectAnimator')).map(n => {
+        return [
+          n.getAttribute('android:propertyName'),
+          n.getAttribute('android:repeatCount') || undefined,
+        ];
+      });
+    };
+
+    it('clamps infinite repeats to the end of the animation', () => {
+      expect(getRepeatCountsFn(createBlockFn('scaleX', 0, 100, -1))).toEqual([['scaleX', '2']]);
+    });
+
+    it('clamps repeats to the start of the next block of the same property', () => {
+      expect(
+        getRepeatCountsFn(
+          createBlockFn('scaleX', 0, 100, 5),
+          createBlockFn('scaleX', 250, 300),
+          createBlockFn('scaleY', 0, 50, 4),
+        ),
+      ).toEqual([['scaleX', '1'], ['scaleX', undefined], ['scaleY', '4']]);
+    });
+
+    it('omits repeats that are cut short before they begin', () => {
+      expect(
+        getRepeatCountsFn(createBlockFn('scaleX', 0, 100, -1), createBlockFn('scaleX', 150, 200)),
+      ).toEqual([['scaleX', undefined], ['scaleX', undefined]]);
+    });
+  });
+});
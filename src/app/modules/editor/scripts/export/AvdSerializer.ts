@@ -1,12 +1,21 @@
-import { INTERPOLATORS } from 'app/modules/editor/model/interpolators';
+import { Gradient } from 'app/modules/editor/model/gradients';
+import { getInterpolator } from 'app/modules/editor/model/interpolators';
 import {
   ClipPathLayer,
   GroupLayer,
   Layer,
+  LayerUtil,
   PathLayer,
   VectorLayer,
 } from 'app/modules/editor/model/layers';
-import { Animation, AnimationBlock, PathAnimationBlock } from 'app/modules/editor/model/timeline';
+import { StateList, StateListUtil } from 'app/modules/editor/model/statelist';
+import {
+  Animation,
+  AnimationBlock,
+  GradientAnimationBlock,
+  PathAnimationBlock,
+} from 'app/modules/editor/model/timeline';
+import { MathUtil, Matrix } from 'app/modules/editor/scripts/common';
 import * as _ from 'lodash';
 
 import * as XmlSerializer from './XmlSerializer';
@@ -15,6 +24,9 @@ const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
 const ANDROID_NS = 'http://schemas.android.com/apk/res/android';
 const AAPT_NS = 'http://schemas.android.com/aapt';
 
+// The number of points used to approximate a partially traversed motion path.
+const NUM_MOTION_PATH_SAMPLES = 64;
+
 /**
  * Serializes a VectorLayer to a vector drawable XML string.
  */
@@ -45,7 +57,39 @@ export function toAnimatedVectorDrawableXmlString(vl: VectorLayer, animation: An
 
   // create animation nodes (one per layer)
   const animBlocksByLayer = new Map<string, AnimationBlock[]>();
+  const overlappingTranslationBlocks = getOverlappingTranslationBlocks(vl, animation);
   animation.blocks.forEach(block => {
+    if (block instanceof GradientAnimationBlock) {
+      // Object animators can't animate complex colors.
+      console.warn('Ignoring unsupported gradient animation: ', block.propertyName);
+      return;
+    }
+    if (block.propertyName === 'strokeDashOffset') {
+      // Vector drawables don't support dashed strokes.
+      console.warn('Ignoring unsupported stroke dash animation: ', block.propertyName);
+      return;
+    }
+    const layer = vl.findLayerById(block.layerId);
+    if (layer instanceof GroupLayer) {
+      const hasMotionPath = !!layer.getMotionPathPoint(0);
+      const { propertyName } = block;
+      if (propertyName === 'motionPathProgress' && !hasMotionPath) {
+        console.warn('Ignoring motion path animation without a motion path: ', layer.name);
+        return;
+      }
+      if (isTranslationBlock(block) && hasMotionPath) {
+        if (overlappingTranslationBlocks.includes(block)) {
+          // The motion path animator sets the group's translation directly.
+          console.warn('Ignoring translation animation during motion path animation: ', layer.name);
+          return;
+        }
+        block = toMotionPathTranslationBlock(layer, block, animation);
+      }
+      if (propertyName === 'motionPathProgress' && layer.motionPathRotate === 'auto') {
+        // Path animators can only animate the group's translation.
+        console.warn('Ignoring unsupported motion path rotation: ', layer.name);
+      }
+    }
     const blocks = animBlocksByLayer.get(block.layerId) || [];
     blocks.push(block);
     animBlocksByLayer.set(block.layerId, blocks);
@@ -70,38 +114,197 @@ export function toAnimatedVectorDrawableXmlString(vl: VectorLayer, animation: An
 
     const animatableProperties = layer.animatableProperties;
 
-    blocksForLayer.forEach(block => {
+    blocksForLayer.forEach(blockForLayer => {
+      // Animators can't be played backwards, so reversed blocks are exported
+      // with their stops in reverse order instead.
+      const block = blockForLayer.toNormalDirection();
       const blockNode = xmlDoc.createElement('objectAnimator');
-      blockNode.setAttributeNS(ANDROID_NS, 'android:propertyName', block.propertyName);
+      const isMotionPath = block.propertyName === 'motionPathProgress';
+      if (!block.keyframes.length && !isMotionPath) {
+        blockNode.setAttributeNS(ANDROID_NS, 'android:propertyName', block.propertyName);
+      }
       conditionalAttrFn(blockNode, 'android:startOffset', block.startTime, 0);
       conditionalAttrFn(blockNode, 'android:duration', block.endTime - block.startTime);
-      if (block instanceof PathAnimationBlock) {
-        const fromPath = block.fromValue;
-        const toPath = block.toValue;
-        conditionalAttrFn(blockNode, 'android:valueFrom', fromPath ? fromPath.getPathString() : '');
-        conditionalAttrFn(blockNode, 'android:valueTo', toPath ? toPath.getPathString() : '');
+      const repeatCount = getRepeatCount(block, animation);
+      if (repeatCount) {
+        conditionalAttrFn(blockNode, 'android:repeatCount', repeatCount);
+        conditionalAttrFn(blockNode, 'android:repeatMode', block.repeatMode, 'restart');
+      }
+      const valueType = animatableProperties.get(block.propertyName).getAnimatorValueType();
+      if (isMotionPath) {
+        setMotionPathAnimatorAttrs(layer as GroupLayer, block, blockNode, xmlDoc);
+      } else if (block.keyframes.length) {
+        // Keyframes are interpolated individually, so the animator itself must be linear.
+        setInterpolator(blockNode, 'LINEAR', xmlDoc);
+        const holderNode = xmlDoc.createElement('propertyValuesHolder');
+        holderNode.setAttributeNS(ANDROID_NS, 'android:propertyName', block.propertyName);
+        conditionalAttrFn(holderNode, 'android:valueType', valueType);
+        const duration = block.endTime - block.startTime;
+        block.getStops().forEach((stop, i) => {
+          const keyframeNode = xmlDoc.createElement('keyframe');
+          const fraction = duration ? (stop.time - block.startTime) / duration : i ? 1 : 0;
+          keyframeNode.setAttributeNS(ANDROID_NS, 'android:fraction', `${_.round(fraction, 4)}`);
+          conditionalAttrFn(keyframeNode, 'android:value', toAnimatorValue(block, stop.value));
+          if (i > 0) {
+            setInterpolator(keyframeNode, stop.interpolator, xmlDoc);
+          }
+          holderNode.appendChild(keyframeNode);
+        });
+        blockNode.appendChild(holderNode);
       } else {
-        conditionalAttrFn(blockNode, 'android:valueFrom', block.fromValue);
-        conditionalAttrFn(blockNode, 'android:valueTo', block.toValue);
+        conditionalAttrFn(blockNode, 'android:valueFrom', toAnimatorValue(block, block.fromValue));
+        conditionalAttrFn(blockNode, 'android:valueTo', toAnimatorValue(block, block.toValue));
+        conditionalAttrFn(blockNode, 'android:valueType', valueType);
+        setInterpolator(blockNode, block.interpolator, xmlDoc);
       }
-      conditionalAttrFn(
-        blockNode,
-        'android:valueType',
-        animatableProperties.get(block.propertyName).getAnimatorValueType(),
-      );
-      const interpolator = _.find(INTERPOLATORS, i => i.value === block.interpolator);
-      conditionalAttrFn(blockNode, 'android:interpolator', interpolator.androidRef);
       blockContainerNode.appendChild(blockNode);
     });
   });
   return serializeXmlNode(rootNode);
 }
 
+/**
+ * Returns the translation blocks that can't be exported because they overlap
+ * a motion path animation of the same group. Path animators set the group's
+ * translation directly, so the two animations can't be played at once.
+ */
+export function getOverlappingTranslationBlocks(vl: VectorLayer, animation: Animation) {
+  const motionPathBlocks = animation.blocks.filter(b => b.propertyName === 'motionPathProgress');
+  return animation.blocks.filter(block => {
+    const layer = vl.findLayerById(block.layerId);
+    return (
+      isTranslationBlock(block) &&
+      layer instanceof GroupLayer &&
+      !!layer.getMotionPathPoint(0) &&
+      motionPathBlocks.some(b => {
+        return (
+          b.layerId === block.layerId &&
+          b.startTime < block.getActiveEndTime() &&
+          block.startTime < b.getActiveEndTime()
+        );
+      })
+    );
+  });
+}
+
+/**
+ * Returns the number of times the block repeats before it is cut short by the
+ * next block that animates the same property (or the end of the animation).
+ * Animators keep repeating until they are done, so the repeat count is clamped
+ * to the iterations that are played in the preview.
+ */
+function getRepeatCount(block: AnimationBlock, animation: Animation) {
+  if (!block.repeatCount) {
+    return 0;
+  }
+  const nextStartTimes = animation.blocks
+    .filter(b => {
+      return (
+        b.layerId === block.layerId &&
+        b.propertyName === block.propertyName &&
+        b.startTime > block.startTime
+      );
+    })
+    .map(b => b.startTime);
+  return block.getIterations(_.min([animation.duration, ...nextStartTimes])).length - 1;
+}
+
+function isTranslationBlock(block: AnimationBlock) {
+  return block.propertyName === 'translateX' || block.propertyName === 'translateY';
+}
+
+/**
+ * Path animators set the group's translation directly, so the group's static
+ * translation is exported with the motion path point added to it. This returns
+ * a copy of the given translation block with the motion path point at the
+ * block's start time added to each of its values.
+ */
+function toMotionPathTranslationBlock(
+  layer: GroupLayer,
+  block: AnimationBlock,
+  animation: Animation,
+) {
+  const previousMotionPathBlock = _.maxBy(
+    animation.blocks.filter(b => {
+      return (
+        b.layerId === layer.id &&
+        b.propertyName === 'motionPathProgress' &&
+        b.getActiveEndTime() <= block.startTime
+      );
+    }),
+    b => b.getActiveEndTime(),
+  );
+  const progress = previousMotionPathBlock
+    ? previousMotionPathBlock.getValueAtTime(block.startTime)
+    : layer.motionPathProgress;
+  const point = layer.getMotionPathPoint(progress);
+  const offset = block.propertyName === 'translateX' ? point.x : point.y;
+  const clone = block.clone();
+  clone.fromValue = block.fromValue + offset;
+  clone.toValue = block.toValue + offset;
+  clone.keyframes = block.keyframes.map(k => ({ ...k, value: k.value + offset }));
+  return clone;
+}
+
+/**
+ * Serializes a StateList to an animated-selector XML string. The states and
+ * transitions reference their drawables using the specified map of state and
+ * transition IDs to drawable resource names.
+ */
+export function toAnimatedSelectorXmlString(
+  stateList: StateList,
+  drawableNamesById: Readonly<Dictionary<string>>,
+) {
+  const xmlDoc = document.implementation.createDocument(undefined, 'animated-selector', undefined);
+  const rootNode = xmlDoc.documentElement;
+  rootNode.setAttributeNS(XMLNS_NS, 'xmlns:android', ANDROID_NS);
+
+  const itemIds = new Map<string, string>();
+  StateListUtil.getOrderedStates(stateList).forEach(state => {
+    const itemId = LayerUtil.getUniqueName(StateListUtil.toResourceName(state.name), id =>
+      Array.from(itemIds.values()).includes(id),
+    );
+    itemIds.set(state.id, itemId);
+    const itemNode = xmlDoc.createElement('item');
+    itemNode.setAttributeNS(ANDROID_NS, 'android:id', `@+id/${itemId}`);
+    itemNode.setAttributeNS(
+      ANDROID_NS,
+      'android:drawable',
+      `@drawable/${drawableNamesById[state.id]}`,
+    );
+    StateListUtil.STATE_ATTRIBUTES.filter(name => _.has(state.attributes, name)).forEach(name => {
+      itemNode.setAttributeNS(ANDROID_NS, `android:${name}`, `${state.attributes[name]}`);
+    });
+    rootNode.appendChild(itemNode);
+  });
+  stateList.transitions.forEach(transition => {
+    const transitionNode = xmlDoc.createElement('transition');
+    transitionNode.setAttributeNS(
+      ANDROID_NS,
+      'android:fromId',
+      `@id/${itemIds.get(transition.fromStateId)}`,
+    );
+    transitionNode.setAttributeNS(
+      ANDROID_NS,
+      'android:toId',
+      `@id/${itemIds.get(transition.toStateId)}`,
+    );
+    transitionNode.setAttributeNS(
+      ANDROID_NS,
+      'android:drawable',
+      `@drawable/${drawableNamesById[transition.id]}`,
+    );
+    conditionalAttrFn(transitionNode, 'android:reversible', `${transition.reversible}`, 'false');
+    rootNode.appendChild(transitionNode);
+  });
+  return serializeXmlNode(rootNode);
+}
+
 /**
  * Helper method that serializes an VectorLayer to a destinationNode in an xmlDoc.
  * The destinationNode should be a <vector> node.
  */
-function vectorLayerToXmlNode(
+export function vectorLayerToXmlNode(
   vl: VectorLayer,
   destinationNode: any,
   xmlDoc: any,
@@ -109,6 +312,15 @@ function vectorLayerToXmlNode(
 ) {
   if (withAndroidNs) {
     destinationNode.setAttributeNS(XMLNS_NS, 'xmlns:android', ANDROID_NS);
+    let hasGradients = false;
+    vl.walk(layer => {
+      if (layer instanceof PathLayer && (layer.fillGradient || layer.strokeGradient)) {
+        hasGradients = true;
+      }
+    });
+    if (hasGradients) {
+      destinationNode.setAttributeNS(XMLNS_NS, 'xmlns:aapt', AAPT_NS);
+    }
   }
   conditionalAttrFn(destinationNode, 'android:name', vl.name);
   destinationNode.setAttributeNS(ANDROID_NS, 'android:width', `${vl.width}dp`);
@@ -127,9 +339,13 @@ function vectorLayerToXmlNode(
         const path = layer.pathData;
         conditionalAttrFn(node, 'android:name', layer.name);
         conditionalAttrFn(node, 'android:pathData', path ? path.getPathString() : '');
-        conditionalAttrFn(node, 'android:fillColor', layer.fillColor, '');
+        if (!layer.fillGradient) {
+          conditionalAttrFn(node, 'android:fillColor', layer.fillColor, '');
+        }
         conditionalAttrFn(node, 'android:fillAlpha', layer.fillAlpha, 1);
-        conditionalAttrFn(node, 'android:strokeColor', layer.strokeColor, '');
+        if (!layer.strokeGradient) {
+          conditionalAttrFn(node, 'android:strokeColor', layer.strokeColor, '');
+        }
         conditionalAttrFn(node, 'android:strokeAlpha', layer.strokeAlpha, 1);
         conditionalAttrFn(node, 'android:strokeWidth', layer.strokeWidth, 0);
         conditionalAttrFn(node, 'android:trimPathStart', layer.trimPathStart, 0);
@@ -139,6 +355,15 @@ function vectorLayerToXmlNode(
         conditionalAttrFn(node, 'android:strokeLineJoin', layer.strokeLinejoin, 'miter');
         conditionalAttrFn(node, 'android:strokeMiterLimit', layer.strokeMiterLimit, 4);
         conditionalAttrFn(node, 'android:fillType', layer.fillType, 'nonZero');
+        if (layer.strokeDashArray) {
+          console.warn('Ignoring unsupported stroke dash array: ', layer.name);
+        }
+        if (layer.fillGradient) {
+          node.appendChild(gradientToXmlNode(layer.fillGradient, 'android:fillColor', xmlDoc));
+        }
+        if (layer.strokeGradient) {
+          node.appendChild(gradientToXmlNode(layer.strokeGradient, 'android:strokeColor', xmlDoc));
+        }
         parentNode.appendChild(node);
         return parentNode;
       } else if (layer instanceof ClipPathLayer) {
@@ -153,11 +378,12 @@ function vectorLayerToXmlNode(
         conditionalAttrFn(node, 'android:name', layer.name);
         conditionalAttrFn(node, 'android:pivotX', layer.pivotX, 0);
         conditionalAttrFn(node, 'android:pivotY', layer.pivotY, 0);
-        conditionalAttrFn(node, 'android:translateX', layer.translateX, 0);
-        conditionalAttrFn(node, 'android:translateY', layer.translateY, 0);
+        const { translateX, translateY, rotation } = layer.getMotionPathTransform();
+        conditionalAttrFn(node, 'android:translateX', translateX, 0);
+        conditionalAttrFn(node, 'android:translateY', translateY, 0);
         conditionalAttrFn(node, 'android:scaleX', layer.scaleX, 1);
         conditionalAttrFn(node, 'android:scaleY', layer.scaleY, 1);
-        conditionalAttrFn(node, 'android:rotation', layer.rotation, 0);
+        conditionalAttrFn(node, 'android:rotation', rotation, 0);
         parentNode.appendChild(node);
         return node;
       }
@@ -166,6 +392,104 @@ function vectorLayerToXmlNode(
   );
 }
 
+/**
+ * Sets the attributes of an object animator that moves a group's translation
+ * along its motion path.
+ */
+function setMotionPathAnimatorAttrs(
+  layer: GroupLayer,
+  block: AnimationBlock,
+  blockNode: any,
+  xmlDoc: any,
+) {
+  if (block.keyframes.length) {
+    // Path animators can't contain keyframes, so the block is exported without them.
+    console.warn('Ignoring unsupported motion path keyframes: ', layer.name);
+  }
+  blockNode.setAttributeNS(ANDROID_NS, 'android:propertyXName', 'translateX');
+  blockNode.setAttributeNS(ANDROID_NS, 'android:propertyYName', 'translateY');
+  const pathData = getMotionPathAnimatorPathData(layer, block.fromValue, block.toValue);
+  blockNode.setAttributeNS(ANDROID_NS, 'android:pathData', pathData);
+  setInterpolator(blockNode, block.interpolator, xmlDoc);
+}
+
+/**
+ * Returns the path traversed by the group while its motion path progress is
+ * animated between the given values. Path animators set the group's translation
+ * directly, so the motion path is offset by the group's static translation.
+ * Partially traversed paths are approximated using points that are evenly spaced
+ * along the path.
+ */
+function getMotionPathAnimatorPathData(layer: GroupLayer, from: number, to: number) {
+  const { translateX, translateY } = layer;
+  if (from === 0 && to === 1) {
+    return layer.motionPath.transform(Matrix.translation(translateX, translateY)).getPathString();
+  }
+  const numPoints = Math.max(2, Math.ceil(Math.abs(to - from) * NUM_MOTION_PATH_SAMPLES) + 1);
+  return _.range(numPoints)
+    .map(i => {
+      const { x, y } = layer.getMotionPathPoint(MathUtil.lerp(from, to, i / (numPoints - 1)));
+      return `${i ? 'L' : 'M'} ${_.round(x + translateX, 3)} ${_.round(y + translateY, 3)}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Creates an inline <gradient> resource for the given color attribute.
+ */
+function gradientToXmlNode(gradient: Gradient, attrName: string, xmlDoc: any) {
+  const attrNode = xmlDoc.createElementNS(AAPT_NS, 'aapt:attr');
+  attrNode.setAttribute('name', attrName);
+  const gradientNode = xmlDoc.createElement('gradient');
+  conditionalAttrFn(gradientNode, 'android:type', gradient.type);
+  if (gradient.type === 'radial') {
+    conditionalAttrFn(gradientNode, 'android:centerX', gradient.centerX);
+    conditionalAttrFn(gradientNode, 'android:centerY', gradient.centerY);
+    conditionalAttrFn(gradientNode, 'android:gradientRadius', gradient.radius);
+  } else {
+    conditionalAttrFn(gradientNode, 'android:startX', gradient.startX);
+    conditionalAttrFn(gradientNode, 'android:startY', gradient.startY);
+    conditionalAttrFn(gradientNode, 'android:endX', gradient.endX);
+    conditionalAttrFn(gradientNode, 'android:endY', gradient.endY);
+  }
+  conditionalAttrFn(gradientNode, 'android:tileMode', gradient.tileMode, 'clamp');
+  gradient.stops.forEach(({ offset, color }) => {
+    const itemNode = xmlDoc.createElement('item');
+    conditionalAttrFn(itemNode, 'android:offset', offset);
+    conditionalAttrFn(itemNode, 'android:color', color);
+    gradientNode.appendChild(itemNode);
+  });
+  attrNode.appendChild(gradientNode);
+  return attrNode;
+}
+
+function toAnimatorValue(block: AnimationBlock, value: any) {
+  if (block instanceof PathAnimationBlock) {
+    return value ? value.getPathString() : '';
+  }
+  return value;
+}
+
+/**
+ * Sets the node's interpolator attribute. Custom interpolators don't have a
+ * built-in android reference, so they are defined using an inline resource.
+ */
+function setInterpolator(node: any, value: string, xmlDoc: any) {
+  const { androidRef, androidResource } = getInterpolator(value);
+  if (androidRef) {
+    node.setAttributeNS(ANDROID_NS, 'android:interpolator', androidRef);
+    return;
+  }
+  const attrNode = xmlDoc.createElementNS(AAPT_NS, 'aapt:attr');
+  attrNode.setAttribute('name', 'android:interpolator');
+  const interpolatorNode = xmlDoc.createElement(androidResource.tagName);
+  _.forEach(androidResource.attrs, (attrValue, attrName) => {
+    interpolatorNode.setAttributeNS(ANDROID_NS, `android:${attrName}`, attrValue);
+  });
+  attrNode.appendChild(interpolatorNode);
+  node.appendChild(attrNode);
+}
+
 function conditionalAttrFn(node: any, attr: any, value: any, skipValue?: any) {
   if (!_.isNil(value) && (skipValue === undefined || value !== skipValue)) {
     node.setAttributeNS(ANDROID_NS, attr, value);
@@ -0,0 +1,202 @@
+import { VectorLayer } from 'app/modules/editor/model/layers';
+import { Animation } from 'app/modules/editor/model/timeline';
+import { ColorUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+import * as AvdSerializer from './AvdSerializer';
+
+const ANDROID_NS = 'http://schemas.android.com/apk/res/android';
+const INDENT = '    ';
+
+const IMAGE_VECTOR_IMPORTS = [
+  'androidx.compose.ui.graphics.Color',
+  'androidx.compose.ui.graphics.PathFillType',
+  'androidx.compose.ui.graphics.SolidColor',
+  'androidx.compose.ui.graphics.StrokeCap',
+  'androidx.compose.ui.graphics.StrokeJoin',
+  'androidx.compose.ui.graphics.vector.ImageVector',
+  'androidx.compose.ui.graphics.vector.addPathNodes',
+  'androidx.compose.ui.graphics.vector.group',
+  'androidx.compose.ui.unit.dp',
+];
+
+const ANIMATED_IMAGE_VECTOR_IMPORTS = [
+  'androidx.compose.animation.graphics.ExperimentalAnimationGraphicsApi',
+  'androidx.compose.animation.graphics.res.animatedVectorResource',
+  'androidx.compose.animation.graphics.res.rememberAnimatedVectorPainter',
+  'androidx.compose.animation.graphics.vector.AnimatedImageVector',
+  'androidx.compose.runtime.Composable',
+  'androidx.compose.ui.graphics.painter.Painter',
+];
+
+// Maps vector drawable <group> attributes to ImageVector.Builder.group() arguments.
+const GROUP_ARGUMENTS: ReadonlyArray<Argument> = [
+  { attr: 'name', name: 'name', toKotlin: toKotlinString },
+  { attr: 'rotation', name: 'rotate', toKotlin: toKotlinFloat },
+  { attr: 'pivotX', name: 'pivotX', toKotlin: toKotlinFloat },
+  { attr: 'pivotY', name: 'pivotY', toKotlin: toKotlinFloat },
+  { attr: 'scaleX', name: 'scaleX', toKotlin: toKotlinFloat },
+  { attr: 'scaleY', name: 'scaleY', toKotlin: toKotlinFloat },
+  { attr: 'translateX', name: 'translationX', toKotlin: toKotlinFloat },
+  { attr: 'translateY', name: 'translationY', toKotlin: toKotlinFloat },
+];
+
+// Maps vector drawable <path> attributes to ImageVector.Builder.addPath() arguments.
+const PATH_ARGUMENTS: ReadonlyArray<Argument> = [
+  { attr: 'pathData', name: 'pathData', toKotlin: toKotlinPathNodes },
+  { attr: 'fillType', name: 'pathFillType', toKotlin: v => `PathFillType.${_.upperFirst(v)}` },
+  { attr: 'name', name: 'name', toKotlin: toKotlinString },
+  { attr: 'fillColor', name: 'fill', toKotlin: toKotlinBrush },
+  { attr: 'fillAlpha', name: 'fillAlpha', toKotlin: toKotlinFloat },
+  { attr: 'strokeColor', name: 'stroke', toKotlin: toKotlinBrush },
+  { attr: 'strokeAlpha', name: 'strokeAlpha', toKotlin: toKotlinFloat },
+  { attr: 'strokeWidth', name: 'strokeLineWidth', toKotlin: toKotlinFloat },
+  { attr: 'strokeLineCap', name: 'strokeLineCap', toKotlin: v => `StrokeCap.${_.upperFirst(v)}` },
+  {
+    attr: 'strokeLineJoin',
+    name: 'strokeLineJoin',
+    toKotlin: v => `StrokeJoin.${_.upperFirst(v)}`,
+  },
+  { attr: 'strokeMiterLimit', name: 'strokeLineMiter', toKotlin: toKotlinFloat },
+  { attr: 'trimPathStart', name: 'trimPathStart', toKotlin: toKotlinFloat },
+  { attr: 'trimPathEnd', name: 'trimPathEnd', toKotlin: toKotlinFloat },
+  { attr: 'trimPathOffset', name: 'trimPathOffset', toKotlin: toKotlinFloat },
+];
+
+/**
+ * Serializes a VectorLayer to a Kotlin source file that builds a Jetpack Compose
+ * ImageVector. Note that ImageVectors don't support a root alpha value, so the
+ * vector layer's alpha is ignored.
+ */
+export function toImageVectorKotlinString(vl: VectorLayer) {
+  return [createImports(IMAGE_VECTOR_IMPORTS), createImageVector(vl)].join('\n\n') + '\n';
+}
+
+/**
+ * Serializes a VectorLayer and Animation to a Kotlin source file that builds a
+ * Jetpack Compose ImageVector, as well as a painter for the matching
+ * AnimatedImageVector. Compose can only load AnimatedImageVectors from resources,
+ * so the painter expects the animated vector drawable returned by
+ * AvdSerializer.toAnimatedVectorDrawableXmlString() to be added to the project as
+ * the given drawable resource.
+ */
+export function toAnimatedImageVectorKotlinString(
+  vl: VectorLayer,
+  animation: Animation,
+  drawableResourceName: string,
+) {
+  const painterFunctionName = `remember${getKotlinName(vl)}${_.upperFirst(
+    _.camelCase(animation.name),
+  )}Painter`;
+  const animatedImageVector = [
+    `@OptIn(ExperimentalAnimationGraphicsApi::class)`,
+    `@Composable`,
+    `fun ${painterFunctionName}(atEnd: Boolean): Painter {`,
+    `${INDENT}val image = AnimatedImageVector.animatedVectorResource(R.drawable.${drawableResourceName})`,
+    `${INDENT}return rememberAnimatedVectorPainter(animatedImageVector = image, atEnd = atEnd)`,
+    `}`,
+  ].join('\n');
+  const imports = createImports([...ANIMATED_IMAGE_VECTOR_IMPORTS, ...IMAGE_VECTOR_IMPORTS]);
+  return [imports, createImageVector(vl), animatedImageVector].join('\n\n') + '\n';
+}
+
+function createImports(imports: ReadonlyArray<string>) {
+  return _.sortBy(imports)
+    .map(i => `import ${i}`)
+    .join('\n');
+}
+
+function createImageVector(vl: VectorLayer) {
+  // Reuse the vector drawable serialization logic so that default values, clip paths,
+  // etc. are handled the same way as they are in exported vector drawables.
+  const xmlDoc = document.implementation.createDocument(undefined, 'vector', undefined);
+  const vectorNode = xmlDoc.documentElement;
+  AvdSerializer.vectorLayerToXmlNode(vl, vectorNode, xmlDoc);
+
+  const lines = [
+    `val ${getKotlinName(vl)}: ImageVector by lazy {`,
+    `${INDENT}ImageVector.Builder(`,
+    `${INDENT.repeat(2)}name = ${toKotlinString(vl.name)},`,
+    `${INDENT.repeat(2)}defaultWidth = ${vl.width}.dp,`,
+    `${INDENT.repeat(2)}defaultHeight = ${vl.height}.dp,`,
+    `${INDENT.repeat(2)}viewportWidth = ${toKotlinFloat(vl.width)},`,
+    `${INDENT.repeat(2)}viewportHeight = ${toKotlinFloat(vl.height)},`,
+    `${INDENT}).apply {`,
+    ...childrenToKotlinLines(vectorNode, 2),
+    `${INDENT}}.build()`,
+    `}`,
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Converts the children of a vector drawable node to Kotlin builder calls. A
+ * <clip-path> clips all of the siblings that follow it, so those siblings are
+ * wrapped in a nested group that specifies the clip path data.
+ */
+function childrenToKotlinLines(parentNode: Element, depth: number): string[] {
+  const lines: string[] = [];
+  let numClipGroups = 0;
+  Array.from(parentNode.childNodes)
+    .filter((node): node is Element => node.nodeType === Node.ELEMENT_NODE)
+    .forEach(node => {
+      const indent = INDENT.repeat(depth + numClipGroups);
+      if (node.tagName === 'clip-path') {
+        const pathData = getAttr(node, 'pathData');
+        lines.push(`${indent}group(clipPathData = ${toKotlinPathNodes(pathData)}) {`);
+        numClipGroups++;
+      } else if (node.tagName === 'group') {
+        lines.push(`${indent}group(`);
+        lines.push(...argumentsToKotlinLines(node, GROUP_ARGUMENTS, depth + numClipGroups + 1));
+        lines.push(`${indent}) {`);
+        lines.push(...childrenToKotlinLines(node, depth + numClipGroups + 1));
+        lines.push(`${indent}}`);
+      } else if (node.tagName === 'path') {
+        lines.push(`${indent}addPath(`);
+        lines.push(...argumentsToKotlinLines(node, PATH_ARGUMENTS, depth + numClipGroups + 1));
+        lines.push(`${indent})`);
+      }
+    });
+  _.range(numClipGroups - 1, -1, -1).forEach(i => lines.push(`${INDENT.repeat(depth + i)}}`));
+  return lines;
+}
+
+function argumentsToKotlinLines(node: Element, args: ReadonlyArray<Argument>, depth: number) {
+  return args
+    .filter(({ attr }) => node.hasAttributeNS(ANDROID_NS, attr))
+    .map(({ attr, name, toKotlin }) => {
+      return `${INDENT.repeat(depth)}${name} = ${toKotlin(getAttr(node, attr))},`;
+    });
+}
+
+function getAttr(node: Element, attr: string) {
+  return node.getAttributeNS(ANDROID_NS, attr);
+}
+
+function getKotlinName(vl: VectorLayer) {
+  return _.upperFirst(_.camelCase(vl.name));
+}
+
+function toKotlinString(value: string) {
+  return `"${value.replace(/["\\$]/g, c => `\\${c}`)}"`;
+}
+
+function toKotlinFloat(value: string | number) {
+  return `${Number(value)}f`;
+}
+
+function toKotlinPathNodes(pathString: string) {
+  return `addPathNodes(${toKotlinString(pathString)})`;
+}
+
+function toKotlinBrush(androidColor: string) {
+  const { r, g, b, a } = ColorUtil.parseAndroidColor(androidColor);
+  const hex = [a, r, g, b].map(c => _.padStart(c.toString(16), 2, '0')).join('');
+  return `SolidColor(Color(0x${hex.toUpperCase()}))`;
+}
+
+interface Argument {
+  readonly attr: string;
+  readonly name: string;
+  readonly toKotlin: (value: string) => string;
+}
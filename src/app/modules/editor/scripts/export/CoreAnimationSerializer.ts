@@ -0,0 +1,395 @@
+import {
+  getCubicBezierControlPoints,
+  getInterpolator,
+} from 'app/modules/editor/model/interpolators';
+import {
+  ClipPathLayer,
+  GroupLayer,
+  Layer,
+  PathLayer,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { ColorUtil, ModelUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+const INDENT = '    ';
+
+const LINE_CAPS = { butt: '.butt', round: '.round', square: '.square' };
+const LINE_JOINS = { miter: '.miter', round: '.round', bevel: '.bevel' };
+const FILL_RULES = { nonZero: '.nonZero', evenOdd: '.evenOdd' };
+
+/**
+ * Serializes a VectorLayer and Animation to a Swift source file containing a
+ * CALayer subclass that recreates the layer hierarchy using CAShapeLayers. Each
+ * animation block is converted to a CABasicAnimation whose timing function uses
+ * the interpolator's cubic bezier control points.
+ *
+ * Core Animation doesn't support a few of the features that vector drawables do,
+ * so pivots and trim path offsets aren't animated. Fill and stroke alphas are
+ * baked into their colors, so when a color and its alpha are both animated, only
+ * the color animation is exported.
+ */
+export function toSwiftString(vl: VectorLayer, animation: Animation) {
+  const className = `${_.upperFirst(_.camelCase(vl.name))}Layer`;
+  const context = new SwiftContext(vl);
+
+  const initLines = [
+    `bounds = CGRect(x: 0, y: 0, width: ${vl.width}, height: ${vl.height})`,
+    `opacity = ${toSwiftNumber(vl.alpha)}`,
+    ...childrenToSwiftLines(vl, 'self', context),
+  ];
+
+  const blocksByPropertyByLayer = ModelUtil.getOrderedSegmentsByPropertyByLayer(animation);
+  const animationLines: string[] = [];
+  const animatedLayerNames = new Set<string>();
+  Object.keys(blocksByPropertyByLayer).forEach(layerId => {
+    const layer = vl.findLayerById(layerId);
+    if (!layer) {
+      return;
+    }
+    const blocksByProperty = blocksByPropertyByLayer[layerId];
+    Object.keys(blocksByProperty).forEach(propertyName => {
+      const target = getAnimationTarget(layer, propertyName, blocksByProperty, context);
+      if (!target) {
+        return;
+      }
+      animatedLayerNames.add(target.layerName);
+      blocksByProperty[propertyName].forEach(block => {
+        animationLines.push(...blockToSwiftLines(block, target));
+      });
+    });
+  });
+
+  const lines = [
+    `import UIKit`,
+    ``,
+    `final class ${className}: CALayer {`,
+    ...indent(context.declarations, 1),
+    ``,
+    `${INDENT}override init() {`,
+    `${INDENT.repeat(2)}super.init()`,
+    ...indent(initLines, 2),
+    `${INDENT}}`,
+    ``,
+    `${INDENT}override init(layer: Any) {`,
+    `${INDENT.repeat(2)}super.init(layer: layer)`,
+    `${INDENT}}`,
+    ``,
+    `${INDENT}required init?(coder: NSCoder) {`,
+    `${INDENT.repeat(2)}fatalError("init(coder:) has not been implemented")`,
+    `${INDENT}}`,
+  ];
+  if (animationLines.length) {
+    const animatedLayers = Array.from(animatedLayerNames).join(', ');
+    lines.push(
+      ``,
+      `${INDENT}/// Plays the animation from the beginning.`,
+      `${INDENT}func startAnimation() {`,
+      `${INDENT.repeat(2)}removeAnimations()`,
+      `${INDENT.repeat(2)}let beginTime = CACurrentMediaTime()`,
+      ...indent(animationLines, 2),
+      `${INDENT}}`,
+      ``,
+      `${INDENT}/// Removes all animations, restoring the layers to their initial state.`,
+      `${INDENT}func removeAnimations() {`,
+      `${INDENT.repeat(2)}[${animatedLayers}].forEach { $0.removeAllAnimations() }`,
+      `${INDENT}}`,
+      ``,
+      ...indent(ADD_ANIMATION_FUNCTION, 1),
+    );
+  }
+  lines.push(`}`);
+  return lines.join('\n') + '\n';
+}
+
+const ADD_ANIMATION_FUNCTION = [
+  `private func addAnimation(`,
+  `${INDENT}on layer: CALayer,`,
+  `${INDENT}keyPath: String,`,
+  `${INDENT}from fromValue: Any?,`,
+  `${INDENT}to toValue: Any?,`,
+  `${INDENT}beginTime: CFTimeInterval,`,
+  `${INDENT}duration: CFTimeInterval,`,
+  `${INDENT}timingFunction: CAMediaTimingFunction`,
+  `) {`,
+  `${INDENT}let animation = CABasicAnimation(keyPath: keyPath)`,
+  `${INDENT}animation.fromValue = fromValue`,
+  `${INDENT}animation.toValue = toValue`,
+  `${INDENT}animation.beginTime = beginTime`,
+  `${INDENT}animation.duration = duration`,
+  `${INDENT}animation.timingFunction = timingFunction`,
+  `${INDENT}// Hold the final value until the next animation for this key path begins.`,
+  `${INDENT}animation.fillMode = .forwards`,
+  `${INDENT}animation.isRemovedOnCompletion = false`,
+  `${INDENT}layer.add(animation, forKey: nil)`,
+  `}`,
+];
+
+/**
+ * Converts the children of a layer to Swift statements that configure each
+ * child and add it to its parent. A clip path masks all of the siblings that
+ * follow it, so those siblings are added to a container layer instead.
+ */
+function childrenToSwiftLines(parent: Layer, parentName: string, context: SwiftContext) {
+  const lines: string[] = [];
+  let currentParentName = parentName;
+  parent.children.forEach(layer => {
+    const name = context.getLayerName(layer);
+    if (layer instanceof ClipPathLayer) {
+      const containerName = context.getLayerName(layer, 'Container');
+      lines.push(
+        `${containerName}.frame = bounds`,
+        `${name}.frame = bounds`,
+        `${name}.path = ${toSwiftPath(layer.pathData)}`,
+        `${containerName}.mask = ${name}`,
+        `${currentParentName}.addSublayer(${containerName})`,
+      );
+      currentParentName = containerName;
+    } else if (layer instanceof GroupLayer) {
+      const scaleName = context.getLayerName(layer, 'Scale');
+      const { pivotX, pivotY, translateX, translateY, rotation, scaleX, scaleY } = layer;
+      // Both layers are anchored at the pivot, so the translation and rotation
+      // are applied to the outer layer and the scale is applied to the inner layer.
+      const anchorPoint = `CGPoint(x: ${toSwiftNumber(pivotX)} / bounds.width, y: ${toSwiftNumber(
+        pivotY,
+      )} / bounds.height)`;
+      lines.push(
+        `${name}.bounds = bounds`,
+        `${name}.anchorPoint = ${anchorPoint}`,
+        `${name}.position = CGPoint(x: ${toSwiftNumber(pivotX + translateX)}, y: ${toSwiftNumber(
+          pivotY + translateY,
+        )})`,
+        `${name}.transform = CATransform3DMakeRotation(${toSwiftRadians(rotation)}, 0, 0, 1)`,
+        `${scaleName}.bounds = bounds`,
+        `${scaleName}.anchorPoint = ${anchorPoint}`,
+        `${scaleName}.position = CGPoint(x: ${toSwiftNumber(pivotX)}, y: ${toSwiftNumber(pivotY)})`,
+        `${scaleName}.transform = CATransform3DMakeScale(${toSwiftNumber(scaleX)}, ${toSwiftNumber(
+          scaleY,
+        )}, 1)`,
+        `${name}.addSublayer(${scaleName})`,
+        ...childrenToSwiftLines(layer, scaleName, context),
+        `${currentParentName}.addSublayer(${name})`,
+      );
+    } else if (layer instanceof PathLayer) {
+      lines.push(
+        `${name}.frame = bounds`,
+        `${name}.path = ${toSwiftPath(layer.pathData)}`,
+        `${name}.fillColor = ${toSwiftColor(layer.fillColor, layer.fillAlpha)}`,
+        `${name}.fillRule = ${FILL_RULES[layer.fillType]}`,
+        `${name}.strokeColor = ${toSwiftColor(layer.strokeColor, layer.strokeAlpha)}`,
+        `${name}.lineWidth = ${toSwiftNumber(layer.strokeWidth)}`,
+        `${name}.lineCap = ${LINE_CAPS[layer.strokeLinecap]}`,
+        `${name}.lineJoin = ${LINE_JOINS[layer.strokeLinejoin]}`,
+        `${name}.miterLimit = ${toSwiftNumber(layer.strokeMiterLimit)}`,
+        `${name}.strokeStart = ${toSwiftNumber(layer.trimPathStart)}`,
+        `${name}.strokeEnd = ${toSwiftNumber(layer.trimPathEnd)}`,
+        `${currentParentName}.addSublayer(${name})`,
+      );
+    }
+  });
+  return lines;
+}
+
+/**
+ * Returns the layer and key path that should be animated for the given property,
+ * or undefined if the property can't be animated using Core Animation.
+ */
+function getAnimationTarget(
+  layer: Layer,
+  propertyName: string,
+  blocksByProperty: Dictionary<AnimationBlock[]>,
+  context: SwiftContext,
+): AnimationTarget | undefined {
+  const name = context.getLayerName(layer);
+  if (layer instanceof VectorLayer) {
+    if (propertyName === 'alpha') {
+      return { layerName: 'self', keyPath: 'opacity', toSwift: toSwiftNumber };
+    }
+  } else if (layer instanceof GroupLayer) {
+    const { pivotX, pivotY } = layer;
+    switch (propertyName) {
+      case 'translateX':
+        return { layerName: name, keyPath: 'position.x', toSwift: v => toSwiftNumber(v + pivotX) };
+      case 'translateY':
+        return { layerName: name, keyPath: 'position.y', toSwift: v => toSwiftNumber(v + pivotY) };
+      case 'rotation':
+        return { layerName: name, keyPath: 'transform.rotation.z', toSwift: toSwiftRadians };
+      case 'scaleX':
+      case 'scaleY':
+        return {
+          layerName: context.getLayerName(layer, 'Scale'),
+          keyPath: `transform.scale.${propertyName === 'scaleX' ? 'x' : 'y'}`,
+          toSwift: toSwiftNumber,
+        };
+    }
+  } else if (layer instanceof ClipPathLayer) {
+    if (propertyName === 'pathData') {
+      return { layerName: name, keyPath: 'path', toSwift: toSwiftPath };
+    }
+  } else if (layer instanceof PathLayer) {
+    switch (propertyName) {
+      case 'pathData':
+        return { layerName: name, keyPath: 'path', toSwift: toSwiftPath };
+      case 'fillColor':
+      case 'strokeColor': {
+        const alpha = propertyName === 'fillColor' ? layer.fillAlpha : layer.strokeAlpha;
+        return { layerName: name, keyPath: propertyName, toSwift: v => toSwiftColor(v, alpha) };
+      }
+      case 'fillAlpha':
+      case 'strokeAlpha': {
+        const colorPropertyName = propertyName === 'fillAlpha' ? 'fillColor' : 'strokeColor';
+        if (blocksByProperty[colorPropertyName]) {
+          return undefined;
+        }
+        const color = layer[colorPropertyName];
+        return {
+          layerName: name,
+          keyPath: colorPropertyName,
+          toSwift: v => toSwiftColor(color, v),
+        };
+      }
+      case 'strokeWidth':
+        return { layerName: name, keyPath: 'lineWidth', toSwift: toSwiftNumber };
+      case 'trimPathStart':
+        return { layerName: name, keyPath: 'strokeStart', toSwift: toSwiftNumber };
+      case 'trimPathEnd':
+        return { layerName: name, keyPath: 'strokeEnd', toSwift: toSwiftNumber };
+    }
+  }
+  return undefined;
+}
+
+function blockToSwiftLines(block: AnimationBlock, target: AnimationTarget) {
+  const interpolator = getInterpolator(block.interpolator);
+  const controlPoints = getCubicBezierControlPoints(interpolator).map(p => toSwiftNumber(p));
+  const duration = toSwiftNumber((block.endTime - block.startTime) / 1000);
+  const startTime = toSwiftNumber(block.startTime / 1000);
+  return [
+    `addAnimation(`,
+    `${INDENT}on: ${target.layerName},`,
+    `${INDENT}keyPath: "${target.keyPath}",`,
+    `${INDENT}from: ${indentLines(target.toSwift(block.fromValue), 1)},`,
+    `${INDENT}to: ${indentLines(target.toSwift(block.toValue), 1)},`,
+    `${INDENT}beginTime: ${block.startTime ? `beginTime + ${startTime}` : 'beginTime'},`,
+    `${INDENT}duration: ${duration},`,
+    `${INDENT}timingFunction: CAMediaTimingFunction(controlPoints: ${controlPoints.join(', ')})`,
+    `)`,
+  ];
+}
+
+/** Indents each line, including the lines within multi-line statements. */
+function indent(lines: ReadonlyArray<string>, depth: number) {
+  return _.flatMap(lines, l => l.split('\n')).map(l => `${INDENT.repeat(depth)}${l}`);
+}
+
+/** Indents all but the first line of a (possibly multi-line) Swift expression. */
+function indentLines(expression: string, depth: number) {
+  return expression.split('\n').join(`\n${INDENT.repeat(depth)}`);
+}
+
+function toSwiftNumber(value: number) {
+  return `${_.round(value, 3)}`;
+}
+
+function toSwiftRadians(degrees: number) {
+  return degrees ? `${toSwiftNumber(degrees)} * CGFloat.pi / 180` : '0';
+}
+
+function toSwiftColor(androidColor: string, alpha: number) {
+  const rgba = androidColor ? ColorUtil.parseAndroidColor(androidColor) : undefined;
+  if (!rgba) {
+    return 'nil';
+  }
+  const { r, g, b, a } = rgba;
+  const components = [r, g, b].map(c => toSwiftNumber(c / 255));
+  return `UIColor(red: ${components[0]}, green: ${components[1]}, blue: ${
+    components[2]
+  }, alpha: ${toSwiftNumber((a / 255) * alpha)}).cgColor`;
+}
+
+/** Converts a path to a (multi-line) Swift closure expression that builds a CGPath. */
+function toSwiftPath(path: Path) {
+  if (!path) {
+    return 'nil';
+  }
+  const toPointFn = ({ x, y }: { x: number; y: number }) =>
+    `CGPoint(x: ${toSwiftNumber(x)}, y: ${toSwiftNumber(y)})`;
+  const statements = path.getCommands().map(({ type, points }) => {
+    switch (type) {
+      case 'M':
+        return `path.move(to: ${toPointFn(points[1])})`;
+      case 'L':
+        return `path.addLine(to: ${toPointFn(points[1])})`;
+      case 'Q':
+        return `path.addQuadCurve(to: ${toPointFn(points[2])}, control: ${toPointFn(points[1])})`;
+      case 'C':
+        return `path.addCurve(to: ${toPointFn(points[3])}, control1: ${toPointFn(
+          points[1],
+        )}, control2: ${toPointFn(points[2])})`;
+      default:
+        return `path.closeSubpath()`;
+    }
+  });
+  return [
+    `{`,
+    `${INDENT}let path = CGMutablePath()`,
+    ...statements.map(s => `${INDENT}${s}`),
+    `${INDENT}return path`,
+    `}()`,
+  ].join('\n');
+}
+
+/**
+ * Keeps track of the Swift property names used for each layer. Layer names are
+ * converted to camel case, so a suffix is appended in the rare case that two
+ * different layers end up with the same property name.
+ */
+class SwiftContext {
+  readonly declarations: string[] = [];
+  private readonly namesByKey = new Map<string, string>();
+  private readonly usedNames = new Set<string>();
+
+  constructor(vl: VectorLayer) {
+    vl.walk(layer => {
+      if (layer instanceof VectorLayer) {
+        return;
+      }
+      if (layer instanceof ClipPathLayer) {
+        this.declare(layer, 'Container', 'CALayer');
+        this.declare(layer, '', 'CAShapeLayer');
+      } else if (layer instanceof GroupLayer) {
+        this.declare(layer, '', 'CALayer');
+        this.declare(layer, 'Scale', 'CALayer');
+      } else if (layer instanceof PathLayer) {
+        this.declare(layer, '', 'CAShapeLayer');
+      }
+    });
+  }
+
+  getLayerName(layer: Layer, suffix = '') {
+    return this.namesByKey.get(`${layer.id}${suffix}`);
+  }
+
+  private declare(layer: Layer, suffix: string, type: string) {
+    let baseName = `${_.camelCase(layer.name)}${suffix}Layer`;
+    if (/^\d/.test(baseName)) {
+      baseName = `layer${_.upperFirst(baseName)}`;
+    }
+    let name = baseName;
+    for (let i = 2; this.usedNames.has(name); i++) {
+      name = `${baseName}${i}`;
+    }
+    this.usedNames.add(name);
+    this.namesByKey.set(`${layer.id}${suffix}`, name);
+    this.declarations.push(`private let ${name} = ${type}()`);
+  }
+}
+
+interface AnimationTarget {
+  // The name of the Swift property that references the animated CALayer.
+  readonly layerName: string;
+  readonly keyPath: string;
+  readonly toSwift: (value: any) => string;
+}
@@ -0,0 +1,301 @@
+import { getInterpolator } from 'app/modules/editor/model/interpolators';
+import { GroupLayer, Layer, PathLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { ColorUtil, Matrix, ModelUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+import * as SvgSerializer from './SvgSerializer';
+import * as XmlSerializer from './XmlSerializer';
+
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Group transforms are applied by a chain of nested <g> wrappers (outermost first),
+// which results in the same 'translate * rotate * scale' order used by Android.
+// Motion paths are applied by an additional wrapper using the CSS offset properties.
+export const GROUP_TRANSFORM_PROPERTY_NAMES = [
+  'translateX',
+  'translateY',
+  'rotation',
+  'scaleX',
+  'scaleY',
+];
+
+// Maps animatable layer property names to their CSS equivalents. Properties
+// that are missing from this map (i.e. trim paths, pivots, and clip paths)
+// can't be expressed using CSS keyframes and are ignored.
+const CSS_PROPERTIES: Dictionary<CssProperty> = {
+  alpha: { name: 'opacity', toCss: (v: number) => `${v}` },
+  pathData: { name: 'd', toCss: (v: Path) => `path('${v ? v.getPathString() : ''}')` },
+  fillColor: { name: 'fill', toCss: (v: string) => ColorUtil.androidToCssHexColor(v) },
+  fillAlpha: { name: 'fill-opacity', toCss: (v: number) => `${v}` },
+  strokeColor: { name: 'stroke', toCss: (v: string) => ColorUtil.androidToCssHexColor(v) },
+  strokeAlpha: { name: 'stroke-opacity', toCss: (v: number) => `${v}` },
+  strokeWidth: { name: 'stroke-width', toCss: (v: number) => `${v}px` },
+  strokeDashOffset: { name: 'stroke-dashoffset', toCss: (v: number) => `${v}px` },
+  translateX: { name: 'transform', toCss: (v: number) => `translateX(${v}px)` },
+  translateY: { name: 'transform', toCss: (v: number) => `translateY(${v}px)` },
+  rotation: { name: 'transform', toCss: (v: number) => `rotate(${v}deg)` },
+  scaleX: { name: 'transform', toCss: (v: number) => `scaleX(${v})` },
+  scaleY: { name: 'transform', toCss: (v: number) => `scaleY(${v})` },
+  motionPathProgress: { name: 'offset-distance', toCss: (v: number) => `${_.round(v * 100, 3)}%` },
+};
+
+export function createHtml(svg: string, cssFileName: string) {
+  return `<html>
+<head>
+  <link rel="stylesheet" type="text/css" href="${cssFileName}"/>
+</head>
+<body>
+${svg}
+</body>
+</html>
+`;
+}
+
+/**
+ * Serializes a VectorLayer to an SVG string that can be animated using the
+ * stylesheet returned by toCssString(). Animated groups are split into a chain
+ * of nested <g> elements so that each transform can be animated independently.
+ */
+export function toSvgString(vl: VectorLayer, animation: Animation) {
+  const xmlDoc = document.implementation.createDocument(undefined, 'svg', undefined);
+  const rootNode = xmlDoc.documentElement;
+  rootNode.setAttributeNS(XMLNS_NS, 'xmlns', SVG_NS);
+  rootNode.setAttributeNS(undefined, 'viewBox', `0 0 ${vl.width} ${vl.height}`);
+  rootNode.setAttributeNS(undefined, 'width', `${vl.width}px`);
+  rootNode.setAttributeNS(undefined, 'height', `${vl.height}px`);
+  SvgSerializer.vectorLayerToSvgNode(vl, rootNode, xmlDoc);
+
+  getAnimatedGroupLayers(vl, animation).forEach(layer => {
+    const groupNode = rootNode.querySelector(`[id="${layer.name}"]`);
+    if (!groupNode) {
+      return;
+    }
+    // The transforms will be applied by the wrapper nodes instead.
+    groupNode.removeAttribute('transform');
+    const childNodes = Array.from(groupNode.childNodes);
+    const innerNode = getWrapperPropertyNames(layer).reduce((parentNode, propertyName) => {
+      const wrapperNode = xmlDoc.createElement('g');
+      wrapperNode.setAttributeNS(undefined, 'id', getWrapperId(layer, propertyName));
+      if (propertyName === 'motionPathProgress') {
+        wrapperNode.setAttributeNS(undefined, 'style', getMotionPathStyle(layer));
+      }
+      parentNode.appendChild(wrapperNode);
+      return wrapperNode;
+    }, groupNode);
+    childNodes.forEach(child => innerNode.appendChild(child));
+  });
+
+  return XmlSerializer.serializeToString(rootNode, { indent: 2, multiAttributeIndent: 2 });
+}
+
+/**
+ * Serializes a VectorLayer and Animation to a CSS stylesheet containing one
+ * @keyframes rule per animated layer property.
+ */
+export function toCssString(vl: VectorLayer, animation: Animation) {
+  // Maps element selectors to their list of CSS declarations.
+  const declarationsBySelector = new Map<string, string[]>();
+  const addDeclarationFn = (selector: string, declaration: string) => {
+    const declarations = declarationsBySelector.get(selector) || [];
+    declarations.push(declaration);
+    declarationsBySelector.set(selector, declarations);
+  };
+
+  // Initialize the static transforms for each group that will be animated.
+  getAnimatedGroupLayers(vl, animation).forEach(layer => {
+    GROUP_TRANSFORM_PROPERTY_NAMES.forEach(propertyName => {
+      const selector = `#${getWrapperId(layer, propertyName)}`;
+      const transform = CSS_PROPERTIES[propertyName].toCss((layer as any)[propertyName]);
+      addDeclarationFn(selector, `transform-origin: ${layer.pivotX}px ${layer.pivotY}px;`);
+      addDeclarationFn(selector, `transform: ${transform};`);
+    });
+  });
+
+  const keyframesRules: string[] = [];
+  const blocksByPropertyByLayer = ModelUtil.getOrderedSegmentsByPropertyByLayer(animation);
+  Object.keys(blocksByPropertyByLayer).forEach(layerId => {
+    const layer = vl.findLayerById(layerId);
+    if (!layer) {
+      return;
+    }
+    const blocksByProperty = blocksByPropertyByLayer[layerId];
+    const animationsBySelector = new Map<string, string[]>();
+    Object.keys(blocksByProperty).forEach(propertyName => {
+      const cssProperty = getCssProperty(layer, propertyName);
+      if (!cssProperty) {
+        return;
+      }
+      const keyframesName = `${layer.name}_${propertyName}`;
+      keyframesRules.push(
+        createKeyframes(
+          keyframesName,
+          cssProperty,
+          (layer as any)[propertyName],
+          blocksByProperty[propertyName],
+          animation.duration,
+        ),
+      );
+      const selector =
+        layer instanceof GroupLayer ? `#${getWrapperId(layer, propertyName)}` : `#${layer.name}`;
+      const animations = animationsBySelector.get(selector) || [];
+      animations.push(`${keyframesName} ${animation.duration}ms linear both`);
+      animationsBySelector.set(selector, animations);
+    });
+    animationsBySelector.forEach((animations, selector) => {
+      addDeclarationFn(selector, `animation: ${animations.join(', ')};`);
+    });
+  });
+
+  const rules: string[] = [];
+  declarationsBySelector.forEach((declarations, selector) => {
+    rules.push(createRule(selector, declarations));
+  });
+  return [...rules, ...keyframesRules].join('\n\n') + '\n';
+}
+
+/**
+ * Builds a @keyframes rule that spans the entire animation.
+ */
+function createKeyframes(
+  keyframesName: string,
+  cssProperty: CssProperty,
+  initialValue: any,
+  blocks: ReadonlyArray<AnimationBlock>,
+  duration: number,
+) {
+  const stops = createKeyframeStops(initialValue, blocks, duration);
+  const keyframes = stops.map(({ time, value, timingFunction }) => {
+    const declarations = [`${cssProperty.name}: ${cssProperty.toCss(value)};`];
+    if (timingFunction) {
+      declarations.push(`animation-timing-function: ${timingFunction};`);
+    }
+    return createRule(`${_.round((time / duration) * 100, 3)}%`, declarations, '  ');
+  });
+  return `@keyframes ${keyframesName} {\n${keyframes.join('\n')}\n}`;
+}
+
+/**
+ * Returns the keyframe stops for a list of animation blocks. Gaps between blocks
+ * use a 'step-end' timing function so that the previous value is held until the
+ * next block begins (which matches the behavior of the AnimationRenderer).
+ */
+export function createKeyframeStops(
+  initialValue: any,
+  blocks: ReadonlyArray<AnimationBlock>,
+  duration: number,
+) {
+  const stops: KeyframeStop[] = [];
+  let currentTime = 0;
+  let currentValue = initialValue;
+  blocks.forEach(block => {
+    if (currentTime < block.startTime) {
+      stops.push({ time: currentTime, value: currentValue, timingFunction: 'step-end' });
+    }
+    const interpolator = getInterpolator(block.interpolator);
+    stops.push({
+      time: block.startTime,
+      value: block.fromValue,
+      timingFunction: interpolator.webRef,
+    });
+    currentTime = block.endTime;
+    currentValue = block.toValue;
+  });
+  stops.push({ time: currentTime, value: currentValue });
+  if (currentTime < duration) {
+    stops.push({ time: duration, value: currentValue });
+  }
+  return stops;
+}
+
+function createRule(selector: string, declarations: ReadonlyArray<string>, indent = '') {
+  const body = declarations.map(d => `${indent}  ${d}`).join('\n');
+  return `${indent}${selector} {\n${body}\n${indent}}`;
+}
+
+/**
+ * Returns the CSS property used to animate the given layer property, or undefined
+ * if the property can't be animated using CSS.
+ */
+export function getCssProperty(layer: Layer, propertyName: string) {
+  if (layer instanceof VectorLayer && propertyName === 'alpha') {
+    return CSS_PROPERTIES[propertyName];
+  }
+  if (layer instanceof PathLayer && propertyName !== 'alpha') {
+    return CSS_PROPERTIES[propertyName];
+  }
+  if (layer instanceof GroupLayer && GROUP_TRANSFORM_PROPERTY_NAMES.includes(propertyName)) {
+    return CSS_PROPERTIES[propertyName];
+  }
+  if (layer instanceof GroupLayer && propertyName === 'motionPathProgress' && layer.motionPath) {
+    return CSS_PROPERTIES[propertyName];
+  }
+  return undefined;
+}
+
+/**
+ * Returns the list of group layers that have at least one animated transform.
+ */
+export function getAnimatedGroupLayers(vl: VectorLayer, animation: Animation) {
+  const layerIds = new Set(
+    animation.blocks
+      .filter(
+        b =>
+          GROUP_TRANSFORM_PROPERTY_NAMES.includes(b.propertyName) ||
+          b.propertyName === 'motionPathProgress',
+      )
+      .map(b => b.layerId),
+  );
+  const groupLayers: GroupLayer[] = [];
+  vl.walk(layer => {
+    if (layer instanceof GroupLayer && layerIds.has(layer.id)) {
+      groupLayers.push(layer);
+    }
+  });
+  return groupLayers;
+}
+
+/**
+ * Returns the property names of the wrappers used to animate the given group.
+ * Groups with a motion path are given an extra wrapper between the translation
+ * and rotation wrappers that moves its children along the path.
+ */
+function getWrapperPropertyNames(layer: GroupLayer) {
+  return layer.motionPath
+    ? ['translateX', 'translateY', 'motionPathProgress', 'rotation', 'scaleX', 'scaleY']
+    : GROUP_TRANSFORM_PROPERTY_NAMES;
+}
+
+/**
+ * Returns the inline style used to position a group's motion path wrapper. CSS
+ * places the element's anchor (rather than its origin) on the path, so the path
+ * is offset by the group's pivot to match the way motion paths are rendered.
+ */
+function getMotionPathStyle(layer: GroupLayer) {
+  const { pivotX, pivotY } = layer;
+  const path = layer.motionPath.transform(Matrix.translation(pivotX, pivotY));
+  return [
+    `offset-path: path('${path.getPathString()}');`,
+    `offset-anchor: ${pivotX}px ${pivotY}px;`,
+    `offset-rotate: ${layer.motionPathRotate === 'auto' ? 'auto' : '0deg'};`,
+    `offset-distance: ${CSS_PROPERTIES.motionPathProgress.toCss(layer.motionPathProgress)};`,
+  ].join(' ');
+}
+
+export function getWrapperId(layer: GroupLayer, propertyName: string) {
+  // Layer names only contain word characters, so this won't conflict with other IDs.
+  return `${layer.name}-${propertyName}`;
+}
+
+export interface CssProperty {
+  readonly name: string;
+  readonly toCss: (value: any) => string;
+}
+
+export interface KeyframeStop {
+  readonly time: number;
+  readonly value: any;
+  readonly timingFunction?: string;
+}
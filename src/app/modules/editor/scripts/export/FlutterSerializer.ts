@@ -0,0 +1,473 @@
+import {
+  getCubicBezierControlPoints,
+  getInterpolator,
+} from 'app/modules/editor/model/interpolators';
+import {
+  ClipPathLayer,
+  GroupLayer,
+  Layer,
+  PathLayer,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { ColorUtil, ModelUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+const INDENT = '  ';
+
+const STROKE_CAPS = {
+  butt: 'StrokeCap.butt',
+  round: 'StrokeCap.round',
+  square: 'StrokeCap.square',
+};
+const STROKE_JOINS = {
+  miter: 'StrokeJoin.miter',
+  round: 'StrokeJoin.round',
+  bevel: 'StrokeJoin.bevel',
+};
+const FILL_TYPES = { nonZero: 'PathFillType.nonZero', evenOdd: 'PathFillType.evenOdd' };
+
+// Helper declarations that are appended to the generated file when they are used.
+const HELPERS: Dictionary<string[]> = {
+  command: [
+    `class _Command {`,
+    `${INDENT}const _Command(this.type, this.points);`,
+    ``,
+    `${INDENT}final String type;`,
+    `${INDENT}final List<double> points;`,
+    `}`,
+    ``,
+    `Path _toPath(List<_Command> commands, PathFillType fillType) {`,
+    `${INDENT}final Path path = Path()..fillType = fillType;`,
+    `${INDENT}for (final _Command command in commands) {`,
+    `${INDENT.repeat(2)}final List<double> p = command.points;`,
+    `${INDENT.repeat(2)}switch (command.type) {`,
+    `${INDENT.repeat(3)}case 'M':`,
+    `${INDENT.repeat(4)}path.moveTo(p[0], p[1]);`,
+    `${INDENT.repeat(4)}break;`,
+    `${INDENT.repeat(3)}case 'L':`,
+    `${INDENT.repeat(4)}path.lineTo(p[0], p[1]);`,
+    `${INDENT.repeat(4)}break;`,
+    `${INDENT.repeat(3)}case 'Q':`,
+    `${INDENT.repeat(4)}path.quadraticBezierTo(p[0], p[1], p[2], p[3]);`,
+    `${INDENT.repeat(4)}break;`,
+    `${INDENT.repeat(3)}case 'C':`,
+    `${INDENT.repeat(4)}path.cubicTo(p[0], p[1], p[2], p[3], p[4], p[5]);`,
+    `${INDENT.repeat(4)}break;`,
+    `${INDENT.repeat(3)}default:`,
+    `${INDENT.repeat(4)}path.close();`,
+    `${INDENT.repeat(2)}}`,
+    `${INDENT}}`,
+    `${INDENT}return path;`,
+    `}`,
+  ],
+  block: [
+    `class _Block<T> {`,
+    `${INDENT}const _Block(this.startTime, this.endTime, this.fromValue, this.toValue, this.curve);`,
+    ``,
+    `${INDENT}final double startTime;`,
+    `${INDENT}final double endTime;`,
+    `${INDENT}final T fromValue;`,
+    `${INDENT}final T toValue;`,
+    `${INDENT}final Curve curve;`,
+    `}`,
+    ``,
+    `/// Returns the value at the given time (in milliseconds). Before the first`,
+    `/// block starts (and in between blocks) the previous value is held.`,
+    `T _valueAt<T>(double time, T initialValue, List<_Block<T>> blocks, T Function(T, T, double) lerp) {`,
+    `${INDENT}T value = initialValue;`,
+    `${INDENT}for (final _Block<T> block in blocks) {`,
+    `${INDENT.repeat(2)}if (time < block.startTime) {`,
+    `${INDENT.repeat(3)}break;`,
+    `${INDENT.repeat(2)}}`,
+    `${INDENT.repeat(2)}if (time < block.endTime) {`,
+    `${INDENT.repeat(
+      3,
+    )}final double f = (time - block.startTime) / (block.endTime - block.startTime);`,
+    `${INDENT.repeat(3)}return lerp(block.fromValue, block.toValue, block.curve.transform(f));`,
+    `${INDENT.repeat(2)}}`,
+    `${INDENT.repeat(2)}value = block.toValue;`,
+    `${INDENT}}`,
+    `${INDENT}return value;`,
+    `}`,
+  ],
+  lerpDouble: [`double _lerpDouble(double a, double b, double t) => a + (b - a) * t;`],
+  lerpColor: [
+    `Color? _lerpColor(Color? a, Color? b, double t) {`,
+    `${INDENT}return a == null || b == null ? null : Color.lerp(a, b, t);`,
+    `}`,
+  ],
+  lerpCommands: [
+    `/// Interpolates each of the commands' points (the paths must be morphable).`,
+    `List<_Command> _lerpCommands(List<_Command> a, List<_Command> b, double t) {`,
+    `${INDENT}if (t == 0) {`,
+    `${INDENT.repeat(2)}return a;`,
+    `${INDENT}}`,
+    `${INDENT}return List<_Command>.generate(a.length, (int i) {`,
+    `${INDENT.repeat(2)}final List<double> p1 = a[i].points;`,
+    `${INDENT.repeat(2)}final List<double> p2 = b[i].points;`,
+    `${INDENT.repeat(2)}return _Command(a[i].type, List<double>.generate(p1.length, (int j) {`,
+    `${INDENT.repeat(3)}return _lerpDouble(p1[j], p2[j], t);`,
+    `${INDENT.repeat(2)}}));`,
+    `${INDENT}});`,
+    `}`,
+  ],
+  trimPath: [
+    `/// Trims the path the same way vector drawables do (only the first contour is`,
+    `/// measured, so any remaining contours are dropped).`,
+    `Path _trimPath(Path path, double start, double end, double offset) {`,
+    `${INDENT}final Iterator<PathMetric> metrics = path.computeMetrics().iterator;`,
+    `${INDENT}if ((start == 0 && end == 1) || !metrics.moveNext()) {`,
+    `${INDENT.repeat(2)}return path;`,
+    `${INDENT}}`,
+    `${INDENT}final PathMetric metric = metrics.current;`,
+    `${INDENT}final double trimStart = (start + offset) % 1 * metric.length;`,
+    `${INDENT}final double trimEnd = (end + offset) % 1 * metric.length;`,
+    `${INDENT}if (trimStart <= trimEnd) {`,
+    `${INDENT.repeat(2)}return metric.extractPath(trimStart, trimEnd);`,
+    `${INDENT}}`,
+    `${INDENT}return metric.extractPath(trimStart, metric.length)`,
+    `${INDENT.repeat(3)}..addPath(metric.extractPath(0, trimEnd), Offset.zero);`,
+    `}`,
+  ],
+};
+
+/**
+ * Serializes a VectorLayer and Animation to a Dart source file containing a
+ * Flutter CustomPainter that draws each path layer. Group transforms are applied
+ * to the canvas matrix and animated properties are evaluated each frame using the
+ * interpolators' Cubic curves (path morphs interpolate each of the commands'
+ * points, just like PathUtil.interpolate() does). If the animation contains any
+ * blocks, a StatefulWidget that drives the painter using an AnimationController
+ * is generated as well.
+ */
+export function toDartString(vl: VectorLayer, animation: Animation) {
+  const className = _.upperFirst(_.camelCase(vl.name));
+  const painterName = `${className}Painter`;
+  const context = new DartContext(ModelUtil.getOrderedSegmentsByPropertyByLayer(animation));
+
+  const paintLines = [`canvas.scale(size.width / ${vl.width}, size.height / ${vl.height});`];
+  const alpha = context.getValue(vl, 'alpha');
+  const hasAlpha = context.isAnimated(vl, 'alpha') || vl.alpha !== 1;
+  if (hasAlpha) {
+    paintLines.push(
+      `canvas.saveLayer(`,
+      `${INDENT}Offset.zero & const Size(${vl.width}, ${vl.height}),`,
+      `${INDENT}Paint()..color = Color.fromRGBO(0, 0, 0, ${alpha}),`,
+      `);`,
+    );
+  }
+  paintLines.push(...childrenToDartLines(vl, context));
+  if (hasAlpha) {
+    paintLines.push(`canvas.restore();`);
+  }
+
+  const isAnimated = context.hasAnimatedProperties();
+  const lines: string[] = [];
+  if (isAnimated) {
+    lines.push(
+      `/// Paints the ${toDartStringLiteral(vl.name)} vector. The [animation] drives the`,
+      `/// ${toDartStringLiteral(animation.name)} animation, so it is typically an`,
+      `/// [AnimationController] whose duration is [${painterName}.duration].`,
+      `class ${painterName} extends CustomPainter {`,
+      `${INDENT}${painterName}(this.animation) : super(repaint: animation);`,
+      ``,
+      `${INDENT}static const Duration duration = Duration(milliseconds: ${animation.duration});`,
+      ``,
+      `${INDENT}final Animation<double> animation;`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}void paint(Canvas canvas, Size size) {`,
+      `${INDENT.repeat(2)}final double time = animation.value * ${animation.duration};`,
+      ...indent(paintLines, 2),
+      `${INDENT}}`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}bool shouldRepaint(${painterName} oldDelegate) => oldDelegate.animation != animation;`,
+      `}`,
+      ``,
+      `/// Plays the ${toDartStringLiteral(animation.name)} animation once when it is first built.`,
+      `class ${className}Animation extends StatefulWidget {`,
+      `${INDENT}const ${className}Animation({Key? key, this.size = const Size(${vl.width}, ${
+        vl.height
+      })}) : super(key: key);`,
+      ``,
+      `${INDENT}final Size size;`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}State<${className}Animation> createState() => _${className}AnimationState();`,
+      `}`,
+      ``,
+      `class _${className}AnimationState extends State<${className}Animation>`,
+      `${INDENT.repeat(2)}with SingleTickerProviderStateMixin {`,
+      `${INDENT}late final AnimationController _controller =`,
+      `${INDENT.repeat(
+        3,
+      )}AnimationController(vsync: this, duration: ${painterName}.duration)..forward();`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}void dispose() {`,
+      `${INDENT.repeat(2)}_controller.dispose();`,
+      `${INDENT.repeat(2)}super.dispose();`,
+      `${INDENT}}`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}Widget build(BuildContext context) {`,
+      `${INDENT.repeat(
+        2,
+      )}return CustomPaint(size: widget.size, painter: ${painterName}(_controller));`,
+      `${INDENT}}`,
+      `}`,
+    );
+  } else {
+    lines.push(
+      `/// Paints the ${toDartStringLiteral(vl.name)} vector.`,
+      `class ${painterName} extends CustomPainter {`,
+      `${INDENT}const ${painterName}();`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}void paint(Canvas canvas, Size size) {`,
+      ...indent(paintLines, 2),
+      `${INDENT}}`,
+      ``,
+      `${INDENT}@override`,
+      `${INDENT}bool shouldRepaint(${painterName} oldDelegate) => false;`,
+      `}`,
+    );
+  }
+  Object.keys(HELPERS)
+    .filter(name => context.usedHelpers.has(name))
+    .forEach(name => lines.push(``, ...HELPERS[name]));
+
+  const imports: string[] = [];
+  if (context.usedHelpers.has('math')) {
+    imports.push(`import 'dart:math' as math;`);
+  }
+  if (context.usedHelpers.has('trimPath')) {
+    imports.push(`import 'dart:ui' show PathMetric;`);
+  }
+  if (imports.length) {
+    imports.push(``);
+  }
+  imports.push(`import 'package:flutter/widgets.dart';`);
+  return [...imports, ``, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Converts the children of a layer to Dart statements. Each child is drawn
+ * inside its own block so that local variable names don't conflict. Clip paths
+ * aren't wrapped in a save/restore, so they clip all of the siblings that follow
+ * them (just like they do in vector drawables).
+ */
+function childrenToDartLines(parent: Layer, context: DartContext): string[] {
+  const lines: string[] = [];
+  parent.children.forEach(layer => {
+    if (layer instanceof ClipPathLayer) {
+      if (!layer.pathData && !context.isAnimated(layer, 'pathData')) {
+        return;
+      }
+      lines.push(
+        `// ${layer.name}`,
+        `canvas.clipPath(_toPath(${context.getValue(layer, 'pathData')}, PathFillType.nonZero));`,
+      );
+    } else if (layer instanceof GroupLayer) {
+      const value = (propertyName: string) => context.getValue(layer, propertyName);
+      lines.push(
+        `{`,
+        `${INDENT}// ${layer.name}`,
+        `${INDENT}canvas.save();`,
+        `${INDENT}final double pivotX = ${value('pivotX')};`,
+        `${INDENT}final double pivotY = ${value('pivotY')};`,
+        `${INDENT}canvas.translate(${value('translateX')} + pivotX, ${value(
+          'translateY',
+        )} + pivotY);`,
+        `${INDENT}canvas.rotate(${value('rotation')} * math.pi / 180);`,
+        `${INDENT}canvas.scale(${value('scaleX')}, ${value('scaleY')});`,
+        `${INDENT}canvas.translate(-pivotX, -pivotY);`,
+        ...indent(childrenToDartLines(layer, context), 1),
+        `${INDENT}canvas.restore();`,
+        `}`,
+      );
+      context.usedHelpers.add('math');
+    } else if (layer instanceof PathLayer) {
+      lines.push(...pathLayerToDartLines(layer, context));
+    }
+  });
+  return lines;
+}
+
+function pathLayerToDartLines(layer: PathLayer, context: DartContext) {
+  if (!layer.pathData && !context.isAnimated(layer, 'pathData')) {
+    return [];
+  }
+  const value = (propertyName: string) => context.getValue(layer, propertyName);
+  const isStatic = (...propertyNames: string[]) =>
+    propertyNames.every(p => !context.isAnimated(layer, p));
+  const lines = [
+    `// ${layer.name}`,
+    `final Path path = _toPath(${value('pathData')}, ${FILL_TYPES[layer.fillType]});`,
+  ];
+
+  if (!isStatic('fillColor', 'fillAlpha')) {
+    lines.push(
+      `final Color? fillColor = ${value('fillColor')};`,
+      `if (fillColor != null) {`,
+      `${INDENT}final double fillAlpha = fillColor.opacity * ${value('fillAlpha')};`,
+      `${INDENT}canvas.drawPath(path, Paint()..color = fillColor.withOpacity(fillAlpha));`,
+      `}`,
+    );
+  } else if (layer.fillColor) {
+    lines.push(
+      `canvas.drawPath(path, Paint()..color = ${toDartColor(layer.fillColor, layer.fillAlpha)});`,
+    );
+  }
+
+  const isStroked =
+    (!isStatic('strokeColor') || !!layer.strokeColor) &&
+    (!isStatic('strokeWidth') || layer.strokeWidth > 0);
+  if (isStroked) {
+    const isTrimmed =
+      !isStatic('trimPathStart', 'trimPathEnd', 'trimPathOffset') ||
+      layer.trimPathStart !== 0 ||
+      layer.trimPathEnd !== 1;
+    const strokePaint = [
+      `Paint()`,
+      `${INDENT}..style = PaintingStyle.stroke`,
+      `${INDENT}..strokeWidth = ${value('strokeWidth')}`,
+      `${INDENT}..strokeCap = ${STROKE_CAPS[layer.strokeLinecap]}`,
+      `${INDENT}..strokeJoin = ${STROKE_JOINS[layer.strokeLinejoin]}`,
+      `${INDENT}..strokeMiterLimit = ${toDartNumber(layer.strokeMiterLimit)}`,
+    ];
+    let strokePath = 'path';
+    if (isTrimmed) {
+      lines.push(
+        `final Path strokePath = _trimPath(`,
+        `${INDENT}path,`,
+        `${INDENT}${value('trimPathStart')},`,
+        `${INDENT}${value('trimPathEnd')},`,
+        `${INDENT}${value('trimPathOffset')},`,
+        `);`,
+      );
+      strokePath = 'strokePath';
+      context.usedHelpers.add('trimPath');
+    }
+    if (isStatic('strokeColor', 'strokeAlpha')) {
+      lines.push(
+        `canvas.drawPath(`,
+        `${INDENT}${strokePath},`,
+        ...indent(strokePaint, 1),
+        `${INDENT.repeat(2)}..color = ${toDartColor(layer.strokeColor, layer.strokeAlpha)},`,
+        `);`,
+      );
+    } else {
+      lines.push(
+        `final Color? strokeColor = ${value('strokeColor')};`,
+        `if (strokeColor != null) {`,
+        `${INDENT}final double strokeAlpha = strokeColor.opacity * ${value('strokeAlpha')};`,
+        `${INDENT}canvas.drawPath(`,
+        `${INDENT.repeat(2)}${strokePath},`,
+        ...indent(strokePaint, 2),
+        `${INDENT.repeat(3)}..color = strokeColor.withOpacity(strokeAlpha),`,
+        `${INDENT});`,
+        `}`,
+      );
+    }
+  }
+  return [`{`, ...indent(lines, 1), `}`];
+}
+
+function indent(lines: ReadonlyArray<string>, depth: number) {
+  return lines.map(l => (l ? `${INDENT.repeat(depth)}${l}` : l));
+}
+
+function toDartStringLiteral(value: string) {
+  return `'${value.replace(/['\\$]/g, c => `\\${c}`)}'`;
+}
+
+function toDartNumber(value: number) {
+  return `${_.round(value, 3)}`;
+}
+
+function toDartColor(androidColor: string, alpha = 1) {
+  const rgba = androidColor ? ColorUtil.parseAndroidColor(androidColor) : undefined;
+  if (!rgba) {
+    return 'null';
+  }
+  const { r, g, b } = rgba;
+  const a = Math.round(rgba.a * alpha);
+  const hex = [a, r, g, b].map(c => _.padStart(c.toString(16), 2, '0')).join('');
+  return `const Color(0x${hex.toUpperCase()})`;
+}
+
+function toDartCommands(path: Path) {
+  const commands = path.getCommands().map(({ type, points }) => {
+    // The first point is the command's start point, which isn't needed to draw the path.
+    const coords = _.flatMap(type === 'Z' ? [] : points.slice(1), p => [p.x, p.y]);
+    return `_Command('${type}', <double>[${coords.map(c => toDartNumber(c)).join(', ')}])`;
+  });
+  return `<_Command>[${commands.join(', ')}]`;
+}
+
+/**
+ * Keeps track of the animated properties and the helper declarations that are
+ * referenced by the generated code.
+ */
+class DartContext {
+  readonly usedHelpers = new Set<string>();
+
+  constructor(private readonly blocksByPropertyByLayer: Dictionary<Dictionary<AnimationBlock[]>>) {}
+
+  hasAnimatedProperties() {
+    return Object.keys(this.blocksByPropertyByLayer).length > 0;
+  }
+
+  isAnimated(layer: Layer, propertyName: string) {
+    const blocksByProperty = this.blocksByPropertyByLayer[layer.id];
+    return !!blocksByProperty && !!blocksByProperty[propertyName];
+  }
+
+  /**
+   * Returns a Dart expression that evaluates to the property's value at the
+   * current time (or a constant if the property isn't animated).
+   */
+  getValue(layer: Layer, propertyName: string) {
+    const initialValue = (layer as any)[propertyName];
+    const typeName = layer.animatableProperties.get(propertyName).getTypeName();
+    let type: string;
+    let lerp: string;
+    let toDart: (value: any) => string;
+    if (typeName === 'PathProperty') {
+      this.usedHelpers.add('command');
+      type = 'List<_Command>';
+      lerp = '_lerpCommands';
+      toDart = toDartCommands;
+    } else if (typeName === 'ColorProperty') {
+      type = 'Color?';
+      lerp = '_lerpColor';
+      toDart = toDartColor;
+    } else {
+      type = 'double';
+      lerp = '_lerpDouble';
+      toDart = toDartNumber;
+    }
+    if (!this.isAnimated(layer, propertyName)) {
+      return toDart(initialValue);
+    }
+    this.usedHelpers.add('block');
+    this.usedHelpers.add(lerp.slice(1));
+    if (lerp === '_lerpCommands') {
+      this.usedHelpers.add('lerpDouble');
+    }
+    const blocks = this.blocksByPropertyByLayer[layer.id][propertyName].map(block => {
+      const interpolator = getInterpolator(block.interpolator);
+      const curve = `Cubic(${getCubicBezierControlPoints(interpolator).join(', ')})`;
+      const { startTime, endTime, fromValue, toValue } = block;
+      const args = [startTime, endTime, toDart(fromValue), toDart(toValue), curve];
+      return `_Block<${type}>(${args.join(', ')})`;
+    });
+    return `_valueAt<${type}>(time, ${toDart(initialValue)}, <_Block<${type}>>[${blocks.join(
+      ', ',
+    )}], ${lerp})`;
+  }
+}
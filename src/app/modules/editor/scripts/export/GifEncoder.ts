@@ -0,0 +1,272 @@
+/* tslint:disable:no-bitwise */
+
+import * as _ from 'lodash';
+
+// GIFs support at most 256 colors. The last palette index is reserved for
+// transparent pixels.
+const MAX_COLORS = 255;
+const TRANSPARENT_INDEX = 255;
+// Pixels with an alpha value below this threshold are treated as transparent.
+const ALPHA_THRESHOLD = 128;
+const MAX_LZW_CODE_SIZE = 12;
+
+/**
+ * Encodes a list of equally sized RGBA frames into an animated GIF. A single
+ * global palette is built from all of the frames using the median cut algorithm.
+ *
+ * @param delay The delay between frames in milliseconds.
+ * @param loopCount The number of times the animation is played (0 loops forever).
+ */
+export function encode(
+  frames: ReadonlyArray<ImageData>,
+  delay: number,
+  loopCount: number,
+): Uint8Array {
+  const { width, height } = frames[0];
+  const palette = createPalette(frames);
+  const writer = new ByteWriter();
+
+  // Header and logical screen descriptor (with a 256 color global color table).
+  writer.writeString('GIF89a');
+  writer.writeUint16(width);
+  writer.writeUint16(height);
+  writer.writeBytes([0xf7, 0, 0]);
+  for (let i = 0; i < 256; i++) {
+    const [r, g, b] = palette.colors[i] || [0, 0, 0];
+    writer.writeBytes([r, g, b]);
+  }
+
+  if (loopCount !== 1) {
+    // The NETSCAPE2.0 extension stores the number of repetitions (0 repeats forever).
+    writer.writeBytes([0x21, 0xff, 0x0b]);
+    writer.writeString('NETSCAPE2.0');
+    writer.writeBytes([0x03, 0x01]);
+    writer.writeUint16(loopCount ? loopCount - 1 : 0);
+    writer.writeBytes([0]);
+  }
+
+  const delayCs = Math.round(delay / 10);
+  frames.forEach(frame => {
+    // Graphic control extension (restore to background, transparent color index).
+    writer.writeBytes([0x21, 0xf9, 0x04, 0x09]);
+    writer.writeUint16(delayCs);
+    writer.writeBytes([TRANSPARENT_INDEX, 0]);
+
+    // Image descriptor (no local color table).
+    writer.writeBytes([0x2c]);
+    writer.writeUint16(0);
+    writer.writeUint16(0);
+    writer.writeUint16(width);
+    writer.writeUint16(height);
+    writer.writeBytes([0]);
+
+    writeLzwData(writer, toIndexedPixels(frame, palette), 8);
+  });
+
+  writer.writeBytes([0x3b]);
+  return writer.toUint8Array();
+}
+
+/**
+ * Builds a palette containing at most MAX_COLORS colors using the median cut algorithm.
+ * Colors are quantized to 5 bits per channel before the palette is computed.
+ */
+function createPalette(frames: ReadonlyArray<ImageData>): Palette {
+  const histogram = new Map<number, number>();
+  frames.forEach(({ data }) => {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_THRESHOLD) {
+        continue;
+      }
+      const key = toColorKey(data[i], data[i + 1], data[i + 2]);
+      histogram.set(key, (histogram.get(key) || 0) + 1);
+    }
+  });
+
+  const entries: ColorEntry[] = [];
+  histogram.forEach((count, key) => {
+    entries.push({ rgb: [(key >> 10) << 3, ((key >> 5) & 0x1f) << 3, (key & 0x1f) << 3], count });
+  });
+
+  let boxes: ColorEntry[][] = entries.length ? [entries] : [];
+  while (boxes.length < MAX_COLORS) {
+    // Split the box with the widest color range along its widest channel.
+    const ranges = boxes.map(box => getWidestChannel(box));
+    const index = _.maxBy(_.range(boxes.length), i => ranges[i].range);
+    if (index === undefined || ranges[index].range === 0) {
+      break;
+    }
+    const { channel } = ranges[index];
+    const sorted = _.sortBy(boxes[index], e => e.rgb[channel]);
+    const total = _.sumBy(sorted, e => e.count);
+    let median = 0;
+    for (let sum = 0; median < sorted.length - 1; median++) {
+      sum += sorted[median].count;
+      if (sum >= total / 2) {
+        break;
+      }
+    }
+    boxes = [
+      ...boxes.slice(0, index),
+      sorted.slice(0, median + 1),
+      sorted.slice(median + 1),
+      ...boxes.slice(index + 1),
+    ];
+  }
+
+  const colors = boxes.map(box => {
+    const total = _.sumBy(box, e => e.count);
+    return [0, 1, 2].map(c => Math.round(_.sumBy(box, e => e.rgb[c] * e.count) / total));
+  });
+  return { colors, cache: new Map<number, number>() };
+}
+
+function getWidestChannel(box: ReadonlyArray<ColorEntry>) {
+  let channel = 0;
+  let range = -1;
+  [0, 1, 2].forEach(c => {
+    const values = box.map(e => e.rgb[c]);
+    const r = _.max(values) - _.min(values);
+    if (r > range) {
+      channel = c;
+      range = r;
+    }
+  });
+  return { channel, range };
+}
+
+function toIndexedPixels({ data }: ImageData, palette: Palette) {
+  const pixels = new Uint8Array(data.length / 4);
+  for (let i = 0; i < pixels.length; i++) {
+    const p = i * 4;
+    if (data[p + 3] < ALPHA_THRESHOLD) {
+      pixels[i] = TRANSPARENT_INDEX;
+      continue;
+    }
+    const key = toColorKey(data[p], data[p + 1], data[p + 2]);
+    let index = palette.cache.get(key);
+    if (index === undefined) {
+      index = findClosestColor(palette.colors, data[p], data[p + 1], data[p + 2]);
+      palette.cache.set(key, index);
+    }
+    pixels[i] = index;
+  }
+  return pixels;
+}
+
+function findClosestColor(colors: ReadonlyArray<number[]>, r: number, g: number, b: number) {
+  let closestIndex = 0;
+  let closestDistance = Infinity;
+  colors.forEach(([cr, cg, cb], i) => {
+    const distance = (cr - r) ** 2 + (cg - g) ** 2 + (cb - b) ** 2;
+    if (distance < closestDistance) {
+      closestIndex = i;
+      closestDistance = distance;
+    }
+  });
+  return closestIndex;
+}
+
+function toColorKey(r: number, g: number, b: number) {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+/**
+ * Writes the LZW compressed image data, split into sub-blocks of at most 255 bytes.
+ */
+function writeLzwData(writer: ByteWriter, pixels: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const writeCodeFn = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  // Maps (prefix code << 8 | pixel) to the dictionary code.
+  let dictionary = new Map<number, number>();
+  writeCodeFn(clearCode, codeSize);
+
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    writeCodeFn(prefix, codeSize);
+    if (nextCode < 1 << MAX_LZW_CODE_SIZE) {
+      if (nextCode === 1 << codeSize) {
+        codeSize++;
+      }
+      dictionary.set(key, nextCode++);
+    } else {
+      // The dictionary is full, so start over with a fresh one.
+      writeCodeFn(clearCode, codeSize);
+      dictionary = new Map<number, number>();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = pixel;
+  }
+  writeCodeFn(prefix, codeSize);
+  writeCodeFn(endCode, codeSize);
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff);
+  }
+
+  writer.writeBytes([minCodeSize]);
+  for (let i = 0; i < output.length; i += 255) {
+    const block = output.slice(i, i + 255);
+    writer.writeBytes([block.length]);
+    writer.writeBytes(block);
+  }
+  writer.writeBytes([0]);
+}
+
+class ByteWriter {
+  private readonly bytes: number[] = [];
+
+  writeBytes(bytes: ArrayLike<number>) {
+    // tslint:disable-next-line: prefer-for-of
+    for (let i = 0; i < bytes.length; i++) {
+      this.bytes.push(bytes[i]);
+    }
+  }
+
+  writeString(str: string) {
+    for (let i = 0; i < str.length; i++) {
+      this.bytes.push(str.charCodeAt(i));
+    }
+  }
+
+  writeUint16(value: number) {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+interface ColorEntry {
+  readonly rgb: number[];
+  readonly count: number;
+}
+
+interface Palette {
+  readonly colors: ReadonlyArray<number[]>;
+  // Maps quantized color keys to their closest palette index.
+  readonly cache: Map<number, number>;
+}
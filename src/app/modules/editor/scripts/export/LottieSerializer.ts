@@ -0,0 +1,421 @@
+import {
+  getCubicBezierControlPoints,
+  getInterpolator,
+} from 'app/modules/editor/model/interpolators';
+import {
+  ClipPathLayer,
+  GroupLayer,
+  Layer,
+  LayerUtil,
+  PathLayer,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { ColorUtil, Matrix, ModelUtil, Point } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+const LOTTIE_VERSION = '5.5.2';
+const FRAME_RATE = 60;
+
+const LINECAP_TYPES = { butt: 1, round: 2, square: 3 };
+const LINEJOIN_TYPES = { miter: 1, round: 2, bevel: 3 };
+const FILLRULE_TYPES = { nonZero: 1, evenOdd: 2 };
+const TRIM_PATH_PROPERTY_NAMES = ['trimPathStart', 'trimPathEnd', 'trimPathOffset'];
+
+/**
+ * Serializes a VectorLayer and Animation to a Lottie (Bodymovin) JSON string.
+ *
+ * Each GroupLayer is exported as a null layer (parented to the null layer of its
+ * parent group) and each PathLayer is exported as a shape layer. ClipPathLayers
+ * are exported as masks on the shape layers that they clip. Pivot animations are
+ * not supported and are ignored.
+ */
+export function toLottieString(vl: VectorLayer, animation: Animation) {
+  return JSON.stringify(toLottieJson(vl, animation));
+}
+
+function toLottieJson(vl: VectorLayer, animation: Animation) {
+  const numFrames = Math.ceil(toFrame(animation.duration));
+  const blocksByPropertyByLayer = ModelUtil.getOrderedSegmentsByPropertyByLayer(animation);
+  const ctx: Context = {
+    getBlocks(layer: Layer, propertyName: string) {
+      const blocksByProperty = blocksByPropertyByLayer[layer.id] || {};
+      return blocksByProperty[propertyName] || [];
+    },
+    createAnimatedProperty(layer: Layer, propertyName: string, toLottieFn: (v: any) => any) {
+      const value = (layer as any)[propertyName];
+      return createAnimatedProperty(value, this.getBlocks(layer, propertyName), toLottieFn);
+    },
+  };
+
+  const lottieLayers: object[] = [];
+  let nextIndex = 1;
+  const createBaseLayerFn = (type: number, name: string, parentIndex: number) => {
+    const lottieLayer: any = {
+      ddd: 0,
+      ind: nextIndex++,
+      ty: type,
+      nm: name,
+      sr: 1,
+      ao: 0,
+      ip: 0,
+      op: numFrames,
+      st: 0,
+      bm: 0,
+    };
+    if (parentIndex !== undefined) {
+      lottieLayer.parent = parentIndex;
+    }
+    return lottieLayer;
+  };
+
+  (function recurseFn(layer: Layer, parentIndex: number, clipPaths: ReadonlyArray<ClipPathLayer>) {
+    if (layer instanceof VectorLayer || layer instanceof GroupLayer) {
+      let childParentIndex = parentIndex;
+      if (layer instanceof GroupLayer) {
+        const isScaleYAnimated = ctx.getBlocks(layer, 'scaleY').length > 0;
+        const outerLayer = createBaseLayerFn(3, layer.name, parentIndex);
+        outerLayer.ks = {
+          o: createStaticProperty(100),
+          r: ctx.createAnimatedProperty(layer, 'rotation', (v: number) => v),
+          p: {
+            s: true,
+            x: ctx.createAnimatedProperty(layer, 'translateX', (v: number) => layer.pivotX + v),
+            y: ctx.createAnimatedProperty(layer, 'translateY', (v: number) => layer.pivotY + v),
+          },
+          a: createStaticProperty([layer.pivotX, layer.pivotY, 0]),
+          s: ctx.createAnimatedProperty(layer, 'scaleX', (v: number) => [
+            v * 100,
+            isScaleYAnimated ? 100 : layer.scaleY * 100,
+            100,
+          ]),
+        };
+        lottieLayers.push(outerLayer);
+        childParentIndex = outerLayer.ind;
+        if (isScaleYAnimated) {
+          // Lottie doesn't support separate x/y scale animations, so we apply
+          // the y scale in a nested null layer instead.
+          const innerLayer = createBaseLayerFn(3, `${layer.name}_scaleY`, outerLayer.ind);
+          innerLayer.ks = {
+            o: createStaticProperty(100),
+            r: createStaticProperty(0),
+            p: createStaticProperty([layer.pivotX, layer.pivotY, 0]),
+            a: createStaticProperty([layer.pivotX, layer.pivotY, 0]),
+            s: ctx.createAnimatedProperty(layer, 'scaleY', (v: number) => [100, v * 100, 100]),
+          };
+          lottieLayers.push(innerLayer);
+          childParentIndex = innerLayer.ind;
+        }
+      }
+      // Clip paths clip all of the siblings that are drawn after them.
+      let seenClipPaths = [...clipPaths];
+      layer.children.forEach(child => {
+        if (child instanceof ClipPathLayer) {
+          if (child.pathData && child.pathData.getPathString()) {
+            seenClipPaths = [...seenClipPaths, child];
+          }
+          return;
+        }
+        recurseFn(child, childParentIndex, seenClipPaths);
+      });
+      return;
+    }
+    if (layer instanceof PathLayer) {
+      const shapeLayer = createBaseLayerFn(4, layer.name, parentIndex);
+      shapeLayer.ks = {
+        o: ctx.createAnimatedProperty(vl, 'alpha', (v: number) => v * 100),
+        r: createStaticProperty(0),
+        p: createStaticProperty([0, 0, 0]),
+        a: createStaticProperty([0, 0, 0]),
+        s: createStaticProperty([100, 100, 100]),
+      };
+      shapeLayer.shapes = [
+        {
+          ty: 'gr',
+          nm: layer.name,
+          it: [
+            ...createShapeItems(layer, ctx),
+            ...createTrimPathItems(layer, ctx),
+            ...createStrokeItems(layer, ctx),
+            ...createFillItems(layer, ctx),
+            createShapeTransform(),
+          ],
+        },
+      ];
+      const masks = createMasks(vl, layer, clipPaths, ctx);
+      if (masks.length) {
+        shapeLayer.hasMask = true;
+        shapeLayer.masksProperties = masks;
+      }
+      lottieLayers.push(shapeLayer);
+    }
+  })(vl, undefined, []);
+
+  return {
+    v: LOTTIE_VERSION,
+    fr: FRAME_RATE,
+    ip: 0,
+    op: numFrames,
+    w: vl.width,
+    h: vl.height,
+    nm: vl.name,
+    ddd: 0,
+    assets: [] as object[],
+    // Lottie layers are listed in top-to-bottom drawing order.
+    layers: lottieLayers.reverse(),
+  };
+}
+
+function createShapeItems(layer: PathLayer, ctx: Context) {
+  const blocks = ctx.getBlocks(layer, 'pathData');
+  const paths = [layer.pathData, ..._.flatMap(blocks, b => [b.fromValue, b.toValue])];
+  const numSubPaths = _.max(paths.map(p => (p ? p.getSubPaths().length : 0))) || 0;
+  return _.range(numSubPaths).map(subIdx => {
+    return {
+      ty: 'sh',
+      nm: `${layer.name}_${subIdx}`,
+      ks: createAnimatedProperty(layer.pathData, blocks, (p: Path) => toLottieShape(p, subIdx)),
+    };
+  });
+}
+
+function createTrimPathItems(layer: PathLayer, ctx: Context) {
+  const isTrimAnimated = TRIM_PATH_PROPERTY_NAMES.some(n => ctx.getBlocks(layer, n).length > 0);
+  const isTrimmed = !!layer.trimPathStart || layer.trimPathEnd !== 1 || !!layer.trimPathOffset;
+  if (!isTrimmed && !isTrimAnimated) {
+    return [];
+  }
+  return [
+    {
+      ty: 'tm',
+      s: ctx.createAnimatedProperty(layer, 'trimPathStart', (v: number) => v * 100),
+      e: ctx.createAnimatedProperty(layer, 'trimPathEnd', (v: number) => v * 100),
+      o: ctx.createAnimatedProperty(layer, 'trimPathOffset', (v: number) => v * 360),
+      m: 1,
+    },
+  ];
+}
+
+function createStrokeItems(layer: PathLayer, ctx: Context) {
+  if (!layer.strokeColor && !ctx.getBlocks(layer, 'strokeColor').length) {
+    return [];
+  }
+  const colorAlpha = getColorAlpha(layer.strokeColor);
+  return [
+    {
+      ty: 'st',
+      c: ctx.createAnimatedProperty(layer, 'strokeColor', toLottieColor),
+      o: ctx.createAnimatedProperty(layer, 'strokeAlpha', (v: number) => v * colorAlpha * 100),
+      w: ctx.createAnimatedProperty(layer, 'strokeWidth', (v: number) => v),
+      lc: LINECAP_TYPES[layer.strokeLinecap],
+      lj: LINEJOIN_TYPES[layer.strokeLinejoin],
+      ml: layer.strokeMiterLimit,
+    },
+  ];
+}
+
+function createFillItems(layer: PathLayer, ctx: Context) {
+  if (!layer.fillColor && !ctx.getBlocks(layer, 'fillColor').length) {
+    return [];
+  }
+  const colorAlpha = getColorAlpha(layer.fillColor);
+  return [
+    {
+      ty: 'fl',
+      c: ctx.createAnimatedProperty(layer, 'fillColor', toLottieColor),
+      o: ctx.createAnimatedProperty(layer, 'fillAlpha', (v: number) => v * colorAlpha * 100),
+      r: FILLRULE_TYPES[layer.fillType],
+    },
+  ];
+}
+
+function createShapeTransform() {
+  return {
+    ty: 'tr',
+    p: createStaticProperty([0, 0]),
+    a: createStaticProperty([0, 0]),
+    s: createStaticProperty([100, 100]),
+    r: createStaticProperty(0),
+    o: createStaticProperty(100),
+  };
+}
+
+/**
+ * Creates the list of masks for a path layer. Clip paths are transformed into the
+ * path layer's coordinate space, and the masks are intersected with each other.
+ */
+function createMasks(
+  vl: VectorLayer,
+  layer: PathLayer,
+  clipPaths: ReadonlyArray<ClipPathLayer>,
+  ctx: Context,
+) {
+  const layerTransform = LayerUtil.getCanvasTransformForLayer(vl, layer.id).invert();
+  return clipPaths.map((clipPath, clipPathIdx) => {
+    const transform = layerTransform
+      ? layerTransform.dot(LayerUtil.getCanvasTransformForLayer(vl, clipPath.id))
+      : Matrix.identity();
+    const transformPathFn = (p: Path) => {
+      return p && !transform.equals(Matrix.identity()) ? p.transform(transform) : p;
+    };
+    const blocks = ctx.getBlocks(clipPath, 'pathData');
+    return {
+      inv: false,
+      // The first clip path defines the initial mask. Subsequent clip
+      // paths are intersected with the masks that came before them.
+      mode: clipPathIdx > 0 ? 'i' : 'a',
+      pt: createAnimatedProperty(clipPath.pathData, blocks, (p: Path) =>
+        toLottieMaskShape(transformPathFn(p)),
+      ),
+      o: createStaticProperty(100),
+      x: createStaticProperty(0),
+      nm: clipPath.name,
+    };
+  });
+}
+
+function createStaticProperty(value: any) {
+  return { a: 0, k: value };
+}
+
+/**
+ * Creates a Lottie property that spans the entire animation. Gaps between
+ * blocks are represented using hold keyframes so that the previous value is
+ * held until the next block begins.
+ */
+function createAnimatedProperty(
+  initialValue: any,
+  blocks: ReadonlyArray<AnimationBlock>,
+  toLottieFn: (value: any) => any,
+) {
+  if (!blocks.length) {
+    return createStaticProperty(toLottieFn(initialValue));
+  }
+  const toKeyframeValueFn = (value: any) => {
+    const lottieValue = toLottieFn(value);
+    return Array.isArray(lottieValue) ? lottieValue : [lottieValue];
+  };
+  const keyframes: object[] = [];
+  let currentTime = 0;
+  let currentValue = initialValue;
+  blocks.forEach(block => {
+    if (currentTime < block.startTime) {
+      keyframes.push({ t: toFrame(currentTime), s: toKeyframeValueFn(currentValue), h: 1 });
+    }
+    const interpolator = getInterpolator(block.interpolator);
+    const [x1, y1, x2, y2] = getCubicBezierControlPoints(interpolator);
+    keyframes.push({
+      t: toFrame(block.startTime),
+      s: toKeyframeValueFn(block.fromValue),
+      e: toKeyframeValueFn(block.toValue),
+      o: { x: [x1], y: [y1] },
+      i: { x: [x2], y: [y2] },
+    });
+    currentTime = block.endTime;
+    currentValue = block.toValue;
+  });
+  keyframes.push({ t: toFrame(currentTime), s: toKeyframeValueFn(currentValue) });
+  return { a: 1, k: keyframes };
+}
+
+/**
+ * Converts a subpath into a Lottie shape, where each vertex has an in and out
+ * tangent relative to the vertex position.
+ */
+function toLottieShape(path: Path | undefined, subIdx: number) {
+  const shape = { i: [] as number[][], o: [] as number[][], v: [] as number[][], c: false };
+  if (!path || subIdx >= path.getSubPaths().length) {
+    return shape;
+  }
+  const toArrayFn = (p: Point) => [_.round(p.x, 3), _.round(p.y, 3)];
+  const toRelativeArrayFn = (p: Point, origin: Point) =>
+    toArrayFn({ x: p.x - origin.x, y: p.y - origin.y });
+  path
+    .getSubPath(subIdx)
+    .getCommands()
+    .forEach(cmd => {
+      const lastIdx = shape.v.length - 1;
+      const { start, end } = cmd;
+      switch (cmd.type) {
+        case 'M':
+        case 'L':
+          shape.v.push(toArrayFn(end));
+          shape.i.push([0, 0]);
+          shape.o.push([0, 0]);
+          break;
+        case 'Q': {
+          // Convert the quadratic bezier curve to a cubic bezier curve.
+          const cp = cmd.points[1];
+          const cp1 = {
+            x: start.x + (2 / 3) * (cp.x - start.x),
+            y: start.y + (2 / 3) * (cp.y - start.y),
+          };
+          const cp2 = { x: end.x + (2 / 3) * (cp.x - end.x), y: end.y + (2 / 3) * (cp.y - end.y) };
+          shape.o[lastIdx] = toRelativeArrayFn(cp1, start);
+          shape.v.push(toArrayFn(end));
+          shape.i.push(toRelativeArrayFn(cp2, end));
+          shape.o.push([0, 0]);
+          break;
+        }
+        case 'C':
+          shape.o[lastIdx] = toRelativeArrayFn(cmd.points[1], start);
+          shape.v.push(toArrayFn(end));
+          shape.i.push(toRelativeArrayFn(cmd.points[2], end));
+          shape.o.push([0, 0]);
+          break;
+        case 'Z':
+          shape.c = true;
+          break;
+      }
+    });
+  return shape;
+}
+
+/**
+ * Converts a path into a single closed Lottie shape, since each mask can only
+ * contain one shape. Each subpath is traced back to its first vertex, and
+ * consecutive subpaths are joined by a line that is traversed once in each
+ * direction (and thus doesn't change the area covered by the mask).
+ */
+function toLottieMaskShape(path: Path | undefined) {
+  const shape = { i: [] as number[][], o: [] as number[][], v: [] as number[][], c: true };
+  if (!path) {
+    return shape;
+  }
+  _.range(path.getSubPaths().length).forEach(subIdx => {
+    const { i, o, v } = toLottieShape(path, subIdx);
+    if (v.length) {
+      shape.v.push(...v, v[0]);
+      shape.i.push(...i, [0, 0]);
+      shape.o.push(...o, [0, 0]);
+    }
+  });
+  return shape;
+}
+
+function toLottieColor(color: string) {
+  if (!color) {
+    return [0, 0, 0, 0];
+  }
+  const { r, g, b } = ColorUtil.parseAndroidColor(color);
+  return [r / 255, g / 255, b / 255, 1].map(c => _.round(c, 4));
+}
+
+/**
+ * Returns the alpha channel of an Android color string in the range [0,1].
+ * Lottie colors don't have an alpha channel, so it is applied to the opacity instead.
+ */
+function getColorAlpha(color: string) {
+  const dict = color ? ColorUtil.parseAndroidColor(color) : undefined;
+  return dict ? _.round(dict.a / 255, 3) : 1;
+}
+
+function toFrame(timeMillis: number) {
+  return _.round((timeMillis / 1000) * FRAME_RATE, 3);
+}
+
+interface Context {
+  getBlocks(layer: Layer, propertyName: string): ReadonlyArray<AnimationBlock>;
+  createAnimatedProperty(layer: Layer, propertyName: string, toLottieFn: (v: any) => any): object;
+}
@@ -0,0 +1,126 @@
+import { VectorLayer } from 'app/modules/editor/model/layers';
+import { Animation } from 'app/modules/editor/model/timeline';
+import { AnimationRenderer } from 'app/modules/editor/scripts/animator';
+import { ColorUtil } from 'app/modules/editor/scripts/common';
+
+import * as ApngEncoder from './ApngEncoder';
+import * as GifEncoder from './GifEncoder';
+import * as SvgSerializer from './SvgSerializer';
+import * as WebpEncoder from './WebpEncoder';
+
+export type RasterFormat = 'gif' | 'apng' | 'webp';
+
+export interface FrameOptions {
+  readonly width: number;
+  readonly height: number;
+  readonly fps: number;
+  // An android color string used to fill the background (transparent if empty).
+  readonly backgroundColor: string;
+}
+
+export interface RasterOptions extends FrameOptions {
+  readonly format: RasterFormat;
+  // The number of times the animation is played (0 loops forever).
+  readonly loopCount: number;
+}
+
+export const RASTER_FORMATS: ReadonlyArray<{ format: RasterFormat; label: string; ext: string }> = [
+  { format: 'gif', label: 'GIF', ext: 'gif' },
+  { format: 'apng', label: 'APNG', ext: 'png' },
+  { format: 'webp', label: 'WebP', ext: 'webp' },
+];
+
+/**
+ * Renders each frame of the animation to an offscreen canvas and encodes the
+ * frames into an animated GIF, APNG, or WebP image.
+ */
+export async function toRasterBlob(vl: VectorLayer, animation: Animation, options: RasterOptions) {
+  const { format, width, height, fps, loopCount } = options;
+  const gifFrames: ImageData[] = [];
+  const encodedFrames: Uint8Array[] = [];
+  await renderFrames(vl, animation, options, async canvas => {
+    if (format === 'gif') {
+      gifFrames.push(canvas.getContext('2d').getImageData(0, 0, width, height));
+    } else {
+      const mimeType = format === 'apng' ? 'image/png' : 'image/webp';
+      encodedFrames.push(await toBytes(canvas, mimeType));
+    }
+  });
+
+  const delay = 1000 / fps;
+  let bytes: Uint8Array;
+  if (format === 'gif') {
+    bytes = GifEncoder.encode(gifFrames, delay, loopCount);
+  } else if (format === 'apng') {
+    bytes = ApngEncoder.encode(encodedFrames, delay, loopCount);
+  } else {
+    bytes = WebpEncoder.encode(encodedFrames, width, height, delay, loopCount);
+  }
+  const type = format === 'apng' ? 'image/png' : `image/${format}`;
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Renders each frame of the animation to an offscreen canvas, one at a time.
+ * Frames are rendered at fixed time steps (including both the first and last
+ * frame of the animation), so the result doesn't depend on the real-time
+ * playback speed. The callback is invoked (and awaited) after each frame is drawn.
+ */
+export async function renderFrames(
+  vl: VectorLayer,
+  animation: Animation,
+  options: FrameOptions,
+  onFrameFn: (canvas: HTMLCanvasElement, frameIndex: number) => Promise<void> | void,
+) {
+  const { width, height, fps } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  const numFrames = Math.max(1, Math.round((animation.duration / 1000) * fps));
+  const renderer = new AnimationRenderer(vl, animation);
+  for (let i = 0; i <= numFrames; i++) {
+    const time = (i / numFrames) * animation.duration;
+    await drawFrame(ctx, renderer.setCurrentTime(time), options);
+    await onFrameFn(canvas, i);
+  }
+}
+
+function drawFrame(ctx: CanvasRenderingContext2D, vl: VectorLayer, options: FrameOptions) {
+  const { width, height, backgroundColor } = options;
+  const svg = SvgSerializer.toSvgString(vl, width, height);
+  return new Promise<void>((resolve, reject) => {
+    if (backgroundColor && !ColorUtil.parseAndroidColor(backgroundColor)) {
+      reject(new Error(`Invalid background color: ${backgroundColor}`));
+      return;
+    }
+    const image = new Image();
+    image.onload = () => {
+      ctx.clearRect(0, 0, width, height);
+      if (backgroundColor) {
+        ctx.fillStyle = ColorUtil.androidToCssRgbaColor(backgroundColor);
+        ctx.fillRect(0, 0, width, height);
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+      resolve();
+    };
+    image.onerror = () => reject(new Error('Failed to render animation frame'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+function toBytes(canvas: HTMLCanvasElement, mimeType: string) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob || blob.type !== mimeType) {
+        // Some browsers fall back to PNG when the requested type isn't supported.
+        reject(new Error(`${mimeType} encoding isn't supported by this browser`));
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(blob);
+    }, mimeType);
+  });
+}
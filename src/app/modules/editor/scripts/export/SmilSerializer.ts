@@ -0,0 +1,241 @@
+import {
+  getCubicBezierControlPoints,
+  getInterpolator,
+  Interpolator,
+} from 'app/modules/editor/model/interpolators';
+import { GroupLayer, Layer, PathLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { Path } from 'app/modules/editor/model/paths';
+import { Animation, AnimationBlock } from 'app/modules/editor/model/timeline';
+import { ColorUtil, ModelUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+import * as SvgSerializer from './SvgSerializer';
+import * as XmlSerializer from './XmlSerializer';
+
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// The keySplines value used for segments that aren't interpolated by an animation block.
+const LINEAR_KEY_SPLINE = '0 0 1 1';
+
+// The number of linear segments used to approximate easing curves that can't be
+// described by a single key spline.
+const NUM_SAMPLED_SEGMENTS = 20;
+
+// Maps animatable path layer property names to their SVG presentation attributes.
+// Properties that are missing from this map (i.e. trim paths) are ignored.
+const PATH_ATTRIBUTES: Dictionary<SmilAttribute> = {
+  pathData: { name: 'd', toSmil: (v: Path) => (v ? v.getPathString() : '') },
+  fillColor: { name: 'fill', toSmil: (v: string) => ColorUtil.androidToCssHexColor(v) },
+  fillAlpha: { name: 'fill-opacity', toSmil: (v: number) => `${v}` },
+  strokeColor: { name: 'stroke', toSmil: (v: string) => ColorUtil.androidToCssHexColor(v) },
+  strokeAlpha: { name: 'stroke-opacity', toSmil: (v: number) => `${v}` },
+  strokeWidth: { name: 'stroke-width', toSmil: (v: number) => `${v}` },
+  strokeDashOffset: { name: 'stroke-dashoffset', toSmil: (v: number) => `${v}` },
+};
+
+/**
+ * Serializes a VectorLayer and Animation to a self-contained SVG string that is
+ * animated using SMIL <animate> and <animateTransform> elements. Animated groups
+ * are split into a chain of nested <g> elements so that each transform can be
+ * animated independently. Trim paths, pivots, and clip paths aren't animated.
+ */
+export function toSvgString(vl: VectorLayer, animation: Animation) {
+  const xmlDoc = document.implementation.createDocument(undefined, 'svg', undefined);
+  const rootNode = xmlDoc.documentElement;
+  rootNode.setAttributeNS(XMLNS_NS, 'xmlns', SVG_NS);
+  rootNode.setAttributeNS(undefined, 'viewBox', `0 0 ${vl.width} ${vl.height}`);
+  rootNode.setAttributeNS(undefined, 'width', `${vl.width}px`);
+  rootNode.setAttributeNS(undefined, 'height', `${vl.height}px`);
+  SvgSerializer.vectorLayerToSvgNode(vl, rootNode, xmlDoc);
+
+  const blocksByPropertyByLayer = ModelUtil.getOrderedSegmentsByPropertyByLayer(animation);
+  Object.keys(blocksByPropertyByLayer).forEach(layerId => {
+    const layer = vl.findLayerById(layerId);
+    if (!layer) {
+      return;
+    }
+    const layerNode = layer instanceof VectorLayer ? rootNode : findNodeByName(rootNode, layer);
+    if (!layerNode) {
+      return;
+    }
+    const blocksByProperty = blocksByPropertyByLayer[layerId];
+    if (layer instanceof GroupLayer) {
+      appendGroupTransformAnimations(xmlDoc, layerNode, layer, blocksByProperty, animation);
+      return;
+    }
+    Object.keys(blocksByProperty).forEach(propertyName => {
+      let attribute: SmilAttribute;
+      if (layer instanceof VectorLayer && propertyName === 'alpha') {
+        attribute = { name: 'opacity', toSmil: (v: number) => `${v}` };
+      } else if (layer instanceof PathLayer) {
+        attribute = PATH_ATTRIBUTES[propertyName];
+      }
+      if (!attribute) {
+        return;
+      }
+      const animateNode = createAnimateNode(
+        xmlDoc,
+        'animate',
+        attribute.name,
+        (layer as any)[propertyName],
+        blocksByProperty[propertyName],
+        animation.duration,
+        attribute.toSmil,
+      );
+      layerNode.appendChild(animateNode);
+    });
+  });
+
+  return XmlSerializer.serializeToString(rootNode, { indent: 2, multiAttributeIndent: 2 });
+}
+
+/**
+ * Replaces the group's transform attribute with a chain of nested <g> wrappers
+ * (outermost first), resulting in the same 'translate * rotate * scale' order
+ * used by Android. Wrappers for animated properties are animated using an
+ * <animateTransform> element, which replaces the wrapper's static transform.
+ */
+function appendGroupTransformAnimations(
+  xmlDoc: Document,
+  groupNode: Element,
+  layer: GroupLayer,
+  blocksByProperty: Dictionary<AnimationBlock[]>,
+  animation: Animation,
+) {
+  const { pivotX, pivotY } = layer;
+  const wrappers: ReadonlyArray<TransformWrapper> = [
+    { propertyName: 'translateX', type: 'translate', toSmil: (v: number) => `${v} 0` },
+    { propertyName: 'translateY', type: 'translate', toSmil: (v: number) => `0 ${v}` },
+    { propertyName: 'rotation', type: 'rotate', toSmil: (v: number) => `${v} ${pivotX} ${pivotY}` },
+    { type: 'translate', toSmil: () => `${pivotX} ${pivotY}` },
+    { propertyName: 'scaleX', type: 'scale', toSmil: (v: number) => `${v} 1` },
+    { propertyName: 'scaleY', type: 'scale', toSmil: (v: number) => `1 ${v}` },
+    { type: 'translate', toSmil: () => `${-pivotX} ${-pivotY}` },
+  ];
+  groupNode.removeAttribute('transform');
+  const childNodes = Array.from(groupNode.childNodes);
+  const innerNode = wrappers.reduce((parentNode, { propertyName, type, toSmil }) => {
+    const wrapperNode = xmlDoc.createElement('g');
+    const value = propertyName ? (layer as any)[propertyName] : undefined;
+    wrapperNode.setAttributeNS(undefined, 'transform', `${type}(${toSmil(value)})`);
+    if (propertyName && blocksByProperty[propertyName]) {
+      const animateNode = createAnimateNode(
+        xmlDoc,
+        'animateTransform',
+        'transform',
+        value,
+        blocksByProperty[propertyName],
+        animation.duration,
+        toSmil,
+      );
+      animateNode.setAttributeNS(undefined, 'type', type);
+      wrapperNode.appendChild(animateNode);
+    }
+    parentNode.appendChild(wrapperNode);
+    return wrapperNode;
+  }, groupNode);
+  childNodes.forEach(child => innerNode.appendChild(child));
+}
+
+/**
+ * Builds an animation element that spans the entire animation. Gaps between
+ * blocks interpolate between identical values so that the previous value is
+ * held until the next block begins (which matches the behavior of the
+ * AnimationRenderer).
+ */
+function createAnimateNode(
+  xmlDoc: Document,
+  tagName: 'animate' | 'animateTransform',
+  attributeName: string,
+  initialValue: any,
+  blocks: ReadonlyArray<AnimationBlock>,
+  duration: number,
+  toSmil: (value: any) => string,
+) {
+  const stops: KeyframeStop[] = [{ time: 0, value: initialValue }];
+  const keySplines: string[] = [];
+  blocks.forEach(block => {
+    const { time, value } = _.last(stops);
+    if (time < block.startTime) {
+      stops.push({ time: block.startTime, value });
+      keySplines.push(LINEAR_KEY_SPLINE);
+    }
+    if (toSmil(value) !== toSmil(block.fromValue)) {
+      // Consecutive stops with identical times result in a discrete jump.
+      stops.push({ time: block.startTime, value: block.fromValue });
+      keySplines.push(LINEAR_KEY_SPLINE);
+    }
+    const keySpline = toKeySpline(getInterpolator(block.interpolator));
+    if (keySpline) {
+      stops.push({ time: block.endTime, value: block.toValue });
+      keySplines.push(keySpline);
+      return;
+    }
+    // Sample the easing curve into a sequence of linearly interpolated stops.
+    const { startTime, endTime } = block;
+    _.range(1, NUM_SAMPLED_SEGMENTS + 1).forEach(i => {
+      const sampleTime = startTime + (i / NUM_SAMPLED_SEGMENTS) * (endTime - startTime);
+      const sampleValue =
+        i === NUM_SAMPLED_SEGMENTS ? block.toValue : block.getIterationValueAtTime(sampleTime);
+      stops.push({ time: sampleTime, value: sampleValue });
+      keySplines.push(LINEAR_KEY_SPLINE);
+    });
+  });
+  const lastStop = _.last(stops);
+  if (lastStop.time < duration) {
+    stops.push({ time: duration, value: lastStop.value });
+    keySplines.push(LINEAR_KEY_SPLINE);
+  }
+  const node = xmlDoc.createElement(tagName);
+  node.setAttributeNS(undefined, 'attributeName', attributeName);
+  node.setAttributeNS(undefined, 'dur', `${duration}ms`);
+  node.setAttributeNS(undefined, 'fill', 'freeze');
+  node.setAttributeNS(undefined, 'calcMode', 'spline');
+  node.setAttributeNS(
+    undefined,
+    'keyTimes',
+    stops.map(({ time }) => _.round(time / duration, 6)).join(';'),
+  );
+  node.setAttributeNS(undefined, 'keySplines', keySplines.join(';'));
+  node.setAttributeNS(undefined, 'values', stops.map(({ value }) => toSmil(value)).join(';'));
+  return node;
+}
+
+/**
+ * Returns the key spline that describes the interpolator's easing curve, or undefined
+ * if the curve isn't a single cubic bezier with control points that SMIL supports.
+ */
+function toKeySpline(interpolator: Interpolator) {
+  const { webRef } = interpolator;
+  if (webRef !== 'linear' && !webRef.startsWith('cubic-bezier(')) {
+    return undefined;
+  }
+  const [x1, y1, x2, y2] = getCubicBezierControlPoints(interpolator);
+  // SMIL requires all key spline control points to lie within the unit square.
+  if ([y1, y2].some(y => y < 0 || y > 1)) {
+    return undefined;
+  }
+  return [_.clamp(x1, 0, 1), y1, _.clamp(x2, 0, 1), y2].join(' ');
+}
+
+function findNodeByName(rootNode: Element, layer: Layer) {
+  // Layer names only contain word characters, so they can be safely used in a selector.
+  return rootNode.querySelector(`[id="${layer.name}"]`);
+}
+
+interface SmilAttribute {
+  readonly name: string;
+  readonly toSmil: (value: any) => string;
+}
+
+interface TransformWrapper {
+  readonly propertyName?: string;
+  readonly type: 'translate' | 'rotate' | 'scale';
+  readonly toSmil: (value: any) => string;
+}
+
+interface KeyframeStop {
+  readonly time: number;
+  readonly value: any;
+}
@@ -1,3 +1,4 @@
+import { Gradient } from 'app/modules/editor/model/gradients';
 import {
   ClipPathLayer,
   GroupLayer,
@@ -47,9 +48,9 @@ export function toSvgSpriteFrameString(
 
 /**
  * Helper method that serializes a VectorLayer to a destinationNode in an xmlDoc.
- * The destinationNode should be a <vector> node.
+ * The destinationNode should be an <svg> node.
  */
-function vectorLayerToSvgNode(
+export function vectorLayerToSvgNode(
   vl: VectorLayer,
   destinationNode: HTMLElement,
   xmlDoc: Document,
@@ -105,9 +106,30 @@ function vectorLayerToSvgNode(
     clippedLayerToClipPathNameMap.set(layerId, clipPathName);
   });
 
-  const shouldCreateDefs = clippedLayerToSeenClipPathsMap.size > 0;
+  // Create a map where the keys are gradient IDs and the values are the
+  // gradients used to fill/stroke path layers.
+  const gradientMap = new Map<string, Gradient>();
+  const getGradientIdFn = (layer: PathLayer, attr: 'fill' | 'stroke') => {
+    const frameInfo = frameNumber ? `_frame${frameNumber}` : '';
+    return `gradient${frameInfo}_${layer.name}_${attr}`;
+  };
+  vl.walk(layer => {
+    if (layer instanceof PathLayer) {
+      if (layer.fillGradient) {
+        gradientMap.set(getGradientIdFn(layer, 'fill'), layer.fillGradient);
+      }
+      if (layer.strokeGradient) {
+        gradientMap.set(getGradientIdFn(layer, 'stroke'), layer.strokeGradient);
+      }
+    }
+  });
+
+  const shouldCreateDefs = clippedLayerToSeenClipPathsMap.size > 0 || gradientMap.size > 0;
   if (shouldCreateDefs) {
     const defsNode = xmlDoc.createElement('defs');
+    gradientMap.forEach((gradient, id) => {
+      defsNode.appendChild(gradientToSvgNode(gradient, id, xmlDoc));
+    });
     clippedLayerToSeenClipPathsMap.forEach((seenClipPaths, layerId) => {
       const clipPathName = clippedLayerToClipPathNameMap.get(layerId);
       seenClipPaths.forEach((id, i) => {
@@ -155,13 +177,17 @@ function vectorLayerToSvgNode(
         }
         maybeSetClipPathForLayerFn(node, layer.id);
         conditionalAttr(node, 'd', pathData.getPathString());
-        if (layer.fillColor) {
+        if (layer.fillGradient) {
+          conditionalAttr(node, 'fill', `url(#${getGradientIdFn(layer, 'fill')})`);
+        } else if (layer.fillColor) {
           conditionalAttr(node, 'fill', ColorUtil.androidToCssHexColor(layer.fillColor), '');
         } else {
           conditionalAttr(node, 'fill', 'none');
         }
         conditionalAttr(node, 'fill-opacity', layer.fillAlpha, 1);
-        if (layer.strokeColor) {
+        if (layer.strokeGradient) {
+          conditionalAttr(node, 'stroke', `url(#${getGradientIdFn(layer, 'stroke')})`);
+        } else if (layer.strokeColor) {
           conditionalAttr(node, 'stroke', ColorUtil.androidToCssHexColor(layer.strokeColor), '');
         }
         conditionalAttr(node, 'stroke-opacity', layer.strokeAlpha, 1);
@@ -197,6 +223,9 @@ function vectorLayerToSvgNode(
           ).toString();
           conditionalAttr(node, 'stroke-dasharray', strokeDashArray);
           conditionalAttr(node, 'stroke-dashoffset', strokeDashOffset);
+        } else if (layer.strokeDashArray) {
+          conditionalAttr(node, 'stroke-dasharray', layer.strokeDashArray.join(','));
+          conditionalAttr(node, 'stroke-dashoffset', layer.strokeDashOffset, 0);
         }
 
         conditionalAttr(node, 'stroke-linecap', layer.strokeLinecap, 'butt');
@@ -213,11 +242,12 @@ function vectorLayerToSvgNode(
           conditionalAttr(node, 'id', layer.name);
         }
         const transformValues: string[] = [];
-        if (layer.translateX || layer.translateY) {
-          transformValues.push(`translate(${layer.translateX} ${layer.translateY})`);
+        const { translateX, translateY, rotation } = layer.getMotionPathTransform();
+        if (translateX || translateY) {
+          transformValues.push(`translate(${translateX} ${translateY})`);
         }
-        if (layer.rotation) {
-          transformValues.push(`rotate(${layer.rotation} ${layer.pivotX} ${layer.pivotY})`);
+        if (rotation) {
+          transformValues.push(`rotate(${rotation} ${layer.pivotX} ${layer.pivotY})`);
         }
         if (layer.scaleX !== 1 || layer.scaleY !== 1) {
           if (layer.pivotX || layer.pivotY) {
@@ -248,6 +278,35 @@ function vectorLayerToSvgNode(
   );
 }
 
+/**
+ * Creates a <linearGradient> or <radialGradient> node for the given gradient.
+ */
+function gradientToSvgNode(gradient: Gradient, id: string, xmlDoc: Document) {
+  const isRadial = gradient.type === 'radial';
+  const node = xmlDoc.createElement(isRadial ? 'radialGradient' : 'linearGradient');
+  conditionalAttr(node, 'id', id);
+  conditionalAttr(node, 'gradientUnits', 'userSpaceOnUse');
+  if (isRadial) {
+    conditionalAttr(node, 'cx', gradient.centerX);
+    conditionalAttr(node, 'cy', gradient.centerY);
+    conditionalAttr(node, 'r', gradient.radius);
+  } else {
+    conditionalAttr(node, 'x1', gradient.startX);
+    conditionalAttr(node, 'y1', gradient.startY);
+    conditionalAttr(node, 'x2', gradient.endX);
+    conditionalAttr(node, 'y2', gradient.endY);
+  }
+  const spreadMethod = { clamp: 'pad', repeat: 'repeat', mirror: 'reflect' }[gradient.tileMode];
+  conditionalAttr(node, 'spreadMethod', spreadMethod, 'pad');
+  gradient.stops.forEach(({ offset, color }) => {
+    const stopNode = xmlDoc.createElement('stop');
+    conditionalAttr(stopNode, 'offset', offset);
+    conditionalAttr(stopNode, 'stop-color', ColorUtil.androidToCssHexColor(color));
+    node.appendChild(stopNode);
+  });
+  return node;
+}
+
 function conditionalAttr(
   node: HTMLElement,
   attr: string,
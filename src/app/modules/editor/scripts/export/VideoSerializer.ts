@@ -0,0 +1,105 @@
+import { VectorLayer } from 'app/modules/editor/model/layers';
+import { Animation } from 'app/modules/editor/model/timeline';
+
+import * as RasterSerializer from './RasterSerializer';
+import * as WebmMuxer from './WebmMuxer';
+
+// The WebCodecs API isn't included in the TypeScript DOM typings yet.
+declare const VideoEncoder: any;
+declare const VideoFrame: any;
+
+// Codecs are listed in order of preference.
+const CODECS = [{ codec: 'vp09.00.10.08', codecId: 'V_VP9' }, { codec: 'vp8', codecId: 'V_VP8' }];
+const BITRATE_PER_PIXEL = 8;
+const KEY_FRAME_INTERVAL = 2000;
+
+export interface VideoOptions {
+  // The output resolution relative to the vector layer's viewport size.
+  readonly scale: number;
+  readonly fps: number;
+  // An android color string used to fill the background (videos can't be transparent).
+  readonly backgroundColor: string;
+}
+
+/**
+ * Renders each frame of the animation to an offscreen canvas and encodes the
+ * frames into a WebM video. Frames are rendered one at a time and given fixed
+ * timestamps, so the result doesn't depend on the real-time playback speed.
+ */
+export async function toWebmBlob(vl: VectorLayer, animation: Animation, options: VideoOptions) {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error(`Video encoding isn't supported by this browser`);
+  }
+  const { scale, fps } = options;
+  // Most encoders require the frame dimensions to be even.
+  const width = toEven(vl.width * scale);
+  const height = toEven(vl.height * scale);
+  const backgroundColor = options.backgroundColor || '#fff';
+  const config = await getSupportedConfig(width, height, fps);
+  if (!config) {
+    throw new Error(`Video encoding isn't supported by this browser`);
+  }
+
+  const frames: WebmMuxer.EncodedFrame[] = [];
+  let encoderError: Error;
+  const encoder = new VideoEncoder({
+    output: (chunk: any) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({
+        data,
+        timestamp: Math.round(chunk.timestamp / 1000),
+        isKeyFrame: chunk.type === 'key',
+      });
+    },
+    error: (error: Error) => (encoderError = error),
+  });
+  encoder.configure(config.encoderConfig);
+
+  const frameDuration = 1000 / fps;
+  const keyFrameInterval = Math.max(1, Math.round(KEY_FRAME_INTERVAL / frameDuration));
+  await RasterSerializer.renderFrames(
+    vl,
+    animation,
+    { width, height, fps, backgroundColor },
+    (canvas, frameIndex) => {
+      // Timestamps and durations are specified in microseconds.
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(frameIndex * frameDuration * 1000),
+        duration: Math.round(frameDuration * 1000),
+      });
+      encoder.encode(frame, { keyFrame: frameIndex % keyFrameInterval === 0 });
+      frame.close();
+    },
+  );
+  await encoder.flush();
+  encoder.close();
+  if (encoderError) {
+    throw encoderError;
+  }
+
+  const duration = frames.length * frameDuration;
+  const bytes = WebmMuxer.mux(frames, config.codecId, width, height, duration);
+  return new Blob([bytes], { type: 'video/webm' });
+}
+
+async function getSupportedConfig(width: number, height: number, fps: number) {
+  for (const { codec, codecId } of CODECS) {
+    const encoderConfig = {
+      codec,
+      width,
+      height,
+      framerate: fps,
+      bitrate: width * height * BITRATE_PER_PIXEL,
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(encoderConfig);
+    if (supported) {
+      return { encoderConfig, codecId };
+    }
+  }
+  return undefined;
+}
+
+function toEven(value: number) {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
@@ -0,0 +1,146 @@
+import { GroupLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { Animation } from 'app/modules/editor/model/timeline';
+import { ModelUtil } from 'app/modules/editor/scripts/common';
+import * as _ from 'lodash';
+
+import * as CssSerializer from './CssSerializer';
+
+/**
+ * Serializes a VectorLayer and Animation to an ES module that injects the SVG
+ * into a container element and animates it using the Web Animations API. The
+ * SVG is the same one used by the CSS keyframes export (animated groups are
+ * split into nested <g> wrappers), and each animated property is driven by its
+ * own element.animate() call. The module's create() function returns a
+ * controller with play(), pause(), seek(ms), and reverse() methods, as well as
+ * an onfinish promise.
+ */
+export function toJavaScriptString(vl: VectorLayer, animation: Animation) {
+  const svg = CssSerializer.toSvgString(vl, animation);
+
+  // The wrappers of animated groups are given their static transforms up front,
+  // since only the animated wrappers will have keyframes applied to them.
+  const transforms: WrapperTransform[] = [];
+  CssSerializer.getAnimatedGroupLayers(vl, animation).forEach(layer => {
+    CssSerializer.GROUP_TRANSFORM_PROPERTY_NAMES.forEach(propertyName => {
+      const cssProperty = CssSerializer.getCssProperty(layer, propertyName);
+      transforms.push({
+        selector: `#${CssSerializer.getWrapperId(layer, propertyName)}`,
+        transformOrigin: `${layer.pivotX}px ${layer.pivotY}px`,
+        transform: cssProperty.toCss((layer as any)[propertyName]),
+      });
+    });
+  });
+
+  const effects: Effect[] = [];
+  const blocksByPropertyByLayer = ModelUtil.getOrderedSegmentsByPropertyByLayer(animation);
+  Object.keys(blocksByPropertyByLayer).forEach(layerId => {
+    const layer = vl.findLayerById(layerId);
+    if (!layer) {
+      return;
+    }
+    const blocksByProperty = blocksByPropertyByLayer[layerId];
+    Object.keys(blocksByProperty).forEach(propertyName => {
+      const cssProperty = CssSerializer.getCssProperty(layer, propertyName);
+      if (!cssProperty) {
+        return;
+      }
+      const { duration } = animation;
+      const stops = CssSerializer.createKeyframeStops(
+        (layer as any)[propertyName],
+        blocksByProperty[propertyName],
+        duration,
+      );
+      // Web Animations keyframes use camel cased property names (i.e. 'fillOpacity').
+      const name = _.camelCase(cssProperty.name);
+      const keyframes = stops.map(({ time, value, timingFunction }) => {
+        const keyframe: Dictionary<string | number> = {
+          offset: _.round(time / duration, 6),
+          [name]: cssProperty.toCss(value),
+        };
+        if (timingFunction) {
+          keyframe.easing = timingFunction;
+        }
+        return keyframe;
+      });
+      let selector = `#${layer.name}`;
+      if (layer instanceof GroupLayer) {
+        selector = `#${CssSerializer.getWrapperId(layer, propertyName)}`;
+      } else if (layer instanceof VectorLayer) {
+        selector = 'svg';
+      }
+      effects.push({ selector, keyframes });
+    });
+  });
+
+  return `const SVG = \`${escapeTemplateLiteral(svg)}\`;
+
+const DURATION = ${animation.duration};
+
+const TRANSFORMS = ${JSON.stringify(transforms, undefined, 2)};
+
+const EFFECTS = ${JSON.stringify(effects, undefined, 2)};
+
+/**
+ * Injects the ${vl.name} SVG into the given container element and returns a
+ * controller for its ${animation.name} animation. The animation is paused at
+ * its first frame until play() is called.
+ */
+export function create(container) {
+  container.innerHTML = SVG;
+  const svg = container.querySelector('svg');
+  const select = selector => (selector === 'svg' ? svg : svg.querySelector(selector));
+  TRANSFORMS.forEach(({ selector, transformOrigin, transform }) => {
+    const element = select(selector);
+    element.style.transformOrigin = transformOrigin;
+    element.style.transform = transform;
+  });
+  const animations = EFFECTS.map(({ selector, keyframes }) => {
+    const animation = select(selector).animate(keyframes, { duration: DURATION, fill: 'both' });
+    animation.pause();
+    return animation;
+  });
+  return {
+    element: svg,
+    duration: DURATION,
+    /** Plays the animation (restarting it if it has already finished). */
+    play() {
+      animations.forEach(a => a.play());
+    },
+    /** Pauses the animation at its current time. */
+    pause() {
+      animations.forEach(a => a.pause());
+    },
+    /** Jumps to the given time in milliseconds (without changing the play state). */
+    seek(ms) {
+      const time = Math.max(0, Math.min(ms, DURATION));
+      animations.forEach(a => {
+        a.currentTime = time;
+      });
+    },
+    /** Reverses the playback direction and plays the animation. */
+    reverse() {
+      animations.forEach(a => a.reverse());
+    },
+    /** A promise that resolves the next time the animation finishes playing. */
+    get onfinish() {
+      return Promise.all(animations.map(a => a.finished)).then(() => undefined);
+    },
+  };
+}
+`;
+}
+
+function escapeTemplateLiteral(value: string) {
+  return value.replace(/\\|`|\$\{/g, s => `\\${s}`);
+}
+
+interface WrapperTransform {
+  readonly selector: string;
+  readonly transformOrigin: string;
+  readonly transform: string;
+}
+
+interface Effect {
+  readonly selector: string;
+  readonly keyframes: ReadonlyArray<Dictionary<string | number>>;
+}
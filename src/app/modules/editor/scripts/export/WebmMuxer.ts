@@ -0,0 +1,159 @@
+/* tslint:disable:no-bitwise */
+
+// EBML element IDs used by the WebM container.
+const EBML = [0x1a, 0x45, 0xdf, 0xa3];
+const EBML_VERSION = [0x42, 0x86];
+const EBML_READ_VERSION = [0x42, 0xf7];
+const EBML_MAX_ID_LENGTH = [0x42, 0xf2];
+const EBML_MAX_SIZE_LENGTH = [0x42, 0xf3];
+const DOC_TYPE = [0x42, 0x82];
+const DOC_TYPE_VERSION = [0x42, 0x87];
+const DOC_TYPE_READ_VERSION = [0x42, 0x85];
+const SEGMENT = [0x18, 0x53, 0x80, 0x67];
+const INFO = [0x15, 0x49, 0xa9, 0x66];
+const TIMECODE_SCALE = [0x2a, 0xd7, 0xb1];
+const MUXING_APP = [0x4d, 0x80];
+const WRITING_APP = [0x57, 0x41];
+const DURATION = [0x44, 0x89];
+const TRACKS = [0x16, 0x54, 0xae, 0x6b];
+const TRACK_ENTRY = [0xae];
+const TRACK_NUMBER = [0xd7];
+const TRACK_UID = [0x73, 0xc5];
+const TRACK_TYPE = [0x83];
+const CODEC_ID = [0x86];
+const VIDEO = [0xe0];
+const PIXEL_WIDTH = [0xb0];
+const PIXEL_HEIGHT = [0xba];
+const CLUSTER = [0x1f, 0x43, 0xb6, 0x75];
+const TIMECODE = [0xe7];
+const SIMPLE_BLOCK = [0xa3];
+
+const APP_NAME = 'Shape Shifter';
+// Block timecodes are stored as signed 16-bit offsets from the cluster's timecode.
+const MAX_CLUSTER_DURATION = 32767;
+
+/**
+ * Muxes a list of encoded video frames into a WebM file containing a single
+ * video track. A new cluster is started at each key frame (or whenever the
+ * previous cluster becomes too long).
+ *
+ * @param codecId The Matroska codec ID (i.e. 'V_VP8' or 'V_VP9').
+ * @param duration The duration of the video in milliseconds.
+ */
+export function mux(
+  frames: ReadonlyArray<EncodedFrame>,
+  codecId: string,
+  width: number,
+  height: number,
+  duration: number,
+): Uint8Array {
+  const header = element(EBML, [
+    element(EBML_VERSION, uint(1)),
+    element(EBML_READ_VERSION, uint(1)),
+    element(EBML_MAX_ID_LENGTH, uint(4)),
+    element(EBML_MAX_SIZE_LENGTH, uint(8)),
+    element(DOC_TYPE, string('webm')),
+    element(DOC_TYPE_VERSION, uint(2)),
+    element(DOC_TYPE_READ_VERSION, uint(2)),
+  ]);
+
+  const info = element(INFO, [
+    element(TIMECODE_SCALE, uint(1000000)),
+    element(MUXING_APP, string(APP_NAME)),
+    element(WRITING_APP, string(APP_NAME)),
+    element(DURATION, float(duration)),
+  ]);
+
+  const tracks = element(TRACKS, [
+    element(TRACK_ENTRY, [
+      element(TRACK_NUMBER, uint(1)),
+      element(TRACK_UID, uint(1)),
+      element(TRACK_TYPE, uint(1)),
+      element(CODEC_ID, string(codecId)),
+      element(VIDEO, [element(PIXEL_WIDTH, uint(width)), element(PIXEL_HEIGHT, uint(height))]),
+    ]),
+  ]);
+
+  const clusters: Uint8Array[] = [];
+  let clusterTime: number;
+  let clusterBlocks: Uint8Array[] = [];
+  const flushClusterFn = () => {
+    if (clusterBlocks.length) {
+      clusters.push(element(CLUSTER, [element(TIMECODE, uint(clusterTime)), ...clusterBlocks]));
+    }
+    clusterBlocks = [];
+  };
+  frames.forEach(({ data, timestamp, isKeyFrame }) => {
+    if (clusterTime === undefined || isKeyFrame || timestamp - clusterTime > MAX_CLUSTER_DURATION) {
+      flushClusterFn();
+      clusterTime = timestamp;
+    }
+    const blockHeader = new Uint8Array(4);
+    // Track number (encoded as a variable length integer).
+    blockHeader[0] = 0x81;
+    const relativeTime = timestamp - clusterTime;
+    blockHeader[1] = (relativeTime >> 8) & 0xff;
+    blockHeader[2] = relativeTime & 0xff;
+    blockHeader[3] = isKeyFrame ? 0x80 : 0;
+    clusterBlocks.push(element(SIMPLE_BLOCK, [blockHeader, data]));
+  });
+  flushClusterFn();
+
+  return concat([header, element(SEGMENT, [info, tracks, ...clusters])]);
+}
+
+function element(id: number[], content: Uint8Array | ReadonlyArray<Uint8Array>) {
+  const data = content instanceof Uint8Array ? content : concat(content);
+  return concat([new Uint8Array(id), vint(data.length), data]);
+}
+
+/** Encodes an element size as a variable length integer. */
+function vint(value: number) {
+  let length = 1;
+  // The all ones value is reserved for unknown sizes.
+  while (value >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, v = value; i >= 0; i--, v = Math.floor(v / 256)) {
+    bytes[i] = v % 256;
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function uint(value: number) {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+function float(value: number) {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function string(value: string) {
+  return new Uint8Array(value.split('').map(c => c.charCodeAt(0)));
+}
+
+function concat(arrays: ReadonlyArray<Uint8Array>) {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  arrays.forEach(a => {
+    result.set(a, offset);
+    offset += a.length;
+  });
+  return result;
+}
+
+export interface EncodedFrame {
+  readonly data: Uint8Array;
+  // The frame's presentation time in milliseconds.
+  readonly timestamp: number;
+  readonly isKeyFrame: boolean;
+}
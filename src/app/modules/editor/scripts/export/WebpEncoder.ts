@@ -0,0 +1,124 @@
+/* tslint:disable:no-bitwise */
+
+// Chunks that contain a frame's image data (other chunks, such as VP8X, are dropped).
+const FRAME_CHUNK_TYPES = ['ALPH', 'VP8 ', 'VP8L'];
+
+/**
+ * Combines a list of equally sized WebP images into an animated WebP. The
+ * images are expected to have been encoded by the browser (i.e. using
+ * canvas.toBlob()), so their bitstreams can be reused as-is for each frame.
+ *
+ * @param delay The delay between frames in milliseconds.
+ * @param loopCount The number of times the animation is played (0 loops forever).
+ */
+export function encode(
+  webps: ReadonlyArray<Uint8Array>,
+  width: number,
+  height: number,
+  delay: number,
+  loopCount: number,
+): Uint8Array {
+  const chunks: Uint8Array[] = [];
+
+  // Enable the animation and alpha flags.
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x12;
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+  chunks.push(createChunk('VP8X', vp8x));
+
+  // Use a transparent background color.
+  const anim = new Uint8Array(6);
+  writeUint16(anim, 4, loopCount);
+  chunks.push(createChunk('ANIM', anim));
+
+  webps.forEach(webp => {
+    const frameChunks = readChunks(webp)
+      .filter(c => FRAME_CHUNK_TYPES.includes(c.type))
+      .map(c => createChunk(c.type, c.data));
+    const anmf = new Uint8Array(16);
+    // The x and y offsets are left as 0.
+    writeUint24(anmf, 6, width - 1);
+    writeUint24(anmf, 9, height - 1);
+    writeUint24(anmf, 12, Math.round(delay));
+    // Don't blend with the previous frame and dispose to the background color.
+    anmf[15] = 0x03;
+    chunks.push(createChunk('ANMF', concat([anmf, ...frameChunks])));
+  });
+
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  writeFourCC(header, 0, 'RIFF');
+  writeUint32(header, 4, body.length + 4);
+  writeFourCC(header, 8, 'WEBP');
+  return concat([header, body]);
+}
+
+function readChunks(webp: Uint8Array) {
+  const chunks: Chunk[] = [];
+  // Skip the 'RIFF' header, the file size, and the 'WEBP' signature.
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = String.fromCharCode(...Array.from(webp.subarray(offset, offset + 4)));
+    const size = readUint32(webp, offset + 4);
+    chunks.push({ type, data: webp.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size.
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function createChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  writeFourCC(chunk, 0, type);
+  writeUint32(chunk, 4, data.length);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function concat(arrays: ReadonlyArray<Uint8Array>) {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  arrays.forEach(a => {
+    result.set(a, offset);
+    offset += a.length;
+  });
+  return result;
+}
+
+function readUint32(bytes: Uint8Array, offset: number) {
+  return (
+    (bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+function writeFourCC(bytes: Uint8Array, offset: number, fourCC: string) {
+  for (let i = 0; i < 4; i++) {
+    bytes[offset + i] = fourCC.charCodeAt(i);
+  }
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+  writeUint24(bytes, offset, value);
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+}
+
+function writeUint16(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+}
+
+interface Chunk {
+  readonly type: string;
+  readonly data: Uint8Array;
+}
@@ -1,4 +1,26 @@
 import * as AvdSerializer from './AvdSerializer';
+import * as ComposeSerializer from './ComposeSerializer';
+import * as CoreAnimationSerializer from './CoreAnimationSerializer';
+import * as CssSerializer from './CssSerializer';
+import * as FlutterSerializer from './FlutterSerializer';
+import * as LottieSerializer from './LottieSerializer';
+import * as RasterSerializer from './RasterSerializer';
+import * as SmilSerializer from './SmilSerializer';
 import * as SpriteSerializer from './SpriteSerializer';
 import * as SvgSerializer from './SvgSerializer';
-export { AvdSerializer, SpriteSerializer, SvgSerializer };
+import * as VideoSerializer from './VideoSerializer';
+import * as WebAnimationsSerializer from './WebAnimationsSerializer';
+export {
+  AvdSerializer,
+  ComposeSerializer,
+  CoreAnimationSerializer,
+  CssSerializer,
+  FlutterSerializer,
+  LottieSerializer,
+  RasterSerializer,
+  SmilSerializer,
+  SpriteSerializer,
+  SvgSerializer,
+  VideoSerializer,
+  WebAnimationsSerializer,
+};
@@ -1,4 +1,4 @@
-import { PathLayer } from 'app/modules/editor/model/layers';
+import { GroupLayer, InstanceLayer, PathLayer } from 'app/modules/editor/model/layers';
 
 import { SvgLoader } from '.';
 
@@ -96,4 +96,154 @@ describe('SvgLoader', () => {
       done();
     });
   });
+
+  it(`can import SVG with symbols`, done => {
+    const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24">
+  <defs>
+    <symbol id="dot">
+      <path d="M 0 0 L 2 0 L 2 2 Z"/>
+    </symbol>
+  </defs>
+  <symbol id="unused">
+    <path d="M 0 0 L 2 0 L 2 2 Z"/>
+  </symbol>
+  <use xlink:href="#dot" x="2" y="2"/>
+  <use xlink:href="#dot" x="10" y="10"/>
+  <use xlink:href="#dot" transform="scale(2)"/>
+</svg>
+`;
+    SvgLoader.loadVectorLayerFromSvgString(svg, () => false).then(vl => {
+      expect(vl.children.length).toBe(3);
+      const symbol = vl.children[0].children[0] as GroupLayer;
+      expect(symbol.isSymbol).toBe(true);
+      expect(symbol.name).toBe('dot');
+      const pathLayer = symbol.children[0] as PathLayer;
+      expect(pathLayer.pathData.getPathString()).toBe('M 2 2 L 4 2 L 4 4 Z');
+      const instance1 = vl.children[1].children[0] as InstanceLayer;
+      expect(instance1.symbolId).toBe(symbol.id);
+      expect(instance1.translateX).toBe(8);
+      expect(instance1.translateY).toBe(8);
+      const instance2 = vl.children[2].children[0] as InstanceLayer;
+      expect(instance2.symbolId).toBe(symbol.id);
+      expect(instance2.scaleX).toBe(2);
+      expect(instance2.scaleY).toBe(2);
+      expect(instance2.translateX).toBe(-4);
+      expect(instance2.translateY).toBe(-4);
+      done();
+    });
+  });
+
+  it(`can import SVG with bounding box and user space gradients`, done => {
+    const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">
+  <defs>
+    <linearGradient id="bbox">
+      <stop offset="0" stop-color="#ff0000"/>
+      <stop offset="100%" stop-color="#0000ff" stop-opacity="0.5"/>
+    </linearGradient>
+    <linearGradient id="userSpace" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="24" y2="24">
+      <stop offset="0.25" stop-color="#00ff00"/>
+    </linearGradient>
+  </defs>
+  <path id="path1" fill="url(#bbox)" d="M 4 4 L 20 4 L 20 12 L 4 12 Z"/>
+  <path id="path2" fill="url(#userSpace)" d="M 4 4 L 20 4 L 20 12 L 4 12 Z"/>
+</svg>
+`;
+    SvgLoader.loadVectorLayerFromSvgString(svg, () => false).then(vl => {
+      const gradient1 = (vl.children[0] as PathLayer).fillGradient;
+      expect(gradient1.type).toBe('linear');
+      expect(gradient1.startX).toBeCloseTo(4, 6);
+      expect(gradient1.startY).toBeCloseTo(4, 6);
+      expect(gradient1.endX).toBeCloseTo(20, 6);
+      expect(gradient1.endY).toBeCloseTo(4, 6);
+      expect(gradient1.stops).toEqual([
+        { offset: 0, color: '#ff0000' },
+        { offset: 1, color: '#800000ff' },
+      ]);
+      const gradient2 = (vl.children[1] as PathLayer).fillGradient;
+      expect(gradient2.startX).toBeCloseTo(0, 6);
+      expect(gradient2.startY).toBeCloseTo(0, 6);
+      expect(gradient2.endX).toBeCloseTo(24, 6);
+      expect(gradient2.endY).toBeCloseTo(24, 6);
+      expect(gradient2.stops).toEqual([{ offset: 0.25, color: '#00ff00' }]);
+      done();
+    });
+  });
+
+  it(`can import SVG with gradients that inherit from other gradients`, done => {
+    const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24">
+  <defs>
+    <linearGradient id="base" x1="0" y1="0" x2="1" y2="1" spreadMethod="reflect">
+      <stop offset="0" stop-color="#ff0000"/>
+      <stop offset="1" stop-color="#0000ff"/>
+    </linearGradient>
+    <linearGradient id="derived" xlink:href="#base" gradientUnits="userSpaceOnUse" x2="10"/>
+  </defs>
+  <path id="path" fill="url(#derived)" d="M 4 4 L 20 4 L 20 12 L 4 12 Z"/>
+</svg>
+`;
+    SvgLoader.loadVectorLayerFromSvgString(svg, () => false).then(vl => {
+      const gradient = (vl.children[0] as PathLayer).fillGradient;
+      // The stops and unspecified attributes are inherited from the referenced gradient.
+      expect(gradient.tileMode).toBe('mirror');
+      expect(gradient.startX).toBeCloseTo(0, 6);
+      expect(gradient.startY).toBeCloseTo(0, 6);
+      expect(gradient.endX).toBeCloseTo(10, 6);
+      expect(gradient.endY).toBeCloseTo(1, 6);
+      expect(gradient.stops).toEqual([
+        { offset: 0, color: '#ff0000' },
+        { offset: 1, color: '#0000ff' },
+      ]);
+      done();
+    });
+  });
+
+  it(`can import SVG with gradient transforms`, done => {
+    const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">
+  <defs>
+    <radialGradient id="userSpace" gradientUnits="userSpaceOnUse" cx="0" cy="0" r="1"
+        gradientTransform="translate(12 12) scale(10)">
+      <stop offset="0" stop-color="#ff0000"/>
+    </radialGradient>
+    <radialGradient id="bbox" gradientTransform="translate(0.5 0) scale(0.5)">
+      <stop offset="0" stop-color="#ff0000"/>
+    </radialGradient>
+  </defs>
+  <path id="path1" fill="url(#userSpace)" d="M 0 0 L 24 0 L 24 24 L 0 24 Z"/>
+  <path id="path2" stroke="url(#bbox)" d="M 4 4 L 20 4 L 20 20 L 4 20 Z"/>
+</svg>
+`;
+    SvgLoader.loadVectorLayerFromSvgString(svg, () => false).then(vl => {
+      const gradient1 = (vl.children[0] as PathLayer).fillGradient;
+      expect(gradient1.type).toBe('radial');
+      expect(gradient1.centerX).toBeCloseTo(12, 6);
+      expect(gradient1.centerY).toBeCloseTo(12, 6);
+      expect(gradient1.radius).toBeCloseTo(10, 6);
+      // Bounding box gradients are transformed before being mapped onto the bounding box.
+      const gradient2 = (vl.children[1] as PathLayer).strokeGradient;
+      expect(gradient2.centerX).toBeCloseTo(16, 6);
+      expect(gradient2.centerY).toBeCloseTo(8, 6);
+      expect(gradient2.radius).toBeCloseTo(4, 6);
+      done();
+    });
+  });
+
+  it(`can import SVG with stroke dash arrays`, done => {
+    const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">
+  <path id="path1" stroke="#000" stroke-dasharray="5 2" d="M 4 4 L 20 4"/>
+  <path id="path2" stroke="#000" stroke-dasharray="5px, 2px" d="M 4 4 L 20 4"/>
+  <path id="path3" stroke="#000" stroke-dasharray="5em 2" d="M 4 4 L 20 4"/>
+</svg>
+`;
+    SvgLoader.loadVectorLayerFromSvgString(svg, () => false).then(vl => {
+      const dashArrays = vl.children.map(l => (l as PathLayer).strokeDashArray);
+      // Lengths in units other than pixels can't be converted.
+      expect(dashArrays).toEqual([[5, 2], [5, 2], undefined]);
+      done();
+    });
+  });
 });
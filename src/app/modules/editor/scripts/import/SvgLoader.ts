@@ -1,7 +1,9 @@
+import { Gradient, GradientStop, GradientUtil, TileMode } from 'app/modules/editor/model/gradients';
 import {
   ClipPathLayer,
   FillType,
   GroupLayer,
+  InstanceLayer,
   Layer,
   LayerUtil,
   PathLayer,
@@ -10,9 +12,9 @@ import {
   VectorLayer,
 } from 'app/modules/editor/model/layers';
 import { Path } from 'app/modules/editor/model/paths';
-import { NameProperty } from 'app/modules/editor/model/properties';
-import { ColorUtil, MathUtil, Matrix } from 'app/modules/editor/scripts/common';
-import { optimizeSvg } from 'app/modules/editor/scripts/svgo';
+import { DashArrayProperty, NameProperty } from 'app/modules/editor/model/properties';
+import { ColorUtil, MathUtil, Matrix, Rect } from 'app/modules/editor/scripts/common';
+import { optimizeSvg, SYMBOL_INSTANCE_ATTR } from 'app/modules/editor/scripts/svgo';
 import * as _ from 'lodash';
 
 // TODO: trim ids/strings?
@@ -65,13 +67,22 @@ function loadVectorLayerFromSvgStringInternal(
     return infos.map(info => info.path);
   });
 
+  const gradientMap = buildGradientIdMap(documentElement);
+
+  // Maps symbol IDs to the symbol master layer created for the first use of the
+  // symbol, along with the transform that was baked into the master's children.
+  const symbolMap: Dictionary<{ layer: GroupLayer; transform: Matrix }> = {};
+
   const nodeToLayerFn = (node: Element, transforms: ReadonlyArray<Matrix>): Layer => {
     if (
       !node ||
       node.nodeType === Node.TEXT_NODE ||
       node.nodeType === Node.COMMENT_NODE ||
       node instanceof SVGDefsElement ||
-      node instanceof SVGUseElement
+      node instanceof SVGUseElement ||
+      isGradientNode(node) ||
+      // Symbols are only rendered when they are referenced by a <use> elem.
+      (isSymbolNode(node) && !node.hasAttribute(SYMBOL_INSTANCE_ATTR))
     ) {
       return undefined;
     }
@@ -129,16 +140,41 @@ function loadVectorLayerFromSvgStringInternal(
       simpleAttrFn('stroke-linejoin', 'strokeLinejoin');
       simpleAttrFn('stroke-miterlimit', 'strokeMiterLimit');
       simpleAttrFn('stroke-opacity', 'strokeAlpha');
+      simpleAttrFn('stroke-dasharray', 'strokeDashArray');
+      simpleAttrFn('stroke-dashoffset', 'strokeDashOffset');
       simpleAttrFn('fill', 'fillColor');
       simpleAttrFn('fill-opacity', 'fillAlpha');
       simpleAttrFn('fill-rule', 'fillType');
 
+      // Gradients are referenced using the 'url(#id)' syntax. Their coordinates
+      // may be defined relative to the path's bounding box.
+      const pathBounds = new Path(path).getBoundingBox();
+      const isPaintServerFn = (attr: string) => {
+        return attr in attrMap && attrMap[attr].trim().startsWith('url(');
+      };
+      const getGradientFn = (attr: string) => {
+        if (!isPaintServerFn(attr)) {
+          return undefined;
+        }
+        const gradientNode = gradientMap[getReferencedId(attrMap[attr])];
+        return gradientNode
+          ? getGradient(gradientNode, gradientMap, pathBounds, flattenedTransforms)
+          : undefined;
+      };
+      const fillGradient = getGradientFn('fillColor');
+      const strokeGradient = getGradientFn('strokeColor');
+
       // Set the default values as specified by the SVG spec. Note that some of these default
       // values are different than the default values used by VectorDrawables.
-      const fillColor =
-        'fillColor' in attrMap ? ColorUtil.svgToAndroidColor(attrMap['fillColor']) : '#000';
+      const fillColor = isPaintServerFn('fillColor')
+        ? undefined
+        : 'fillColor' in attrMap
+          ? ColorUtil.svgToAndroidColor(attrMap['fillColor'])
+          : '#000';
       const strokeColor =
-        'strokeColor' in attrMap ? ColorUtil.svgToAndroidColor(attrMap['strokeColor']) : undefined;
+        'strokeColor' in attrMap && !isPaintServerFn('strokeColor')
+          ? ColorUtil.svgToAndroidColor(attrMap['strokeColor'])
+          : undefined;
       const fillAlpha = 'fillAlpha' in attrMap ? Number(attrMap['fillAlpha']) : 1;
       let strokeWidth = 'strokeWidth' in attrMap ? Number(attrMap['strokeWidth']) : 1;
       const strokeAlpha = 'strokeAlpha' in attrMap ? Number(attrMap['strokeAlpha']) : 1;
@@ -148,6 +184,9 @@ function loadVectorLayerFromSvgStringInternal(
         'strokeLinejoin' in attrMap ? attrMap['strokeLinecap'] : 'miter';
       const strokeMiterLimit =
         'strokeMiterLimit' in attrMap ? Number(attrMap['strokeMiterLimit']) : 4;
+      let strokeDashArray = DashArrayProperty.parse(attrMap['strokeDashArray']);
+      let strokeDashOffset =
+        'strokeDashOffset' in attrMap ? parseFloat(attrMap['strokeDashOffset']) || 0 : 0;
       const fillRuleToFillTypeFn = (fillRule: string) => {
         return fillRule === 'evenodd' ? 'evenOdd' : 'nonZero';
       };
@@ -163,7 +202,12 @@ function loadVectorLayerFromSvgStringInternal(
             .build()
             .getPathString(),
         );
-        strokeWidth = MathUtil.round(strokeWidth * flattenedTransforms.getScaleFactor());
+        const scaleFactor = flattenedTransforms.getScaleFactor();
+        strokeWidth = MathUtil.round(strokeWidth * scaleFactor);
+        if (strokeDashArray) {
+          strokeDashArray = strokeDashArray.map(d => MathUtil.round(d * scaleFactor));
+          strokeDashOffset = MathUtil.round(strokeDashOffset * scaleFactor);
+        }
       }
       // TODO: make best effort attempt to restore trimPath{Start,End,Offset}
       return maybeWrapClipPathInGroupFn(
@@ -173,18 +217,44 @@ function loadVectorLayerFromSvgStringInternal(
           children: [],
           pathData,
           fillColor,
+          fillGradient,
           fillAlpha,
           strokeColor,
+          strokeGradient,
           strokeAlpha,
           strokeWidth,
           strokeLinecap,
           strokeLinejoin,
           strokeMiterLimit,
+          strokeDashArray,
+          strokeDashOffset,
           fillType,
         }),
       );
     }
 
+    const symbolId = isSymbolNode(node) ? node.getAttribute('id') : undefined;
+    if (symbolId && symbolMap[symbolId]) {
+      // Import subsequent uses of a symbol as instances of its master, unless
+      // the relative transform can't be represented by an instance layer.
+      const { layer: symbol, transform } = symbolMap[symbolId];
+      const inverseTransform = transform.invert();
+      const instanceTransform = inverseTransform
+        ? toInstanceTransform(flattenedTransforms.dot(inverseTransform))
+        : undefined;
+      if (instanceTransform) {
+        return maybeWrapClipPathInGroupFn(
+          new InstanceLayer({
+            id: _.uniqueId(),
+            name: makeFinalNodeIdFn(symbolId, 'instance'),
+            children: [],
+            symbolId: symbol.id,
+            ...instanceTransform,
+          }),
+        );
+      }
+    }
+
     // TODO: we should *not* iterate over a clip path's children here...
     if (node.childNodes) {
       const children: Layer[] = [];
@@ -195,13 +265,17 @@ function loadVectorLayerFromSvgStringInternal(
           children.push(layer);
         }
       }
-      return maybeWrapClipPathInGroupFn(
-        new GroupLayer({
-          id: _.uniqueId(),
-          name: makeFinalNodeIdFn(node.getAttribute('id'), 'group'),
-          children,
-        }),
-      );
+      const groupLayer = new GroupLayer({
+        id: _.uniqueId(),
+        name: makeFinalNodeIdFn(node.getAttribute('id'), 'group'),
+        children,
+      });
+      if (symbolId && !symbolMap[symbolId]) {
+        // The first use of a symbol becomes the symbol's master.
+        groupLayer.isSymbol = true;
+        symbolMap[symbolId] = { layer: groupLayer, transform: flattenedTransforms };
+      }
+      return maybeWrapClipPathInGroupFn(groupLayer);
     }
     return undefined;
   };
@@ -246,14 +320,45 @@ function isSvgNode(node: Element): node is SVGSVGElement {
   return node.nodeName === 'svg';
 }
 
+function isSymbolNode(node: Element) {
+  return node.nodeName === 'symbol';
+}
+
+/**
+ * Decomposes a transform matrix into the transform properties of an instance
+ * layer. Returns undefined if the matrix is skewed or not invertible.
+ */
+function toInstanceTransform(m: Matrix) {
+  const { a, b, c, d, e, f } = m;
+  const scaleX = Math.hypot(a, b);
+  const scaleY = scaleX ? (a * d - b * c) / scaleX : 0;
+  if (!scaleX || !scaleY || Math.abs(a * c + b * d) > 1e-6 * scaleX * Math.abs(scaleY)) {
+    return undefined;
+  }
+  return {
+    rotation: MathUtil.round((Math.atan2(b, a) * 180) / Math.PI),
+    scaleX: MathUtil.round(scaleX),
+    scaleY: MathUtil.round(scaleY),
+    translateX: MathUtil.round(e),
+    translateY: MathUtil.round(f),
+  };
+}
+
 /**
  * Returns a list of transform matricies assigned to the specified node.
  */
 function getNodeTransforms(node: SVGGraphicsElement) {
-  if (!node.transform) {
+  return toMatrices(node.transform);
+}
+
+/**
+ * Converts an animated transform list into a list of transform matrices.
+ */
+function toMatrices(transform: SVGAnimatedTransformList) {
+  if (!transform) {
     return [];
   }
-  const transformList = node.transform.baseVal;
+  const transformList = transform.baseVal;
   const matrices: Matrix[] = [];
   for (let i = 0; i < transformList.numberOfItems; i++) {
     const { a, b, c, d, e, f } = transformList.getItem(i).matrix;
@@ -281,6 +386,121 @@ function getReferencedClipPathId(node: Element) {
   return clipPathAttr.slice('url(#'.length, endParenIndex);
 }
 
+/**
+ * Returns the ID referenced by a paint attribute value (i.e. 'url(#gradient)'),
+ * ignoring any fallback color that may follow it.
+ */
+function getReferencedId(paintAttr: string) {
+  const match = /^\s*url\(\s*['"]?#([^'")]+)['"]?\s*\)/.exec(paintAttr);
+  return match ? match[1] : undefined;
+}
+
+function isGradientNode(node: Element) {
+  return node.nodeName === 'linearGradient' || node.nodeName === 'radialGradient';
+}
+
+/**
+ * Builds a map of gradient IDs to their corresponding gradient nodes.
+ */
+function buildGradientIdMap(rootNode: Element) {
+  const gradientIdMap: Dictionary<Element> = {};
+  (function recurseFn(node: Element) {
+    if (isGradientNode(node)) {
+      const gradientId = node.getAttribute('id');
+      if (gradientId) {
+        gradientIdMap[gradientId] = node;
+      }
+      return;
+    }
+    if (node && node.childNodes) {
+      for (let i = 0; i < node.childNodes.length; i++) {
+        recurseFn(node.childNodes.item(i) as Element);
+      }
+    }
+  })(rootNode);
+  return gradientIdMap;
+}
+
+/**
+ * Converts a gradient node into a gradient defined in the path's viewport
+ * space. Gradients may inherit their attributes and stops from the gradient
+ * referenced by their 'xlink:href' attribute.
+ */
+function getGradient(
+  node: Element,
+  gradientMap: Dictionary<Element>,
+  pathBounds: Rect,
+  pathTransform: Matrix,
+): Gradient {
+  // The chain of gradient nodes referenced by the node (including the node itself).
+  const chain: Element[] = [];
+  for (let n = node; n && !chain.includes(n); ) {
+    chain.push(n);
+    const href = n.getAttribute('xlink:href') || n.getAttribute('href');
+    n = href && href.startsWith('#') ? gradientMap[href.slice(1)] : undefined;
+  }
+  const getAttrFn = (attr: string) => {
+    const n = _.find(chain, c => c.hasAttribute(attr));
+    return n ? n.getAttribute(attr) : undefined;
+  };
+  const isBoundingBox = getAttrFn('gradientUnits') !== 'userSpaceOnUse';
+  const getNumberFn = (attr: string, defaultValue: string) => {
+    const value = (getAttrFn(attr) || defaultValue).trim();
+    return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+  };
+  const spreadMethod = getAttrFn('spreadMethod');
+  const tileMode: TileMode =
+    spreadMethod === 'repeat' ? 'repeat' : spreadMethod === 'reflect' ? 'mirror' : 'clamp';
+  const stopsNode = _.find(chain, c => c.getElementsByTagName('stop').length > 0);
+  const stops: GradientStop[] = [];
+  if (stopsNode) {
+    const stopNodes = stopsNode.getElementsByTagName('stop');
+    for (let i = 0; i < stopNodes.length; i++) {
+      const stopNode = stopNodes.item(i);
+      const offsetAttr = (stopNode.getAttribute('offset') || '0').trim();
+      const offset = offsetAttr.endsWith('%') ? parseFloat(offsetAttr) / 100 : Number(offsetAttr);
+      const color = ColorUtil.parseAndroidColor(
+        ColorUtil.svgToAndroidColor(stopNode.getAttribute('stop-color') || '#000') || '#0000',
+      );
+      const opacity = Number(stopNode.getAttribute('stop-opacity') || 1);
+      color.a = Math.round(color.a * _.clamp(isNaN(opacity) ? 1 : opacity, 0, 1));
+      // Offsets that are smaller than the previous offset are clamped to the previous offset.
+      stops.push({
+        offset: Math.max(_.clamp(offset || 0, 0, 1), stops.length ? _.last(stops).offset : 0),
+        color: ColorUtil.toAndroidString(color),
+      });
+    }
+  }
+  const gradient =
+    node.nodeName === 'radialGradient'
+      ? {
+          ...GradientUtil.create('radial'),
+          centerX: getNumberFn('cx', '50%'),
+          centerY: getNumberFn('cy', '50%'),
+          radius: getNumberFn('r', '50%'),
+        }
+      : {
+          ...GradientUtil.create('linear'),
+          startX: getNumberFn('x1', '0%'),
+          startY: getNumberFn('y1', '0%'),
+          endX: getNumberFn('x2', '100%'),
+          endY: getNumberFn('y2', '0%'),
+        };
+  const gradientTransformNode = _.find(chain, c => c.hasAttribute('gradientTransform'));
+  const transforms = [pathTransform];
+  if (isBoundingBox) {
+    const { l, t, r, b } = pathBounds;
+    transforms.push(new Matrix(r - l, 0, 0, b - t, l, t));
+  }
+  if (gradientTransformNode) {
+    transforms.push(...toMatrices((gradientTransformNode as SVGGradientElement).gradientTransform));
+  }
+  return GradientUtil.transform(
+    GradientUtil.normalize({ ...gradient, tileMode, stops }),
+    Matrix.flatten(transforms),
+  );
+}
+
 interface PathInfo {
   readonly path: Path;
   readonly refClipPathId?: string;
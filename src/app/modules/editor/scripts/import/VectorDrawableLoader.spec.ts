@@ -1,304 +1,312 @@
-/* tslint:disable */
+import { GroupLayer, PathLayer } from 'app/modules/editor/model/layers';
 
-// import * as VectorDrawableLoader from './VectorDrawableLoader';
+import { VectorDrawableLoader } from '.';
 
-// fdescribe('VectorDrawableLoader', () => {
-//   it(`Load animation`, () => {
-//     const xml = `
-// <animated-vector
-//     xmlns:android="http://schemas.android.com/apk/res/android"
-//     xmlns:aapt="http://schemas.android.com/aapt">
+describe('VectorDrawableLoader', () => {
+  it(`can import simple vector drawable`, () => {
+    const xml = `
+<vector
+    xmlns:android="http://schemas.android.com/apk/res/android"
+    android:width="24dp"
+    android:height="24dp"
+    android:viewportWidth="24"
+    android:viewportHeight="24">
+    <path
+        android:name="path"
+        android:pathData="M 0 0 L 10 10 L 20 20"
+        android:fillColor="#000" />
+</vector>
+`;
+    const vl = VectorDrawableLoader.loadVectorLayerFromXmlString(xml, () => false);
+    expect(vl.width).toBe(24);
+    expect(vl.height).toBe(24);
+    expect(vl.children.length).toBe(1);
+    const pathLayer = vl.children[0] as PathLayer;
+    expect(pathLayer.name).toBe('path');
+    expect(pathLayer.fillColor).toBe('#000');
+    expect(pathLayer.pathData.getPathString()).toBe('M 0 0 L 10 10 L 20 20');
+  });
 
-//     <!-- Vector drawable. -->
-//     <aapt:attr name="android:drawable">
-//         <vector
-//             android:width="400dp"
-//             android:height="300dp"
-//             android:viewportWidth="800"
-//             android:viewportHeight="600">
-//             <path
-//                 android:name="horizon"
-//                 android:pathData="M189,409.5C189,409.5 294.7,409.6 411.2,409.5C527.8,409.4 649.2,409 649.2,409"
-//                 android:strokeColor="#E2E2E2"
-//                 android:strokeLineCap="square"
-//                 android:strokeWidth="1" />
-//             <group android:name="dots">
-//                 <path
-//                     android:name="dot_1"
-//                     android:pathData="M363.5 409a9.5 9.5 0 0 1 -9.5 9.5 9.5 9.5 0 0 1 -9.5 -9.5 9.5 9.5 0 0 1 9.5 -9.5 9.5 9.5 0 0 1 9.5 9.5z"
-//                     android:fillColor="#E2E2E2" />
-//                 <path
-//                     android:name="dot_2"
-//                     android:pathData="M600 409a9.5 9.5 0 0 1 -9.5 9.5 9.5 9.5 0 0 1 -9.5 -9.5 9.5 9.5 0 0 1 9.5 -9.5 9.5 9.5 0 0 1 9.5 9.5z"
-//                     android:fillColor="#E2E2E2" />
-//                 <path
-//                     android:name="dot_3"
-//                     android:pathData="M843.5 409A16.5 16.5 0 0 1 827 425.5 16.5 16.5 0 0 1 810.5 409 16.5 16.5 0 0 1 827 392.5 16.5 16.5 0 0 1 843.5 409Z"
-//                     android:fillColor="#F83E3E" />
-//                 <path
-//                     android:name="dot_4"
-//                     android:pathData="M1073 409a9.5 9.5 0 0 1 -9.5 9.5 9.5 9.5 0 0 1 -9.5 -9.5 9.5 9.5 0 0 1 9.5 -9.5 9.5 9.5 0 0 1 9.5 9.5z"
-//                     android:fillColor="#E2E2E2" />
-//                 <path
-//                     android:name="dot_5"
-//                     android:pathData="M1319.5 409a9.5 9.5 0 0 1 -9.5 9.5 9.5 9.5 0 0 1 -9.5 -9.5 9.5 9.5 0 0 1 9.5 -9.5 9.5 9.5 0 0 1 9.5 9.5z"
-//                     android:fillColor="#E2E2E2" />
-//             </group>
-//             <path
-//                 android:name="pin"
-//                 android:pathData="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                 android:fillColor="#F83E3E" />
-//         </vector>
-//     </aapt:attr>
+  it(`returns undefined when importing a non-animated vector drawable as an animation`, () => {
+    const xml = `
+<vector
+    xmlns:android="http://schemas.android.com/apk/res/android"
+    android:viewportWidth="24"
+    android:viewportHeight="24" />
+`;
+    expect(VectorDrawableLoader.loadAnimationFromXmlString(xml, () => false)).toBeUndefined();
+  });
 
-//     <!-- Target #1 -->
-//     <!--<target android:name="pin">
-//         <aapt:attr name="android:animation">
-//             <set android:ordering="together">
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M406.7,247.6C374.9,247.6 350.4,270.5 350.4,303.4C350.4,335.9 406.9,400.5 406.1,408.7C416,408.7 463.4,339.3 463.4,303.4C463.4,270.5 438.4,247.6 406.7,247.6ZM406.7,329.7C391.2,329.7 378.6,317.5 378.6,302.4C378.6,287.2 391.2,275 406.7,275C422.2,275 434.8,287.2 434.8,302.4C434.8,317.5 422.2,329.7 406.7,329.7Z"
-//                     android:startOffset="0"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/linear_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M406.7,247.6C374.9,247.6 350.4,270.5 350.4,303.4C350.4,335.9 406.9,400.5 406.1,408.7C416,408.7 463.4,339.3 463.4,303.4C463.4,270.5 438.4,247.6 406.7,247.6ZM406.7,329.7C391.2,329.7 378.6,317.5 378.6,302.4C378.6,287.2 391.2,275 406.7,275C422.2,275 434.8,287.2 434.8,302.4C434.8,317.5 422.2,329.7 406.7,329.7Z"
-//                     android:valueTo="M414.2,238.1C382.4,238.1 357.9,261 357.9,293.8C357.9,326.3 402.5,408.3 403.9,408.3C405.3,408.3 471.4,330.5 471.4,293.8C471.4,261 445.9,238.1 414.2,238.1ZM414.2,323.8C398.7,323.8 386.1,310.7 386.1,294.6C386.1,278.5 398.7,265.4 414.2,265.4C429.7,265.4 442.3,278.5 442.3,294.6C442.3,310.7 429.7,323.8 414.2,323.8Z"
-//                     android:startOffset="120"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M414.2,238.1C382.4,238.1 357.9,261 357.9,293.8C357.9,326.3 402.5,408.3 403.9,408.3C405.3,408.3 471.4,330.5 471.4,293.8C471.4,261 445.9,238.1 414.2,238.1ZM414.2,323.8C398.7,323.8 386.1,310.7 386.1,294.6C386.1,278.5 398.7,265.4 414.2,265.4C429.7,265.4 442.3,278.5 442.3,294.6C442.3,310.7 429.7,323.8 414.2,323.8Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z3"
-//                     android:startOffset="240"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z3"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z9"
-//                     android:startOffset="360"
-//                     android:duration="150"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="510"
-//                     android:duration="180"
-//                     android:interpolator="@android:interpolator/fast_out_linear_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M406.7,247.6C374.9,247.6 350.4,270.5 350.4,303.4C350.4,335.9 406.9,400.5 406.1,408.7C416,408.7 463.4,339.3 463.4,303.4C463.4,270.5 438.4,247.6 406.7,247.6ZM406.7,329.7C391.2,329.7 378.6,317.5 378.6,302.4C378.6,287.2 391.2,275 406.7,275C422.2,275 434.8,287.2 434.8,302.4C434.8,317.5 422.2,329.7 406.7,329.7Z"
-//                     android:startOffset="690"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/linear_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M406.7,247.6C374.9,247.6 350.4,270.5 350.4,303.4C350.4,335.9 406.9,400.5 406.1,408.7C416,408.7 463.4,339.3 463.4,303.4C463.4,270.5 438.4,247.6 406.7,247.6ZM406.7,329.7C391.2,329.7 378.6,317.5 378.6,302.4C378.6,287.2 391.2,275 406.7,275C422.2,275 434.8,287.2 434.8,302.4C434.8,317.5 422.2,329.7 406.7,329.7Z"
-//                     android:valueTo="M414.2,238.1C382.4,238.1 357.9,261 357.9,293.8C357.9,326.3 402.5,408.3 403.9,408.3C405.3,408.3 471.4,330.5 471.4,293.8C471.4,261 445.9,238.1 414.2,238.1ZM414.2,323.8C398.7,323.8 386.1,310.7 386.1,294.6C386.1,278.5 398.7,265.4 414.2,265.4C429.7,265.4 442.3,278.5 442.3,294.6C442.3,310.7 429.7,323.8 414.2,323.8Z"
-//                     android:startOffset="810"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M414.2,238.1C382.4,238.1 357.9,261 357.9,293.8C357.9,326.3 402.5,408.3 403.9,408.3C405.3,408.3 471.4,330.5 471.4,293.8C471.4,261 445.9,238.1 414.2,238.1ZM414.2,323.8C398.7,323.8 386.1,310.7 386.1,294.6C386.1,278.5 398.7,265.4 414.2,265.4C429.7,265.4 442.3,278.5 442.3,294.6C442.3,310.7 429.7,323.8 414.2,323.8Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="930"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z3"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="1050"
-//                     android:duration="150"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="1200"
-//                     android:duration="180"
-//                     android:interpolator="@android:interpolator/fast_out_linear_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M406.7,247.6C374.9,247.6 350.4,270.5 350.4,303.4C350.4,335.9 406.9,400.5 406.1,408.7C416,408.7 463.4,339.3 463.4,303.4C463.4,270.5 438.4,247.6 406.7,247.6ZM406.7,329.7C391.2,329.7 378.6,317.5 378.6,302.4C378.6,287.2 391.2,275 406.7,275C422.2,275 434.8,287.2 434.8,302.4C434.8,317.5 422.2,329.7 406.7,329.7Z"
-//                     android:startOffset="1380"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/linear_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M406.7,247.6C374.9,247.6 350.4,270.5 350.4,303.4C350.4,335.9 406.9,400.5 406.1,408.7C416,408.7 463.4,339.3 463.4,303.4C463.4,270.5 438.4,247.6 406.7,247.6ZM406.7,329.7C391.2,329.7 378.6,317.5 378.6,302.4C378.6,287.2 391.2,275 406.7,275C422.2,275 434.8,287.2 434.8,302.4C434.8,317.5 422.2,329.7 406.7,329.7Z"
-//                     android:valueTo="M414.2,238.1C382.4,238.1 357.9,261 357.9,293.8C357.9,326.3 402.5,408.3 403.9,408.3C405.3,408.3 471.4,330.5 471.4,293.8C471.4,261 445.9,238.1 414.2,238.1ZM414.2,323.8C398.7,323.8 386.1,310.7 386.1,294.6C386.1,278.5 398.7,265.4 414.2,265.4C429.7,265.4 442.3,278.5 442.3,294.6C442.3,310.7 429.7,323.8 414.2,323.8Z"
-//                     android:startOffset="1500"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M414.2,238.1C382.4,238.1 357.9,261 357.9,293.8C357.9,326.3 402.5,408.3 403.9,408.3C405.3,408.3 471.4,330.5 471.4,293.8C471.4,261 445.9,238.1 414.2,238.1ZM414.2,323.8C398.7,323.8 386.1,310.7 386.1,294.6C386.1,278.5 398.7,265.4 414.2,265.4C429.7,265.4 442.3,278.5 442.3,294.6C442.3,310.7 429.7,323.8 414.2,323.8Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="1620"
-//                     android:duration="120"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="1740"
-//                     android:duration="150"
-//                     android:interpolator="@android:interpolator/fast_out_slow_in"
-//                     android:valueType="pathType" />
-//                 <objectAnimator
-//                     android:propertyName="pathData"
-//                     android:valueFrom="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:valueTo="M412.7,238.9C381,238.9 356.8,261.8 356.8,294.6C356.8,329.7 407.7,408.7 409.2,408.8C410.7,408.9 469.4,328.1 469.4,294.6C469.4,261.8 444.5,238.9 412.7,238.9ZM412.7,324.3C397.2,324.3 384.7,311.3 384.7,295.3C384.7,279.3 397.2,266.3 412.7,266.3C428.2,266.3 440.8,279.3 440.8,295.3C440.8,311.3 428.2,324.3 412.7,324.3Z"
-//                     android:startOffset="1890"
-//                     android:duration="180"
-//                     android:interpolator="@android:interpolator/fast_out_linear_in"
-//                     android:valueType="pathType" />
-//             </set>
-//         </aapt:attr>
-//     </target>-->
+  it(`can import animated vector drawable`, () => {
+    const xml = `
+<animated-vector
+    xmlns:android="http://schemas.android.com/apk/res/android"
+    xmlns:aapt="http://schemas.android.com/aapt">
+    <aapt:attr name="android:drawable">
+        <vector
+            android:width="400dp"
+            android:height="300dp"
+            android:viewportWidth="800"
+            android:viewportHeight="600">
+            <group android:name="dots">
+                <path
+                    android:name="dot-1"
+                    android:pathData="M 0 0 L 10 10"
+                    android:fillColor="#E2E2E2" />
+                <path
+                    android:name="dot_2"
+                    android:pathData="M 0 0 L 20 20"
+                    android:fillColor="#E2E2E2" />
+            </group>
+        </vector>
+    </aapt:attr>
+    <target android:name="dots">
+        <aapt:attr name="android:animation">
+            <objectAnimator
+                android:propertyName="translateX"
+                android:valueFrom="0"
+                android:valueTo="-710"
+                android:duration="2070"
+                android:interpolator="@android:anim/linear_interpolator" />
+        </aapt:attr>
+    </target>
+    <target android:name="dot-1">
+        <aapt:attr name="android:animation">
+            <set android:ordering="sequentially">
+                <objectAnimator
+                    android:propertyName="fillAlpha"
+                    android:valueFrom="0"
+                    android:valueTo="0"
+                    android:duration="0" />
+                <objectAnimator
+                    android:propertyName="fillAlpha"
+                    android:valueTo="1"
+                    android:startOffset="100"
+                    android:duration="60"
+                    android:interpolator="@android:interpolator/fast_out_slow_in" />
+                <objectAnimator
+                    android:propertyName="fillColor"
+                    android:valueFrom="#E2E2E2"
+                    android:valueTo="#F83E3E" />
+            </set>
+        </aapt:attr>
+    </target>
+    <target android:name="dot_2">
+        <aapt:attr name="android:animation">
+            <objectAnimator android:duration="500">
+                <propertyValuesHolder
+                    android:propertyName="pathData"
+                    android:valueFrom="M 0 0 L 20 20"
+                    android:valueTo="M 0 0 L 40 40"
+                    android:valueType="pathType" />
+                <propertyValuesHolder
+                    android:propertyName="strokeWidth"
+                    android:valueFrom="1"
+                    android:valueTo="2" />
+            </objectAnimator>
+        </aapt:attr>
+    </target>
+</animated-vector>
+`;
+    const { vectorLayer, animation } = VectorDrawableLoader.loadAnimationFromXmlString(
+      xml,
+      () => false,
+    );
+    const dots = vectorLayer.findLayerByName('dots') as GroupLayer;
+    const dot1 = vectorLayer.findLayerByName('dot_1') as PathLayer;
+    const dot2 = vectorLayer.findLayerByName('dot_2') as PathLayer;
+    expect(dots).toBeDefined();
+    expect(dot1).toBeDefined();
+    expect(dot2).toBeDefined();
+    expect(dot1.fillAlpha).toBe(0);
+    expect(animation.duration).toBe(2070);
 
-//     <!-- Target #2 -->
-//     <target android:name="dots">
-//         <aapt:attr name="android:animation">
-//             <objectAnimator
-//                 android:propertyName="translateX"
-//                 android:valueFrom="0"
-//                 android:valueTo="-710"
-//                 android:duration="2070"
-//                 android:interpolator="@android:anim/linear_interpolator" />
-//         </aapt:attr>
-//     </target>
+    const getBlocksFn = (layerId: string) => animation.blocks.filter(b => b.layerId === layerId);
 
-//     <!-- Target #3 -->
-//     <!--<target android:name="dot_1">
-//         <aapt:attr name="android:animation">
-//             <set>
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="1"
-//                     android:valueTo="1"
-//                     android:duration="0" />
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="1"
-//                     android:valueTo="0"
-//                     android:startOffset="460"
-//                     android:duration="60"
-//                     android:interpolator="@android:anim/linear_interpolator" />
-//             </set>
-//         </aapt:attr>
-//     </target>-->
+    const [translateX] = getBlocksFn(dots.id);
+    expect(translateX.propertyName).toBe('translateX');
+    expect(translateX.startTime).toBe(0);
+    expect(translateX.endTime).toBe(2070);
+    expect(translateX.fromValue).toBe(0);
+    expect(translateX.toValue).toBe(-710);
+    expect(translateX.interpolator).toBe('LINEAR');
 
-//     <!-- Target #4 -->
-//     <target android:name="dot_2">
-//         <aapt:attr name="android:animation">
-//             <!--<set>
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="1"
-//                     android:valueTo="1"
-//                     android:duration="0" />-->
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="1"
-//                     android:valueTo="0"
-//                     android:startOffset="1150"
-//                     android:duration="60"
-//                     android:interpolator="@android:anim/linear_interpolator" />
-//             <!--</set>-->
-//         </aapt:attr>
-//     </target>
+    const [fillAlpha, fillColor] = getBlocksFn(dot1.id);
+    expect(fillAlpha.propertyName).toBe('fillAlpha');
+    expect(fillAlpha.startTime).toBe(100);
+    expect(fillAlpha.endTime).toBe(160);
+    expect(fillAlpha.fromValue).toBe(0);
+    expect(fillAlpha.toValue).toBe(1);
+    expect(fillAlpha.interpolator).toBe('FAST_OUT_SLOW_IN');
+    expect(fillColor.propertyName).toBe('fillColor');
+    expect(fillColor.startTime).toBe(160);
+    expect(fillColor.endTime).toBe(460);
+    expect(fillColor.fromValue).toBe('#E2E2E2');
+    expect(fillColor.toValue).toBe('#F83E3E');
+    expect(fillColor.interpolator).toBe('ACCELERATE_DECELERATE');
 
-//     <!-- Target #5 -->
-//     <!--<target android:name="dot_3">
-//         <aapt:attr name="android:animation">
-//             <set>
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="0"
-//                     android:valueTo="0"
-//                     android:duration="0" />
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="0"
-//                     android:valueTo="1"
-//                     android:startOffset="420"
-//                     android:duration="60"
-//                     android:interpolator="@android:anim/linear_interpolator" />
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="1"
-//                     android:valueTo="0"
-//                     android:startOffset="1840"
-//                     android:duration="60"
-//                     android:interpolator="@android:anim/linear_interpolator" />
-//             </set>
-//         </aapt:attr>
-//     </target>-->
+    const [pathData, strokeWidth] = getBlocksFn(dot2.id);
+    expect(pathData.type).toBe('path');
+    expect(pathData.endTime).toBe(500);
+    expect(pathData.toValue.getPathString()).toBe('M 0 0 L 40 40');
+    expect(strokeWidth.type).toBe('number');
+    expect(strokeWidth.toValue).toBe(2);
+  });
 
-//     <!-- Target #6 -->
-//     <target android:name="dot_4">
-//         <aapt:attr name="android:animation">
-//             <!--<set>
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="0"
-//                     android:valueTo="0"
-//                     android:duration="0" />-->
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="0"
-//                     android:valueTo="1"
-//                     android:startOffset="1170"
-//                     android:duration="60"
-//                     android:interpolator="@android:anim/linear_interpolator" />
-//             <!--</set>-->
-//         </aapt:attr>
-//     </target>
+  it(`can import animated vector drawable with keyframes`, () => {
+    const xml = `
+<animated-vector
+    xmlns:android="http://schemas.android.com/apk/res/android"
+    xmlns:aapt="http://schemas.android.com/aapt">
+    <aapt:attr name="android:drawable">
+        <vector
+            android:width="24dp"
+            android:height="24dp"
+            android:viewportWidth="24"
+            android:viewportHeight="24">
+            <path
+                android:name="path"
+                android:pathData="M 0 0 L 10 10"
+                android:fillColor="#000" />
+        </vector>
+    </aapt:attr>
+    <target android:name="path">
+        <aapt:attr name="android:animation">
+            <objectAnimator android:duration="1000">
+                <propertyValuesHolder android:propertyName="strokeWidth">
+                    <keyframe android:fraction="0" android:value="0" />
+                    <keyframe android:fraction="0.25" android:value="4" />
+                    <keyframe
+                        android:fraction="1"
+                        android:value="2"
+                        android:interpolator="@android:interpolator/fast_out_slow_in" />
+                </propertyValuesHolder>
+            </objectAnimator>
+        </aapt:attr>
+    </target>
+</animated-vector>
+`;
+    const { animation } = VectorDrawableLoader.loadAnimationFromXmlString(xml, () => false);
+    const [strokeWidth] = animation.blocks;
+    expect(strokeWidth.fromValue).toBe(0);
+    expect(strokeWidth.toValue).toBe(2);
+    expect(strokeWidth.interpolator).toBe('FAST_OUT_SLOW_IN');
+    expect(strokeWidth.keyframes).toEqual([{ fraction: 0.25, value: 4, interpolator: 'LINEAR' }]);
+    expect(strokeWidth.getValueAtTime(125)).toBe(2);
+    expect(strokeWidth.getSegments().map(b => [b.startTime, b.endTime])).toEqual([
+      [0, 250],
+      [250, 1000],
+    ]);
+  });
 
-//     <!-- Target #7 -->
-//     <target android:name="dot_5">
-//         <aapt:attr name="android:animation">
-//             <!--<set>
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="0"
-//                     android:valueTo="0"
-//                     android:duration="0" />-->
-//                 <objectAnimator
-//                     android:propertyName="fillAlpha"
-//                     android:valueFrom="0"
-//                     android:valueTo="1"
-//                     android:startOffset="1900"
-//                     android:duration="60"
-//                     android:interpolator="@android:anim/linear_interpolator" />
-//             <!--</set>-->
-//         </aapt:attr>
-//     </target>
-// </animated-vector>
-// `;
-//     VectorDrawableLoader.loadAnimationFromXmlString(xml, 'anim', () => false);
-//   });
-// });
+  it(`can import animated vector drawable with repeating animators`, () => {
+    const xml = `
+<animated-vector
+    xmlns:android="http://schemas.android.com/apk/res/android"
+    xmlns:aapt="http://schemas.android.com/aapt">
+    <aapt:attr name="android:drawable">
+        <vector
+            android:width="24dp"
+            android:height="24dp"
+            android:viewportWidth="24"
+            android:viewportHeight="24">
+            <path
+                android:name="path"
+                android:pathData="M 0 0 L 10 10"
+                android:fillColor="#000" />
+        </vector>
+    </aapt:attr>
+    <target android:name="path">
+        <aapt:attr name="android:animation">
+            <set>
+                <objectAnimator
+                    android:propertyName="strokeWidth"
+                    android:valueFrom="0"
+                    android:valueTo="4"
+                    android:duration="100"
+                    android:repeatCount="2"
+                    android:repeatMode="reverse"
+                    android:interpolator="@android:anim/linear_interpolator" />
+                <objectAnimator
+                    android:propertyName="fillAlpha"
+                    android:valueFrom="0"
+                    android:valueTo="1"
+                    android:duration="200"
+                    android:repeatCount="infinite" />
+            </set>
+        </aapt:attr>
+    </target>
+</animated-vector>
+`;
+    const { animation } = VectorDrawableLoader.loadAnimationFromXmlString(xml, () => false);
+    const [strokeWidth, fillAlpha] = animation.blocks;
+    expect(strokeWidth.repeatCount).toBe(2);
+    expect(strokeWidth.repeatMode).toBe('reverse');
+    expect(strokeWidth.getActiveEndTime()).toBe(300);
+    expect(strokeWidth.getValueAtTime(50)).toBe(2);
+    expect(strokeWidth.getValueAtTime(125)).toBe(3);
+    expect(strokeWidth.getValueAtTime(300)).toBe(4);
+    expect(fillAlpha.repeatCount).toBe(-1);
+    expect(fillAlpha.repeatMode).toBe('restart');
+    expect(animation.duration).toBe(300);
+  });
+
+  it(`can import vector drawable with gradients`, () => {
+    const xml = `
+<vector
+    xmlns:android="http://schemas.android.com/apk/res/android"
+    xmlns:aapt="http://schemas.android.com/aapt"
+    android:width="24dp"
+    android:height="24dp"
+    android:viewportWidth="24"
+    android:viewportHeight="24">
+    <path android:name="path" android:pathData="M 0 0 L 24 0 L 24 24 Z">
+        <aapt:attr name="android:fillColor">
+            <gradient
+                android:type="linear"
+                android:startX="0"
+                android:startY="12"
+                android:endX="24"
+                android:endY="12"
+                android:tileMode="mirror">
+                <item android:offset="1" android:color="#ff0000" />
+                <item android:offset="0" android:color="#80000000" />
+            </gradient>
+        </aapt:attr>
+        <aapt:attr name="android:strokeColor">
+            <gradient
+                android:type="radial"
+                android:centerX="12"
+                android:centerY="12"
+                android:gradientRadius="6"
+                android:startColor="#000"
+                android:endColor="#fff" />
+        </aapt:attr>
+    </path>
+</vector>
+`;
+    const vl = VectorDrawableLoader.loadVectorLayerFromXmlString(xml, () => false);
+    const path = vl.children[0] as PathLayer;
+    expect(path.fillColor).toBe('');
+    expect(path.fillGradient).toEqual({
+      type: 'linear',
+      startX: 0,
+      startY: 12,
+      endX: 24,
+      endY: 12,
+      centerX: 0,
+      centerY: 0,
+      radius: 0,
+      tileMode: 'mirror',
+      stops: [{ offset: 0, color: '#80000000' }, { offset: 1, color: '#ff0000' }],
+    });
+    expect(path.strokeGradient.type).toBe('radial');
+    expect(path.strokeGradient.radius).toBe(6);
+    expect(path.strokeGradient.stops).toEqual([
+      { offset: 0, color: '#000' },
+      { offset: 1, color: '#fff' },
+    ]);
+    expect(path.isFilled()).toBe(true);
+    expect(path.isStroked()).toBe(true);
+  });
+});
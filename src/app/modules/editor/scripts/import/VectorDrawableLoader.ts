@@ -1,3 +1,5 @@
+import { Gradient, GradientStop, GradientUtil } from 'app/modules/editor/model/gradients';
+import { CustomInterpolator, INTERPOLATORS } from 'app/modules/editor/model/interpolators';
 import {
   ClipPathLayer,
   FillType,
@@ -11,11 +13,16 @@ import {
 } from 'app/modules/editor/model/layers';
 import { Path } from 'app/modules/editor/model/paths';
 import { NameProperty } from 'app/modules/editor/model/properties';
+import { Animation, AnimationBlock, Keyframe } from 'app/modules/editor/model/timeline';
 import { ColorUtil } from 'app/modules/editor/scripts/common';
 import * as _ from 'lodash';
 
-// import { INTERPOLATORS } from 'app/modules/editor/model/interpolators';
-// import { AnimationBlock } from 'app/modules/editor/model/timeline';
+// Android uses the accelerate/decelerate interpolator when none is specified.
+const DEFAULT_INTERPOLATOR = _.find(INTERPOLATORS, i => i.value === 'ACCELERATE_DECELERATE');
+// Keyframes without an interpolator are animated linearly.
+const DEFAULT_KEYFRAME_INTERPOLATOR = _.find(INTERPOLATORS, i => i.value === 'LINEAR');
+// Android uses a default duration of 300ms when none is specified.
+const DEFAULT_DURATION = '300';
 
 export function loadVectorLayerFromXmlString(
   xmlString: string,
@@ -26,9 +33,172 @@ export function loadVectorLayerFromXmlString(
   return loadVectorLayerFromElement(doc.documentElement, doesLayerNameExistFn);
 }
 
+/**
+ * Loads a VectorLayer and an Animation from an AnimatedVectorDrawable XML string.
+ * Returns undefined if the string doesn't contain an inline vector drawable.
+ */
+export function loadAnimationFromXmlString(
+  xmlString: string,
+  doesLayerNameExistFn: (name: string) => boolean,
+) {
+  const parser = new DOMParser();
+  const avdEl = parser.parseFromString(xmlString, 'application/xml').documentElement;
+  if (!avdEl || avdEl.tagName !== 'animated-vector') {
+    return undefined;
+  }
+  const vectorEl = _.first(
+    _.flatMap(getAaptAttrElements(avdEl, 'android:drawable'), e => getChildElements(e, 'vector')),
+  );
+  if (!vectorEl) {
+    // TODO: support AVDs that reference external vector drawable resources
+    return undefined;
+  }
+  const layerNamesMap = new Map<string, string>();
+  const vectorLayer = loadVectorLayerFromElement(vectorEl, doesLayerNameExistFn, layerNamesMap);
+
+  const blocks: AnimationBlock[] = [];
+  getChildElements(avdEl, 'target').forEach(targetEl => {
+    const layer = vectorLayer.findLayerByName(layerNamesMap.get(get(targetEl, 'name')));
+    if (!layer) {
+      return;
+    }
+    // TODO: support targets that reference external animator resources
+    _.flatMap(getAaptAttrElements(targetEl, 'android:animation'), e => getChildElements(e)).forEach(
+      animatorEl => loadAnimatorFromElement(animatorEl, layer, 0, blocks),
+    );
+  });
+
+  // Infinitely repeating blocks are given enough time to play their first iteration.
+  const endTimes = blocks.map(b => (b.repeatCount < 0 ? b.endTime : b.getActiveEndTime()));
+  const duration = _.max(endTimes) || Number(DEFAULT_DURATION);
+  const animation = new Animation({ blocks, duration });
+  return { vectorLayer, animation };
+}
+
+/**
+ * Recursively loads the animation blocks for the given <set> or <objectAnimator>
+ * element, and returns the time at which the animator ends.
+ */
+function loadAnimatorFromElement(
+  animatorEl: HTMLElement,
+  layer: Layer,
+  startTime: number,
+  blocks: AnimationBlock[],
+): number {
+  if (animatorEl.tagName === 'set') {
+    const isSequential = get(animatorEl, 'ordering', 'together') === 'sequentially';
+    let currentTime = startTime;
+    let endTime = startTime;
+    getChildElements(animatorEl).forEach(childEl => {
+      const childEndTime = loadAnimatorFromElement(childEl, layer, currentTime, blocks);
+      endTime = Math.max(endTime, childEndTime);
+      if (isSequential) {
+        currentTime = childEndTime;
+      }
+    });
+    return endTime;
+  }
+  if (animatorEl.tagName !== 'objectAnimator') {
+    return startTime;
+  }
+  const blockStartTime = startTime + getNumber(animatorEl, 'startOffset', '0');
+  const blockEndTime = blockStartTime + getNumber(animatorEl, 'duration', DEFAULT_DURATION);
+  const interpolator = getInterpolator(animatorEl);
+  const repeatCountStr = get(animatorEl, 'repeatCount', '0');
+  const repeatCount =
+    repeatCountStr === 'infinite' ? -1 : Math.max(-1, Math.floor(Number(repeatCountStr)) || 0);
+  // Repeat modes may also be specified using their integer values (restart=1, reverse=2).
+  const repeatModeStr = get(animatorEl, 'repeatMode', 'restart');
+  const repeatMode = repeatModeStr === 'reverse' || repeatModeStr === '2' ? 'reverse' : 'restart';
+  const valueHolderEls = getChildElements(animatorEl, 'propertyValuesHolder');
+  (valueHolderEls.length ? valueHolderEls : [animatorEl]).forEach(valueHolderEl => {
+    const propertyName = get(valueHolderEl, 'propertyName');
+    const property = layer.animatableProperties.get(propertyName);
+    if (!property) {
+      console.warn('Ignoring unsupported animated property: ', propertyName);
+      return;
+    }
+    let type: 'path' | 'color' | 'number';
+    let parseValueFn: (value: string) => any;
+    if (property.getTypeName() === 'PathProperty') {
+      type = 'path';
+      parseValueFn = value => new Path(value);
+    } else if (property.getTypeName() === 'ColorProperty') {
+      type = 'color';
+      parseValueFn = value => (ColorUtil.parseAndroidColor(value) ? value : undefined);
+    } else {
+      type = 'number';
+      parseValueFn = value => Number(value);
+    }
+    // Android animates from the property's current value if 'valueFrom' isn't specified.
+    const previousBlock = _.findLast(
+      blocks,
+      b => b.layerId === layer.id && b.propertyName === propertyName,
+    );
+    const currentValue = previousBlock ? previousBlock.toValue : (layer as any)[propertyName];
+    let fromValue: any;
+    let toValue: any;
+    let blockInterpolator = interpolator;
+    let keyframes: Keyframe[] = [];
+    try {
+      const keyframeEls = getChildElements(valueHolderEl, 'keyframe');
+      if (keyframeEls.length) {
+        const stops = _.sortBy(
+          keyframeEls.map(keyframeEl => {
+            const value = get(keyframeEl, 'value');
+            return {
+              fraction: _.clamp(getNumber(keyframeEl, 'fraction', '0'), 0, 1),
+              value: value ? parseValueFn(value) : property.cloneValue(currentValue),
+              interpolator: getInterpolator(keyframeEl, DEFAULT_KEYFRAME_INTERPOLATOR),
+            };
+          }),
+          k => k.fraction,
+        );
+        // A single keyframe animates from the property's current value.
+        fromValue = stops.length > 1 ? stops[0].value : property.cloneValue(currentValue);
+        toValue = _.last(stops).value;
+        blockInterpolator = _.last(stops).interpolator;
+        keyframes = stops.slice(1, -1).map(k => ({ ...k, interpolator: k.interpolator.value }));
+      } else {
+        const valueFrom = get(valueHolderEl, 'valueFrom');
+        fromValue = valueFrom ? parseValueFn(valueFrom) : property.cloneValue(currentValue);
+        toValue = parseValueFn(get(valueHolderEl, 'valueTo'));
+      }
+    } catch (e) {
+      console.warn('Failed to import animated property: ', propertyName);
+      return;
+    }
+    if (blockStartTime === 0 && blockEndTime === 0) {
+      // Zero duration animators at the beginning of the animation are
+      // usually used to initialize the layer's property value.
+      (layer as any)[propertyName] = toValue;
+      return;
+    }
+    blocks.push(
+      AnimationBlock.from({
+        layerId: layer.id,
+        propertyName,
+        startTime: blockStartTime,
+        // Animation blocks must have a non-zero duration.
+        endTime: Math.max(blockEndTime, blockStartTime + 1),
+        interpolator: blockInterpolator.value,
+        repeatCount,
+        repeatMode,
+        fromValue,
+        toValue,
+        type,
+        keyframes,
+      }),
+    );
+  });
+  // Infinitely repeating animators never end, so only their first iteration is counted.
+  return blockEndTime + Math.max(0, repeatCount) * (blockEndTime - blockStartTime);
+}
+
 function loadVectorLayerFromElement(
   docEl: HTMLElement,
   doesLayerNameExistFn: (name: string) => boolean,
+  layerNamesMap = new Map<string, string>(),
 ) {
   if (!docEl) {
     return undefined;
@@ -40,6 +210,10 @@ function loadVectorLayerFromElement(
       n => doesLayerNameExistFn(n) || usedNames.has(n),
     );
     usedNames.add(finalName);
+    if (value) {
+      // Keep track of the original names so that AVD targets can be resolved.
+      layerNamesMap.set(value, finalName);
+    }
     return finalName;
   };
 
@@ -55,8 +229,10 @@ function loadVectorLayerFromElement(
         children: [],
         pathData: getPath(node),
         fillColor: getColor(node, 'fillColor', ''),
+        fillGradient: getGradient(node, 'fillColor'),
         fillAlpha: getNumber(node, 'fillAlpha', '1'),
         strokeColor: getColor(node, 'strokeColor', ''),
+        strokeGradient: getGradient(node, 'strokeColor'),
         strokeAlpha: getNumber(node, 'strokeAlpha', '1'),
         strokeWidth: getNumber(node, 'strokeWidth', '0'),
         strokeLinecap: get(node, 'strokeLineCap', 'butt') as StrokeLineCap,
@@ -117,105 +293,6 @@ function loadVectorLayerFromElement(
   });
 }
 
-// export function loadAnimationFromXmlString(
-//   xmlString: string,
-//   animationName: string,
-//   doesLayerNameExistFn: (name: string) => boolean) {
-
-//   const parser = new DOMParser();
-//   const avdNode = parser.parseFromString(xmlString, 'application/xml').documentElement;
-//   const vl =
-//     _(Array.from(avdNode.childNodes))
-//       .filter(elem => {
-//         return isElement(elem)
-//           && elem.tagName === 'aapt:attr'
-//           && elem.hasAttribute('name')
-//           && elem.getAttribute('name') === 'android:drawable';
-//       })
-//       .map((elem: HTMLElement) => {
-//         return _(Array.from(elem.childNodes))
-//           .filter(e => isElement(e) && e.tagName === 'vector')
-//           .map((e: HTMLElement) => loadVectorLayerFromElement(e, doesLayerNameExistFn))
-//           .first();
-//       })
-//       .first();
-//   if (!vl) {
-//     return undefined;
-//   }
-//   const blocks =
-//     _(Array.from(avdNode.childNodes))
-//       .filter(e => {
-//         return isElement(e)
-//           && e.tagName === 'target'
-//           && !!e.getAttribute('android:name');
-//       })
-//       .flatMap((targetElem: HTMLElement) => {
-//         const targetName = targetElem.getAttribute('android:name');
-//         const layerId = vl.findLayerByName(targetName).id;
-//         const animElem =
-//           _(Array.from(targetElem.childNodes))
-//             .filter(elem => {
-//               return isElement(elem)
-//                 && elem.tagName === 'aapt:attr'
-//                 && elem.hasAttribute('name')
-//                 && elem.getAttribute('name') === 'android:animation'
-//                 && elem.childNodes.length;
-//             })
-//             .flatMap((elem: HTMLElement) => Array.from(elem.childNodes))
-//             .filter(e => isElement(e) && (e.tagName === 'set' || e.tagName === 'objectAnimator'))
-//             .map((e: HTMLElement) => {
-//               if (e.tagName === 'set') {
-//                 // TODO: handle animator set case
-//                 return undefined;
-//               }
-//               // Otherwise it is an object animator.
-//               return e;
-//             })
-//             .first() as HTMLElement;
-//         const animationBlocks: AnimationBlock[] = [];
-//         const propertyName = get(animElem, 'propertyName');
-//         const fromValue = get(animElem, 'valueFrom');
-//         const toValue = get(animElem, 'valueTo');
-//         // TODO: confirm difference between @android:anim and @android:interpolator
-//         // TODO: @android:interpolator/linear doesn't work
-//         const interpolatorRef =
-//           get(animElem, 'interpolator', '@android:anim/accelerate_decelerate_interpolator');
-//         const interpolator = _.find(INTERPOLATORS, i => i.androidRef === interpolatorRef).value;
-//         const startTime = Number(get(animElem, 'startOffset'));
-//         const endTime = startTime + Number(get(animElem, 'duration'));
-//         if (get(animElem, 'valueType') === 'pathType' && propertyName === 'pathData') {
-//           animationBlocks.push(AnimationBlock.from({
-//             layerId,
-//             propertyName,
-//             fromValue: new Path(fromValue),
-//             toValue: new Path(toValue),
-//             startTime,
-//             endTime,
-//             interpolator,
-//             type: 'path',
-//           }));
-//         } else if (propertyName === 'fillAlpha' || propertyName === 'translateX') {
-//           animationBlocks.push(AnimationBlock.from({
-//             layerId,
-//             propertyName,
-//             fromValue: Number(fromValue),
-//             toValue: Number(toValue),
-//             startTime,
-//             endTime,
-//             interpolator,
-//             type: 'number',
-//           }));
-//         }
-//         // TODO: return a list of animation blocks here
-//         return animationBlocks;
-//       })
-//       .value();
-// const avdTargetElements = avdChildElements.filter(e => e.tagName === 'target');
-// avdTargetElements.forEach(e => getTargetFn(e));
-// console.info(vl, avdTargetElements);
-//   return undefined;
-// }
-
 function isElement(node: Node): node is HTMLElement {
   return (
     node &&
@@ -225,6 +302,97 @@ function isElement(node: Node): node is HTMLElement {
   );
 }
 
+function getChildElements(node: Node, tagName?: string) {
+  return Array.from(node.childNodes).filter(
+    (child): child is HTMLElement => isElement(child) && (!tagName || child.tagName === tagName),
+  );
+}
+
+function getAaptAttrElements(node: Node, name: string) {
+  return getChildElements(node, 'aapt:attr').filter(e => e.getAttribute('name') === name);
+}
+
+/**
+ * Returns the interpolator referenced by the given animator element. References
+ * such as '@android:anim/linear_interpolator' and '@android:interpolator/linear'
+ * are treated as equivalent.
+ */
+function getInterpolator(obj: HTMLElement, defaultInterpolator = DEFAULT_INTERPOLATOR) {
+  const [attrEl] = getAaptAttrElements(obj, 'android:interpolator');
+  if (attrEl) {
+    const [resourceEl] = getChildElements(attrEl);
+    const inlineInterpolator = resourceEl && getInlineInterpolator(resourceEl);
+    if (!inlineInterpolator) {
+      console.warn('Ignoring unsupported inline interpolator');
+      return defaultInterpolator;
+    }
+    return inlineInterpolator;
+  }
+  const normalizeFn = (ref: string) =>
+    ref.replace(/^@(android:)?(anim|interpolator)\//, '').replace(/_interpolator$/, '');
+  const interpolatorRef = get(obj, 'interpolator');
+  if (!interpolatorRef) {
+    return defaultInterpolator;
+  }
+  const interpolator = _.find(
+    INTERPOLATORS,
+    i => normalizeFn(i.androidRef) === normalizeFn(interpolatorRef),
+  );
+  if (!interpolator) {
+    console.warn('Ignoring unsupported interpolator: ', interpolatorRef);
+    return defaultInterpolator;
+  }
+  return interpolator;
+}
+
+/**
+ * Returns the custom interpolator described by an inline interpolator
+ * resource (i.e. a <pathInterpolator> nested in an <aapt:attr> element).
+ */
+function getInlineInterpolator(resourceEl: HTMLElement) {
+  let value: string;
+  switch (resourceEl.tagName) {
+    case 'pathInterpolator':
+      if (get(resourceEl, 'pathData')) {
+        value = CustomInterpolator.format('path', [], get(resourceEl, 'pathData'));
+      } else if (resourceEl.hasAttribute('android:controlX2')) {
+        value = CustomInterpolator.format('cubic-bezier', [
+          getNumber(resourceEl, 'controlX1', '0'),
+          getNumber(resourceEl, 'controlY1', '0'),
+          getNumber(resourceEl, 'controlX2', '1'),
+          getNumber(resourceEl, 'controlY2', '1'),
+        ]);
+      } else {
+        // Convert the quadratic bezier into an equivalent cubic bezier.
+        const x = getNumber(resourceEl, 'controlX1', '0');
+        const y = getNumber(resourceEl, 'controlY1', '0');
+        value = CustomInterpolator.format('cubic-bezier', [
+          (2 * x) / 3,
+          (2 * y) / 3,
+          1 + (2 * (x - 1)) / 3,
+          1 + (2 * (y - 1)) / 3,
+        ]);
+      }
+      break;
+    case 'overshootInterpolator':
+      value = CustomInterpolator.format('overshoot', [getNumber(resourceEl, 'tension', '2')]);
+      break;
+    case 'anticipateInterpolator':
+      value = CustomInterpolator.format('anticipate', [getNumber(resourceEl, 'tension', '2')]);
+      break;
+    case 'anticipateOvershootInterpolator': {
+      const tension = getNumber(resourceEl, 'tension', '2');
+      const extraTension = getNumber(resourceEl, 'extraTension', '1.5');
+      // Custom anticipate/overshoot interpolators always use an extra tension of 1.5.
+      value = CustomInterpolator.format('anticipate-overshoot', [(tension * extraTension) / 1.5]);
+      break;
+    }
+    default:
+      return undefined;
+  }
+  return CustomInterpolator.create(value);
+}
+
 function get(obj: HTMLElement, attr: string, def = '') {
   const androidAttr = `android:${attr}`;
   return obj.hasAttribute(androidAttr) ? obj.getAttribute(androidAttr) : def;
@@ -252,3 +420,44 @@ function getColor(obj: HTMLElement, attr: string, def = '') {
   const color = obj.hasAttribute(androidAttr) ? obj.getAttribute(androidAttr) : def;
   return !!ColorUtil.parseAndroidColor(color) ? color : def;
 }
+
+/**
+ * Returns the gradient defined by the color attribute's inline <gradient>
+ * resource, if one exists.
+ */
+function getGradient(obj: HTMLElement, attr: string): Gradient {
+  const [attrEl] = getAaptAttrElements(obj, `android:${attr}`);
+  const gradientEl = attrEl ? getChildElements(attrEl, 'gradient')[0] : undefined;
+  if (!gradientEl) {
+    return undefined;
+  }
+  const type = get(gradientEl, 'type', 'linear');
+  if (type !== 'linear' && type !== 'radial') {
+    console.warn('Ignoring unsupported gradient type: ', type);
+    return undefined;
+  }
+  let stops: GradientStop[] = getChildElements(gradientEl, 'item').map(itemEl => {
+    return { offset: getNumber(itemEl, 'offset', '0'), color: getColor(itemEl, 'color', '#000') };
+  });
+  if (!stops.length) {
+    // Gradients without items are defined by their start, center, and end colors.
+    stops = [
+      { offset: 0, color: getColor(gradientEl, 'startColor', '#000') },
+      { offset: 0.5, color: getColor(gradientEl, 'centerColor', '') },
+      { offset: 1, color: getColor(gradientEl, 'endColor', '#000') },
+    ].filter(s => !!s.color);
+  }
+  const tileMode = get(gradientEl, 'tileMode', 'clamp');
+  return GradientUtil.normalize({
+    type,
+    startX: getNumber(gradientEl, 'startX', '0'),
+    startY: getNumber(gradientEl, 'startY', '0'),
+    endX: getNumber(gradientEl, 'endX', '0'),
+    endY: getNumber(gradientEl, 'endY', '0'),
+    centerX: getNumber(gradientEl, 'centerX', '0'),
+    centerY: getNumber(gradientEl, 'centerY', '0'),
+    radius: getNumber(gradientEl, 'gradientRadius', '0'),
+    tileMode: tileMode === 'repeat' || tileMode === 'mirror' ? tileMode : 'clamp',
+    stops,
+  });
+}
@@ -0,0 +1,63 @@
+import { MathUtil } from 'app/modules/editor/scripts/common';
+import * as paper from 'paper';
+
+import { ArrowKey, ShapeGesture } from './ShapeGesture';
+
+// The length of the arrow head as a fraction of the line's length.
+const ARROW_HEAD_LENGTH_FRACTION = 0.2;
+// The angle in degrees between the line and each side of the arrow head.
+const ARROW_HEAD_ANGLE = 30;
+
+/**
+ * A gesture that creates a straight line, optionally ending in an arrow head.
+ * Pressing shift snaps the line to 45 degree angles, and the up and down arrow
+ * keys add and remove the arrow head.
+ */
+export class LineGesture extends ShapeGesture {
+  // @Override
+  protected newPathFromDrag(
+    vpDownPoint: paper.Point,
+    vpPoint: paper.Point,
+    { alt, shift }: paper.Event['modifiers'],
+  ) {
+    let vpDelta = vpPoint.subtract(vpDownPoint);
+    if (shift) {
+      vpDelta = new paper.Point(MathUtil.snapVectorToAngle(vpDelta, 45));
+    }
+    // If alt is pressed, then the initial downpoint represents the line's center point.
+    const vpFrom = alt ? vpDownPoint.subtract(vpDelta) : vpDownPoint;
+    return this.newLine(vpFrom, vpDownPoint.add(vpDelta));
+  }
+
+  // @Override
+  protected newPath(vpBounds: paper.Rectangle) {
+    return this.newLine(vpBounds.topLeft, vpBounds.bottomRight);
+  }
+
+  // @Override
+  protected onArrowKeyDown(key: ArrowKey) {
+    if (key !== 'up' && key !== 'down') {
+      return false;
+    }
+    const options = this.ps.getShapeToolOptions();
+    this.ps.setShapeToolOptions({ ...options, hasArrowHead: key === 'up' });
+    return true;
+  }
+
+  private newLine(vpFrom: paper.Point, vpTo: paper.Point) {
+    const line = new paper.Path.Line(vpFrom, vpTo);
+    const length = vpFrom.getDistance(vpTo);
+    if (!this.ps.getShapeToolOptions().hasArrowHead || !length) {
+      return line;
+    }
+    const vpBack = vpFrom.subtract(vpTo).normalize(length * ARROW_HEAD_LENGTH_FRACTION);
+    const arrowHead = new paper.Path([
+      vpTo.add(vpBack.rotate(ARROW_HEAD_ANGLE)),
+      vpTo,
+      vpTo.add(vpBack.rotate(-ARROW_HEAD_ANGLE)),
+    ]);
+    const path = new paper.CompoundPath('');
+    path.addChildren([line, arrowHead]);
+    return path;
+  }
+}
@@ -0,0 +1,211 @@
+import { PathLayer } from 'app/modules/editor/model/layers';
+import { CursorType, ToolMode } from 'app/modules/editor/model/paper';
+import { MathUtil } from 'app/modules/editor/scripts/common';
+import { Gesture } from 'app/modules/editor/scripts/paper/gesture';
+import { PaperLayer } from 'app/modules/editor/scripts/paper/item';
+import { PaperUtil } from 'app/modules/editor/scripts/paper/util';
+import { PaperService } from 'app/modules/editor/services';
+import * as paper from 'paper';
+
+// The distance in view pixels within which the user can hit an end point.
+const END_POINT_TOLERANCE = 8;
+
+/**
+ * A gesture that draws a bezier path one segment at a time. Clicking adds a
+ * corner segment, dragging pulls out symmetric handles, and alt-dragging breaks
+ * the handles so that only one of them is dragged. Clicking the first segment
+ * closes the path, and pressing enter or escape finishes an open path. Note that
+ * unlike the other create gestures, a pen gesture spans multiple mouse down and
+ * mouse up events.
+ *
+ * If a path layer is selected when the gesture begins, clicking one of its open
+ * subpath's end points will continue the subpath instead of creating a new path.
+ *
+ * Preconditions:
+ * - The user is in pen mode.
+ */
+export class PenGesture extends Gesture {
+  private readonly pl = paper.project.activeLayer as PaperLayer;
+
+  // The path being drawn in viewport coordinates.
+  private readonly vpPath = new paper.Path();
+  // The segment whose handles are modified on mouse drag.
+  private dragSegment: paper.Segment;
+  // True if the last mouse down event closed the path.
+  private isClosingPath = false;
+  // The path layer and subpath index being continued, if there is one.
+  private continuedSubPathInfo: Readonly<{ layerId: string; subIdx: number }>;
+
+  constructor(private readonly ps: PaperService) {
+    super();
+    this.vpPath.remove();
+  }
+
+  // @Override
+  onMouseDown(event: paper.ToolEvent) {
+    const vpPoint = this.pl.globalToLocal(event.point);
+    if (!this.vpPath.segments.length) {
+      if (!this.continueOpenSubPath(vpPoint)) {
+        this.vpPath.add(vpPoint);
+      }
+      this.dragSegment = this.vpPath.lastSegment;
+    } else if (
+      this.vpPath.segments.length > 1 &&
+      this.isEndPoint(vpPoint, this.vpPath.firstSegment)
+    ) {
+      this.vpPath.closed = true;
+      this.isClosingPath = true;
+      this.dragSegment = this.vpPath.firstSegment;
+    } else {
+      this.dragSegment = this.vpPath.add(vpPoint);
+    }
+    this.updateCreatePathInfo();
+  }
+
+  // @Override
+  onMouseDrag(event: paper.ToolEvent) {
+    const vpPoint = this.pl.globalToLocal(event.point);
+    let vpDelta = vpPoint.subtract(this.dragSegment.point);
+    if (event.modifiers.shift) {
+      vpDelta = new paper.Point(MathUtil.snapVectorToAngle(vpDelta, 45));
+    }
+    const segment = this.dragSegment;
+    if (this.isClosingPath) {
+      // The first segment's out handle was dragged when the path was started,
+      // so breaking the handles should only affect its in handle.
+      segment.handleIn = vpDelta.multiply(-1);
+      if (!event.modifiers.alt) {
+        segment.handleOut = vpDelta;
+      }
+    } else {
+      segment.handleOut = vpDelta;
+      if (!event.modifiers.alt) {
+        segment.handleIn = vpDelta.multiply(-1);
+      }
+    }
+    this.updateCreatePathInfo();
+  }
+
+  // @Override
+  onMouseMove(event: paper.ToolEvent) {
+    if (!this.vpPath.segments.length) {
+      return;
+    }
+    const vpPoint = this.pl.globalToLocal(event.point);
+    if (this.vpPath.segments.length > 1 && this.isEndPoint(vpPoint, this.vpPath.firstSegment)) {
+      this.ps.setCursorType(CursorType.PenClose);
+      this.updateCreatePathInfo(this.vpPath.firstSegment.point);
+    } else {
+      this.ps.setCursorType(CursorType.Pen);
+      this.updateCreatePathInfo(vpPoint);
+    }
+  }
+
+  // @Override
+  onMouseUp(event: paper.ToolEvent) {
+    if (this.isClosingPath) {
+      this.finishGesture();
+    }
+  }
+
+  // @Override
+  onKeyDown(event: paper.KeyEvent) {
+    if (event.key === 'escape' || event.key === 'enter') {
+      this.finishGesture();
+    }
+  }
+
+  /** Discards the path being drawn without adding it to the store. */
+  cancel() {
+    this.ps.setCreatePathInfo(undefined);
+  }
+
+  /**
+   * Begins the path at one of the selected path layer's open subpath end points.
+   * Returns false if the point doesn't hit an open subpath end point.
+   */
+  private continueOpenSubPath(vpPoint: paper.Point) {
+    const selectedLayerIds = this.ps.getSelectedLayerIds();
+    if (selectedLayerIds.size !== 1) {
+      return false;
+    }
+    const layerId: string = selectedLayerIds.values().next().value;
+    const layer = this.ps.getVectorLayer().findLayerById(layerId);
+    if (!(layer instanceof PathLayer) || !layer.pathData) {
+      return false;
+    }
+    const item = this.pl.findItemByLayerId(layerId);
+    const subPaths = getSubPaths(layer);
+    for (let subIdx = 0; subIdx < subPaths.length; subIdx++) {
+      const subPath = subPaths[subIdx];
+      if (subPath.closed || !subPath.segments.length) {
+        continue;
+      }
+      transformSegments(subPath, p => this.pl.globalToLocal(item.localToGlobal(p)));
+      if (this.isEndPoint(vpPoint, subPath.firstSegment)) {
+        // Always append the new segments to the end of the path.
+        subPath.reverse();
+      } else if (!this.isEndPoint(vpPoint, subPath.lastSegment)) {
+        continue;
+      }
+      this.vpPath.addSegments(subPath.segments);
+      this.continuedSubPathInfo = { layerId, subIdx };
+      return true;
+    }
+    return false;
+  }
+
+  private isEndPoint(vpPoint: paper.Point, segment: paper.Segment) {
+    const viewPoint1 = paper.view.projectToView(this.pl.localToGlobal(vpPoint));
+    const viewPoint2 = paper.view.projectToView(this.pl.localToGlobal(segment.point));
+    return viewPoint1.isClose(viewPoint2, END_POINT_TOLERANCE);
+  }
+
+  /** Shows the path along with a preview of the next curve, if there is one. */
+  private updateCreatePathInfo(vpNextPoint?: paper.Point) {
+    const previewPath = this.vpPath.clone(false) as paper.Path;
+    if (vpNextPoint && !previewPath.closed) {
+      previewPath.add(vpNextPoint);
+    }
+    this.ps.setCreatePathInfo({ pathData: previewPath.pathData, strokeColor: '#979797' });
+  }
+
+  private finishGesture() {
+    this.ps.setCreatePathInfo(undefined);
+    if (this.continuedSubPathInfo) {
+      const { layerId, subIdx } = this.continuedSubPathInfo;
+      const layer = this.ps.getVectorLayer().findLayerById(layerId) as PathLayer;
+      const item = this.pl.findItemByLayerId(layerId);
+      const newSubPath = this.vpPath.clone(false) as paper.Path;
+      transformSegments(newSubPath, p => item.globalToLocal(this.pl.localToGlobal(p)));
+      const pathData = getSubPaths(layer)
+        .map((p, i) => (i === subIdx ? newSubPath.pathData : p.pathData))
+        .join(' ');
+      PaperUtil.replacePathInStore(this.ps, layerId, pathData);
+    } else if (this.vpPath.segments.length > 1) {
+      const newPathLayer = PaperUtil.addPathToStore(this.ps, this.vpPath.pathData);
+      this.ps.setSelectedLayerIds(new Set([newPathLayer.id]));
+    }
+    this.ps.setToolMode(ToolMode.Default);
+    this.ps.setCursorType(CursorType.Default);
+  }
+}
+
+/** Returns a list of the path layer's subpaths in its local coordinates. */
+function getSubPaths(layer: PathLayer) {
+  const compoundPath = new paper.CompoundPath(layer.pathData.getPathString());
+  compoundPath.remove();
+  return compoundPath.children as paper.Path[];
+}
+
+/** Transforms the path's segment points and handles using the given function. */
+function transformSegments(path: paper.Path, transformFn: (point: paper.Point) => paper.Point) {
+  path.segments.forEach(s => {
+    const point = transformFn(s.point);
+    const handleIn = transformFn(s.point.add(s.handleIn)).subtract(point);
+    const handleOut = transformFn(s.point.add(s.handleOut)).subtract(point);
+    s.point = point;
+    s.handleIn = handleIn;
+    s.handleOut = handleOut;
+  });
+}
@@ -1,10 +1,16 @@
 import { ToolMode } from 'app/modules/editor/model/paper';
+import { Path } from 'app/modules/editor/model/paths';
+import { PathSimplifier } from 'app/modules/editor/scripts/algorithms';
 import { Gesture } from 'app/modules/editor/scripts/paper/gesture';
 import { PaperLayer } from 'app/modules/editor/scripts/paper/item';
 import { PaperUtil } from 'app/modules/editor/scripts/paper/util';
 import { PaperService } from 'app/modules/editor/services';
 import * as paper from 'paper';
 
+// The distance in view pixels that the simplified pencil path may deviate
+// from the points that were drawn.
+const SIMPLIFY_TOLERANCE = 2;
+
 /**
  * A gesture that draws a path.
  *
@@ -64,11 +70,28 @@ export class PencilGesture extends Gesture {
       if (projStartPoint.isClose(projLastPoint, 10)) {
         newPath.closePath(true);
       }
-      newPath.smooth({ type: 'continuous' });
-      const newPathLayer = PaperUtil.addPathToStore(this.ps, newPath.pathData);
+      const path = new Path(newPath.pathData);
+      const simplifiedPath = PathSimplifier.simplify(path, {
+        tolerance: this.getViewportTolerance(),
+        preserveCorners: false,
+      });
+      let pathData = simplifiedPath.getPathString();
+      if (simplifiedPath === path) {
+        // Fall back to smoothing the raw pencil path if it couldn't be simplified.
+        newPath.smooth({ type: 'continuous' });
+        pathData = newPath.pathData;
+      }
+      const newPathLayer = PaperUtil.addPathToStore(this.ps, pathData);
       this.ps.setSelectedLayerIds(new Set([newPathLayer.id]));
       this.ps.setCreatePathInfo(undefined);
     }
     this.ps.setToolMode(ToolMode.Default);
   }
+
+  /** Converts the simplify tolerance from view pixels into viewport units. */
+  private getViewportTolerance() {
+    const projTolerance = SIMPLIFY_TOLERANCE / paper.view.zoom;
+    const vpOrigin = this.pl.globalToLocal(new paper.Point(0, 0));
+    return this.pl.globalToLocal(new paper.Point(projTolerance, 0)).getDistance(vpOrigin);
+  }
 }
@@ -0,0 +1,42 @@
+import * as _ from 'lodash';
+import * as paper from 'paper';
+
+import { ArrowKey, ShapeGesture } from './ShapeGesture';
+
+export const MIN_POLYGON_SIDES = 3;
+
+/**
+ * A gesture that creates a regular polygon inscribed in the dragged bounds,
+ * with its first vertex pointing up. The up and down arrow keys add and
+ * remove sides.
+ */
+export class PolygonGesture extends ShapeGesture {
+  // @Override
+  protected newPath(vpBounds: paper.Rectangle) {
+    const { polygonSides } = this.ps.getShapeToolOptions();
+    const { center, width, height } = vpBounds;
+    const vpPoints = _.range(polygonSides).map(i => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * i) / polygonSides;
+      const x = (Math.cos(angle) * Math.abs(width)) / 2;
+      const y = (Math.sin(angle) * Math.abs(height)) / 2;
+      return center.add(new paper.Point(x, y));
+    });
+    const path = new paper.Path(vpPoints);
+    path.closed = true;
+    return path;
+  }
+
+  // @Override
+  protected onArrowKeyDown(key: ArrowKey) {
+    if (key !== 'up' && key !== 'down') {
+      return false;
+    }
+    const options = this.ps.getShapeToolOptions();
+    const polygonSides = Math.max(
+      MIN_POLYGON_SIDES,
+      options.polygonSides + (key === 'up' ? 1 : -1),
+    );
+    this.ps.setShapeToolOptions({ ...options, polygonSides });
+    return true;
+  }
+}
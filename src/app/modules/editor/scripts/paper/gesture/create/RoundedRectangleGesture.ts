@@ -0,0 +1,30 @@
+import * as paper from 'paper';
+
+import { ArrowKey, ShapeGesture } from './ShapeGesture';
+
+/**
+ * A gesture that creates a rectangular path with rounded corners. The up and
+ * down arrow keys increase and decrease the corner radius.
+ */
+export class RoundedRectangleGesture extends ShapeGesture {
+  // @Override
+  protected newPath(vpBounds: paper.Rectangle) {
+    const { cornerRadius } = this.ps.getShapeToolOptions();
+    // Normalize the bounds, as paper.js doesn't clamp the corner radius correctly
+    // for rectangles with a negative width or height.
+    const vpRect = new paper.Rectangle(vpBounds.topLeft, vpBounds.bottomRight);
+    const radius = Math.min(cornerRadius, vpRect.width / 2, vpRect.height / 2);
+    return new paper.Path.Rectangle(vpRect, new paper.Size(radius, radius));
+  }
+
+  // @Override
+  protected onArrowKeyDown(key: ArrowKey) {
+    if (key !== 'up' && key !== 'down') {
+      return false;
+    }
+    const options = this.ps.getShapeToolOptions();
+    const cornerRadius = Math.max(0, options.cornerRadius + (key === 'up' ? 1 : -1));
+    this.ps.setShapeToolOptions({ ...options, cornerRadius });
+    return true;
+  }
+}
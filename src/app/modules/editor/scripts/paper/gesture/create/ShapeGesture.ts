@@ -5,13 +5,18 @@ import { PaperUtil } from 'app/modules/editor/scripts/paper/util';
 import { PaperService } from 'app/modules/editor/services';
 import * as paper from 'paper';
 
+// The arrow keys that can be used to adjust a shape while it is being dragged.
+export type ArrowKey = 'up' | 'down' | 'left' | 'right';
+
+const ARROW_KEYS: ReadonlyArray<string> = ['up', 'down', 'left', 'right'];
+
 /** Base class for all shape-building gestures. */
 export abstract class ShapeGesture extends Gesture {
   private readonly pl = paper.project.activeLayer as PaperLayer;
 
   private vpLastDragInfo: Readonly<{ vpDownPoint: paper.Point; vpPoint: paper.Point }>;
 
-  constructor(private readonly ps: PaperService) {
+  constructor(protected readonly ps: PaperService) {
     super();
   }
 
@@ -39,6 +44,10 @@ export abstract class ShapeGesture extends Gesture {
       this.processEvent(event);
     } else if (event.key === 'escape') {
       this.finishGesture();
+    } else if (ARROW_KEYS.includes(event.key) && this.onArrowKeyDown(event.key as ArrowKey)) {
+      // Prevent the arrow key from also triggering a keyboard shortcut.
+      event.stop();
+      this.processEvent(event);
     }
   }
 
@@ -49,9 +58,29 @@ export abstract class ShapeGesture extends Gesture {
     }
   }
 
-  private processEvent({ modifiers: { alt, shift } }: paper.Event) {
+  private processEvent({ modifiers }: paper.Event) {
+    if (!this.vpLastDragInfo) {
+      return;
+    }
     const { vpDownPoint, vpPoint } = this.vpLastDragInfo;
+    const { pathData } = this.newPathFromDrag(vpDownPoint, vpPoint, modifiers);
+    this.ps.setCreatePathInfo({ pathData, strokeColor: '#979797' });
+  }
 
+  private finishGesture() {
+    this.ps.setCreatePathInfo(undefined);
+    this.ps.setToolMode(ToolMode.Default);
+  }
+
+  /**
+   * Creates a new path given the points at which the drag began and ended. By
+   * default the drag describes the path's bounding box.
+   */
+  protected newPathFromDrag(
+    vpDownPoint: paper.Point,
+    vpPoint: paper.Point,
+    { alt, shift }: paper.Event['modifiers'],
+  ): paper.PathItem {
     // If shift is pressed, then set the height equal to the width.
     const vpSize = new paper.Size(
       vpPoint.x - vpDownPoint.x,
@@ -63,15 +92,17 @@ export abstract class ShapeGesture extends Gesture {
       ? vpDownPoint.subtract(new paper.Point(vpSize.width / 2, vpSize.height / 2))
       : vpDownPoint;
 
-    const { pathData } = this.newPath(new paper.Rectangle(vpTopLeft, vpSize));
-    this.ps.setCreatePathInfo({ pathData, strokeColor: '#979797' });
+    return this.newPath(new paper.Rectangle(vpTopLeft, vpSize));
   }
 
-  private finishGesture() {
-    this.ps.setCreatePathInfo(undefined);
-    this.ps.setToolMode(ToolMode.Default);
+  /**
+   * Called when an arrow key is pressed during the gesture. Returns true if the
+   * shape was adjusted as a result, in which case the path will be rebuilt.
+   */
+  protected onArrowKeyDown(key: ArrowKey) {
+    return false;
   }
 
   /** Factory method that creates a new path given its bounding box. */
-  protected abstract newPath(vpBounds: paper.Rectangle): paper.Path;
+  protected abstract newPath(vpBounds: paper.Rectangle): paper.PathItem;
 }
@@ -0,0 +1,52 @@
+import * as _ from 'lodash';
+import * as paper from 'paper';
+
+import { ArrowKey, ShapeGesture } from './ShapeGesture';
+
+export const MIN_STAR_POINTS = 3;
+export const MIN_STAR_INNER_RADIUS = 0.05;
+export const MAX_STAR_INNER_RADIUS = 0.95;
+
+// The amount by which the left and right arrow keys change the inner radius.
+const INNER_RADIUS_STEP = 0.05;
+
+/**
+ * A gesture that creates a star inscribed in the dragged bounds, with its first
+ * point pointing up. The up and down arrow keys add and remove points, and the
+ * left and right arrow keys decrease and increase the inner radius.
+ */
+export class StarGesture extends ShapeGesture {
+  // @Override
+  protected newPath(vpBounds: paper.Rectangle) {
+    const { starPoints, starInnerRadius } = this.ps.getShapeToolOptions();
+    const { center, width, height } = vpBounds;
+    const vpPoints = _.range(starPoints * 2).map(i => {
+      const angle = -Math.PI / 2 + (Math.PI * i) / starPoints;
+      const radius = i % 2 ? starInnerRadius : 1;
+      const x = (Math.cos(angle) * radius * Math.abs(width)) / 2;
+      const y = (Math.sin(angle) * radius * Math.abs(height)) / 2;
+      return center.add(new paper.Point(x, y));
+    });
+    const path = new paper.Path(vpPoints);
+    path.closed = true;
+    return path;
+  }
+
+  // @Override
+  protected onArrowKeyDown(key: ArrowKey) {
+    const options = this.ps.getShapeToolOptions();
+    if (key === 'up' || key === 'down') {
+      const starPoints = Math.max(MIN_STAR_POINTS, options.starPoints + (key === 'up' ? 1 : -1));
+      this.ps.setShapeToolOptions({ ...options, starPoints });
+    } else {
+      const step = key === 'right' ? INNER_RADIUS_STEP : -INNER_RADIUS_STEP;
+      const starInnerRadius = _.clamp(
+        _.round(options.starInnerRadius + step, 2),
+        MIN_STAR_INNER_RADIUS,
+        MAX_STAR_INNER_RADIUS,
+      );
+      this.ps.setShapeToolOptions({ ...options, starInnerRadius });
+    }
+    return true;
+  }
+}
@@ -1,3 +1,13 @@
 export { RectangleGesture } from './RectangleGesture';
+export { RoundedRectangleGesture } from './RoundedRectangleGesture';
 export { EllipseGesture } from './EllipseGesture';
+export { PolygonGesture, MIN_POLYGON_SIDES } from './PolygonGesture';
+export {
+  StarGesture,
+  MIN_STAR_POINTS,
+  MIN_STAR_INNER_RADIUS,
+  MAX_STAR_INNER_RADIUS,
+} from './StarGesture';
+export { LineGesture } from './LineGesture';
 export { PencilGesture } from './PencilGesture';
+export { PenGesture } from './PenGesture';
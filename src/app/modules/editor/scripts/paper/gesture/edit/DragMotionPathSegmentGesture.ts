@@ -0,0 +1,61 @@
+import { GroupLayer, LayerUtil } from 'app/modules/editor/model/layers';
+import { CursorType } from 'app/modules/editor/model/paper';
+import { Path } from 'app/modules/editor/model/paths';
+import { Gesture } from 'app/modules/editor/scripts/paper/gesture';
+import { PaperLayer } from 'app/modules/editor/scripts/paper/item';
+import { PaperService } from 'app/modules/editor/services';
+import * as _ from 'lodash';
+import * as paper from 'paper';
+
+/**
+ * A gesture that drags a segment of a group layer's motion path.
+ *
+ * Preconditions:
+ * - The user is in default mode.
+ * - The user hit a segment of a selected group layer's motion path.
+ */
+export class DragMotionPathSegmentGesture extends Gesture {
+  private readonly pl = paper.project.activeLayer as PaperLayer;
+  private initialPathData: string;
+  private localDownPoint: paper.Point;
+
+  constructor(
+    private readonly ps: PaperService,
+    private readonly groupLayerId: string,
+    private readonly hitSegmentIndex: number,
+  ) {
+    super();
+  }
+
+  // @Override
+  onMouseDown(event: paper.ToolEvent) {
+    this.ps.setCursorType(CursorType.Grabbing);
+    this.ps.setHoveredLayerId(undefined);
+    const layer = this.ps.getVectorLayer().findLayerById(this.groupLayerId) as GroupLayer;
+    this.initialPathData = layer.motionPath.getPathString();
+    this.localDownPoint = this.getParentItem().globalToLocal(event.downPoint);
+  }
+
+  // @Override
+  onMouseDrag(event: paper.ToolEvent) {
+    // Motion paths are defined in the coordinate space of the group's parent.
+    const localPoint = this.getParentItem().globalToLocal(event.point);
+    const motionPath = new paper.CompoundPath(this.initialPathData);
+    const segments = _.flatMap(motionPath.children as paper.Path[], p => p.segments);
+    const segment = segments[this.hitSegmentIndex];
+    segment.point = segment.point.add(localPoint.subtract(this.localDownPoint));
+    const vl = this.ps.getVectorLayer();
+    const layer = vl.findLayerById(this.groupLayerId).clone() as GroupLayer;
+    layer.motionPath = new Path(motionPath.pathData);
+    this.ps.setVectorLayer(LayerUtil.replaceLayer(vl, this.groupLayerId, layer));
+  }
+
+  // @Override
+  onMouseUp(event: paper.ToolEvent) {
+    this.ps.setCursorType(CursorType.Default);
+  }
+
+  private getParentItem() {
+    return this.pl.findItemByLayerId(this.groupLayerId).parent;
+  }
+}
@@ -1,3 +1,4 @@
+export { DragMotionPathSegmentGesture } from './DragMotionPathSegmentGesture';
 export { BatchSelectSegmentsGesture } from './BatchSelectSegmentsGesture';
 export { MouldCurveGesture } from './MouldCurveGesture';
 export { SelectDragDrawSegmentsGesture } from './SelectDragDrawSegmentsGesture';
@@ -60,6 +60,11 @@ export class HoverItemsGesture extends Gesture {
         this.ps.setHoveredLayerId(undefined);
         return;
       }
+      if (HitTests.motionPathSegments(event.point)) {
+        this.ps.setCursorType(CursorType.Grab);
+        this.ps.setHoveredLayerId(undefined);
+        return;
+      }
     }
 
     const hitResult = HitTests.selectionMode(event.point, this.ps);
@@ -1,4 +1,4 @@
-import { LayerUtil, PathLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import { InstanceLayer, LayerUtil, PathLayer, VectorLayer } from 'app/modules/editor/model/layers';
 import { Path } from 'app/modules/editor/model/paths';
 import { Gesture } from 'app/modules/editor/scripts/paper/gesture';
 import { PaperLayer } from 'app/modules/editor/scripts/paper/item';
@@ -100,6 +100,15 @@ export class RotateItemsGesture extends Gesture {
     const rotationAngle = this.getRotationAngle(event);
     let newVl = this.initialVectorLayer.clone();
     this.selectedItems.forEach((item, index) => {
+      const layer = newVl.findLayerById(item.data.id);
+      if (layer instanceof InstanceLayer) {
+        // Symbol instances don't have path data of their own, so rotate the instance instead.
+        const vpMatrix = new paper.Matrix().rotate(rotationAngle, this.vpPivot);
+        const instanceItem = this.pl.findItemByLayerId(layer.id);
+        const newLayer = PaperUtil.transformInstanceLayer(this.pl, instanceItem, layer, vpMatrix);
+        newVl = LayerUtil.replaceLayer(newVl, layer.id, newLayer);
+        return;
+      }
       const path = item.clone() as paper.Path;
       path.applyMatrix = true;
       const localToViewportMatrix = this.localToVpItemMatrices[index];
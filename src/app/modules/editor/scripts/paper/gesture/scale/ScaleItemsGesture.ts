@@ -1,4 +1,9 @@
-import { LayerUtil, MorphableLayer, VectorLayer } from 'app/modules/editor/model/layers';
+import {
+  InstanceLayer,
+  LayerUtil,
+  MorphableLayer,
+  VectorLayer,
+} from 'app/modules/editor/model/layers';
 import { Path } from 'app/modules/editor/model/paths';
 import { MathUtil } from 'app/modules/editor/scripts/common';
 import { Gesture } from 'app/modules/editor/scripts/paper/gesture';
@@ -197,6 +202,15 @@ export class ScaleItemsGesture extends Gesture {
 
     // TODO: determine if we should be baking transforms into the children layers when scaling a group?
     this.selectedItems.forEach((item, index) => {
+      const layer = newVl.findLayerById(item.data.id);
+      if (layer instanceof InstanceLayer) {
+        // Symbol instances don't have path data of their own, so scale the instance instead.
+        const vpMatrix = new paper.Matrix().scale(sx, sy, vpFixedPivot);
+        const instanceItem = this.pl.findItemByLayerId(layer.id);
+        const newLayer = PaperUtil.transformInstanceLayer(this.pl, instanceItem, layer, vpMatrix);
+        newVl = LayerUtil.replaceLayer(newVl, layer.id, newLayer);
+        return;
+      }
       const path = item.clone() as paper.Path;
       path.applyMatrix = true;
       const localToVpMatrix = this.localToVpItemMatrices[index];
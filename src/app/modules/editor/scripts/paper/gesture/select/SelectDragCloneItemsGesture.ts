@@ -1,6 +1,7 @@
 import {
   ClipPathLayer,
   GroupLayer,
+  InstanceLayer,
   LayerUtil,
   PathLayer,
   VectorLayer,
@@ -157,7 +158,7 @@ function dragItem(newVl: VectorLayer, layerId: string, localDelta: paper.Point)
     const replacementLayer = initialLayer.clone();
     replacementLayer.pathData = initialLayer.pathData.transform(Matrix.translation(x, y));
     newVl = LayerUtil.replaceLayer(newVl, layerId, replacementLayer);
-  } else if (initialLayer instanceof GroupLayer) {
+  } else if (initialLayer instanceof GroupLayer || initialLayer instanceof InstanceLayer) {
     const replacementLayer = initialLayer.clone();
     replacementLayer.translateX += x;
     replacementLayer.translateY += y;
@@ -4,6 +4,7 @@ import * as _ from 'lodash';
 import * as paper from 'paper';
 
 import { EditPathRaster } from './EditPathRaster';
+import { MotionPathRaster } from './MotionPathRaster';
 import { HitResult, PaperLayer } from './PaperLayer';
 import { RotateItemsPivotRaster } from './RotateItemsPivotRaster';
 import { SelectionBoundsRaster } from './SelectionBoundsRaster';
@@ -67,6 +68,12 @@ export function rotateItemsPivot(projPoint: paper.Point) {
   return pl.hitTest(projPoint, { class: RotateItemsPivotRaster });
 }
 
+/** Performs a hit test on the selected group layers' motion path segments. */
+export function motionPathSegments(projPoint: paper.Point) {
+  const pl = paper.project.activeLayer as PaperLayer;
+  return pl.hitTest(projPoint, { class: MotionPathRaster });
+}
+
 /** Performs a hit test on the current edit path. */
 export function editPathMode(
   projPoint: paper.Point,
@@ -0,0 +1,7 @@
+import * as paper from 'paper';
+
+export class MotionPathRaster extends paper.Raster {
+  constructor(readonly layerId: string, readonly segmentIndex: number, center: paper.Point) {
+    super('/assets/paper/vector-segment.png', center);
+  }
+}
@@ -1,12 +1,14 @@
+import { Gradient, GradientUtil } from 'app/modules/editor/model/gradients';
 import {
   ClipPathLayer,
   GroupLayer,
+  InstanceLayer,
   Layer,
   LayerUtil,
   PathLayer,
   VectorLayer,
 } from 'app/modules/editor/model/layers';
-import { ColorUtil } from 'app/modules/editor/scripts/common';
+import { ColorUtil, Matrix } from 'app/modules/editor/scripts/common';
 import { PaperUtil } from 'app/modules/editor/scripts/paper/util';
 import { PaperService } from 'app/modules/editor/services';
 import {
@@ -20,6 +22,7 @@ import * as _ from 'lodash';
 import * as paper from 'paper';
 
 import { EditPathRaster } from './EditPathRaster';
+import { MotionPathRaster } from './MotionPathRaster';
 import { RotateItemsPivotRaster } from './RotateItemsPivotRaster';
 import { SelectionBoundsRaster } from './SelectionBoundsRaster';
 
@@ -38,6 +41,7 @@ export class PaperLayer extends paper.Layer {
   private vectorLayerItem: paper.Item;
   private selectionBoundsItem: paper.Item;
   private rotateItemsPivotItem: paper.Item;
+  private motionPathItem: paper.Item;
   private hoverPathItem: paper.Path;
   private selectionBoxItem: paper.Path;
   private createPathItem: paper.Path;
@@ -101,7 +105,10 @@ export class PaperLayer extends paper.Layer {
         const { strokeBounds } = item;
         if (strokeBounds.contains(localPoint)) {
           hitItem = item;
-          children = item.children.map(recurseFn).filter(r => !!r.hitItem);
+          // Symbol instances are hit tested as a single item.
+          if (!item.data.symbolId) {
+            children = item.children.map(recurseFn).filter(r => !!r.hitItem);
+          }
         }
       }
       return { hitItem, children };
@@ -130,12 +137,14 @@ export class PaperLayer extends paper.Layer {
     this.updateEditPathItem();
     this.updateSelectionBoundsItem();
     this.updateRotateItemsPivotItem();
+    this.updateMotionPathItem();
     this.updateHoverPathItem();
   }
 
   onSelectedLayerIdsChanged() {
     this.updateSelectionBoundsItem();
     this.updateRotateItemsPivotItem();
+    this.updateMotionPathItem();
   }
 
   onHiddenLayerIdsChanged() {
@@ -151,6 +160,7 @@ export class PaperLayer extends paper.Layer {
     this.updateEditPathItem();
     this.updateSelectionBoundsItem();
     this.updateRotateItemsPivotItem();
+    this.updateMotionPathItem();
   }
 
   onRotateItemsInfoChanged() {
@@ -262,6 +272,26 @@ export class PaperLayer extends paper.Layer {
     this.updateChildren();
   }
 
+  private updateMotionPathItem() {
+    if (this.motionPathItem) {
+      this.motionPathItem.remove();
+      this.motionPathItem = undefined;
+    }
+    if (!this.editPathInfo) {
+      const vl = this.vectorLayer;
+      const motionPathItems = Array.from(this.selectedLayerIds)
+        .map(id => vl.findLayerById(id))
+        .filter(l => l instanceof GroupLayer && l.motionPath)
+        .map((l: GroupLayer) => {
+          return newMotionPathItem(l, this.findItemByLayerId(l.id), this.cssScaling);
+        });
+      if (motionPathItems.length) {
+        this.motionPathItem = new paper.Group(motionPathItems);
+      }
+    }
+    this.updateChildren();
+  }
+
   /**
    * Returns the bounds of the currently selected items in project coordinates.
    * Empty groups will be filtered out. Returns undefined if there are no selected
@@ -335,6 +365,7 @@ export class PaperLayer extends paper.Layer {
       this.vectorLayerItem,
       this.selectionBoundsItem,
       this.rotateItemsPivotItem,
+      this.motionPathItem,
       this.hoverPathItem,
       this.createPathItem,
       this.splitCurveItem,
@@ -383,6 +414,26 @@ function parseAndroidColor(androidColor: string, alpha = 1) {
     : undefined;
 }
 
+function toPaperGradientColor(gradient: Gradient, alpha = 1) {
+  const g = GradientUtil.toClampedGradient(gradient);
+  const paperGradient = new paper.Gradient();
+  paperGradient.stops = g.stops.map(({ offset, color }) => {
+    return new paper.GradientStop(parseAndroidColor(color, alpha), offset);
+  });
+  paperGradient.radial = g.type === 'radial';
+  return g.type === 'radial'
+    ? new paper.Color(
+        paperGradient,
+        new paper.Point(g.centerX, g.centerY),
+        new paper.Point(g.centerX + g.radius, g.centerY),
+      )
+    : new paper.Color(
+        paperGradient,
+        new paper.Point(g.startX, g.startY),
+        new paper.Point(g.endX, g.endY),
+      );
+}
+
 function newVectorLayerItem(vl: VectorLayer): paper.Item {
   const item = new paper.Group();
   if (!vl) {
@@ -390,16 +441,31 @@ function newVectorLayerItem(vl: VectorLayer): paper.Item {
   }
 
   const fromPathLayerFn = (layer: PathLayer) => {
-    const { fillColor, fillAlpha, strokeColor, strokeAlpha } = layer;
+    const { fillColor, fillGradient, fillAlpha, strokeColor, strokeGradient, strokeAlpha } = layer;
     const { trimPathStart, trimPathEnd, trimPathOffset } = layer;
+    const isTrimmed = trimPathStart !== 0 || trimPathEnd !== 1 || trimPathOffset !== 0;
     // TODO: make sure this works with compound paths as well (Android behavior is different)
     const pathLength = layer.pathData ? layer.pathData.getPathLength() : 0;
-    const dashArray = pathLength
-      ? LayerUtil.toStrokeDashArray(trimPathStart, trimPathEnd, trimPathOffset, pathLength)
-      : undefined;
-    const dashOffset = pathLength
-      ? LayerUtil.toStrokeDashOffset(trimPathStart, trimPathEnd, trimPathOffset, pathLength)
-      : undefined;
+    let dashArray: number[];
+    let dashOffset: number;
+    if (!isTrimmed && layer.strokeDashArray) {
+      // Trim paths take precedence over the path's own dashes.
+      dashArray = [...layer.strokeDashArray];
+      dashOffset = layer.strokeDashOffset;
+    } else if (pathLength) {
+      dashArray = LayerUtil.toStrokeDashArray(
+        trimPathStart,
+        trimPathEnd,
+        trimPathOffset,
+        pathLength,
+      );
+      dashOffset = LayerUtil.toStrokeDashOffset(
+        trimPathStart,
+        trimPathEnd,
+        trimPathOffset,
+        pathLength,
+      );
+    }
     // TODO: import a compound path instead
     // Only paths with more than one command can be closed.
     const closed =
@@ -407,8 +473,12 @@ function newVectorLayerItem(vl: VectorLayer): paper.Item {
     return new paper.Path({
       data: { id: layer.id },
       pathData: layer.pathData ? layer.pathData.getPathString() : '',
-      fillColor: parseAndroidColor(fillColor, fillAlpha),
-      strokeColor: parseAndroidColor(strokeColor, strokeAlpha),
+      fillColor: fillGradient
+        ? toPaperGradientColor(fillGradient, fillAlpha)
+        : parseAndroidColor(fillColor, fillAlpha),
+      strokeColor: strokeGradient
+        ? toPaperGradientColor(strokeGradient, strokeAlpha)
+        : parseAndroidColor(strokeColor, strokeAlpha),
       strokeWidth: layer.strokeWidth,
       miterLimit: layer.strokeMiterLimit,
       strokeJoin: layer.strokeLinejoin,
@@ -433,25 +503,36 @@ function newVectorLayerItem(vl: VectorLayer): paper.Item {
     });
   };
 
+  const toPaperMatrixFn = (transforms: ReadonlyArray<Matrix>) => {
+    const { a, b, c, d, e, f } = Matrix.flatten(transforms);
+    return new paper.Matrix(a, b, c, d, e, f);
+  };
+
   const fromGroupLayerFn = (layer: GroupLayer) => {
-    const { pivotX, pivotY, scaleX, scaleY, rotation, translateX, translateY } = layer;
-    const pivot = new paper.Matrix(1, 0, 0, 1, pivotX, pivotY);
-    const scale = new paper.Matrix(scaleX, 0, 0, scaleY, 0, 0);
-    const cosr = Math.cos((rotation * Math.PI) / 180);
-    const sinr = Math.sin((rotation * Math.PI) / 180);
-    const rotate = new paper.Matrix(cosr, sinr, -sinr, cosr, 0, 0);
-    const translate = new paper.Matrix(1, 0, 0, 1, translateX, translateY);
-    const matrix = new paper.Matrix()
-      .prepend(pivot.inverted())
-      .prepend(scale)
-      .prepend(rotate)
-      .prepend(translate)
-      .prepend(pivot);
+    const matrix = toPaperMatrixFn(LayerUtil.getCanvasTransformsForGroupLayer(layer));
     return new paper.Group({ data: { id: layer.id }, matrix });
   };
 
+  const fromInstanceLayerFn = (layer: InstanceLayer, children: paper.Item[]) => {
+    const matrix = toPaperMatrixFn(LayerUtil.getCanvasTransformsForInstanceLayer(layer));
+    const instanceItem = new paper.Group({
+      data: { id: layer.id, symbolId: layer.symbolId },
+      matrix,
+    });
+    // The instance's contents are treated as part of the instance layer.
+    children.forEach(function recurseFn(i: paper.Item) {
+      i.data = { id: layer.id };
+      (i.children || []).forEach(recurseFn);
+    });
+    instanceItem.addChildren(children);
+    return instanceItem;
+  };
+
   item.data.id = vl.id;
   item.opacity = vl.alpha;
+  // The IDs of the symbols currently being rendered, used to avoid infinite
+  // recursion when a symbol contains an instance of itself.
+  const symbolIdStack: string[] = [];
   item.addChildren(
     vl.children.map(function recurseFn(layer: Layer) {
       if (layer instanceof PathLayer) {
@@ -467,6 +548,16 @@ function newVectorLayerItem(vl: VectorLayer): paper.Item {
         groupItem.addChildren(layer.children.map(l => recurseFn(l)));
         return groupItem;
       }
+      if (layer instanceof InstanceLayer) {
+        const symbol = vl.findLayerById(layer.symbolId);
+        let children: paper.Item[] = [];
+        if (symbol && !symbolIdStack.includes(symbol.id)) {
+          symbolIdStack.push(symbol.id);
+          children = symbol.children.map(l => recurseFn(l));
+          symbolIdStack.pop();
+        }
+        return fromInstanceLayerFn(layer, children);
+      }
       throw new TypeError('Unknown layer type: ' + layer);
     }),
   );
@@ -555,6 +646,37 @@ function newRotationPivotItem(position: paper.Point, cssScaling: number) {
   return pivot;
 }
 
+/**
+ * Creates the overlay decorations for the given group layer's motion path.
+ */
+function newMotionPathItem(layer: GroupLayer, item: paper.Item, cssScaling: number) {
+  const group = new paper.Group();
+  const scaleFactor = getRasterScaleFactor(cssScaling);
+
+  // The motion path is defined relative to the group's pivot in the
+  // coordinate space of the group's parent.
+  const { pivotX, pivotY, translateX, translateY } = layer;
+  const matrix = item.parent.globalMatrix
+    .prepended(new paper.Matrix(1 / cssScaling, 0, 0, 1 / cssScaling, 0, 0))
+    .translate(pivotX + translateX, pivotY + translateY);
+  const path = new paper.CompoundPath(layer.motionPath.getPathString());
+  path.transform(matrix);
+  path.guide = true;
+  path.strokeScaling = false;
+  path.strokeWidth = 1 / paper.view.zoom;
+  path.strokeColor = '#009dec';
+  path.dashArray = [3 / paper.view.zoom];
+  group.addChild(path);
+
+  // TODO: avoid creating rasters in a loop like this
+  _.flatMap(path.children as paper.Path[], p => p.segments).forEach(({ point }, segmentIndex) => {
+    const raster = new MotionPathRaster(layer.id, segmentIndex, point);
+    raster.scale(scaleFactor, scaleFactor);
+    group.addChild(raster);
+  });
+  return group;
+}
+
 /**
  * Creates the overlay decorations for the given edit path.
  */
@@ -1,13 +1,20 @@
+import { InstanceLayer } from 'app/modules/editor/model/layers';
 import { ToolMode } from 'app/modules/editor/model/paper';
 import { ClickDetector } from 'app/modules/editor/scripts/paper/detector';
 import { Gesture } from 'app/modules/editor/scripts/paper/gesture';
 import {
   EllipseGesture,
+  LineGesture,
   PencilGesture,
+  PenGesture,
+  PolygonGesture,
   RectangleGesture,
+  RoundedRectangleGesture,
+  StarGesture,
 } from 'app/modules/editor/scripts/paper/gesture/create';
 import {
   BatchSelectSegmentsGesture,
+  DragMotionPathSegmentGesture,
   MouldCurveGesture,
   SelectDragDrawSegmentsGesture,
   SelectDragHandleGesture,
@@ -60,14 +67,36 @@ export class GestureTool extends Tool {
     }
   }
 
+  /** Called when the current tool mode changes. */
+  onToolModeChanged() {
+    if (this.currentGesture instanceof PenGesture && this.ps.getToolMode() !== ToolMode.Pen) {
+      // The user left pen mode before finishing the path.
+      this.currentGesture.cancel();
+      this.currentGesture = new HoverGesture(this.ps);
+    }
+  }
+
   private onMouseDown(event: paper.ToolEvent) {
     const toolMode = this.ps.getToolMode();
     if (toolMode === ToolMode.Ellipse) {
       this.currentGesture = new EllipseGesture(this.ps);
     } else if (toolMode === ToolMode.Rectangle) {
       this.currentGesture = new RectangleGesture(this.ps);
+    } else if (toolMode === ToolMode.RoundedRectangle) {
+      this.currentGesture = new RoundedRectangleGesture(this.ps);
+    } else if (toolMode === ToolMode.Polygon) {
+      this.currentGesture = new PolygonGesture(this.ps);
+    } else if (toolMode === ToolMode.Star) {
+      this.currentGesture = new StarGesture(this.ps);
+    } else if (toolMode === ToolMode.Line) {
+      this.currentGesture = new LineGesture(this.ps);
     } else if (toolMode === ToolMode.Pencil) {
       this.currentGesture = new PencilGesture(this.ps);
+    } else if (toolMode === ToolMode.Pen) {
+      // Pen gestures span multiple clicks, so reuse the in-progress gesture if there is one.
+      if (!(this.currentGesture instanceof PenGesture)) {
+        this.currentGesture = new PenGesture(this.ps);
+      }
     } else {
       this.currentGesture = this.createSelectionModeGesture(event);
     }
@@ -76,7 +105,9 @@ export class GestureTool extends Tool {
 
   private onMouseUp(event: paper.ToolEvent) {
     this.currentGesture.onMouseUp(event);
-    this.currentGesture = new HoverGesture(this.ps);
+    if (!(this.currentGesture instanceof PenGesture) || this.ps.getToolMode() !== ToolMode.Pen) {
+      this.currentGesture = new HoverGesture(this.ps);
+    }
   }
 
   private createSelectionModeGesture(event: paper.ToolEvent) {
@@ -106,6 +137,12 @@ export class GestureTool extends Tool {
           return new RotateItemsDragPivotGesture(this.ps);
         }
       }
+      // Perform a hit test on the selected groups' motion path segments.
+      const motionPathHitResult = HitTests.motionPathSegments(event.point);
+      if (motionPathHitResult) {
+        const { layerId, segmentIndex } = motionPathHitResult.item;
+        return new DragMotionPathSegmentGesture(this.ps, layerId, segmentIndex);
+      }
     }
 
     const hitResults = this.pl.hitTestVectorLayer(event.point);
@@ -130,7 +167,7 @@ export class GestureTool extends Tool {
         } else {
           return new BatchSelectItemsGesture(this.ps);
         }
-      } else {
+      } else if (!(hitLayer instanceof InstanceLayer)) {
         // If a double click event occurs on top of a hit item w/ no children,
         // then enter edit path mode.
         return new EditPathGesture(this.ps, hitItemId);
@@ -12,9 +12,9 @@ import { ZoomPanTool } from './ZoomPanTool';
  */
 export class MasterToolPicker {
   private readonly paperTool = new paper.Tool();
+  private readonly gestureTool = new GestureTool(this.ps);
 
   constructor(private readonly ps: PaperService) {
-    const gestureTool = new GestureTool(ps);
     const zoomPanTool = new ZoomPanTool(ps);
     let currentTool: Tool;
 
@@ -23,7 +23,7 @@ export class MasterToolPicker {
       currentTool =
         this.ps.getToolMode() === ToolMode.ZoomPan || (event && event.modifiers.space)
           ? zoomPanTool
-          : gestureTool;
+          : this.gestureTool;
       if (prevTool !== currentTool) {
         if (prevTool) {
           prevTool.onDeactivate();
@@ -60,5 +60,6 @@ export class MasterToolPicker {
   onToolModeChanged() {
     // TODO: better way to set this?
     this.paperTool.fixedDistance = this.ps.getToolMode() === ToolMode.Pencil ? 4 : undefined;
+    this.gestureTool.onToolModeChanged();
   }
 }
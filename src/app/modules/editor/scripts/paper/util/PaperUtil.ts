@@ -1,5 +1,6 @@
-import { Layer, LayerUtil, PathLayer } from 'app/modules/editor/model/layers';
+import { InstanceLayer, Layer, LayerUtil, PathLayer } from 'app/modules/editor/model/layers';
 import { Path } from 'app/modules/editor/model/paths';
+import { MathUtil, Matrix } from 'app/modules/editor/scripts/common';
 import { PaperService } from 'app/modules/editor/services';
 import * as paper from 'paper';
 
@@ -67,6 +68,40 @@ export function selectCurves(path: paper.Path, selectedSegments: ReadonlySet<num
   };
 }
 
+/**
+ * Returns a clone of the instance layer that has been transformed by the specified
+ * matrix (in viewport coordinates). The transform is expressed as changes to the
+ * instance's translation, rotation and scale about its pivot, so any skew (i.e. from
+ * scaling a rotated instance along the viewport's axes) is dropped.
+ */
+export function transformInstanceLayer(
+  pl: paper.Item,
+  instanceItem: paper.Item,
+  layer: InstanceLayer,
+  vpMatrix: paper.Matrix,
+) {
+  const vpToParentMatrix = instanceItem.parent.globalMatrix
+    .prepended(pl.matrix.inverted())
+    .inverted();
+  const { a, b, c, d, e, f } = Matrix.flatten(LayerUtil.getCanvasTransformsForInstanceLayer(layer));
+  const matrix = vpToParentMatrix
+    .appended(vpMatrix)
+    .appended(vpToParentMatrix.inverted())
+    .appended(new paper.Matrix(a, b, c, d, e, f));
+  const { rotation, scaling } = matrix.decompose();
+  const { pivotX, pivotY } = layer;
+  const translation = matrix.transform(new paper.Point(pivotX, pivotY));
+  const newLayer = layer.clone();
+  // Keep the rotation as close as possible to the original (i.e. don't reset full turns).
+  newLayer.rotation =
+    layer.rotation + MathUtil.floorMod(rotation - layer.rotation + 180, 360) - 180;
+  newLayer.scaleX = scaling.x;
+  newLayer.scaleY = scaling.y;
+  newLayer.translateX = translation.x - pivotX;
+  newLayer.translateY = translation.y - pivotY;
+  return newLayer;
+}
+
 /** Returns a new matrix that has been transformed by the specified matrix m. */
 export function transformRectangle(rect: paper.Rectangle, m: paper.Matrix) {
   return new paper.Rectangle(rect.topLeft.transform(m), rect.bottomRight.transform(m));
@@ -41,7 +41,9 @@ import * as removeXMLProcInst from 'svgo/plugins/removeXMLProcInst';
 
 // Custom plugins.
 import { convertRoundedRectToPath } from './plugins/convertRoundedRectToPath';
-import { replaceUseElems } from './plugins/replaceUseElems';
+import { replaceUseElems, SYMBOL_INSTANCE_ATTR } from './plugins/replaceUseElems';
+
+export { SYMBOL_INSTANCE_ATTR };
 
 // The complete list is available here: https://github.com/svg/svgo/blob/master/.svgo.yml
 const pluginsData = {
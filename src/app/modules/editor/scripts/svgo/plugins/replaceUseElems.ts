@@ -2,6 +2,12 @@ import * as CSSClassList from 'svgo/lib/svgo/css-class-list';
 import * as CSSStyleDeclaration from 'svgo/lib/svgo/css-style-declaration';
 import * as JSAPI from 'svgo/lib/svgo/jsAPI';
 
+/**
+ * The attribute that marks the copies of a <symbol> that replace the <use>
+ * elements referencing it. Symbols without this attribute aren't rendered.
+ */
+export const SYMBOL_INSTANCE_ATTR = 'data-symbol-instance';
+
 export const replaceUseElems = {
   active: true,
   type: 'full',
@@ -10,7 +16,8 @@ export const replaceUseElems = {
 };
 
 /**
- * Replace <use> elems with their referenced content.
+ * Replace <use> elems with their referenced content. Referenced <symbol>
+ * elems are kept (and marked) so that they can be imported as symbols.
  *
  * @param {Object} document the root document
  * @param {Object} params plugin params
@@ -25,7 +32,9 @@ function replaceUseElemsFn(document: any, params: any): any {
         return cloneParsedSvg(referencedElem);
       }
     }
-    return undefined;
+    // Symbols are often defined outside of a <defs> elem.
+    const symbolElem = document.querySelector(`symbol${selector}`);
+    return symbolElem ? cloneParsedSvg(symbolElem) : undefined;
   };
 
   // TODO: handle the case where a 'use' element references another 'use'
@@ -41,11 +50,6 @@ function replaceUseElemsFn(document: any, params: any): any {
     }
     use.removeAttr('xlink:href');
 
-    if (refElem.isElem('symbol')) {
-      // TODO: determine whether we should support 'symbol' elements as well
-      continue;
-    }
-
     const addAttrFn = function(elem: any, attrName: string, attrValue: string) {
       elem.addAttr({
         name: attrName,
@@ -55,6 +59,32 @@ function replaceUseElemsFn(document: any, params: any): any {
       });
     };
 
+    let viewBoxTransform: string;
+    if (refElem.isElem('symbol')) {
+      // The symbol keeps its ID, which also prevents the replacement group from
+      // being collapsed into it and its transform from being pushed down into
+      // the symbol's children.
+      addAttrFn(refElem, SYMBOL_INSTANCE_ATTR, 'true');
+      if (refElem.hasAttr('viewBox')) {
+        const sizeFn = (attrName: string) => {
+          const elem = use.hasAttr(attrName) ? use : refElem;
+          return elem.hasAttr(attrName) ? +elem.attr(attrName).value : NaN;
+        };
+        viewBoxTransform = getViewBoxTransform(
+          refElem.attr('viewBox').value,
+          refElem.hasAttr('preserveAspectRatio') ? refElem.attr('preserveAspectRatio').value : '',
+          sizeFn('width'),
+          sizeFn('height'),
+        );
+        refElem.removeAttr('viewBox');
+        refElem.removeAttr('preserveAspectRatio');
+      }
+      refElem.removeAttr('width');
+      refElem.removeAttr('height');
+      use.removeAttr('width');
+      use.removeAttr('height');
+    }
+
     if (refElem.isElem('svg')) {
       // TODO: test this
       const svg = refElem;
@@ -79,12 +109,18 @@ function replaceUseElemsFn(document: any, params: any): any {
       y = +use.attr('y').value;
       use.removeAttr('y');
     }
+    const transforms = [];
+    if (use.hasAttr('transform')) {
+      transforms.push(use.attr('transform').value);
+    }
     if (x || y) {
-      let transform = `translate(${x} ${y})`;
-      if (use.hasAttr('transform')) {
-        transform = use.attr('transform').value + ' ' + transform;
-      }
-      addAttrFn(use, 'transform', transform);
+      transforms.push(`translate(${x} ${y})`);
+    }
+    if (viewBoxTransform) {
+      transforms.push(viewBoxTransform);
+    }
+    if (transforms.length) {
+      addAttrFn(use, 'transform', transforms.join(' '));
     }
     use.content = [refElem];
     refElem.parentNode = use;
@@ -94,6 +130,49 @@ function replaceUseElemsFn(document: any, params: any): any {
   return document;
 }
 
+/**
+ * Returns the transform that maps a symbol's viewBox onto the viewport established
+ * by the <use> elem referencing it, or undefined if the viewBox is invalid. A
+ * missing (or relative) viewport width/height defaults to the viewBox's size.
+ */
+function getViewBoxTransform(
+  viewBox: string,
+  preserveAspectRatio: string,
+  width: number,
+  height: number,
+) {
+  const [minX, minY, vbWidth, vbHeight] = viewBox
+    .trim()
+    .split(/[\s,]+/)
+    .map(v => +v);
+  if (![minX, minY, vbWidth, vbHeight].every(isFinite) || vbWidth <= 0 || vbHeight <= 0) {
+    return undefined;
+  }
+  width = isFinite(width) ? width : vbWidth;
+  height = isFinite(height) ? height : vbHeight;
+  let sx = width / vbWidth;
+  let sy = height / vbHeight;
+  let tx = 0;
+  let ty = 0;
+  const [align, meetOrSlice] = (preserveAspectRatio.trim() || 'xMidYMid').split(/\s+/);
+  if (align !== 'none') {
+    sx = sy = meetOrSlice === 'slice' ? Math.max(sx, sy) : Math.min(sx, sy);
+    if (align.includes('xMid')) {
+      tx = (width - vbWidth * sx) / 2;
+    } else if (align.includes('xMax')) {
+      tx = width - vbWidth * sx;
+    }
+    if (align.includes('YMid')) {
+      ty = (height - vbHeight * sy) / 2;
+    } else if (align.includes('YMax')) {
+      ty = height - vbHeight * sy;
+    }
+  }
+  tx -= minX * sx;
+  ty -= minY * sy;
+  return `translate(${tx} ${ty}) scale(${sx} ${sy})`;
+}
+
 // Clone is currently broken. Hack it:
 function cloneParsedSvg(svg: any): any {
   const clones = new Map();
@@ -1,17 +1,35 @@
 import { Injectable } from '@angular/core';
 import { LayerUtil, VectorLayer } from 'app/modules/editor/model/layers';
+import { StateList, StateListUtil } from 'app/modules/editor/model/statelist';
 import { Animation } from 'app/modules/editor/model/timeline';
-import { AvdSerializer, SpriteSerializer, SvgSerializer } from 'app/modules/editor/scripts/export';
+import { DriverUtil } from 'app/modules/editor/scripts/animator';
+import { ModelUtil } from 'app/modules/editor/scripts/common';
+import {
+  AvdSerializer,
+  ComposeSerializer,
+  CoreAnimationSerializer,
+  CssSerializer,
+  FlutterSerializer,
+  LottieSerializer,
+  RasterSerializer,
+  SmilSerializer,
+  SpriteSerializer,
+  SvgSerializer,
+  VideoSerializer,
+  WebAnimationsSerializer,
+} from 'app/modules/editor/scripts/export';
 import { State, Store } from 'app/modules/editor/store';
 import { getHiddenLayerIds, getVectorLayer } from 'app/modules/editor/store/layers/selectors';
-import { getAnimation } from 'app/modules/editor/store/timeline/selectors';
+import { getStateList } from 'app/modules/editor/store/statelist/selectors';
+import { getAnimation, getAnimations } from 'app/modules/editor/store/timeline/selectors';
 import * as $ from 'jquery';
 import * as JSZip from 'jszip';
 import * as _ from 'lodash';
 import { first } from 'rxjs/operators';
 
 // Store a version number just in case we ever change the export format...
-const IMPORT_EXPORT_VERSION = 1;
+// Version 2 replaced the single timeline animation with a list of animations.
+const IMPORT_EXPORT_VERSION = 2;
 
 const EXPORTED_FPS = [30, 60];
 
@@ -24,15 +42,19 @@ export class FileExportService {
     const { layers, timeline } = jsonObj;
     const vectorLayer = new VectorLayer(layers.vectorLayer);
     const hiddenLayerIds = new Set<string>(layers.hiddenLayerIds);
-    const animation = new Animation(timeline.animation);
-    return { vectorLayer, hiddenLayerIds, animation };
+    // Older files contain a single animation instead of a list of animations.
+    const animations: ReadonlyArray<Animation> = (timeline.animations || [timeline.animation]).map(
+      (anim: any) => new Animation(anim),
+    );
+    const stateList = new StateList(jsonObj.stateList);
+    return { vectorLayer, hiddenLayerIds, animations, stateList };
   }
 
   constructor(private readonly store: Store<State>) {}
 
   exportJSON() {
     const vl = this.getVectorLayer();
-    const anim = this.getAnimation();
+    const anims = this.getAnimations();
     const jsonStr = JSON.stringify(
       {
         version: IMPORT_EXPORT_VERSION,
@@ -41,8 +63,9 @@ export class FileExportService {
           hiddenLayerIds: Array.from(this.getHiddenLayerIds()),
         },
         timeline: {
-          animation: anim.toJSON(),
+          animations: anims.map(anim => anim.toJSON()),
         },
+        stateList: this.getStateList().toJSON(),
       },
       undefined,
       2,
@@ -51,51 +74,175 @@ export class FileExportService {
   }
 
   exportSvg() {
-    // Export standalone SVG frames.
-    const vl = this.getVectorLayerWithoutHiddenLayers();
-    const anim = this.getAnimationWithoutHiddenBlocks();
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
     if (!anim.blocks.length) {
       // Just export an SVG if there are no animation blocks defined.
       const svg = SvgSerializer.toSvgString(vl);
       downloadFile(svg, `${vl.name}.svg`);
       return;
     }
-    // TODO: figure out how to add better jszip typings
-    const zip = new JSZip();
-    EXPORTED_FPS.forEach(fps => {
-      const numSteps = Math.ceil((anim.duration / 1000) * fps);
-      const svgs = SpriteSerializer.createSvgFrames(vl, anim, numSteps);
-      const length = (numSteps - 1).toString().length;
-      const fpsFolder = zip.folder(`${fps}fps`);
-      svgs.forEach((s, i) => {
-        fpsFolder.file(`frame${_.padStart(i.toString(), length, '0')}.svg`, s);
-      });
-    });
-    zip.generateAsync({ type: 'blob' }).then((content: Blob) => {
-      downloadFile(content, `frames_${vl.name}.zip`);
-    });
+    // Otherwise export a standalone SVG that is animated using SMIL.
+    const animatedSvg = SmilSerializer.toSvgString(vl, anim);
+    downloadFile(animatedSvg, `${vl.name}.svg`);
   }
 
   // TODO: should we or should we not export hidden layers?
   exportVectorDrawable() {
-    const vl = this.getVectorLayerWithoutHiddenLayers();
+    const { vectorLayer: vl } = this.getBakedVectorLayerAndAnimation();
     const vd = AvdSerializer.toVectorDrawableXmlString(vl);
     const fileName = `vd_${vl.name}.xml`;
     downloadFile(vd, fileName);
   }
 
   exportAnimatedVectorDrawable() {
+    const baked = this.getAnimations().map(a => this.getBakedVectorLayerAndAnimation(a));
+    if (baked.length === 1) {
+      const [{ vectorLayer, animation }] = baked;
+      const avd = AvdSerializer.toAnimatedVectorDrawableXmlString(vectorLayer, animation);
+      downloadFile(avd, `avd_${animation.name}.xml`);
+      return;
+    }
+    // Otherwise export one animated vector drawable per animation.
+    const zip = new JSZip();
+    const fileNames = new Set<string>();
+    baked.forEach(({ vectorLayer, animation }) => {
+      const fileName = LayerUtil.getUniqueName(`avd_${animation.name}`, n => fileNames.has(n));
+      fileNames.add(fileName);
+      zip.file(
+        `${fileName}.xml`,
+        AvdSerializer.toAnimatedVectorDrawableXmlString(vectorLayer, animation),
+      );
+    });
+    zip.generateAsync({ type: 'blob' }).then((content: Blob) => {
+      downloadFile(content, `avd_${this.getVectorLayer().name}.zip`);
+    });
+  }
+
+  /**
+   * Exports a zip file containing an animated-selector, a vector drawable for
+   * each of its states, and an animated vector drawable for each of the
+   * animations that are used by its transitions.
+   */
+  exportAnimatedSelector() {
     const vl = this.getVectorLayerWithoutHiddenLayers();
-    const anim = this.getAnimationWithoutHiddenBlocks();
+    const hiddenLayerIds = Array.from(this.getHiddenLayerIds());
+    const anims = this.getAnimations();
+    const stateList = StateListUtil.removeInvalidTransitions(
+      this.getStateList(),
+      anims.map(a => a.id),
+    );
+    const vlName = StateListUtil.toResourceName(vl.name);
+    const zip = new JSZip();
+    const drawableFolder = zip.folder('drawable');
+    const drawableNamesById: Dictionary<string> = {};
+    const addDrawableFn = (id: string, prefix: string, xml: string) => {
+      const name = LayerUtil.getUniqueName(prefix, n => _.values(drawableNamesById).includes(n));
+      drawableNamesById[id] = name;
+      drawableFolder.file(`${name}.xml`, xml);
+    };
+    stateList.states.forEach(state => {
+      const { vectorLayer: flattenedVl } = ModelUtil.flattenInstances(state.vectorLayer);
+      // States are static, so drivers are baked into the values they resolve to at time 0.
+      const { vectorLayer: stateVl } = DriverUtil.bakeDrivers(
+        LayerUtil.removeLayers(
+          flattenedVl,
+          ...hiddenLayerIds.filter(id => !!flattenedVl.findLayerById(id)),
+        ),
+        new Animation(),
+      );
+      addDrawableFn(
+        state.id,
+        `vd_${vlName}_${StateListUtil.toResourceName(state.name)}`,
+        AvdSerializer.toVectorDrawableXmlString(stateVl),
+      );
+    });
+    _.uniq(stateList.transitions.map(t => t.animationId)).forEach(animationId => {
+      const { vectorLayer, animation } = this.getBakedVectorLayerAndAnimation(
+        _.find(anims, a => a.id === animationId),
+      );
+      addDrawableFn(
+        animation.id,
+        `avd_${vlName}_${StateListUtil.toResourceName(animation.name)}`,
+        AvdSerializer.toAnimatedVectorDrawableXmlString(vectorLayer, animation),
+      );
+    });
+    stateList.transitions.forEach(
+      t => (drawableNamesById[t.id] = drawableNamesById[t.animationId]),
+    );
+    const asl = AvdSerializer.toAnimatedSelectorXmlString(stateList, drawableNamesById);
+    drawableFolder.file(`asl_${vlName}.xml`, asl);
+    zip.generateAsync({ type: 'blob' }).then((content: Blob) => {
+      downloadFile(content, `asl_${vl.name}.zip`);
+    });
+  }
+
+  exportLottie() {
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const lottie = LottieSerializer.toLottieString(vl, anim);
+    const fileName = `lottie_${anim.name}.json`;
+    downloadFile(lottie, fileName);
+  }
+
+  exportCompose() {
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const fileName = `${_.upperFirst(_.camelCase(vl.name))}.kt`;
+    if (!anim.blocks.length) {
+      // Just export an ImageVector if there are no animation blocks defined.
+      downloadFile(ComposeSerializer.toImageVectorKotlinString(vl), fileName);
+      return;
+    }
+    // Otherwise bundle the Kotlin source with the animated vector drawable
+    // resource that is used to create the AnimatedImageVector.
+    const drawableResourceName = `avd_${anim.name}`;
+    const kotlin = ComposeSerializer.toAnimatedImageVectorKotlinString(
+      vl,
+      anim,
+      drawableResourceName,
+    );
     const avd = AvdSerializer.toAnimatedVectorDrawableXmlString(vl, anim);
-    const fileName = `avd_${anim.name}.xml`;
-    downloadFile(avd, fileName);
+    // TODO: figure out how to add better jszip typings
+    const zip = new JSZip();
+    zip.file(fileName, kotlin);
+    zip.file(`${drawableResourceName}.xml`, avd);
+    zip.generateAsync({ type: 'blob' }).then((content: Blob) => {
+      downloadFile(content, `compose_${vl.name}.zip`);
+    });
+  }
+
+  exportCoreAnimation() {
+    // Create a Swift file containing a Core Animation layer hierarchy.
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const swift = CoreAnimationSerializer.toSwiftString(vl, anim);
+    downloadFile(swift, `${_.upperFirst(_.camelCase(vl.name))}Layer.swift`);
+  }
+
+  exportFlutter() {
+    // Create a Dart file containing a Flutter CustomPainter.
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const dart = FlutterSerializer.toDartString(vl, anim);
+    downloadFile(dart, `${_.snakeCase(vl.name)}_painter.dart`);
+  }
+
+  exportRaster(options: RasterSerializer.RasterOptions) {
+    // Create an animated GIF, APNG, or WebP image.
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const { ext } = _.find(RasterSerializer.RASTER_FORMATS, f => f.format === options.format);
+    return RasterSerializer.toRasterBlob(vl, anim, options).then(blob => {
+      downloadFile(blob, `${vl.name}.${ext}`);
+    });
+  }
+
+  exportVideo(options: VideoSerializer.VideoOptions) {
+    // Create a WebM video.
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    return VideoSerializer.toWebmBlob(vl, anim, options).then(blob => {
+      downloadFile(blob, `${vl.name}.webm`);
+    });
   }
 
   exportSvgSpritesheet() {
     // Create an svg sprite animation.
-    const vl = this.getVectorLayerWithoutHiddenLayers();
-    const anim = this.getAnimationWithoutHiddenBlocks();
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
     // TODO: figure out how to add better jszip typings
     const zip = new JSZip();
     (async () => {
@@ -117,7 +264,23 @@ export class FileExportService {
   }
 
   exportCssKeyframes() {
-    // TODO: implement this
+    // Create an inline SVG that is animated using CSS keyframes.
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const zip = new JSZip();
+    const fileName = `keyframes_${vl.name}`;
+    const svg = CssSerializer.toSvgString(vl, anim);
+    zip.file(`${fileName}.html`, CssSerializer.createHtml(svg, `${fileName}.css`));
+    zip.file(`${fileName}.css`, CssSerializer.toCssString(vl, anim));
+    zip.generateAsync({ type: 'blob' }).then((content: Blob) => {
+      downloadFile(content, `${fileName}.zip`);
+    });
+  }
+
+  exportWebAnimations() {
+    // Create an ES module that animates an inline SVG using the Web Animations API.
+    const { vectorLayer: vl, animation: anim } = this.getBakedVectorLayerAndAnimation();
+    const js = WebAnimationsSerializer.toJavaScriptString(vl, anim);
+    downloadFile(js, `${vl.name}.js`);
   }
 
   private getVectorLayer() {
@@ -138,6 +301,24 @@ export class FileExportService {
     return animation;
   }
 
+  private getAnimations() {
+    let animations: ReadonlyArray<Animation>;
+    this.store
+      .select(getAnimations)
+      .pipe(first())
+      .subscribe(anims => (animations = anims));
+    return animations;
+  }
+
+  private getStateList() {
+    let stateList: StateList;
+    this.store
+      .select(getStateList)
+      .pipe(first())
+      .subscribe(s => (stateList = s));
+    return stateList;
+  }
+
   private getHiddenLayerIds() {
     let hiddenLayerIds: ReadonlySet<string>;
     this.store
@@ -151,8 +332,21 @@ export class FileExportService {
     return LayerUtil.removeLayers(this.getVectorLayer(), ...Array.from(this.getHiddenLayerIds()));
   }
 
-  private getAnimationWithoutHiddenBlocks() {
-    const anim = this.getAnimation().clone();
+  /**
+   * Returns the vector layer and animation to export, with symbol instances
+   * flattened, hidden layers removed, and any property drivers baked into
+   * explicit values and blocks.
+   */
+  private getBakedVectorLayerAndAnimation(animation = this.getAnimation()) {
+    const flattened = ModelUtil.flattenInstances(this.getVectorLayer(), animation);
+    return DriverUtil.bakeDrivers(
+      LayerUtil.removeLayers(flattened.vectorLayer, ...Array.from(this.getHiddenLayerIds())),
+      this.removeHiddenBlocks(flattened.animation),
+    );
+  }
+
+  private removeHiddenBlocks(animation: Animation) {
+    const anim = animation.clone();
     const hiddenLayerIds = this.getHiddenLayerIds();
     anim.blocks = anim.blocks.filter(b => !hiddenLayerIds.has(b.layerId));
     return anim;
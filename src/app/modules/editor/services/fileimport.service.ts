@@ -1,5 +1,6 @@
 import { Injectable } from '@angular/core';
 import { LayerUtil, VectorLayer } from 'app/modules/editor/model/layers';
+import { StateList } from 'app/modules/editor/model/statelist';
 import { Animation } from 'app/modules/editor/model/timeline';
 import { ModelUtil } from 'app/modules/editor/scripts/common';
 import { SvgLoader, VectorDrawableLoader } from 'app/modules/editor/scripts/import';
@@ -17,6 +18,7 @@ declare const ga: Function;
 enum ImportType {
   Svg = 1,
   VectorDrawable,
+  AnimatedVectorDrawable,
   Json,
 }
 
@@ -91,6 +93,21 @@ export class FileImportService {
               console.warn('failed to import SVG');
               callbackFn(undefined);
             });
+        } else if (file.type.includes('xml') && text.includes('<animated-vector')) {
+          // Animated vector drawables replace the current workspace (similar to JSON imports).
+          importType = ImportType.AnimatedVectorDrawable;
+          let parsedObj: { vectorLayer: VectorLayer; animation: Animation };
+          try {
+            parsedObj = VectorDrawableLoader.loadAnimationFromXmlString(text, () => false);
+          } catch (e) {
+            console.warn('Failed to parse the file', e);
+          }
+          if (!parsedObj) {
+            this.onFailure();
+            return;
+          }
+          const { vectorLayer, animation } = parsedObj;
+          this.onSuccess(importType, resetWorkspace, [vectorLayer], [animation], new Set<string>());
         } else if (file.type.includes('xml')) {
           importType = ImportType.VectorDrawable;
           let vl: VectorLayer;
@@ -104,23 +121,30 @@ export class FileImportService {
         } else if (file.type === 'application/json' || file.name.match(/\.shapeshifter$/)) {
           importType = ImportType.Json;
           let vl: VectorLayer;
-          let animation: Animation;
+          let animations: ReadonlyArray<Animation>;
           let hiddenLayerIds: ReadonlySet<string>;
+          let stateList: StateList;
           try {
             const jsonObj = JSON.parse(text);
             const parsedObj = FileExportService.fromJSON(jsonObj);
             vl = parsedObj.vectorLayer;
-            animation = parsedObj.animation;
+            animations = parsedObj.animations;
             hiddenLayerIds = parsedObj.hiddenLayerIds;
-            const regeneratedModels = ModelUtil.regenerateModelIds(vl, animation, hiddenLayerIds);
+            const regeneratedModels = ModelUtil.regenerateModelIds(
+              vl,
+              animations,
+              hiddenLayerIds,
+              parsedObj.stateList,
+            );
             vl = regeneratedModels.vectorLayer;
-            animation = regeneratedModels.animation;
+            animations = regeneratedModels.animations;
             hiddenLayerIds = regeneratedModels.hiddenLayerIds;
+            stateList = regeneratedModels.stateList;
           } catch (e) {
             console.warn('Failed to parse the file', e);
             this.onFailure();
           }
-          this.onSuccess(importType, resetWorkspace, [vl], animation, hiddenLayerIds);
+          this.onSuccess(importType, resetWorkspace, [vl], animations, hiddenLayerIds, stateList);
         }
       };
 
@@ -155,12 +179,18 @@ export class FileImportService {
     importType: ImportType,
     resetWorkspace: boolean,
     vls: ReadonlyArray<VectorLayer>,
-    animation?: Animation,
+    animations?: ReadonlyArray<Animation>,
     hiddenLayerIds?: ReadonlySet<string>,
+    stateList?: StateList,
   ) {
-    if (importType === ImportType.Json) {
-      ga('send', 'event', 'Import', 'JSON');
-      this.store.dispatch(new ResetWorkspace(vls[0], animation, hiddenLayerIds));
+    if (importType === ImportType.Json || importType === ImportType.AnimatedVectorDrawable) {
+      ga(
+        'send',
+        'event',
+        'Import',
+        importType === ImportType.Json ? 'JSON' : 'Animated Vector Drawable',
+      );
+      this.store.dispatch(new ResetWorkspace(vls[0], animations, hiddenLayerIds, stateList));
     } else {
       if (importType === ImportType.Svg) {
         ga('send', 'event', 'Import', 'SVG');
@@ -8,7 +8,13 @@ import {
   PathLayer,
   VectorLayer,
 } from 'app/modules/editor/model/layers';
+import { Path, PathUtil } from 'app/modules/editor/model/paths';
 import { Animation, AnimationBlock, PathAnimationBlock } from 'app/modules/editor/model/timeline';
+import {
+  BooleanOperation,
+  BooleanOperations,
+  PathSimplifier,
+} from 'app/modules/editor/scripts/algorithms';
 import { MathUtil, Matrix, ModelUtil } from 'app/modules/editor/scripts/common';
 import { Action, State, Store } from 'app/modules/editor/store';
 import { BatchAction } from 'app/modules/editor/store/batch/actions';
@@ -24,13 +30,19 @@ import {
   getSelectedLayerIds,
   getVectorLayer,
 } from 'app/modules/editor/store/layers/selectors';
+import { SetCurrentTime, SetIsPlaying } from 'app/modules/editor/store/playback/actions';
+import { SetStateList } from 'app/modules/editor/store/statelist/actions';
+import { getStateList } from 'app/modules/editor/store/statelist/selectors';
 import {
   SelectAnimation,
+  SetActiveAnimation,
   SetAnimation,
+  SetAnimations,
   SetSelectedBlocks,
 } from 'app/modules/editor/store/timeline/actions';
 import {
   getAnimation,
+  getAnimations,
   getSelectedBlockIds,
   isAnimationSelected,
 } from 'app/modules/editor/store/timeline/selectors';
@@ -55,6 +67,90 @@ export class LayerTimelineService {
     this.updateSelections(isSelected, new Set(), new Set());
   }
 
+  /**
+   * Makes the specified animation the one that is displayed in the timeline.
+   * Playback is reset and the newly activated animation is selected.
+   */
+  activateAnimation(animationId: string) {
+    if (this.getAnimation().id !== animationId) {
+      this.store.dispatch(new BatchAction(...this.getActivateAnimationActions(animationId)));
+    }
+  }
+
+  private getActivateAnimationActions(animationId: string): ReadonlyArray<Action> {
+    return [
+      new SetActiveAnimation(animationId),
+      new SetIsPlaying(false),
+      new SetCurrentTime(0),
+      ...this.getUpdateSelectionsActions(true, new Set(), new Set()),
+    ];
+  }
+
+  /**
+   * Adds a new empty animation and activates it.
+   */
+  addAnimation() {
+    const animations = this.getAnimations();
+    const animation = new Animation({
+      name: LayerUtil.getUniqueName('anim', name => _.find(animations, a => a.name === name)),
+      duration: this.getAnimation().duration,
+    });
+    this.store.dispatch(
+      new BatchAction(
+        new SetAnimations([...animations, animation]),
+        ...this.getActivateAnimationActions(animation.id),
+      ),
+    );
+  }
+
+  /**
+   * Adds a copy of the active animation and activates it.
+   */
+  duplicateAnimation() {
+    const animations = this.getAnimations();
+    const animation = this.getAnimation().clone();
+    animation.id = _.uniqueId();
+    animation.name = LayerUtil.getUniqueName(animation.name, name =>
+      _.find(animations, a => a.name === name),
+    );
+    animation.blocks = animation.blocks.map(b => {
+      b = b.clone();
+      b.id = _.uniqueId();
+      return b;
+    });
+    const index = _.findIndex(animations, a => a.id === this.getAnimation().id);
+    this.store.dispatch(
+      new BatchAction(
+        new SetAnimations([
+          ...animations.slice(0, index + 1),
+          animation,
+          ...animations.slice(index + 1),
+        ]),
+        ...this.getActivateAnimationActions(animation.id),
+      ),
+    );
+  }
+
+  /**
+   * Deletes the active animation and activates its neighbor. The last remaining
+   * animation can't be deleted.
+   */
+  deleteAnimation() {
+    const animations = this.getAnimations();
+    if (animations.length <= 1) {
+      return;
+    }
+    const index = _.findIndex(animations, a => a.id === this.getAnimation().id);
+    const neighbor = animations[index + 1] || animations[index - 1];
+    this.store.dispatch(
+      new BatchAction(
+        ...this.getActivateAnimationActions(neighbor.id),
+        new SetAnimations(animations.filter((a, i) => i !== index)),
+        ...this.buildCleanupAnimationIdActions(animations[index].id),
+      ),
+    );
+  }
+
   /**
    * Selects or deselects the specified block ID.
    */
@@ -266,23 +362,25 @@ export class LayerTimelineService {
       new SetVectorLayer(LayerUtil.updateLayer(vl, parent)),
       ...this.buildCleanupLayerIdActions(layerId),
     ];
-    const animation = this.getAnimation();
-    const oldLayerBlocks = animation.blocks.filter(b => b.layerId === layerId);
     const newAnimatableProperties = new Set(newLayer.animatableProperties.keys());
-    // Preserve any blocks that are still animatable with the new layer.
-    const newLayerBlocks = oldLayerBlocks
-      .filter(b => newAnimatableProperties.has(b.propertyName))
-      .map(b => {
-        b = b.clone();
-        b.layerId = newLayer.id;
-        return b;
-      });
-    const newAnimation = animation.clone();
-    newAnimation.blocks = [
-      ...animation.blocks.filter(b => b.layerId !== layerId),
-      ...newLayerBlocks,
-    ];
-    actions.push(new SetAnimation(newAnimation));
+    const newAnimations = this.getAnimations().map(animation => {
+      const oldLayerBlocks = animation.blocks.filter(b => b.layerId === layerId);
+      // Preserve any blocks that are still animatable with the new layer.
+      const newLayerBlocks = oldLayerBlocks
+        .filter(b => newAnimatableProperties.has(b.propertyName))
+        .map(b => {
+          b = b.clone();
+          b.layerId = newLayer.id;
+          return b;
+        });
+      const newAnimation = animation.clone();
+      newAnimation.blocks = [
+        ...animation.blocks.filter(b => b.layerId !== layerId),
+        ...newLayerBlocks,
+      ];
+      return newAnimation;
+    });
+    actions.push(new SetAnimations(newAnimations));
     this.store.dispatch(new BatchAction(...actions));
   }
 
@@ -315,6 +413,8 @@ export class LayerTimelineService {
           l.rotation = degrees;
           l.scaleX = sx;
           l.scaleY = sy;
+          // The motion path has already been applied to the flattened transform.
+          l.motionPath = undefined;
           return l;
         }
         l = l.clone();
@@ -343,33 +443,245 @@ export class LayerTimelineService {
       new SetVectorLayer(LayerUtil.updateLayer(vl, parent)),
       ...this.buildCleanupLayerIdActions(layerId),
     ];
-    const newAnimation = this.getAnimation().clone();
-    // TODO: show a dialog if the user is about to unknowingly delete any blocks?
-    newAnimation.blocks = newAnimation.blocks.filter(b => b.layerId !== layerId);
-    // TODO: also attempt to merge children group animation blocks?
-    newAnimation.blocks = newAnimation.blocks.map(b => {
-      if (!(b instanceof PathAnimationBlock) || !layerChildrenIds.has(b.layerId)) {
-        return b;
-      }
-      const block = b.clone();
-      if (block.fromValue) {
-        block.fromValue = block.fromValue
-          .mutate()
-          .transform(layerTransform)
-          .build();
-      }
-      if (block.toValue) {
-        block.toValue = block.toValue
-          .mutate()
-          .transform(layerTransform)
-          .build();
-      }
-      return block;
+    const newAnimations = this.getAnimations().map(animation => {
+      const newAnimation = animation.clone();
+      // TODO: show a dialog if the user is about to unknowingly delete any blocks?
+      newAnimation.blocks = newAnimation.blocks.filter(b => b.layerId !== layerId);
+      // TODO: also attempt to merge children group animation blocks?
+      newAnimation.blocks = newAnimation.blocks.map(b => {
+        if (!(b instanceof PathAnimationBlock) || !layerChildrenIds.has(b.layerId)) {
+          return b;
+        }
+        const block = b.clone();
+        if (block.fromValue) {
+          block.fromValue = block.fromValue
+            .mutate()
+            .transform(layerTransform)
+            .build();
+        }
+        if (block.toValue) {
+          block.toValue = block.toValue
+            .mutate()
+            .transform(layerTransform)
+            .build();
+        }
+        return block;
+      });
+      return newAnimation;
     });
-    actions.push(new SetAnimation(newAnimation));
+    actions.push(new SetAnimations(newAnimations));
     this.store.dispatch(new BatchAction(...actions));
   }
 
+  /**
+   * Combines the selected path layers (or the subpaths of a single selected path layer)
+   * using the specified boolean operation. The selected layers are replaced by the
+   * resulting path layers, which take on the style of the bottom-most selected layer.
+   */
+  applyBooleanOperation(operation: BooleanOperation) {
+    const vl = this.getVectorLayer();
+    const layers = LayerUtil.getBooleanOperationLayers(vl, this.getSelectedLayerIds());
+    if (!layers) {
+      return;
+    }
+    const bottomLayer = layers[0];
+    // The results are added to the bottom-most layer's parent, so each layer's
+    // transforms must be baked into its path relative to that parent.
+    const parentTransform = LayerUtil.getCanvasTransformForLayer(vl, bottomLayer.id).invert();
+    if (!parentTransform) {
+      return;
+    }
+    const pathsByLayer = layers.map(l => {
+      const transform = Matrix.flatten([
+        parentTransform,
+        LayerUtil.getCanvasTransformForLayer(vl, l.id),
+      ]);
+      const path = l.pathData
+        .mutate()
+        .transform(transform)
+        .build();
+      return layers.length === 1
+        ? path.getSubPaths().map(s => new Path([...s.getCommands()]))
+        : [path];
+    });
+    const paths = _.flatten(pathsByLayer);
+    const fillTypes = _.flatMap(pathsByLayer, (ps, i) => ps.map(() => layers[i].fillType));
+    const resultPaths = BooleanOperations.apply(operation, paths, fillTypes);
+    if (!resultPaths.length) {
+      return;
+    }
+    const layerIds = layers.map(l => l.id);
+    // The results reuse the bottom-most layer's name, so only check for conflicts
+    // with the layers that aren't being replaced.
+    const remainingLayers = [LayerUtil.removeLayers(vl, ...layerIds)];
+    const newNames: string[] = [];
+    const newLayers = resultPaths.map(pathData => {
+      const name = LayerUtil.getUniqueName(bottomLayer.name, n => {
+        return newNames.includes(n) || LayerUtil.findLayerByName(remainingLayers, n);
+      });
+      newNames.push(name);
+      const {
+        fillColor,
+        fillGradient,
+        fillAlpha,
+        strokeColor,
+        strokeGradient,
+        strokeAlpha,
+        strokeWidth,
+        strokeLinecap,
+        strokeLinejoin,
+        strokeMiterLimit,
+        strokeDashArray,
+        strokeDashOffset,
+        fillType,
+      } = bottomLayer;
+      return new PathLayer({
+        name,
+        children: [],
+        pathData,
+        fillColor,
+        fillGradient,
+        fillAlpha,
+        strokeColor,
+        strokeGradient,
+        strokeAlpha,
+        strokeWidth,
+        strokeLinecap,
+        strokeLinejoin,
+        strokeMiterLimit,
+        strokeDashArray,
+        strokeDashOffset,
+        fillType,
+      });
+    });
+    // Replace the bottom-most layer with the results and remove the other layers.
+    let newVl = LayerUtil.removeLayers(vl, ...layerIds.slice(1));
+    const parent = LayerUtil.findParent(newVl, bottomLayer.id).clone();
+    const children = [...parent.children];
+    children.splice(_.findIndex(parent.children, l => l.id === bottomLayer.id), 1, ...newLayers);
+    parent.children = children;
+    newVl = LayerUtil.updateLayer(newVl, parent);
+    const newAnimations = this.getAnimations().map(animation => {
+      if (!animation.blocks.some(b => layerIds.includes(b.layerId))) {
+        return animation;
+      }
+      const newAnimation = animation.clone();
+      newAnimation.blocks = animation.blocks.filter(b => !layerIds.includes(b.layerId));
+      return newAnimation;
+    });
+    this.store.dispatch(
+      new BatchAction(
+        new SetVectorLayer(newVl),
+        new SetAnimations(newAnimations),
+        ...this.buildCleanupLayerIdActions(...layerIds),
+        new SetSelectedLayers(new Set(newLayers.map(l => l.id))),
+      ),
+    );
+  }
+
+  /**
+   * Converts the specified path layer's stroke into a filled path. If the layer
+   * isn't filled, its path is replaced by the stroke's outline. Otherwise the
+   * outline is added as a new layer above it and the layer's stroke is removed.
+   */
+  outlineStroke(layerId: string) {
+    const vl = this.getVectorLayer();
+    const layer = vl.findLayerById(layerId);
+    if (!(layer instanceof PathLayer) || !layer.pathData || !layer.strokeWidth) {
+      return;
+    }
+    const { strokeWidth, strokeLinecap, strokeLinejoin, strokeMiterLimit } = layer;
+    const pathData = PathUtil.outlineStroke(layer.pathData, {
+      strokeWidth,
+      strokeLinecap,
+      strokeLinejoin,
+      strokeMiterLimit,
+    });
+    const isFilled =
+      !!layer.fillColor ||
+      !!layer.fillGradient ||
+      this.getAnimations().some(a => {
+        return a.blocks.some(b => b.layerId === layerId && b.propertyName.startsWith('fill'));
+      });
+    const strokelessLayer = layer.clone();
+    strokelessLayer.strokeColor = '';
+    strokelessLayer.strokeGradient = undefined;
+    strokelessLayer.strokeAlpha = 1;
+    strokelessLayer.strokeWidth = 0;
+    strokelessLayer.strokeDashArray = undefined;
+    strokelessLayer.strokeDashOffset = 0;
+    strokelessLayer.trimPathStart = 0;
+    strokelessLayer.trimPathEnd = 1;
+    strokelessLayer.trimPathOffset = 0;
+    if (!isFilled) {
+      strokelessLayer.pathData = pathData;
+      strokelessLayer.fillColor = layer.strokeColor;
+      strokelessLayer.fillGradient = layer.strokeGradient;
+      strokelessLayer.fillAlpha = layer.strokeAlpha;
+      strokelessLayer.fillType = 'nonZero';
+      this.updateLayer(strokelessLayer);
+      return;
+    }
+    const { strokeColor, strokeGradient, strokeAlpha } = layer;
+    const outlineLayer = new PathLayer({
+      name: LayerUtil.getUniqueLayerName([vl], `${layer.name}_stroke`),
+      children: [],
+      pathData,
+      fillColor: strokeColor,
+      fillGradient: strokeGradient,
+      fillAlpha: strokeAlpha,
+      fillType: 'nonZero',
+    });
+    const parent = LayerUtil.findParent(vl, layerId).clone();
+    const children = [...parent.children];
+    children.splice(
+      _.findIndex(parent.children, l => l.id === layerId),
+      1,
+      strokelessLayer,
+      outlineLayer,
+    );
+    parent.children = children;
+    this.store.dispatch(
+      new BatchAction(
+        new SetVectorLayer(LayerUtil.updateLayer(vl, parent)),
+        new SetSelectedLayers(new Set([outlineLayer.id])),
+      ),
+    );
+  }
+
+  /**
+   * Reduces the number of commands in the specified path layer's path data.
+   */
+  simplifyPath(layerId: string, options: PathSimplifier.SimplifyOptions) {
+    const layer = this.getVectorLayer().findLayerById(layerId);
+    if (!(layer instanceof PathLayer || layer instanceof ClipPathLayer) || !layer.pathData) {
+      return;
+    }
+    const pathData = PathSimplifier.simplify(layer.pathData, options);
+    if (pathData === layer.pathData) {
+      return;
+    }
+    const clonedLayer = layer.clone();
+    clonedLayer.pathData = pathData;
+    this.updateLayer(clonedLayer);
+  }
+
+  /**
+   * Removes any state transitions that are played using the deleted animations.
+   */
+  private buildCleanupAnimationIdActions(...deletedAnimationIds: string[]): Action[] {
+    const stateList = this.queryStore(getStateList);
+    const transitions = stateList.transitions.filter(
+      t => !deletedAnimationIds.includes(t.animationId),
+    );
+    if (transitions.length === stateList.transitions.length) {
+      return [];
+    }
+    const newStateList = stateList.clone();
+    newStateList.transitions = transitions;
+    return [new SetStateList(newStateList)];
+  }
+
   private buildCleanupLayerIdActions(...deletedLayerIds: string[]) {
     const collapsedLayerIds = this.getCollapsedLayerIds();
     const hiddenLayerIds = this.getHiddenLayerIds();
@@ -455,7 +767,9 @@ export class LayerTimelineService {
     } else {
       // Ungroup selected groups layers.
       const newSelectedLayers: Layer[] = [];
-      tempSelLayers.filter(layer => layer instanceof GroupLayer).forEach(groupLayer => {
+      // Symbols can't be ungrouped without breaking their instances.
+      const groupLayers = tempSelLayers.filter(l => l instanceof GroupLayer && !l.isSymbol);
+      groupLayers.forEach(groupLayer => {
         // Move children into parent.
         const parent = LayerUtil.findParent(vl, groupLayer.id).clone();
         const indexInParent = Math.max(
@@ -487,11 +801,28 @@ export class LayerTimelineService {
     const selectedLayerIds = this.getSelectedLayerIds();
 
     let vl = this.getVectorLayer();
+    let animations = this.getAnimations();
     if (selectedLayerIds.has(vl.id)) {
       vl = new VectorLayer();
       collapsedLayerIds.clear();
       hiddenLayerIds.clear();
     } else {
+      // Instances of deleted symbols are converted into plain groups so that
+      // they don't end up referencing a symbol that no longer exists.
+      const deletedSymbolIds = new Set<string>();
+      selectedLayerIds.forEach(layerId => {
+        const layer = vl.findLayerById(layerId);
+        if (layer) {
+          layer.walk(l => {
+            if (l instanceof GroupLayer && l.isSymbol) {
+              deletedSymbolIds.add(l.id);
+            }
+          });
+        }
+      });
+      const flattened = ModelUtil.flattenInstancesOfSymbols(vl, animations, deletedSymbolIds);
+      vl = flattened.vectorLayer;
+      animations = flattened.animations;
       selectedLayerIds.forEach(layerId => {
         vl = LayerUtil.removeLayers(vl, layerId);
         collapsedLayerIds.delete(layerId);
@@ -499,23 +830,28 @@ export class LayerTimelineService {
       });
     }
 
-    let animation = this.getAnimation();
+    const cleanupAnimationIdActions: Action[] = [];
     if (this.isAnimationSelected()) {
-      animation = new Animation();
+      // Deleting the last remaining animation replaces it with an empty one.
+      const animationId = this.getAnimation().id;
+      animations =
+        animations.length > 1 ? animations.filter(a => a.id !== animationId) : [new Animation()];
+      cleanupAnimationIdActions.push(...this.buildCleanupAnimationIdActions(animationId));
     }
 
+    // Remove any selected blocks and any blocks corresponding to deleted layers.
     const selectedBlockIds = this.getSelectedBlockIds();
-    if (selectedBlockIds.size) {
-      animation = animation.clone();
-      animation.blocks = animation.blocks.filter(b => !selectedBlockIds.has(b.id));
-    }
-
-    // Remove any blocks corresponding to deleted layers.
-    const filteredBlocks = animation.blocks.filter(b => !!vl.findLayerById(b.layerId));
-    if (filteredBlocks.length !== animation.blocks.length) {
+    animations = animations.map(animation => {
+      const filteredBlocks = animation.blocks.filter(
+        b => !selectedBlockIds.has(b.id) && !!vl.findLayerById(b.layerId),
+      );
+      if (filteredBlocks.length === animation.blocks.length) {
+        return animation;
+      }
       animation = animation.clone();
       animation.blocks = filteredBlocks;
-    }
+      return animation;
+    });
 
     return [
       new SetVectorLayer(vl),
@@ -523,8 +859,9 @@ export class LayerTimelineService {
       new SetHiddenLayers(hiddenLayerIds),
       new SetSelectedLayers(new Set()),
       new SelectAnimation(false),
-      new SetAnimation(animation),
+      new SetAnimations(animations),
       new SetSelectedBlocks(new Set()),
+      ...cleanupAnimationIdActions,
     ];
   }
 
@@ -540,6 +877,45 @@ export class LayerTimelineService {
     this.store.dispatch(new SetAnimation(animation));
   }
 
+  /**
+   * Adds a keyframe to the specified block at the given time. The keyframe is
+   * initialized with the block's interpolated value at that time.
+   */
+  addKeyframe(blockId: string, time: number) {
+    const block = _.find(this.getAnimation().blocks, b => b.id === blockId);
+    if (!block || time <= block.startTime || time >= block.endTime) {
+      return;
+    }
+    const fraction = (time - block.startTime) / (block.endTime - block.startTime);
+    if (block.keyframes.some(k => Math.abs(k.fraction - fraction) < 1e-6)) {
+      return;
+    }
+    const property = block.inspectableProperties.get('fromValue');
+    const clonedBlock = block.clone();
+    clonedBlock.keyframes = [
+      ...block.keyframes,
+      {
+        fraction,
+        value: property.cloneValue(block.getIterationValueAtTime(time)),
+        interpolator: block.interpolator,
+      },
+    ];
+    this.updateBlocks([AnimationBlock.from(clonedBlock)]);
+  }
+
+  /**
+   * Removes the keyframe at the given index from the specified block.
+   */
+  removeKeyframe(blockId: string, keyframeIndex: number) {
+    const block = _.find(this.getAnimation().blocks, b => b.id === blockId);
+    if (!block) {
+      return;
+    }
+    const clonedBlock = block.clone();
+    clonedBlock.keyframes = block.keyframes.filter((k, i) => i !== keyframeIndex);
+    this.updateBlocks([clonedBlock]);
+  }
+
   addBlocks(
     blocks: Array<{
       id?: string;
@@ -637,11 +1013,13 @@ export class LayerTimelineService {
 
     // Generate the new block.
     const property = layer.animatableProperties.get(propertyName);
-    let type: 'path' | 'color' | 'number';
+    let type: 'path' | 'color' | 'number' | 'gradient';
     if (property.getTypeName() === 'PathProperty') {
       type = 'path';
     } else if (property.getTypeName() === 'ColorProperty') {
       type = 'color';
+    } else if (property.getTypeName() === 'GradientProperty') {
+      type = 'gradient';
     } else {
       type = 'number';
     }
@@ -702,6 +1080,10 @@ export class LayerTimelineService {
     return this.queryStore(getAnimation);
   }
 
+  getAnimations() {
+    return this.queryStore(getAnimations);
+  }
+
   isAnimationSelected() {
     return this.queryStore(isAnimationSelected);
   }
@@ -15,12 +15,14 @@ import {
   SetHoveredLayerId,
   SetRotateItemsInfo,
   SetSelectionBox,
+  SetShapeToolOptions,
   SetSnapGuideInfo,
   SetSplitCurveInfo,
   SetToolMode,
   SetTooltipInfo,
   SetTransformPathsInfo,
   SetZoomPanInfo,
+  ShapeToolOptions,
   SnapGuideInfo,
   SplitCurveInfo,
   TooltipInfo,
@@ -34,6 +36,7 @@ import {
   getHoveredLayerId,
   getRotateItemsInfo,
   getSelectionBox,
+  getShapeToolOptions,
   getSnapGuideInfo,
   getSplitCurveInfo,
   getToolMode,
@@ -124,6 +127,11 @@ export class PaperService {
     this.setCursorType(CursorType.Pencil);
   }
 
+  enterPenMode() {
+    this.setToolMode(ToolMode.Pen);
+    this.setCursorType(CursorType.Pen);
+  }
+
   enterCreateRectangleMode() {
     this.setToolMode(ToolMode.Rectangle);
     this.setCursorType(CursorType.Crosshair);
@@ -134,6 +142,26 @@ export class PaperService {
     this.setCursorType(CursorType.Crosshair);
   }
 
+  enterCreateRoundedRectangleMode() {
+    this.setToolMode(ToolMode.RoundedRectangle);
+    this.setCursorType(CursorType.Crosshair);
+  }
+
+  enterCreatePolygonMode() {
+    this.setToolMode(ToolMode.Polygon);
+    this.setCursorType(CursorType.Crosshair);
+  }
+
+  enterCreateStarMode() {
+    this.setToolMode(ToolMode.Star);
+    this.setCursorType(CursorType.Crosshair);
+  }
+
+  enterCreateLineMode() {
+    this.setToolMode(ToolMode.Line);
+    this.setCursorType(CursorType.Crosshair);
+  }
+
   setVectorLayer(vl: VectorLayer) {
     // TODO: avoid running in angular zone whenever possible?
     this.ngZone.run(() => this.layerTimelineService.setVectorLayer(vl));
@@ -241,6 +269,16 @@ export class PaperService {
     }
   }
 
+  setShapeToolOptions(options: ShapeToolOptions) {
+    if (!_.isEqual(this.queryStore(getShapeToolOptions), options)) {
+      this.dispatchStore(new SetShapeToolOptions(options));
+    }
+  }
+
+  getShapeToolOptions() {
+    return this.queryStore(getShapeToolOptions);
+  }
+
   setSnapGuideInfo(info: SnapGuideInfo | undefined) {
     if (!_.isEqual(this.queryStore(getSnapGuideInfo), info)) {
       this.dispatchStore(new SetSnapGuideInfo(info));
@@ -113,6 +113,10 @@ export class PlaybackService {
     this.setIsPlaying(!this.queryStore(getIsPlaying));
   }
 
+  pause() {
+    this.setIsPlaying(false);
+  }
+
   private setIsPlaying(isPlaying: boolean) {
     if (isPlaying !== this.queryStore(getIsPlaying)) {
       this.store.dispatch(new SetIsPlaying(isPlaying));
@@ -1,14 +1,18 @@
 import { getActionMode, isActionMode } from 'app/modules/editor/store/actionmode/selectors';
 import {
   getCollapsedLayerIds,
+  getBooleanOperationLayers,
   getHiddenLayerIds,
   getSelectedLayerIds,
   getVectorLayer,
 } from 'app/modules/editor/store/layers/selectors';
 import { getHoveredLayerId } from 'app/modules/editor/store/paper/selectors';
+import { getAnimatedVectorLayer } from 'app/modules/editor/store/playback/selectors';
 import { isBeingReset } from 'app/modules/editor/store/reset/selectors';
+import { getStateList } from 'app/modules/editor/store/statelist/selectors';
 import {
   getAnimation,
+  getAnimations,
   getSelectedBlockIds,
   getSelectedBlockLayerIds,
   getSingleSelectedPathBlock,
@@ -33,10 +37,12 @@ export const getPropertyInputState = createStructuredSelector({
 
 export const getLayerListTreeState = createStructuredSelector({
   animation: getAnimation,
+  animations: getAnimations,
   selectedLayerIds: getSelectedLayerIds,
   collapsedLayerIds: getCollapsedLayerIds,
   hiddenLayerIds: getHiddenLayerIds,
   hoveredLayerId: getHoveredLayerId,
+  booleanOperationLayers: getBooleanOperationLayers,
   isActionMode,
 });
 
@@ -49,6 +55,7 @@ export const getTimelineAnimationRowState = createStructuredSelector({
 
 export const getLayerTimelineState = createStructuredSelector({
   animation: getAnimation,
+  animations: getAnimations,
   vectorLayer: getVectorLayer,
   isAnimationSelected,
   selectedBlockIds: getSelectedBlockIds,
@@ -58,7 +65,17 @@ export const getLayerTimelineState = createStructuredSelector({
   singleSelectedPathBlock: getSingleSelectedPathBlock,
 });
 
+export const getEditStateListState = createStructuredSelector({
+  stateList: getStateList,
+  animations: getAnimations,
+  animatedVectorLayer: getAnimatedVectorLayer,
+});
+
 export const isWorkspaceDirty = createSelector(
-  [getVectorLayer, getAnimation],
-  (vl, anim) => vl.children.length > 0 || anim.blocks.length > 0,
+  [getVectorLayer, getAnimations, getStateList],
+  (vl, anims, stateList) =>
+    vl.children.length > 0 ||
+    anims.length > 1 ||
+    anims[0].blocks.length > 0 ||
+    stateList.states.length > 0,
 );
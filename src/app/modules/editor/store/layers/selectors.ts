@@ -1,3 +1,4 @@
+import { LayerUtil } from 'app/modules/editor/model/layers';
 import { createDeepEqualSelector, getEditorState } from 'app/modules/editor/store/selectors';
 import { createSelector } from 'reselect';
 
@@ -9,3 +10,7 @@ export const getCollapsedLayerIds = createDeepEqualSelector(
   l => l.collapsedLayerIds,
 );
 export const getHiddenLayerIds = createDeepEqualSelector(getLayerState, l => l.hiddenLayerIds);
+export const getBooleanOperationLayers = createSelector(
+  [getVectorLayer, getSelectedLayerIds],
+  (vl, layerIds) => LayerUtil.getBooleanOperationLayers(vl, layerIds),
+);
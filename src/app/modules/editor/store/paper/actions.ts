@@ -15,6 +15,7 @@ export enum PaperActionTypes {
   SetZoomPanInfo = '__paper__SET_ZOOM_PAN_INFO',
   SetTooltipInfo = '__paper__SET_TOOLTIP_INFO',
   SetHoveredLayerId = '__paper__SET_HOVERED_LAYER_ID',
+  SetShapeToolOptions = '__paper__SET_SHAPE_TOOL_OPTIONS',
 }
 
 export class SetToolMode implements Action {
@@ -77,6 +78,11 @@ export class SetHoveredLayerId implements Action {
   constructor(readonly hoveredLayerId: string | undefined) {}
 }
 
+export class SetShapeToolOptions implements Action {
+  readonly type = PaperActionTypes.SetShapeToolOptions;
+  constructor(readonly shapeToolOptions: ShapeToolOptions) {}
+}
+
 export type PaperActions =
   | SetToolMode
   | SetSelectionBox
@@ -89,7 +95,8 @@ export type PaperActions =
   | SetSnapGuideInfo
   | SetZoomPanInfo
   | SetTooltipInfo
-  | SetHoveredLayerId;
+  | SetHoveredLayerId
+  | SetShapeToolOptions;
 
 export interface SelectionBox {
   readonly from: Point;
@@ -144,3 +151,12 @@ export interface TooltipInfo {
   readonly point: Point;
   readonly label: string;
 }
+
+export interface ShapeToolOptions {
+  readonly cornerRadius: number;
+  readonly polygonSides: number;
+  readonly starPoints: number;
+  // The star's inner radius as a fraction of its outer radius.
+  readonly starInnerRadius: number;
+  readonly hasArrowHead: boolean;
+}
@@ -7,6 +7,7 @@ import {
   PaperActions,
   RotateItemsInfo,
   SelectionBox,
+  ShapeToolOptions,
   SnapGuideInfo,
   SplitCurveInfo,
   TooltipInfo,
@@ -21,6 +22,7 @@ export interface State {
   readonly zoomPanInfo: ZoomPanInfo;
   readonly toolModeInfo: ToolModeInfo;
   readonly cursorType: CursorType;
+  readonly shapeToolOptions: ShapeToolOptions;
 }
 
 interface ToolModeInfo {
@@ -41,6 +43,13 @@ export function buildInitialState(): State {
     zoomPanInfo: { zoom: 1, translation: { tx: 0, ty: 0 } },
     toolModeInfo: { toolMode: ToolMode.Default },
     cursorType: CursorType.Default,
+    shapeToolOptions: {
+      cornerRadius: 2,
+      polygonSides: 6,
+      starPoints: 5,
+      starInnerRadius: 0.5,
+      hasArrowHead: false,
+    },
   };
 }
 
@@ -76,6 +85,8 @@ export function reducer(state = buildInitialState(), action: PaperActions): Stat
     case PaperActionTypes.SetHoveredLayerId:
       const { hoveredLayerId } = action;
       return { ...state, toolModeInfo: { ...toolModeInfo, hoveredLayerId } };
+    case PaperActionTypes.SetShapeToolOptions:
+      return { ...state, shapeToolOptions: action.shapeToolOptions };
   }
   return state;
 }
@@ -1,5 +1,10 @@
+import { InstanceLayer } from 'app/modules/editor/model/layers';
 import { ToolMode } from 'app/modules/editor/model/paper';
-import { getSelectedLayerIds, getVectorLayer } from 'app/modules/editor/store/layers/selectors';
+import {
+  getBooleanOperationLayers,
+  getSelectedLayerIds,
+  getVectorLayer,
+} from 'app/modules/editor/store/layers/selectors';
 import { createDeepEqualSelector, getEditorState } from 'app/modules/editor/store/selectors';
 import { createSelector, createStructuredSelector } from 'reselect';
 
@@ -20,6 +25,7 @@ export const getSnapGuideInfo = createDeepEqualSelector(getToolModeInfo, p => p.
 export const getTooltipInfo = createDeepEqualSelector(getToolModeInfo, p => p.tooltipInfo);
 export const getCursorType = createDeepEqualSelector(getPaperState, p => p.cursorType);
 export const getHoveredLayerId = createDeepEqualSelector(getToolModeInfo, p => p.hoveredLayerId);
+export const getShapeToolOptions = createDeepEqualSelector(getPaperState, p => p.shapeToolOptions);
 
 const getSingleSelectedChildlessLayer = createSelector(
   [getVectorLayer, getSelectedLayerIds],
@@ -30,7 +36,8 @@ const getSingleSelectedChildlessLayer = createSelector(
     const layerId = layerIds.values().next().value;
     const layer = vl.findLayerById(layerId);
     // TODO: consolidate this logic in a single place (the layer.children.length check is used in gestures too)
-    return layer.children.length ? undefined : layer;
+    // Symbol instances don't have paths of their own that can be edited.
+    return layer.children.length || layer instanceof InstanceLayer ? undefined : layer;
   },
 );
 
@@ -40,6 +47,7 @@ const isRotateItemsEnabled = createSelector(getSelectedLayerIds, layerIds => lay
 const isRotateItemsChecked = createSelector(getRotateItemsInfo, rii => !!rii);
 const isTransformPathsEnabled = createSelector(getSingleSelectedChildlessLayer, layer => !!layer);
 const isTransformPathsChecked = createSelector(getTransformPathsInfo, tpi => !!tpi);
+const isBooleanOperationEnabled = createSelector(getBooleanOperationLayers, layers => !!layers);
 const isDefaultChecked = createSelector(
   [getToolMode, isEditPathChecked, isRotateItemsChecked, isTransformPathsChecked],
   (
@@ -65,4 +73,6 @@ export const getToolPanelState = createStructuredSelector({
   isRotateItemsChecked,
   isTransformPathsEnabled,
   isTransformPathsChecked,
+  isBooleanOperationEnabled,
+  shapeToolOptions: getShapeToolOptions,
 });
@@ -8,6 +8,7 @@ import * as fromPaper from './paper/reducer';
 import * as fromPlayback from './playback/reducer';
 import * as metaReset from './reset/metareducer';
 import * as fromReset from './reset/reducer';
+import * as fromStateList from './statelist/reducer';
 import * as metaStoreFreeze from './storefreeze/metareducer';
 import * as fromTheme from './theme/reducer';
 import * as fromTimeline from './timeline/reducer';
@@ -23,6 +24,7 @@ export interface EditorState {
   readonly reset: fromReset.State;
   readonly theme: fromTheme.State;
   readonly paper: fromPaper.State;
+  readonly statelist: fromStateList.State;
 }
 
 export const reducers = {
@@ -33,6 +35,7 @@ export const reducers = {
   reset: fromReset.reducer,
   theme: fromTheme.reducer,
   paper: fromPaper.reducer,
+  statelist: fromStateList.reducer,
 };
 
 const prodMetaReducers = [
@@ -1,4 +1,5 @@
 import { VectorLayer } from 'app/modules/editor/model/layers';
+import { StateList } from 'app/modules/editor/model/statelist';
 import { Animation } from 'app/modules/editor/model/timeline';
 import { Action } from 'app/modules/editor/store';
 
@@ -10,15 +11,17 @@ export class ResetWorkspace implements Action {
   readonly type = ResetActionTypes.ResetWorkspace;
   readonly payload: {
     vectorLayer?: VectorLayer;
-    animation?: Animation;
+    animations?: ReadonlyArray<Animation>;
     hiddenLayerIds?: ReadonlySet<string>;
+    stateList?: StateList;
   };
   constructor(
     vectorLayer?: VectorLayer,
-    animation?: Animation,
+    animations?: ReadonlyArray<Animation>,
     hiddenLayerIds?: ReadonlySet<string>,
+    stateList?: StateList,
   ) {
-    this.payload = { vectorLayer, animation, hiddenLayerIds };
+    this.payload = { vectorLayer, animations, hiddenLayerIds, stateList };
   }
 }
 
@@ -10,7 +10,7 @@ export function metaReducer(reducer: ActionReducer<EditorState>): ActionReducer<
     }
     state = reducer(state, action);
     if (action.type === ResetActionTypes.ResetWorkspace) {
-      const { vectorLayer, animation, hiddenLayerIds } = action.payload;
+      const { vectorLayer, animations, hiddenLayerIds, stateList } = action.payload;
       if (vectorLayer) {
         const { layers } = state;
         state = {
@@ -22,16 +22,20 @@ export function metaReducer(reducer: ActionReducer<EditorState>): ActionReducer<
           },
         };
       }
-      if (animation) {
+      if (animations && animations.length) {
         const { timeline } = state;
         state = {
           ...state,
           timeline: {
             ...timeline,
-            animation,
+            animations,
+            activeAnimationId: animations[0].id,
           },
         };
       }
+      if (stateList) {
+        state = { ...state, statelist: { ...state.statelist, stateList } };
+      }
     }
     return state;
   };
@@ -0,0 +1,16 @@
+import { StateList } from 'app/modules/editor/model/statelist';
+import { Action } from 'app/modules/editor/store';
+
+export enum StateListActionTypes {
+  SetStateList = '__statelist__SET_STATE_LIST',
+}
+
+export class SetStateList implements Action {
+  readonly type = StateListActionTypes.SetStateList;
+  readonly payload: { stateList: StateList };
+  constructor(stateList: StateList) {
+    this.payload = { stateList };
+  }
+}
+
+export type StateListActions = SetStateList;
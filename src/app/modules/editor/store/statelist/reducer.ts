@@ -0,0 +1,20 @@
+import { StateList } from 'app/modules/editor/model/statelist';
+
+import { StateListActionTypes, StateListActions } from './actions';
+
+export interface State {
+  readonly stateList: StateList;
+}
+
+export function buildInitialState() {
+  return {
+    stateList: new StateList(),
+  } as State;
+}
+
+export function reducer(state = buildInitialState(), action: StateListActions) {
+  if (action.type === StateListActionTypes.SetStateList) {
+    return { ...state, stateList: action.payload.stateList };
+  }
+  return state;
+}
@@ -0,0 +1,5 @@
+import { getEditorState } from 'app/modules/editor/store/selectors';
+import { createSelector } from 'reselect';
+
+const getStateListState = createSelector(getEditorState, s => s.statelist);
+export const getStateList = createSelector(getStateListState, s => s.stateList);
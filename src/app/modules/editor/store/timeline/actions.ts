@@ -3,6 +3,8 @@ import { Action } from 'app/modules/editor/store';
 
 export enum TimelineActionTypes {
   SetAnimation = '__timeline__SET_ANIMATION',
+  SetAnimations = '__timeline__SET_ANIMATIONS',
+  SetActiveAnimation = '__timeline__SET_ACTIVE_ANIMATION',
   SelectAnimation = '__timeline__SELECT_ANIMATION',
   SetSelectedBlocks = '__timeline__SET_SELECTED_BLOCKS',
 }
@@ -15,6 +17,22 @@ export class SetAnimation implements Action {
   }
 }
 
+export class SetAnimations implements Action {
+  readonly type = TimelineActionTypes.SetAnimations;
+  readonly payload: { animations: ReadonlyArray<Animation> };
+  constructor(animations: ReadonlyArray<Animation>) {
+    this.payload = { animations };
+  }
+}
+
+export class SetActiveAnimation implements Action {
+  readonly type = TimelineActionTypes.SetActiveAnimation;
+  readonly payload: { animationId: string };
+  constructor(animationId: string) {
+    this.payload = { animationId };
+  }
+}
+
 export class SelectAnimation implements Action {
   readonly type = TimelineActionTypes.SelectAnimation;
   readonly payload: { isAnimationSelected: boolean };
@@ -31,4 +49,9 @@ export class SetSelectedBlocks implements Action {
   }
 }
 
-export type TimelineActions = SetAnimation | SelectAnimation | SetSelectedBlocks;
+export type TimelineActions =
+  | SetAnimation
+  | SetAnimations
+  | SetActiveAnimation
+  | SelectAnimation
+  | SetSelectedBlocks;
@@ -1,16 +1,21 @@
 import { Animation } from 'app/modules/editor/model/timeline';
+import * as _ from 'lodash';
 
 import { TimelineActionTypes, TimelineActions } from './actions';
 
 export interface State {
-  readonly animation: Animation;
+  // The list of animations is never empty.
+  readonly animations: ReadonlyArray<Animation>;
+  readonly activeAnimationId: string;
   readonly isAnimationSelected: boolean;
   readonly selectedBlockIds: ReadonlySet<string>;
 }
 
 export function buildInitialState() {
+  const animation = new Animation();
   return {
-    animation: new Animation(),
+    animations: [animation],
+    activeAnimationId: animation.id,
     isAnimationSelected: false,
     selectedBlockIds: new Set<string>(),
   } as State;
@@ -18,8 +23,37 @@ export function buildInitialState() {
 
 export function reducer(state = buildInitialState(), action: TimelineActions) {
   switch (action.type) {
-    case TimelineActionTypes.SetAnimation:
-      return { ...state, animation: action.payload.animation };
+    case TimelineActionTypes.SetAnimation: {
+      const { animation } = action.payload;
+      if (!_.some(state.animations, a => a.id === animation.id)) {
+        // Replace the active animation if the animation doesn't exist yet.
+        return {
+          ...state,
+          animations: state.animations.map(a => (a.id === state.activeAnimationId ? animation : a)),
+          activeAnimationId: animation.id,
+        };
+      }
+      const animations = state.animations.map(a => (a.id === animation.id ? animation : a));
+      return { ...state, animations };
+    }
+    case TimelineActionTypes.SetAnimations: {
+      let { animations } = action.payload;
+      if (!animations.length) {
+        animations = [new Animation()];
+      }
+      let { activeAnimationId } = state;
+      if (!_.some(animations, a => a.id === activeAnimationId)) {
+        activeAnimationId = animations[0].id;
+      }
+      return { ...state, animations, activeAnimationId };
+    }
+    case TimelineActionTypes.SetActiveAnimation: {
+      const { animationId } = action.payload;
+      if (!_.some(state.animations, a => a.id === animationId)) {
+        return state;
+      }
+      return { ...state, activeAnimationId: animationId };
+    }
     case TimelineActionTypes.SelectAnimation:
       return { ...state, isAnimationSelected: action.payload.isAnimationSelected };
     case TimelineActionTypes.SetSelectedBlocks:
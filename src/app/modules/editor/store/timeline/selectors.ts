@@ -4,7 +4,11 @@ import * as _ from 'lodash';
 import { createSelector } from 'reselect';
 
 const getTimelineState = createSelector(getEditorState, s => s.timeline);
-export const getAnimation = createSelector(getTimelineState, t => t.animation);
+export const getAnimations = createSelector(getTimelineState, t => t.animations);
+export const getAnimation = createSelector(
+  getTimelineState,
+  t => _.find(t.animations, a => a.id === t.activeAnimationId) || t.animations[0],
+);
 export const isAnimationSelected = createSelector(getTimelineState, t => t.isAnimationSelected);
 export const getSelectedBlockIds = createDeepEqualSelector(
   getTimelineState,
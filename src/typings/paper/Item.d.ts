@@ -108,7 +108,7 @@ declare module 'paper' {
     /**
      * A plain javascript object which can be used to store arbitrary data on the item.
      */
-    data: { id: string };
+    data: { id: string; symbolId?: string };
 
     /**
      * The item's position within the parent item's coordinate system. By default, this is